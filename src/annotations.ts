@@ -0,0 +1,266 @@
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+
+// MCP tool annotations, so clients can auto-approve safe calls and ask before destructive
+// or paid ones. The credit cost travels in the tool's _meta (annotations have no custom fields).
+
+// _meta key of a tool's credit cost
+export const CREDIT_COST_META_KEY = "ai.zipf/credit_cost";
+
+// What a tool does to the account (paid tools are never annotated read-only or idempotent):
+// read        changes nothing
+// additive    creates something new (repeating creates another)
+// idempotent  changes something, repeating the same call has no further effect
+// destructive overwrites, cancels or deletes something
+type ToolEffect = "read" | "additive" | "idempotent" | "destructive";
+
+interface ToolInfo {
+	title: string;
+	effect: ToolEffect;
+	// Reaches the open web (searches, crawls, workflow runs, Slack), not just the ZipfAI account
+	openWorld?: boolean;
+	// Credits per call, as in the description (e.g. "1-2", "1-2 per page"); omitted when FREE
+	credits?: string;
+	// Entry of zipfai_status's credit_costs that prices the tool, where there is one
+	creditCostKey?: string;
+}
+
+// Credit cost published in _meta
+export interface CreditCost {
+	free: boolean;
+	estimate: string;
+}
+
+const EFFECT_HINTS: Record<
+	ToolEffect,
+	Pick<ToolAnnotations, "readOnlyHint" | "destructiveHint" | "idempotentHint">
+> = {
+	read: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+	additive: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: false,
+	},
+	idempotent: {
+		readOnlyHint: false,
+		destructiveHint: false,
+		idempotentHint: true,
+	},
+	destructive: {
+		readOnlyHint: false,
+		destructiveHint: true,
+		idempotentHint: true,
+	},
+};
+
+export const TOOL_INFO: Record<string, ToolInfo> = {
+	// Status
+	zipfai_status: { title: "Account Status", effect: "read" },
+	zipfai_usage_report: { title: "Usage Report", effect: "read" },
+
+	// Search and crawl
+	zipfai_quick_search: {
+		title: "Quick Web Search",
+		effect: "read",
+		openWorld: true,
+		credits: "1",
+		creditCostKey: "search",
+	},
+	zipfai_search: {
+		title: "Web Search",
+		effect: "read",
+		openWorld: true,
+		credits: "1-2",
+		creditCostKey: "search",
+	},
+	zipfai_ask: {
+		title: "Ask the Web",
+		effect: "read",
+		openWorld: true,
+		credits: "2-5",
+		creditCostKey: "ask",
+	},
+	zipfai_crawl: {
+		title: "Crawl Web Pages",
+		effect: "read",
+		openWorld: true,
+		credits: "1-2 per page",
+		creditCostKey: "crawl_per_page",
+	},
+	zipfai_get_crawl: { title: "Get Crawl Results", effect: "read" },
+	zipfai_cancel_crawl: { title: "Cancel Crawl", effect: "destructive" },
+	zipfai_suggest_schema: {
+		title: "Suggest Extraction Schema",
+		effect: "read",
+		openWorld: true,
+		credits: "2",
+	},
+	zipfai_research: {
+		title: "Research (Search + Crawl)",
+		effect: "read",
+		openWorld: true,
+		credits: "variable (search + crawl)",
+	},
+
+	// Sessions
+	zipfai_create_session: { title: "Create Session", effect: "additive" },
+	zipfai_session_search: {
+		title: "Search in Session",
+		effect: "additive",
+		openWorld: true,
+		credits: "1-2",
+		creditCostKey: "search",
+	},
+	zipfai_session_crawl: {
+		title: "Crawl in Session",
+		effect: "additive",
+		openWorld: true,
+		credits: "1-2 per page",
+		creditCostKey: "crawl_per_page",
+	},
+	zipfai_list_sessions: { title: "List Sessions", effect: "read" },
+	// Only changes the local current session
+	zipfai_use_session: { title: "Use Session", effect: "idempotent" },
+	zipfai_get_session: { title: "Get Session", effect: "read" },
+	zipfai_session_timeline: { title: "Session Timeline", effect: "read" },
+	zipfai_export_session: { title: "Export Session Dossier", effect: "read" },
+	// A completed session can't take new operations
+	zipfai_complete_session: { title: "Complete Session", effect: "destructive" },
+	zipfai_archive_session: { title: "Archive Session", effect: "idempotent" },
+	zipfai_resume_session: { title: "Resume Session", effect: "idempotent" },
+
+	// Workflows (get_workflow, workflow_timeline, workflow_diff and workflow_updates mostly
+	// read, but their assessments argument submits answers to quality questions and can
+	// auto-fix the workflow, so they aren't annotated read-only; read_only mode refuses it)
+	zipfai_assess_intent: { title: "Assess Monitoring Intent", effect: "read" },
+	zipfai_plan_workflow: { title: "Plan Workflow", effect: "read" },
+	zipfai_create_workflow: {
+		title: "Create Workflow",
+		effect: "additive",
+		openWorld: true,
+		credits: "1-2 per execution",
+	},
+	zipfai_list_workflows: { title: "List Workflows", effect: "read" },
+	zipfai_get_workflow: { title: "Get Workflow", effect: "additive" },
+	zipfai_update_workflow: { title: "Update Workflow", effect: "destructive" },
+	zipfai_execute_workflow: {
+		title: "Execute Workflow",
+		effect: "additive",
+		openWorld: true,
+		credits: "1-2",
+	},
+	zipfai_workflow_timeline: { title: "Workflow Timeline", effect: "additive" },
+	zipfai_workflow_diff: { title: "Workflow Diff", effect: "additive" },
+	zipfai_workflow_updates: {
+		title: "Workflow Updates Digest",
+		effect: "additive",
+	},
+	zipfai_delete_workflow: { title: "Delete Workflow", effect: "destructive" },
+	zipfai_get_workflow_slack_status: {
+		title: "Workflow Slack Status",
+		effect: "read",
+	},
+	zipfai_test_workflow_slack: {
+		title: "Send Test Slack Message",
+		effect: "additive",
+		openWorld: true,
+	},
+
+	// Quality
+	zipfai_execution_ratings: { title: "Execution Ratings", effect: "read" },
+	zipfai_rate_execution: { title: "Rate Execution", effect: "idempotent" },
+	zipfai_batch_rate_executions: {
+		title: "Rate Executions in Batch",
+		effect: "idempotent",
+	},
+	zipfai_feedback_queue: { title: "Feedback Queue", effect: "read" },
+	zipfai_execution_rating_stats: {
+		title: "Execution Rating Stats",
+		effect: "read",
+	},
+	zipfai_feedback_impact: { title: "Feedback Impact", effect: "read" },
+	zipfai_get_workflow_validation_status: {
+		title: "Workflow Validation Status",
+		effect: "read",
+	},
+	// Checks the workflow's URLs without changing it
+	zipfai_validate_workflow: {
+		title: "Validate Workflow",
+		effect: "read",
+		openWorld: true,
+	},
+	zipfai_get_workflow_recovery_suggestions: {
+		title: "Workflow Recovery Suggestions",
+		effect: "read",
+	},
+	zipfai_apply_workflow_recovery: {
+		title: "Apply Workflow Recovery",
+		effect: "destructive",
+	},
+
+	// Entities
+	zipfai_list_entity_schemas: { title: "List Entity Schemas", effect: "read" },
+	zipfai_create_entity_schema: {
+		title: "Create Entity Schema",
+		effect: "additive",
+	},
+	zipfai_get_entity_schema: { title: "Get Entity Schema", effect: "read" },
+	zipfai_delete_entity_schema: {
+		title: "Delete Entity Schema",
+		effect: "destructive",
+	},
+	zipfai_list_entities: { title: "List Entities", effect: "read" },
+	zipfai_query_entities: {
+		title: "Query Entities",
+		effect: "read",
+		credits: "1",
+	},
+	zipfai_get_entity: { title: "Get Entity", effect: "read" },
+	zipfai_update_entity: { title: "Update Entity", effect: "destructive" },
+	zipfai_export_entities: {
+		title: "Export Entities",
+		effect: "read",
+		credits: "1",
+	},
+	zipfai_list_entity_signals: { title: "List Entity Signals", effect: "read" },
+	zipfai_create_entity_signal: {
+		title: "Create Entity Signal",
+		effect: "additive",
+	},
+	zipfai_get_entity_signal: { title: "Get Entity Signal", effect: "read" },
+	zipfai_update_entity_signal: {
+		title: "Update Entity Signal",
+		effect: "destructive",
+	},
+	zipfai_delete_entity_signal: {
+		title: "Delete Entity Signal",
+		effect: "destructive",
+	},
+};
+
+// Title, annotations and _meta to register a tool with
+export function getToolAnnotations(name: string): {
+	title: string;
+	annotations: ToolAnnotations;
+	_meta: Record<string, unknown>;
+} {
+	const info = TOOL_INFO[name];
+	if (!info) {
+		throw new Error(`No annotations for tool ${name} (add it to TOOL_INFO)`);
+	}
+
+	const cost: CreditCost = info.credits
+		? { free: false, estimate: `${info.credits} credits` }
+		: { free: true, estimate: "0 credits" };
+	return {
+		title: info.title,
+		annotations: {
+			title: info.title,
+			...EFFECT_HINTS[info.effect],
+			// Whatever it does to the account, a paid call spends credits every time it runs, so
+			// clients mustn't auto-approve it as read-only or repeat it as idempotent
+			...(info.credits ? { readOnlyHint: false, idempotentHint: false } : {}),
+			openWorldHint: info.openWorld ?? false,
+		},
+		_meta: { [CREDIT_COST_META_KEY]: cost },
+	};
+}
@@ -1,6 +1,5 @@
-import { existsSync, readFileSync } from "node:fs";
-import { homedir } from "node:os";
-import { resolve } from "node:path";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomUUID } from "node:crypto";
 import type {
 	AssessIntentResponse,
 	AskResponse,
@@ -29,6 +28,7 @@ import type {
 	ListEntitiesResponse,
 	ListEntitySchemasResponse,
 	ListEntitySignalsResponse,
+	ListSessionsResponse,
 	ListWorkflowsResponse,
 	PlanWorkflowResponse,
 	QueryEntitiesResponse,
@@ -52,62 +52,61 @@ import type {
 	WorkflowUpdatesDigestResponse,
 } from "./types.js";
 
-const ZIPF_API_BASE = "https://www.zipf.ai/api/v1";
+import { type CacheInfo, type CacheOptions, cached } from "./cache.js";
+import {
+	DEFAULT_API_BASE,
+	getConfigFile,
+	getProfile,
+	getProfileName,
+	readConfig,
+} from "./config.js";
+import {
+	ApiError,
+	LONG_FETCH_TIMEOUT,
+	type RequestOptions,
+	request,
+	sleep,
+} from "./request.js";
 
-// Custom error class for API errors
-export class ApiError extends Error {
-	constructor(
-		message: string,
-		public statusCode?: number,
-		public details?: string,
-	) {
-		super(message);
-		this.name = "ApiError";
-	}
-}
+export { ApiError } from "./request.js";
 
-// Helper to handle API responses with proper error checking
-async function handleResponse<T>(response: Response): Promise<T> {
-	if (!response.ok) {
-		let errorMessage = `API request failed with status ${response.status}`;
-		let details: string | undefined;
-
-		try {
-			const errorBody = await response.json();
-			if (errorBody.error) {
-				errorMessage = errorBody.error;
-			} else if (errorBody.message) {
-				errorMessage = errorBody.message;
-			}
-			details = JSON.stringify(errorBody);
-		} catch {
-			// Response wasn't JSON, use status text
-			errorMessage = `${response.status} ${response.statusText}`;
-		}
+// Per-request API key (set by the HTTP transport from the Authorization header)
+const requestApiKey = new AsyncLocalStorage<string>();
 
-		throw new ApiError(errorMessage, response.status, details);
-	}
+// Run fn with an API key that overrides the process-wide one for every API call it makes
+export function runWithApiKey<T>(apiKey: string, fn: () => T): T {
+	return requestApiKey.run(apiKey, fn);
+}
 
-	return (await response.json()) as T;
+// Whether the current call runs under a per-request key (e.g. an HTTP client's bearer key)
+export function hasRequestApiKey(): boolean {
+	return requestApiKey.getStore() !== undefined;
 }
 
 function getApiKey(): string {
-	// First try env var (check for non-empty string)
+	// Per-request key always wins
+	const apiKey = requestApiKey.getStore();
+	if (apiKey) {
+		return apiKey;
+	}
+
+	// Then try env var (check for non-empty string)
 	if (process.env.ZIPF_API_KEY && process.env.ZIPF_API_KEY.trim() !== "") {
 		return process.env.ZIPF_API_KEY;
 	}
 
-	// Fall back to config file
-	const configFile = resolve(homedir(), ".zipfai", "config.json");
-	if (existsSync(configFile)) {
-		try {
-			const config = JSON.parse(readFileSync(configFile, "utf-8"));
-			if (config.apiKey) {
-				return config.apiKey;
-			}
-		} catch {
-			// Ignore parse errors
-		}
+	// Fall back to the active profile in the config file
+	const config = readConfig();
+	const profileName = getProfileName(config);
+	const profile = getProfile(profileName, config);
+	if (profile?.apiKey) {
+		return profile.apiKey;
+	}
+
+	if (!profile && process.env.ZIPF_PROFILE) {
+		throw new Error(
+			`Profile "${profileName}" not found in ${getConfigFile()}. Create it with: npx zipfai-mcp-server config set apiKey <key> --profile ${profileName}`,
+		);
 	}
 
 	throw new Error(
@@ -115,6 +114,32 @@ function getApiKey(): string {
 	);
 }
 
+// Short one-way fingerprint of an API key, to tell accounts apart without keeping the key
+export function fingerprintApiKey(apiKey: string): string {
+	return createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+}
+
+// Fingerprint of the key API calls use right now (undefined when no key is configured)
+export function getApiKeyFingerprint(): string | undefined {
+	try {
+		return fingerprintApiKey(getApiKey());
+	} catch {
+		return undefined;
+	}
+}
+
+// API base URL: ZIPF_API_BASE_URL, then the active profile, then production
+function getApiBase(): string {
+	const baseUrl =
+		process.env.ZIPF_API_BASE_URL?.trim() || getProfile()?.baseUrl?.trim();
+	return baseUrl ? baseUrl.replace(/\/+$/, "") : DEFAULT_API_BASE;
+}
+
+// Cache entries are scoped to the account and the API they came from
+function getCacheScope(): string {
+	return `${getApiBase()} ${getApiKey()}`;
+}
+
 function getHeaders(extraHeaders?: Record<string, string>): Record<string, string> {
 	return {
 		"Content-Type": "application/json",
@@ -123,9 +148,13 @@ function getHeaders(extraHeaders?: Record<string, string>): Record<string, strin
 	};
 }
 
-// Helper to wait
-function sleep(ms: number): Promise<void> {
-	return new Promise((resolve) => setTimeout(resolve, ms));
+// Options for a POST that spends credits: one Idempotency-Key per logical call, reused by
+// every retry, so request() can retry it without the API charging twice
+function withIdempotencyKey(options?: RequestOptions): RequestOptions {
+	return {
+		...options,
+		idempotencyKey: options?.idempotencyKey ?? randomUUID(),
+	};
 }
 
 // Default polling configuration
@@ -136,145 +165,265 @@ const DEFAULT_POLL_CONFIG = {
 	maxDuration: 60000, // 60 seconds total timeout
 };
 
-// Default timeout for individual fetch requests (in ms)
-const DEFAULT_FETCH_TIMEOUT = 30000; // 30 seconds
+// Crawls poll the same way but may run much longer
+const CRAWL_POLL_MAX_DURATION = LONG_FETCH_TIMEOUT;
 
-// Helper to create AbortSignal with timeout
-function createTimeoutSignal(timeoutMs: number): AbortSignal {
-	const controller = new AbortController();
-	setTimeout(() => controller.abort(), timeoutMs);
-	return controller.signal;
+// Progress reported by long-running operations while they wait
+export interface ProgressUpdate {
+	progress: number;
+	total?: number;
+	message: string;
+}
+
+// Request options for operations that poll, with a progress callback
+export interface PollingOptions extends RequestOptions {
+	onProgress?: (update: ProgressUpdate) => void;
 }
 
 // =========================================================================
 // Search API
 // =========================================================================
 
+// Max results the search endpoint returns for one request
+const MAX_SEARCH_RESULTS = 20;
+
+// Check whether a URL's host is the domain or one of its subdomains
+function matchesDomain(url: string, domain: string): boolean {
+	try {
+		const host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+		const target = domain
+			.trim()
+			.toLowerCase()
+			.replace(/^https?:\/\//, "")
+			.replace(/^www\./, "")
+			.replace(/\/.*$/, "");
+		return host === target || host.endsWith(`.${target}`);
+	} catch {
+		return false;
+	}
+}
+
 // Quick Search - lightweight, fast (uses standard search endpoint with no AI features)
-export async function quickSearch(params: {
-	query: string;
-	max_results?: number;
-}): Promise<QuickSearchResponse> {
+// Domain filters are applied client-side, so a filtered search over-fetches and trims.
+export async function quickSearch(
+	params: {
+		query: string;
+		max_results?: number;
+		domains?: string[];
+		exclude_domains?: string[];
+	},
+	options?: RequestOptions & CacheOptions,
+): Promise<QuickSearchResponse & { cache?: CacheInfo }> {
+	const maxResults = params.max_results ?? 10;
+	const domains = params.domains?.filter((d) => d.trim() !== "") ?? [];
+	const excludeDomains =
+		params.exclude_domains?.filter((d) => d.trim() !== "") ?? [];
+	const filtered = domains.length > 0 || excludeDomains.length > 0;
+	const requestedResults = filtered ? MAX_SEARCH_RESULTS : maxResults;
+
 	// Use the standard /search endpoint with all AI features disabled
 	// This provides the same functionality as the deprecated /search/quick endpoint
-	const response = await fetch(`${ZIPF_API_BASE}/search`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			query: params.query,
-			max_results: params.max_results ?? 10,
-			// Disable all AI features for basic 1-credit search
-			interpret_query: false,
-			rerank_results: false,
-			extract_metadata: false,
-			generate_suggestions: false,
-			generate_summary: false,
-		}),
-	});
-	return handleResponse<QuickSearchResponse>(response);
+	const response = await cached(
+		"quick_search",
+		getCacheScope(),
+		{ query: params.query, max_results: requestedResults },
+		options?.cache,
+		() =>
+			request<QuickSearchResponse>(
+				`${getApiBase()}/search`,
+				{
+					method: "POST",
+					headers: getHeaders(),
+					body: JSON.stringify({
+						query: params.query,
+						max_results: requestedResults,
+						// Disable all AI features for basic 1-credit search
+						interpret_query: false,
+						rerank_results: false,
+						extract_metadata: false,
+						generate_suggestions: false,
+						generate_summary: false,
+					}),
+				},
+				withIdempotencyKey(options),
+			),
+	);
+
+	if (!filtered) {
+		return response;
+	}
+
+	const results = (response.results ?? [])
+		.filter(
+			(result) =>
+				(domains.length === 0 ||
+					domains.some((d) => matchesDomain(result.url, d))) &&
+				!excludeDomains.some((d) => matchesDomain(result.url, d)),
+		)
+		.slice(0, maxResults);
+	return { ...response, results };
 }
 
 // Full Search - with AI enhancements and query decomposition
-async function search(params: {
-	query: string;
-	max_results?: number;
-	interpret_query?: boolean;
-	extract_metadata?: boolean;
-	rerank_results?: boolean;
-	generate_suggestions?: boolean;
-	suggestions_top_n?: number;
-	num_suggestions?: number;
-	generate_summary?: boolean;
-	// Query decomposition parameters
-	query_decomposition?: boolean;
-	max_sub_queries?: number;
-	max_results_per_sub_query?: number;
-	source_type?: "academic" | "commercial" | "news" | "community" | "mixed";
-	// Date range filter
-	freshness?: "day" | "week" | "month" | "year";
-	// Session context
-	session_id?: string;
-	filter_seen_urls?: boolean;
-}): Promise<SearchJobResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/search`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			query: params.query,
-			max_results: params.max_results ?? 10,
-			interpret_query: params.interpret_query ?? false,
-			extract_metadata: params.extract_metadata ?? false,
-			rerank_results: params.rerank_results ?? false,
-			generate_suggestions: params.generate_suggestions ?? false,
-			suggestions_top_n: params.suggestions_top_n,
-			num_suggestions: params.num_suggestions,
-			generate_summary: params.generate_summary ?? false,
-			// Query decomposition
-			query_decomposition: params.query_decomposition ?? false,
-			max_sub_queries: params.max_sub_queries,
-			max_results_per_sub_query: params.max_results_per_sub_query,
-			source_type: params.source_type,
-			// Date range filter
-			freshness: params.freshness,
-			// Session context
-			session_id: params.session_id,
-			filter_seen_urls: params.filter_seen_urls,
-		}),
-	});
-	return handleResponse<SearchJobResponse>(response);
+async function search(
+	params: {
+		query: string;
+		max_results?: number;
+		interpret_query?: boolean;
+		extract_metadata?: boolean;
+		rerank_results?: boolean;
+		generate_suggestions?: boolean;
+		suggestions_top_n?: number;
+		num_suggestions?: number;
+		generate_summary?: boolean;
+		// Query decomposition parameters
+		query_decomposition?: boolean;
+		max_sub_queries?: number;
+		max_results_per_sub_query?: number;
+		source_type?: "academic" | "commercial" | "news" | "community" | "mixed";
+		// Date range filter
+		freshness?: "day" | "week" | "month" | "year";
+		// Session context
+		session_id?: string;
+		filter_seen_urls?: boolean;
+	},
+	options?: RequestOptions,
+): Promise<SearchJobResponse> {
+	return request<SearchJobResponse>(
+		`${getApiBase()}/search`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify({
+				query: params.query,
+				max_results: params.max_results ?? 10,
+				interpret_query: params.interpret_query ?? false,
+				extract_metadata: params.extract_metadata ?? false,
+				rerank_results: params.rerank_results ?? false,
+				generate_suggestions: params.generate_suggestions ?? false,
+				suggestions_top_n: params.suggestions_top_n,
+				num_suggestions: params.num_suggestions,
+				generate_summary: params.generate_summary ?? false,
+				// Query decomposition
+				query_decomposition: params.query_decomposition ?? false,
+				max_sub_queries: params.max_sub_queries,
+				max_results_per_sub_query: params.max_results_per_sub_query,
+				source_type: params.source_type,
+				// Date range filter
+				freshness: params.freshness,
+				// Session context
+				session_id: params.session_id,
+				filter_seen_urls: params.filter_seen_urls,
+			}),
+		},
+		withIdempotencyKey(options),
+	);
 }
 
 // Get Search Job - used internally for polling
 // Returns null on transient errors to allow polling to continue
-async function getSearchJob(jobId: string): Promise<SearchJobResponse | null> {
+async function getSearchJob(
+	jobId: string,
+	options?: RequestOptions,
+): Promise<SearchJobResponse | null> {
 	try {
-		const response = await fetch(`${ZIPF_API_BASE}/search/jobs/${jobId}`, {
-			method: "GET",
-			headers: getHeaders(),
-		});
-
-		if (!response.ok) {
-			// Log but don't throw - allow polling to continue on transient errors
-			console.error(
-				`Get search job failed: ${response.status} ${response.statusText}`,
-			);
-			return null;
-		}
-
-		return (await response.json()) as SearchJobResponse;
+		return await request<SearchJobResponse>(
+			`${getApiBase()}/search/jobs/${jobId}`,
+			{
+				method: "GET",
+				headers: getHeaders(),
+			},
+			options,
+		);
 	} catch (error) {
-		// Network errors during polling shouldn't abort the whole operation
+		// Cancellation always propagates
+		if (options?.signal?.aborted) {
+			throw error;
+		}
+		// Log but don't throw - transient errors (already retried) shouldn't abort the whole operation
 		console.error("Get search job error:", error);
 		return null;
 	}
 }
 
-// Full Search with internal polling for async features
-export async function searchWithPolling(params: {
-	query: string;
-	max_results?: number;
-	interpret_query?: boolean;
-	extract_metadata?: boolean;
-	rerank_results?: boolean;
-	generate_suggestions?: boolean;
-	suggestions_top_n?: number;
-	num_suggestions?: number;
-	generate_summary?: boolean;
-	// Query decomposition parameters
-	query_decomposition?: boolean;
-	max_sub_queries?: number;
-	max_results_per_sub_query?: number;
-	source_type?: "academic" | "commercial" | "news" | "community" | "mixed";
-	// Date range filter
-	freshness?: "day" | "week" | "month" | "year";
-	// Session context
-	session_id?: string;
-	filter_seen_urls?: boolean;
-	// Timeout configuration
-	timeout_ms?: number;
-}): Promise<SearchJobResponse> {
+// Check whether the async features a search asked for (summary, metadata) have finished
+function isSearchJobComplete(
+	job: SearchJobResponse,
+	params: { generate_summary?: boolean; extract_metadata?: boolean },
+): boolean {
+	// Summary can be: null, string (legacy), or { status: string, content?: string }
+	let summaryDone = !params.generate_summary;
+	if (params.generate_summary && job.summary) {
+		if (typeof job.summary === "string") {
+			// Legacy string format - summary is complete
+			summaryDone = true;
+		} else if (typeof job.summary === "object") {
+			// Object format with status field
+			summaryDone =
+				job.summary.status === "completed" || job.summary.status === "failed";
+		}
+	}
+
+	const metadataDone =
+		!params.extract_metadata ||
+		job.query_interpretation?.metadata_status === "completed" ||
+		job.query_interpretation?.metadata_status === "failed";
+
+	return summaryDone && metadataDone;
+}
+
+// Full Search with internal polling for async features.
+// Served from the local response cache when it's enabled (never for session searches).
+export async function searchWithPolling(
+	params: Parameters<typeof pollSearch>[0],
+	options?: PollingOptions & CacheOptions,
+): Promise<SearchJobResponse & { cache?: CacheInfo }> {
+	// Session searches depend on session state (seen URLs, context)
+	if (params.session_id) {
+		return pollSearch(params, options);
+	}
+
+	// The polling timeout doesn't change the response, so it isn't part of the key
+	const { timeout_ms: _timeoutMs, ...body } = params;
+	return cached(
+		"search",
+		getCacheScope(),
+		body,
+		options?.cache,
+		() => pollSearch(params, options),
+		// Partial results after a polling timeout aren't worth keeping
+		(job) => job.status !== "failed" && isSearchJobComplete(job, params),
+	);
+}
+
+async function pollSearch(
+	params: {
+		query: string;
+		max_results?: number;
+		interpret_query?: boolean;
+		extract_metadata?: boolean;
+		rerank_results?: boolean;
+		generate_suggestions?: boolean;
+		suggestions_top_n?: number;
+		num_suggestions?: number;
+		generate_summary?: boolean;
+		// Query decomposition parameters
+		query_decomposition?: boolean;
+		max_sub_queries?: number;
+		max_results_per_sub_query?: number;
+		source_type?: "academic" | "commercial" | "news" | "community" | "mixed";
+		// Date range filter
+		freshness?: "day" | "week" | "month" | "year";
+		// Session context
+		session_id?: string;
+		filter_seen_urls?: boolean;
+		// Timeout configuration
+		timeout_ms?: number;
+	},
+	options?: PollingOptions,
+): Promise<SearchJobResponse> {
 	// Initial search request
-	const initialResult = await search(params);
+	const initialResult = await search(params, options);
 
 	const needsPolling = params.generate_summary || params.extract_metadata;
 
@@ -290,11 +439,18 @@ export async function searchWithPolling(params: {
 	const startTime = Date.now();
 	let currentInterval = DEFAULT_POLL_CONFIG.initialInterval;
 	let lastSuccessfulJob: SearchJobResponse = initialResult;
+	let attempt = 0;
 
 	while (Date.now() - startTime < maxDuration) {
-		await sleep(currentInterval);
+		await sleep(currentInterval, options?.signal);
 
-		const job = await getSearchJob(jobId);
+		attempt++;
+		const job = await getSearchJob(jobId, options);
+
+		options?.onProgress?.({
+			progress: attempt,
+			message: `Waiting for search job ${jobId}: poll ${attempt}, ${formatElapsed(startTime)} elapsed (${describeSearchJobStatus(job ?? lastSuccessfulJob, params)})`,
+		});
 
 		if (job) {
 			lastSuccessfulJob = job;
@@ -309,26 +465,7 @@ export async function searchWithPolling(params: {
 			}
 
 			// Check if async features are complete
-			// Summary can be: null, string (legacy), or { status: string, content?: string }
-			let summaryDone = !params.generate_summary;
-			if (params.generate_summary && job.summary) {
-				if (typeof job.summary === "string") {
-					// Legacy string format - summary is complete
-					summaryDone = true;
-				} else if (typeof job.summary === "object") {
-					// Object format with status field
-					summaryDone =
-						job.summary.status === "completed" ||
-						job.summary.status === "failed";
-				}
-			}
-
-			const metadataDone =
-				!params.extract_metadata ||
-				job.query_interpretation?.metadata_status === "completed" ||
-				job.query_interpretation?.metadata_status === "failed";
-
-			if (summaryDone && metadataDone) {
+			if (isSearchJobComplete(job, params)) {
 				return job;
 			}
 		}
@@ -347,226 +484,437 @@ export async function searchWithPolling(params: {
 	return lastSuccessfulJob;
 }
 
+// Helper to describe which async search features are still pending
+function describeSearchJobStatus(
+	job: SearchJobResponse,
+	params: { generate_summary?: boolean; extract_metadata?: boolean },
+): string {
+	const parts: string[] = [];
+	if (params.generate_summary) {
+		const summary = job.summary;
+		const status =
+			typeof summary === "string"
+				? "completed"
+				: (summary?.status ?? "pending");
+		parts.push(`summary: ${status}`);
+	}
+	if (params.extract_metadata) {
+		parts.push(
+			`metadata: ${job.query_interpretation?.metadata_status ?? "pending"}`,
+		);
+	}
+	return parts.join(", ");
+}
+
+// Helper to format the time since startTime, e.g. "12.5s"
+function formatElapsed(startTime: number): string {
+	return `${((Date.now() - startTime) / 1000).toFixed(1)}s`;
+}
+
 // =========================================================================
 // Ask API - Direct question answering
 // =========================================================================
 
-export async function ask(params: {
-	question: string;
-	depth?: "quick" | "standard" | "deep";
-	max_sources?: number;
-	// Additional parameters
-	include_follow_ups?: boolean;
-	response_style?: "concise" | "detailed";
-	session_id?: string;
-	skip_rerank?: boolean;
-	enable_query_rewrite?: boolean;
-	enable_decomposition?: boolean;
-	max_sub_queries?: number;
-}): Promise<AskResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/ask`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			question: params.question,
-			depth: params.depth ?? "standard",
-			max_sources: params.max_sources ?? 10,
-			include_follow_ups: params.include_follow_ups,
-			response_style: params.response_style,
-			session_id: params.session_id,
-			skip_rerank: params.skip_rerank,
-			enable_query_rewrite: params.enable_query_rewrite,
-			enable_decomposition: params.enable_decomposition,
-			max_sub_queries: params.max_sub_queries,
-		}),
-	});
-	return handleResponse<AskResponse>(response);
+export async function ask(
+	params: {
+		question: string;
+		depth?: "quick" | "standard" | "deep";
+		max_sources?: number;
+		// Additional parameters
+		include_follow_ups?: boolean;
+		response_style?: "concise" | "detailed";
+		session_id?: string;
+		skip_rerank?: boolean;
+		enable_query_rewrite?: boolean;
+		enable_decomposition?: boolean;
+		max_sub_queries?: number;
+	},
+	options?: RequestOptions & CacheOptions,
+): Promise<AskResponse & { cache?: CacheInfo }> {
+	const fetchAnswer = () =>
+		request<AskResponse>(
+			`${getApiBase()}/ask`,
+			{
+				method: "POST",
+				headers: getHeaders(),
+				body: JSON.stringify({
+					question: params.question,
+					depth: params.depth ?? "standard",
+					max_sources: params.max_sources ?? 10,
+					include_follow_ups: params.include_follow_ups,
+					response_style: params.response_style,
+					session_id: params.session_id,
+					skip_rerank: params.skip_rerank,
+					enable_query_rewrite: params.enable_query_rewrite,
+					enable_decomposition: params.enable_decomposition,
+					max_sub_queries: params.max_sub_queries,
+				}),
+			},
+			withIdempotencyKey({ timeoutMs: LONG_FETCH_TIMEOUT, ...options }),
+		);
+
+	// Answers in a session depend on session context, so they're never cached
+	if (params.session_id) {
+		return fetchAnswer();
+	}
+	return cached("ask", getCacheScope(), params, options?.cache, fetchAnswer);
 }
 
 // =========================================================================
 // Crawl API - Web crawling with extraction
 // =========================================================================
 
-export async function crawl(params: {
-	urls: string[];
-	max_pages?: number;
-	extraction_schema?: Record<string, string>;
-	classify_documents?: boolean;
-	generate_summary?: boolean;
-	processing_mode?: "sync" | "async" | "webhook";
-	webhook_url?: string;
-	// Link following
-	expansion?: "internal" | "external" | "both" | "none";
-	follow_links?: boolean;
-	link_extraction_config?: {
-		max_depth?: number;
-		url_patterns?: string[];
-		exclude_patterns?: string[];
-		detect_pagination?: boolean;
-	};
-	// Caching
-	use_cache?: boolean;
-	cache_max_age?: number;
-	// Budget control
-	budget_config?: {
+export async function crawl(
+	params: {
+		urls: string[];
 		max_pages?: number;
-		max_depth?: number;
-		max_credits?: number;
-	};
-	// Classifiers
-	classifiers?: Array<{
-		type: "url" | "content";
-		question: string;
-		confidence_threshold?: number;
-	}>;
-	// Dry run
-	dry_run?: boolean;
-	// Session context
-	session_id?: string;
-	filter_seen_urls?: boolean;
-}): Promise<CrawlResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/crawls`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			urls: params.urls,
-			max_pages: params.max_pages ?? 10,
-			extraction_schema: params.extraction_schema,
-			classify_documents: params.classify_documents ?? true,
-			generate_summary: params.generate_summary ?? false,
-			processing_mode: params.processing_mode ?? "sync",
-			webhook_url: params.webhook_url,
-			expansion: params.expansion,
-			follow_links: params.follow_links,
-			link_extraction_config: params.link_extraction_config,
-			use_cache: params.use_cache,
-			cache_max_age: params.cache_max_age,
-			budget_config: params.budget_config,
-			classifiers: params.classifiers,
-			dry_run: params.dry_run,
-			session_id: params.session_id,
-			filter_seen_urls: params.filter_seen_urls,
-		}),
-	});
-	return handleResponse<CrawlResponse>(response);
+		extraction_schema?: Record<string, string>;
+		classify_documents?: boolean;
+		generate_summary?: boolean;
+		processing_mode?: "sync" | "async" | "webhook";
+		webhook_url?: string;
+		// Link following
+		expansion?: "internal" | "external" | "both" | "none";
+		follow_links?: boolean;
+		link_extraction_config?: {
+			max_depth?: number;
+			url_patterns?: string[];
+			exclude_patterns?: string[];
+			detect_pagination?: boolean;
+		};
+		// Caching
+		use_cache?: boolean;
+		cache_max_age?: number;
+		// Budget control
+		budget_config?: {
+			max_pages?: number;
+			max_depth?: number;
+			max_credits?: number;
+		};
+		// Classifiers
+		classifiers?: Array<{
+			type: "url" | "content";
+			question: string;
+			confidence_threshold?: number;
+		}>;
+		// Dry run
+		dry_run?: boolean;
+		// Session context
+		session_id?: string;
+		filter_seen_urls?: boolean;
+	},
+	options?: RequestOptions,
+): Promise<CrawlResponse> {
+	return request<CrawlResponse>(
+		`${getApiBase()}/crawls`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify({
+				urls: params.urls,
+				max_pages: params.max_pages ?? 10,
+				extraction_schema: params.extraction_schema,
+				classify_documents: params.classify_documents ?? true,
+				generate_summary: params.generate_summary ?? false,
+				processing_mode: params.processing_mode ?? "sync",
+				webhook_url: params.webhook_url,
+				expansion: params.expansion,
+				follow_links: params.follow_links,
+				link_extraction_config: params.link_extraction_config,
+				use_cache: params.use_cache,
+				cache_max_age: params.cache_max_age,
+				budget_config: params.budget_config,
+				classifiers: params.classifiers,
+				dry_run: params.dry_run,
+				session_id: params.session_id,
+				filter_seen_urls: params.filter_seen_urls,
+			}),
+		},
+		withIdempotencyKey({ timeoutMs: LONG_FETCH_TIMEOUT, ...options }),
+	);
+}
+
+// Get a search job with its results (e.g. one run earlier in a session)
+export async function getSearch(
+	jobId: string,
+	options?: RequestOptions,
+): Promise<SearchJobResponse> {
+	return request<SearchJobResponse>(
+		`${getApiBase()}/search/jobs/${jobId}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 // Get Crawl Job status
-export async function getCrawl(crawlId: string): Promise<CrawlResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/crawls/${crawlId}`, {
-		method: "GET",
-		headers: getHeaders(),
+export async function getCrawl(
+	crawlId: string,
+	options?: RequestOptions,
+): Promise<CrawlResponse> {
+	return request<CrawlResponse>(
+		`${getApiBase()}/crawls/${crawlId}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
+}
+
+// Cancel a pending or running crawl job
+export async function cancelCrawl(
+	crawlId: string,
+	options?: RequestOptions,
+): Promise<CrawlResponse> {
+	return request<CrawlResponse>(
+		`${getApiBase()}/crawls/${crawlId}/cancel`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+		},
+		options,
+	);
+}
+
+// Crawl, reporting progress when there's a listener: a crawl with no processing_mode then
+// runs async and is polled, returning it still running if it outlasts the polling
+export async function crawlWithPolling(
+	params: {
+		urls: string[];
+		max_pages?: number;
+		extraction_schema?: Record<string, string>;
+		classify_documents?: boolean;
+		generate_summary?: boolean;
+		processing_mode?: "sync" | "async";
+		expansion?: "internal" | "external" | "both" | "none";
+		follow_links?: boolean;
+		link_extraction_config?: {
+			max_depth?: number;
+			url_patterns?: string[];
+			exclude_patterns?: string[];
+			detect_pagination?: boolean;
+		};
+		use_cache?: boolean;
+		cache_max_age?: number;
+		dry_run?: boolean;
+		session_id?: string;
+		filter_seen_urls?: boolean;
+	},
+	options?: PollingOptions,
+): Promise<CrawlResponse> {
+	// Async mode returns the crawl id right away - check it with getCrawl
+	if (params.processing_mode === "async") {
+		return crawl(params, options);
+	}
+
+	// An explicit sync crawl, or one without a progress listener, waits for completion
+	if (
+		params.processing_mode === "sync" ||
+		!options?.onProgress ||
+		params.dry_run
+	) {
+		return crawl({ ...params, processing_mode: "sync" }, options);
+	}
+
+	// Otherwise start an async crawl and poll it so progress can be reported
+	const maxPages = params.max_pages ?? 10;
+	const startTime = Date.now();
+	let job = await crawl({ ...params, processing_mode: "async" }, options);
+	let currentInterval = DEFAULT_POLL_CONFIG.initialInterval;
+
+	options.onProgress({
+		progress: 0,
+		total: maxPages,
+		message: `Crawl ${job.id} started (${job.status})`,
 	});
-	return handleResponse<CrawlResponse>(response);
-}
-
-// Crawl with polling for async mode
-export async function crawlWithPolling(params: {
-	urls: string[];
-	max_pages?: number;
-	extraction_schema?: Record<string, string>;
-	classify_documents?: boolean;
-	generate_summary?: boolean;
-	expansion?: "internal" | "external" | "both" | "none";
-	follow_links?: boolean;
-	link_extraction_config?: {
-		max_depth?: number;
-		url_patterns?: string[];
-		exclude_patterns?: string[];
-		detect_pagination?: boolean;
-	};
-	use_cache?: boolean;
-	cache_max_age?: number;
-	dry_run?: boolean;
-	session_id?: string;
-	filter_seen_urls?: boolean;
-}): Promise<CrawlResponse> {
-	// Use sync mode for simplicity - waits for completion
-	return crawl({ ...params, processing_mode: "sync" });
+
+	while (!isCrawlFinished(job)) {
+		if (Date.now() - startTime >= CRAWL_POLL_MAX_DURATION) {
+			// Timeout - return the running crawl so it can be checked later
+			console.error(
+				`Crawl polling timeout after ${CRAWL_POLL_MAX_DURATION}ms, returning crawl ${job.id} in status ${job.status}`,
+			);
+			return job;
+		}
+
+		await sleep(currentInterval, options.signal);
+		job = await getCrawl(job.id, options);
+
+		const pagesCrawled = job.pages_crawled ?? job.stats?.pages_crawled ?? 0;
+		options.onProgress({
+			progress: pagesCrawled,
+			total: maxPages,
+			message: `Crawl ${job.id}: ${pagesCrawled}/${maxPages} pages crawled, ${formatElapsed(startTime)} elapsed (${job.status})`,
+		});
+
+		// Exponential backoff with cap
+		currentInterval = Math.min(
+			currentInterval * DEFAULT_POLL_CONFIG.backoffMultiplier,
+			DEFAULT_POLL_CONFIG.maxInterval,
+		);
+	}
+
+	return job;
+}
+
+// Helper to check whether a crawl has reached a terminal status
+function isCrawlFinished(job: CrawlResponse): boolean {
+	return (
+		job.status === "completed" ||
+		job.status === "failed" ||
+		job.status === "cancelled"
+	);
 }
 
 // Suggest extraction schema for a URL
-export async function suggestSchema(params: {
-	url: string;
-}): Promise<SuggestSchemaResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/crawls/suggest-schema`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			url: params.url,
-		}),
-	});
-	return handleResponse<SuggestSchemaResponse>(response);
+export async function suggestSchema(
+	params: {
+		url: string;
+	},
+	options?: RequestOptions & CacheOptions,
+): Promise<SuggestSchemaResponse & { cache?: CacheInfo }> {
+	return cached("suggest_schema", getCacheScope(), params, options?.cache, () =>
+		request<SuggestSchemaResponse>(
+			`${getApiBase()}/crawls/suggest-schema`,
+			{
+				method: "POST",
+				headers: getHeaders(),
+				body: JSON.stringify({
+					url: params.url,
+				}),
+			},
+			options,
+		),
+	);
 }
 
 // =========================================================================
 // Sessions API - Multi-step research workflows
 // =========================================================================
 
-export async function createSession(params: {
-	name: string;
-	description?: string;
-	intent_context?: string;
-	session_config?: {
-		auto_deduplicate?: boolean;
-		accumulate_context?: boolean;
-		use_session_context?: boolean;
-		max_operations?: number;
-	};
-	metadata?: Record<string, unknown>;
-}): Promise<CreateSessionResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/sessions`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			name: params.name,
-			description: params.description,
-			intent_context: params.intent_context,
-			session_config: params.session_config ?? {
-				auto_deduplicate: true,
-				accumulate_context: true,
-				use_session_context: true,
-			},
-			metadata: params.metadata,
-		}),
-	});
-	return handleResponse<CreateSessionResponse>(response);
+export async function createSession(
+	params: {
+		name: string;
+		description?: string;
+		intent_context?: string;
+		session_config?: {
+			auto_deduplicate?: boolean;
+			accumulate_context?: boolean;
+			use_session_context?: boolean;
+			max_operations?: number;
+		};
+		metadata?: Record<string, unknown>;
+	},
+	options?: RequestOptions,
+): Promise<CreateSessionResponse> {
+	return request<CreateSessionResponse>(
+		`${getApiBase()}/sessions`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify({
+				name: params.name,
+				description: params.description,
+				intent_context: params.intent_context,
+				session_config: params.session_config ?? {
+					auto_deduplicate: true,
+					accumulate_context: true,
+					use_session_context: true,
+				},
+				metadata: params.metadata,
+			}),
+		},
+		options,
+	);
 }
 
 export async function getSession(
 	sessionId: string,
+	options?: RequestOptions,
 ): Promise<{ session: Session }> {
-	const response = await fetch(`${ZIPF_API_BASE}/sessions/${sessionId}`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse<{ session: Session }>(response);
+	return request<{ session: Session }>(
+		`${getApiBase()}/sessions/${sessionId}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
+}
+
+export async function listSessions(
+	params?: {
+		limit?: number;
+		offset?: number;
+		status?: Session["status"];
+	},
+	options?: RequestOptions,
+): Promise<ListSessionsResponse> {
+	const searchParams = new URLSearchParams();
+	if (params?.limit) searchParams.set("limit", params.limit.toString());
+	if (params?.offset) searchParams.set("offset", params.offset.toString());
+	if (params?.status) searchParams.set("status", params.status);
+
+	return request<ListSessionsResponse>(
+		`${getApiBase()}/sessions?${searchParams}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
+}
+
+// Rename a session, or move it between "active" and "archived"
+export async function updateSession(
+	sessionId: string,
+	params: {
+		name?: string;
+		description?: string;
+		status?: "active" | "archived";
+	},
+	options?: RequestOptions,
+): Promise<{ session: Session }> {
+	return request<{ session: Session }>(
+		`${getApiBase()}/sessions/${sessionId}`,
+		{
+			method: "PATCH",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
 export async function getSessionTimeline(
 	sessionId: string,
+	options?: RequestOptions,
 ): Promise<SessionTimelineResponse> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/sessions/${sessionId}/timeline`,
+	return request<SessionTimelineResponse>(
+		`${getApiBase()}/sessions/${sessionId}/timeline`,
 		{
 			method: "GET",
 			headers: getHeaders(),
 		},
+		options,
 	);
-	return handleResponse<SessionTimelineResponse>(response);
 }
 
 export async function completeSession(
 	sessionId: string,
+	options?: RequestOptions,
 ): Promise<{ session: Session }> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/sessions/${sessionId}/complete`,
+	return request<{ session: Session }>(
+		`${getApiBase()}/sessions/${sessionId}/complete`,
 		{
 			method: "POST",
 			headers: getHeaders(),
 		},
+		options,
 	);
-	return handleResponse<{ session: Session }>(response);
 }
 
 // Session search - search within a session context
@@ -583,9 +931,10 @@ export async function sessionSearch(
 		max_sub_queries?: number;
 		freshness?: "day" | "week" | "month" | "year";
 	},
+	options?: RequestOptions,
 ): Promise<SearchJobResponse> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/sessions/${sessionId}/search`,
+	return request<SearchJobResponse>(
+		`${getApiBase()}/sessions/${sessionId}/search`,
 		{
 			method: "POST",
 			headers: getHeaders(),
@@ -601,8 +950,8 @@ export async function sessionSearch(
 				freshness: params.freshness,
 			}),
 		},
+		withIdempotencyKey(options),
 	);
-	return handleResponse<SearchJobResponse>(response);
 }
 
 // Session crawl - crawl within a session context
@@ -617,139 +966,166 @@ export async function sessionCrawl(
 		generate_summary?: boolean;
 		expansion?: "internal" | "external" | "both" | "none";
 	},
+	options?: RequestOptions,
 ): Promise<CrawlResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/sessions/${sessionId}/crawl`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			urls: params.urls,
-			max_pages: params.max_pages ?? 10,
-			filter_seen_urls: params.filter_seen_urls ?? true,
-			extraction_schema: params.extraction_schema,
-			classify_documents: params.classify_documents ?? true,
-			generate_summary: params.generate_summary ?? false,
-			expansion: params.expansion,
-			processing_mode: "sync",
-		}),
-	});
-	return handleResponse<CrawlResponse>(response);
+	return request<CrawlResponse>(
+		`${getApiBase()}/sessions/${sessionId}/crawl`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify({
+				urls: params.urls,
+				max_pages: params.max_pages ?? 10,
+				filter_seen_urls: params.filter_seen_urls ?? true,
+				extraction_schema: params.extraction_schema,
+				classify_documents: params.classify_documents ?? true,
+				generate_summary: params.generate_summary ?? false,
+				expansion: params.expansion,
+				processing_mode: "sync",
+			}),
+		},
+		withIdempotencyKey({ timeoutMs: LONG_FETCH_TIMEOUT, ...options }),
+	);
 }
 
 // =========================================================================
 // Research API - Combo search + auto-crawl
 // =========================================================================
-
-export async function research(params: {
-	query: string;
-	search_count?: number;
-	auto_crawl_top_n?: number;
-	max_pages_per_url?: number;
-	extraction_schema?: Record<string, string>;
-	// Additional parameters
-	only_uncrawled?: boolean;
-	classify_documents?: boolean;
-	interpret_query?: boolean;
-	rerank_results?: boolean;
-	generate_suggestions?: boolean;
-	session_id?: string;
-}): Promise<ResearchResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/research`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify({
-			query: params.query,
-			search_count: params.search_count ?? 10,
-			auto_crawl_top_n: params.auto_crawl_top_n ?? 5,
-			max_pages_per_url: params.max_pages_per_url ?? 1,
-			extraction_schema: params.extraction_schema,
-			only_uncrawled: params.only_uncrawled,
-			classify_documents: params.classify_documents,
-			interpret_query: params.interpret_query,
-			rerank_results: params.rerank_results,
-			generate_suggestions: params.generate_suggestions,
-			session_id: params.session_id,
-		}),
-	});
-	return handleResponse<ResearchResponse>(response);
+
+export async function research(
+	params: {
+		query: string;
+		search_count?: number;
+		auto_crawl_top_n?: number;
+		max_pages_per_url?: number;
+		extraction_schema?: Record<string, string>;
+		// Additional parameters
+		only_uncrawled?: boolean;
+		classify_documents?: boolean;
+		interpret_query?: boolean;
+		rerank_results?: boolean;
+		generate_suggestions?: boolean;
+		session_id?: string;
+	},
+	options?: RequestOptions,
+): Promise<ResearchResponse> {
+	return request<ResearchResponse>(
+		`${getApiBase()}/research`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify({
+				query: params.query,
+				search_count: params.search_count ?? 10,
+				auto_crawl_top_n: params.auto_crawl_top_n ?? 5,
+				max_pages_per_url: params.max_pages_per_url ?? 1,
+				extraction_schema: params.extraction_schema,
+				only_uncrawled: params.only_uncrawled,
+				classify_documents: params.classify_documents,
+				interpret_query: params.interpret_query,
+				rerank_results: params.rerank_results,
+				generate_suggestions: params.generate_suggestions,
+				session_id: params.session_id,
+			}),
+		},
+		withIdempotencyKey({ timeoutMs: LONG_FETCH_TIMEOUT, ...options }),
+	);
 }
 
 // =========================================================================
 // Workflow API - Scheduled recurring monitoring
 // =========================================================================
 
-export async function createWorkflow(params: {
-	name: string;
-	mode?: "simple" | "multi_step" | "ai_planned";
-	workflow_type?: "search" | "crawl";
-	operation_config?: Record<string, unknown>;
-	steps?: WorkflowStep[];
-	intent?: string;
-	stop_condition: WorkflowStopCondition;
-	// Schedule options (priority: scheduled_for > cron_expression > interval)
-	interval?: string; // Human-readable: "6 hours", "1 day", "2 weeks"
-	interval_minutes?: number; // Legacy: raw minutes (one of interval or interval_minutes required)
-	cron_expression?: string; // Cron expression (5-field): "0 9 * * MON,WED,FRI"
-	scheduled_for?: string; // ISO 8601 datetime for one-time run
-	anchor_minute?: number; // Anchor minute (0-59) for aligned intervals
-	timezone?: string; // IANA timezone (default 'UTC')
-	max_executions?: number;
-	max_credits_per_execution?: number;
-	session_id?: string;
-	// Email notification settings
-	email_config?: EmailConfig;
-	// Slack notification settings
-	slack_config?: SlackConfig;
-	// Dry run mode - preview cost without creating
-	dry_run?: boolean;
-	// Content recency filter confidence threshold (0-1, default 0.50)
-	recency_confidence_threshold?: number;
-}): Promise<CreateWorkflowResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<CreateWorkflowResponse>(response);
+export async function createWorkflow(
+	params: {
+		name: string;
+		mode?: "simple" | "multi_step" | "ai_planned";
+		workflow_type?: "search" | "crawl";
+		operation_config?: Record<string, unknown>;
+		steps?: WorkflowStep[];
+		intent?: string;
+		stop_condition: WorkflowStopCondition;
+		// Schedule options (priority: scheduled_for > cron_expression > interval)
+		interval?: string; // Human-readable: "6 hours", "1 day", "2 weeks"
+		interval_minutes?: number; // Legacy: raw minutes (one of interval or interval_minutes required)
+		cron_expression?: string; // Cron expression (5-field): "0 9 * * MON,WED,FRI"
+		scheduled_for?: string; // ISO 8601 datetime for one-time run
+		anchor_minute?: number; // Anchor minute (0-59) for aligned intervals
+		timezone?: string; // IANA timezone (default 'UTC')
+		max_executions?: number;
+		max_credits_per_execution?: number;
+		session_id?: string;
+		// Email notification settings
+		email_config?: EmailConfig;
+		// Slack notification settings
+		slack_config?: SlackConfig;
+		// Dry run mode - preview cost without creating
+		dry_run?: boolean;
+		// Content recency filter confidence threshold (0-1, default 0.50)
+		recency_confidence_threshold?: number;
+	},
+	options?: RequestOptions,
+): Promise<CreateWorkflowResponse> {
+	return request<CreateWorkflowResponse>(
+		`${getApiBase()}/workflows`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
-export async function listWorkflows(params?: {
-	limit?: number;
-	offset?: number;
-	status?: "active" | "paused" | "completed" | "failed";
-}): Promise<ListWorkflowsResponse> {
+export async function listWorkflows(
+	params?: {
+		limit?: number;
+		offset?: number;
+		status?: "active" | "paused" | "completed" | "failed";
+	},
+	options?: RequestOptions,
+): Promise<ListWorkflowsResponse> {
 	const searchParams = new URLSearchParams();
 	if (params?.limit) searchParams.set("limit", params.limit.toString());
 	if (params?.offset) searchParams.set("offset", params.offset.toString());
 	if (params?.status) searchParams.set("status", params.status);
 
-	const response = await fetch(`${ZIPF_API_BASE}/workflows?${searchParams}`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse<ListWorkflowsResponse>(response);
+	return request<ListWorkflowsResponse>(
+		`${getApiBase()}/workflows?${searchParams}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 export async function getWorkflow(
 	workflowId: string,
+	options?: RequestOptions,
 ): Promise<{ workflow: Workflow }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse<{ workflow: Workflow }>(response);
+	return request<{ workflow: Workflow }>(
+		`${getApiBase()}/workflows/${workflowId}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 export async function getWorkflowDetails(
 	workflowId: string,
+	options?: RequestOptions,
 ): Promise<WorkflowDetailsResponse> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/workflows/${workflowId}/details`,
+	return request<WorkflowDetailsResponse>(
+		`${getApiBase()}/workflows/${workflowId}/details`,
 		{
 			method: "GET",
 			headers: getHeaders(),
 		},
+		options,
 	);
-	return handleResponse<WorkflowDetailsResponse>(response);
 }
 
 export async function updateWorkflow(
@@ -778,51 +1154,52 @@ export async function updateWorkflow(
 		// Notification intelligence settings
 		notification_settings?: { suppression_threshold?: number } | null;
 	},
+	options?: RequestOptions,
 ): Promise<{ workflow: Workflow }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}`, {
-		method: "PATCH",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<{ workflow: Workflow }>(response);
+	return request<{ workflow: Workflow }>(
+		`${getApiBase()}/workflows/${workflowId}`,
+		{
+			method: "PATCH",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
 export async function executeWorkflow(
 	workflowId: string,
-	options?: { dry_run?: boolean },
+	params?: { dry_run?: boolean },
+	options?: RequestOptions,
 ): Promise<{
 	message: string;
 	execution_id?: string;
 	dry_run?: boolean;
 	cost_estimate?: unknown;
 }> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/workflows/${workflowId}/execute`,
+	return request(
+		`${getApiBase()}/workflows/${workflowId}/execute`,
 		{
 			method: "POST",
 			headers: getHeaders(),
-			body: options?.dry_run ? JSON.stringify({ dry_run: true }) : undefined,
+			body: params?.dry_run ? JSON.stringify({ dry_run: true }) : undefined,
 		},
+		options,
 	);
-	return handleResponse<{
-		message: string;
-		execution_id?: string;
-		dry_run?: boolean;
-		cost_estimate?: unknown;
-	}>(response);
 }
 
 export async function getWorkflowTimeline(
 	workflowId: string,
+	options?: RequestOptions,
 ): Promise<WorkflowTimelineResponse> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/workflows/${workflowId}/timeline`,
+	return request<WorkflowTimelineResponse>(
+		`${getApiBase()}/workflows/${workflowId}/timeline`,
 		{
 			method: "GET",
 			headers: getHeaders(),
 		},
+		options,
 	);
-	return handleResponse<WorkflowTimelineResponse>(response);
 }
 
 export async function getWorkflowDiff(
@@ -831,19 +1208,20 @@ export async function getWorkflowDiff(
 		limit?: number;
 		since?: string;
 	},
+	options?: RequestOptions,
 ): Promise<WorkflowDiffResponse> {
 	const searchParams = new URLSearchParams();
 	if (params?.limit) searchParams.set("limit", params.limit.toString());
 	if (params?.since) searchParams.set("since", params.since);
 
-	const response = await fetch(
-		`${ZIPF_API_BASE}/workflows/${workflowId}/diff?${searchParams}`,
+	return request<WorkflowDiffResponse>(
+		`${getApiBase()}/workflows/${workflowId}/diff?${searchParams}`,
 		{
 			method: "GET",
 			headers: getHeaders(),
 		},
+		options,
 	);
-	return handleResponse<WorkflowDiffResponse>(response);
 }
 
 function getExecutionFeedbackHeaders(): Record<string, string> {
@@ -857,15 +1235,19 @@ export async function submitAssessments(
 	params: {
 		assessments: Array<{ question_id: string; answer: string; context?: string; execution_id?: string }>;
 	},
+	options?: RequestOptions,
 ) {
 	const endpoint = `/workflows/${workflowId}/assessments`;
-	const url = `${ZIPF_API_BASE}${endpoint}`;
-	const response = await fetch(url, {
-		method: "POST",
-		headers: getHeaders({ "X-Zipf-Signal-Source": "mcp" }),
-		body: JSON.stringify(params),
-	});
-	return handleResponse(response);
+	const url = `${getApiBase()}${endpoint}`;
+	return request(
+		url,
+		{
+			method: "POST",
+			headers: getHeaders({ "X-Zipf-Signal-Source": "mcp" }),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
 export async function rateExecution(
@@ -881,22 +1263,24 @@ export async function rateExecution(
 		idempotency_key?: string;
 		actor_model?: string;
 	},
+	options?: RequestOptions,
 ): Promise<ExecutionFeedbackResponse> {
 	const endpoint = workflowId
-		? `${ZIPF_API_BASE}/workflows/${workflowId}/executions/${executionId}/feedback`
-		: `${ZIPF_API_BASE}/feedback`;
+		? `${getApiBase()}/workflows/${workflowId}/executions/${executionId}/feedback`
+		: `${getApiBase()}/feedback`;
 
 	const body = workflowId ? params : { ...params, execution_id: executionId };
 
-	const response = await fetch(
+	// The idempotency key makes the rating safe to retry on transient failures
+	return request<ExecutionFeedbackResponse>(
 		endpoint,
 		{
 			method: "POST",
 			headers: getExecutionFeedbackHeaders(),
 			body: JSON.stringify(body),
 		},
+		{ ...options, idempotencyKey: params.idempotency_key },
 	);
-	return handleResponse<ExecutionFeedbackResponse>(response);
 }
 
 export async function getExecutionRatings(
@@ -912,6 +1296,7 @@ export async function getExecutionRatings(
 		until?: string;
 		cursor?: string;
 	},
+	options?: RequestOptions,
 ): Promise<ExecutionFeedbackListResponse> {
 	const searchParams = new URLSearchParams();
 	if (params?.execution_id)
@@ -932,27 +1317,28 @@ export async function getExecutionRatings(
 	if (params?.cursor) searchParams.set("cursor", params.cursor);
 
 	const query = searchParams.toString();
-	const response = await fetch(
-		`${ZIPF_API_BASE}/workflows/${workflowId}/execution-feedback${query ? `?${query}` : ""}`,
+	return request<ExecutionFeedbackListResponse>(
+		`${getApiBase()}/workflows/${workflowId}/execution-feedback${query ? `?${query}` : ""}`,
 		{
 			method: "GET",
 			headers: getExecutionFeedbackHeaders(),
 		},
+		options,
 	);
-	return handleResponse<ExecutionFeedbackListResponse>(response);
 }
 
 export async function getExecutionRatingStats(
 	workflowId: string,
+	options?: RequestOptions,
 ): Promise<ExecutionFeedbackStatsResponse> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/workflows/${workflowId}/execution-feedback/stats`,
+	return request<ExecutionFeedbackStatsResponse>(
+		`${getApiBase()}/workflows/${workflowId}/execution-feedback/stats`,
 		{
 			method: "GET",
 			headers: getExecutionFeedbackHeaders(),
 		},
+		options,
 	);
-	return handleResponse<ExecutionFeedbackStatsResponse>(response);
 }
 
 export async function batchRateExecutions(
@@ -967,29 +1353,34 @@ export async function batchRateExecutions(
 			comment?: string;
 			result_url?: string;
 			idempotency_key?: string;
+			actor_model?: string;
 		}>;
 	},
+	options?: RequestOptions,
 ): Promise<ExecutionFeedbackBatchResponse> {
 	const endpoint = workflowId
-		? `${ZIPF_API_BASE}/workflows/${workflowId}/execution-feedback/batch`
-		: `${ZIPF_API_BASE}/feedback/batch`;
+		? `${getApiBase()}/workflows/${workflowId}/execution-feedback/batch`
+		: `${getApiBase()}/feedback/batch`;
 
-	const response = await fetch(
+	return request<ExecutionFeedbackBatchResponse>(
 		endpoint,
 		{
 			method: "POST",
 			headers: getExecutionFeedbackHeaders(),
 			body: JSON.stringify(params),
 		},
+		options,
 	);
-	return handleResponse<ExecutionFeedbackBatchResponse>(response);
 }
 
-export async function getFeedbackQueue(params?: {
-	workflow_id?: string;
-	include_standalone?: boolean;
-	limit?: number;
-}): Promise<FeedbackQueueResponse> {
+export async function getFeedbackQueue(
+	params?: {
+		workflow_id?: string;
+		include_standalone?: boolean;
+		limit?: number;
+	},
+	options?: RequestOptions,
+): Promise<FeedbackQueueResponse> {
 	const searchParams = new URLSearchParams();
 	if (params?.workflow_id) searchParams.set("workflow_id", params.workflow_id);
 	if (params?.include_standalone === false)
@@ -997,64 +1388,81 @@ export async function getFeedbackQueue(params?: {
 	if (params?.limit) searchParams.set("limit", String(params.limit));
 
 	const query = searchParams.toString();
-	const response = await fetch(
-		`${ZIPF_API_BASE}/feedback/queue${query ? `?${query}` : ""}`,
+	return request<FeedbackQueueResponse>(
+		`${getApiBase()}/feedback/queue${query ? `?${query}` : ""}`,
 		{
 			method: "GET",
 			headers: getExecutionFeedbackHeaders(),
 		},
+		options,
 	);
-	return handleResponse<FeedbackQueueResponse>(response);
 }
 
 export async function getFeedbackImpact(
 	workflowId: string,
+	options?: RequestOptions,
 ): Promise<FeedbackImpactResponse> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/workflows/${workflowId}/feedback-impact`,
+	return request<FeedbackImpactResponse>(
+		`${getApiBase()}/workflows/${workflowId}/feedback-impact`,
 		{
 			method: "GET",
 			headers: getExecutionFeedbackHeaders(),
 		},
+		options,
 	);
-	return handleResponse<FeedbackImpactResponse>(response);
 }
 
 export async function deleteWorkflow(
 	workflowId: string,
+	options?: RequestOptions,
 ): Promise<{ message: string }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}`, {
-		method: "DELETE",
-		headers: getHeaders(),
-	});
-	return handleResponse<{ message: string }>(response);
-}
-
-export async function planWorkflow(params: {
-	intent: string;
-	name?: string;
-	max_credits_per_execution?: number;
-	planning_budget?: number;
-	quality_mode?: "quality_first" | "balanced";
-	skip_entity_discovery?: boolean;
-}): Promise<PlanWorkflowResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/plan`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<PlanWorkflowResponse>(response);
+	return request<{ message: string }>(
+		`${getApiBase()}/workflows/${workflowId}`,
+		{
+			method: "DELETE",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
-export async function assessIntent(params: {
-	intent: string;
-}): Promise<AssessIntentResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/assess-intent`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<AssessIntentResponse>(response);
+export async function planWorkflow(
+	params: {
+		intent: string;
+		name?: string;
+		max_credits_per_execution?: number;
+		planning_budget?: number;
+		quality_mode?: "quality_first" | "balanced";
+		skip_entity_discovery?: boolean;
+	},
+	options?: RequestOptions,
+): Promise<PlanWorkflowResponse> {
+	return request<PlanWorkflowResponse>(
+		`${getApiBase()}/workflows/plan`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
+}
+
+export async function assessIntent(
+	params: {
+		intent: string;
+	},
+	options?: RequestOptions,
+): Promise<AssessIntentResponse> {
+	return request<AssessIntentResponse>(
+		`${getApiBase()}/workflows/assess-intent`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
 // =========================================================================
@@ -1221,7 +1629,7 @@ function computeSignalScore(ctx: SignalScoringContext): {
  * Phase 3: URL normalization for accurate correlation
  * Handles http/https, trailing slashes, and common tracking params
  */
-function normalizeUrl(url: string): string {
+export function normalizeUrl(url: string): string {
 	try {
 		const u = new URL(url);
 		u.protocol = "https:"; // Normalize http → https
@@ -1362,13 +1770,16 @@ function findCorrelations(digests: WorkflowDigest[]): {
  * Get a consolidated digest of all workflow updates since a given timestamp.
  * This is a compound tool that aggregates list → timeline → diff for all workflows.
  */
-export async function getWorkflowUpdatesDigest(params?: {
-	since?: string;
-	include_inactive?: boolean;
-	max_workflows?: number;
-	verbose?: boolean;
-	format?: "json" | "briefing" | "briefing_llm" | "compact";
-}): Promise<WorkflowUpdatesDigestResponse> {
+export async function getWorkflowUpdatesDigest(
+	params?: {
+		since?: string;
+		include_inactive?: boolean;
+		max_workflows?: number;
+		verbose?: boolean;
+		format?: "json" | "briefing" | "briefing_llm" | "compact";
+	},
+	options?: RequestOptions,
+): Promise<WorkflowUpdatesDigestResponse> {
 	const since =
 		params?.since ?? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
 	const includeInactive = params?.include_inactive ?? false;
@@ -1387,11 +1798,14 @@ export async function getWorkflowUpdatesDigest(params?: {
 
 	while (allWorkflows.length < maxWorkflowsApplied) {
 		const pageLimit = Math.min(100, maxWorkflowsApplied - allWorkflows.length);
-		const page = await listWorkflows({
-			limit: pageLimit,
-			offset,
-			status: includeInactive ? undefined : "active",
-		});
+		const page = await listWorkflows(
+			{
+				limit: pageLimit,
+				offset,
+				status: includeInactive ? undefined : "active",
+			},
+			options,
+		);
 
 		const batch = page.workflows || [];
 		if (
@@ -1443,13 +1857,17 @@ export async function getWorkflowUpdatesDigest(params?: {
 		allWorkflows.map(async (workflow): Promise<WorkflowDigest> => {
 			try {
 				// Fetch timeline (last few executions)
-				const timeline = await getWorkflowTimeline(workflow.id);
+				const timeline = await getWorkflowTimeline(workflow.id, options);
 
 				// Fetch diff since timestamp
-				const diff = await getWorkflowDiff(workflow.id, {
-					since: since,
-					limit: verbose ? 10 : 3,
-				});
+				const diff = await getWorkflowDiff(
+					workflow.id,
+					{
+						since: since,
+						limit: verbose ? 10 : 3,
+					},
+					options,
+				);
 
 				// Find executions since the timestamp
 				const recentExecutions =
@@ -1554,6 +1972,9 @@ export async function getWorkflowUpdatesDigest(params?: {
 		}),
 	);
 
+	// Per-workflow errors are tolerated, cancellation is not
+	options?.signal?.throwIfAborted();
+
 	// Step 3: Sort by signal_score (highest first), then by executions
 	// Phase 2: Signal scoring enables smarter sorting
 	const sortedDigests = workflowDigests.sort((a, b) => {
@@ -1813,44 +2234,70 @@ function formatTimeAgo(date: Date): string {
 // Entity API - Persistent entity tracking
 // =========================================================================
 
-export async function listEntitySchemas(): Promise<ListEntitySchemasResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-schemas`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse<ListEntitySchemasResponse>(response);
-}
-
-export async function createEntitySchema(params: {
-	name: string;
-	display_name?: string;
-	description?: string;
-	dedup_key: string[];
-	fields: Record<string, { type: string; description?: string; required?: boolean }>;
-	lifecycle_config?: EntityLifecycleConfig;
-}): Promise<CreateEntitySchemaResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-schemas`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<CreateEntitySchemaResponse>(response);
+export async function listEntitySchemas(
+	options?: RequestOptions,
+): Promise<ListEntitySchemasResponse> {
+	return request<ListEntitySchemasResponse>(
+		`${getApiBase()}/entity-schemas`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
-export async function getEntitySchema(name: string): Promise<{ schema: EntitySchema }> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-schemas/${name}`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse<{ schema: EntitySchema }>(response);
+export async function createEntitySchema(
+	params: {
+		name: string;
+		display_name?: string;
+		description?: string;
+		dedup_key: string[];
+		fields: Record<
+			string,
+			{ type: string; description?: string; required?: boolean }
+		>;
+		lifecycle_config?: EntityLifecycleConfig;
+	},
+	options?: RequestOptions,
+): Promise<CreateEntitySchemaResponse> {
+	return request<CreateEntitySchemaResponse>(
+		`${getApiBase()}/entity-schemas`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
-export async function deleteEntitySchema(name: string): Promise<{ message: string }> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-schemas/${name}`, {
-		method: "DELETE",
-		headers: getHeaders(),
-	});
-	return handleResponse<{ message: string }>(response);
+export async function getEntitySchema(
+	name: string,
+	options?: RequestOptions,
+): Promise<{ schema: EntitySchema }> {
+	return request<{ schema: EntitySchema }>(
+		`${getApiBase()}/entity-schemas/${name}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
+}
+
+export async function deleteEntitySchema(
+	name: string,
+	options?: RequestOptions,
+): Promise<{ message: string }> {
+	return request<{ message: string }>(
+		`${getApiBase()}/entity-schemas/${name}`,
+		{
+			method: "DELETE",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 export async function listEntities(
@@ -1862,7 +2309,8 @@ export async function listEntities(
 		sort_by?: 'first_seen_at' | 'last_seen_at' | 'created_at' | 'times_seen';
 		sort_order?: 'asc' | 'desc';
 		filter?: Record<string, unknown>;
-	}
+	},
+	options?: RequestOptions,
 ): Promise<ListEntitiesResponse> {
 	const searchParams = new URLSearchParams();
 	if (params?.status) searchParams.set("status", params.status);
@@ -1872,14 +2320,14 @@ export async function listEntities(
 	if (params?.sort_order) searchParams.set("sort_order", params.sort_order);
 	if (params?.filter) searchParams.set("filter", JSON.stringify(params.filter));
 
-	const response = await fetch(
-		`${ZIPF_API_BASE}/entities/${schemaName}?${searchParams}`,
+	return request<ListEntitiesResponse>(
+		`${getApiBase()}/entities/${schemaName}?${searchParams}`,
 		{
 			method: "GET",
 			headers: getHeaders(),
-		}
+		},
+		options,
 	);
-	return handleResponse<ListEntitiesResponse>(response);
 }
 
 export async function queryEntities(
@@ -1895,28 +2343,33 @@ export async function queryEntities(
 		}>;
 		limit?: number;
 		offset?: number;
-	}
+	},
+	options?: RequestOptions,
 ): Promise<QueryEntitiesResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/entities/${schemaName}`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<QueryEntitiesResponse>(response);
+	return request<QueryEntitiesResponse>(
+		`${getApiBase()}/entities/${schemaName}`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
 export async function getEntity(
 	schemaName: string,
-	entityId: string
+	entityId: string,
+	options?: RequestOptions,
 ): Promise<{ entity: Entity }> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/entities/${schemaName}/${entityId}`,
+	return request<{ entity: Entity }>(
+		`${getApiBase()}/entities/${schemaName}/${entityId}`,
 		{
 			method: "GET",
 			headers: getHeaders(),
-		}
+		},
+		options,
 	);
-	return handleResponse<{ entity: Entity }>(response);
 }
 
 export async function updateEntity(
@@ -1925,17 +2378,18 @@ export async function updateEntity(
 	params: {
 		data?: Record<string, unknown>;
 		status?: EntityStatus;
-	}
+	},
+	options?: RequestOptions,
 ): Promise<{ entity: Entity }> {
-	const response = await fetch(
-		`${ZIPF_API_BASE}/entities/${schemaName}/${entityId}`,
+	return request<{ entity: Entity }>(
+		`${getApiBase()}/entities/${schemaName}/${entityId}`,
 		{
 			method: "PATCH",
 			headers: getHeaders(),
 			body: JSON.stringify(params),
-		}
+		},
+		options,
 	);
-	return handleResponse<{ entity: Entity }>(response);
 }
 
 export async function exportEntities(
@@ -1945,7 +2399,8 @@ export async function exportEntities(
 		status?: EntityStatus;
 		limit?: number;
 		fields?: string[];
-	}
+	},
+	options?: RequestOptions,
 ): Promise<ExportEntitiesResponse> {
 	const searchParams = new URLSearchParams();
 	if (params?.format) searchParams.set("format", params.format);
@@ -1953,57 +2408,72 @@ export async function exportEntities(
 	if (params?.limit) searchParams.set("limit", params.limit.toString());
 	if (params?.fields) searchParams.set("fields", params.fields.join(","));
 
-	const response = await fetch(
-		`${ZIPF_API_BASE}/entities/${schemaName}/export?${searchParams}`,
+	return request<ExportEntitiesResponse>(
+		`${getApiBase()}/entities/${schemaName}/export?${searchParams}`,
 		{
 			method: "GET",
 			headers: getHeaders(),
-		}
+		},
+		options,
 	);
-	return handleResponse<ExportEntitiesResponse>(response);
 }
 
 // Entity Signals
 
-export async function listEntitySignals(params?: {
-	schema_id?: string;
-	is_active?: boolean;
-}): Promise<ListEntitySignalsResponse> {
+export async function listEntitySignals(
+	params?: {
+		schema_id?: string;
+		is_active?: boolean;
+	},
+	options?: RequestOptions,
+): Promise<ListEntitySignalsResponse> {
 	const searchParams = new URLSearchParams();
 	if (params?.schema_id) searchParams.set("schema_id", params.schema_id);
 	if (params?.is_active !== undefined) searchParams.set("is_active", params.is_active.toString());
 
-	const response = await fetch(
-		`${ZIPF_API_BASE}/entity-signals?${searchParams}`,
+	return request<ListEntitySignalsResponse>(
+		`${getApiBase()}/entity-signals?${searchParams}`,
 		{
 			method: "GET",
 			headers: getHeaders(),
-		}
+		},
+		options,
 	);
-	return handleResponse<ListEntitySignalsResponse>(response);
 }
 
-export async function createEntitySignal(params: {
-	schema_id: string;
-	name: string;
-	description?: string;
-	condition_config: SignalCondition;
-	actions_config: SignalAction[];
-}): Promise<CreateEntitySignalResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-signals`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<CreateEntitySignalResponse>(response);
+export async function createEntitySignal(
+	params: {
+		schema_id: string;
+		name: string;
+		description?: string;
+		condition_config: SignalCondition;
+		actions_config: SignalAction[];
+	},
+	options?: RequestOptions,
+): Promise<CreateEntitySignalResponse> {
+	return request<CreateEntitySignalResponse>(
+		`${getApiBase()}/entity-signals`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
-export async function getEntitySignal(signalId: string): Promise<{ signal: EntitySignal }> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-signals/${signalId}`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse<{ signal: EntitySignal }>(response);
+export async function getEntitySignal(
+	signalId: string,
+	options?: RequestOptions,
+): Promise<{ signal: EntitySignal }> {
+	return request<{ signal: EntitySignal }>(
+		`${getApiBase()}/entity-signals/${signalId}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 export async function updateEntitySignal(
@@ -2014,29 +2484,42 @@ export async function updateEntitySignal(
 		condition_config?: SignalCondition;
 		actions_config?: SignalAction[];
 		is_active?: boolean;
-	}
+	},
+	options?: RequestOptions,
 ): Promise<{ signal: EntitySignal }> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-signals/${signalId}`, {
-		method: "PATCH",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse<{ signal: EntitySignal }>(response);
+	return request<{ signal: EntitySignal }>(
+		`${getApiBase()}/entity-signals/${signalId}`,
+		{
+			method: "PATCH",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
-export async function deleteEntitySignal(signalId: string): Promise<{ message: string }> {
-	const response = await fetch(`${ZIPF_API_BASE}/entity-signals/${signalId}`, {
-		method: "DELETE",
-		headers: getHeaders(),
-	});
-	return handleResponse<{ message: string }>(response);
+export async function deleteEntitySignal(
+	signalId: string,
+	options?: RequestOptions,
+): Promise<{ message: string }> {
+	return request<{ message: string }>(
+		`${getApiBase()}/entity-signals/${signalId}`,
+		{
+			method: "DELETE",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 // =========================================================================
 // Workflow Slack Test
 // =========================================================================
 
-export async function getWorkflowSlackStatus(workflowId: string): Promise<{
+export async function getWorkflowSlackStatus(
+	workflowId: string,
+	options?: RequestOptions,
+): Promise<{
 	endpoint: string;
 	method: string;
 	description: string;
@@ -2054,14 +2537,20 @@ export async function getWorkflowSlackStatus(workflowId: string): Promise<{
 	validation_error: string | null;
 	ready_to_test: boolean;
 }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}/test-slack`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse(response);
+	return request(
+		`${getApiBase()}/workflows/${workflowId}/test-slack`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
-export async function testWorkflowSlack(workflowId: string): Promise<{
+export async function testWorkflowSlack(
+	workflowId: string,
+	options?: RequestOptions,
+): Promise<{
 	success: boolean;
 	message: string;
 	workflow_id: string;
@@ -2069,18 +2558,24 @@ export async function testWorkflowSlack(workflowId: string): Promise<{
 	channel: string;
 	timestamp: string;
 }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}/test-slack`, {
-		method: "POST",
-		headers: getHeaders(),
-	});
-	return handleResponse(response);
+	return request(
+		`${getApiBase()}/workflows/${workflowId}/test-slack`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 // =========================================================================
 // Workflow Validation & Recovery
 // =========================================================================
 
-export async function getWorkflowValidationStatus(workflowId: string): Promise<{
+export async function getWorkflowValidationStatus(
+	workflowId: string,
+	options?: RequestOptions,
+): Promise<{
 	endpoint: string;
 	method: string;
 	description: string;
@@ -2091,11 +2586,14 @@ export async function getWorkflowValidationStatus(workflowId: string): Promise<{
 		issues_found?: number;
 	};
 }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}/validate`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse(response);
+	return request(
+		`${getApiBase()}/workflows/${workflowId}/validate`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 export async function validateWorkflow(
@@ -2104,7 +2602,8 @@ export async function validateWorkflow(
 		url_health_check?: boolean;
 		full_validation?: boolean;
 		force?: boolean;
-	}
+	},
+	options?: RequestOptions,
 ): Promise<{
 	workflow_id: string;
 	validation_results: {
@@ -2121,15 +2620,21 @@ export async function validateWorkflow(
 	};
 	validated_at: string;
 }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}/validate`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params || {}),
-	});
-	return handleResponse(response);
+	return request(
+		`${getApiBase()}/workflows/${workflowId}/validate`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params || {}),
+		},
+		options,
+	);
 }
 
-export async function getWorkflowRecoverySuggestions(workflowId: string): Promise<{
+export async function getWorkflowRecoverySuggestions(
+	workflowId: string,
+	options?: RequestOptions,
+): Promise<{
 	workflow_id: string;
 	suggestions: Array<{
 		id: string;
@@ -2143,11 +2648,14 @@ export async function getWorkflowRecoverySuggestions(workflowId: string): Promis
 	}>;
 	total_pending: number;
 }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}/recovery`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse(response);
+	return request(
+		`${getApiBase()}/workflows/${workflowId}/recovery`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
 
 export async function applyWorkflowRecovery(
@@ -2158,7 +2666,8 @@ export async function applyWorkflowRecovery(
 		reject_all?: boolean;
 		reject_reason?: string;
 		retry_steps?: boolean;
-	}
+	},
+	options?: RequestOptions,
 ): Promise<{
 	workflow_id: string;
 	applied: number;
@@ -2166,22 +2675,30 @@ export async function applyWorkflowRecovery(
 	steps_marked_for_retry?: string[];
 	message: string;
 }> {
-	const response = await fetch(`${ZIPF_API_BASE}/workflows/${workflowId}/recovery`, {
-		method: "POST",
-		headers: getHeaders(),
-		body: JSON.stringify(params),
-	});
-	return handleResponse(response);
+	return request(
+		`${getApiBase()}/workflows/${workflowId}/recovery`,
+		{
+			method: "POST",
+			headers: getHeaders(),
+			body: JSON.stringify(params),
+		},
+		options,
+	);
 }
 
 // =========================================================================
 // Status API - Health check and account info
 // =========================================================================
 
-export async function getStatus(): Promise<StatusResponse> {
-	const response = await fetch(`${ZIPF_API_BASE}`, {
-		method: "GET",
-		headers: getHeaders(),
-	});
-	return handleResponse<StatusResponse>(response);
+export async function getStatus(
+	options?: RequestOptions,
+): Promise<StatusResponse> {
+	return request<StatusResponse>(
+		`${getApiBase()}`,
+		{
+			method: "GET",
+			headers: getHeaders(),
+		},
+		options,
+	);
 }
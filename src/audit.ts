@@ -0,0 +1,267 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+	appendFileSync,
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+} from "node:fs";
+import { resolve } from "node:path";
+import { getZipfDir, readConfig } from "./config.js";
+import { onResponse } from "./request.js";
+import type { CreditsInfo } from "./types.js";
+
+// One tool invocation, as written to ~/.zipfai/logs/audit-YYYY-MM-DD.jsonl
+export interface AuditEntry {
+	timestamp: string;
+	tool: string;
+	arguments: Record<string, unknown>;
+	duration_ms: number;
+	status: "ok" | "error";
+	// HTTP status of the last API call the tool made (missing when it made none or hit a network error)
+	status_code?: number;
+	api_calls: number;
+	credits_consumed: number;
+	// Account balance reported by the last API response that carried one
+	balance_after?: number;
+	session_id?: string;
+	workflow_id?: string;
+	// Fingerprint of the API key the call ran under (fingerprintApiKey)
+	account?: string;
+	// Active profile (missing when the call ran under a per-request key)
+	profile?: string;
+	client?: { name: string; version: string };
+	error?: string;
+}
+
+export function getLogDir(): string {
+	return resolve(getZipfDir(), "logs");
+}
+
+// On by default: ZIPF_AUDIT=0 (or 1) wins over "audit.enabled" in the config file
+export function isAuditEnabled(): boolean {
+	const env = process.env.ZIPF_AUDIT?.trim().toLowerCase();
+	if (env) {
+		return env === "1" || env === "true";
+	}
+	return readConfig().audit?.enabled !== false;
+}
+
+// =========================================================================
+// Argument sanitizing
+// =========================================================================
+
+// Argument names whose values never end up in the log
+const SECRET_ARGUMENT =
+	/api_?key|secret|password|authorization|webhook|(^|_)token$/i;
+
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 4;
+
+function sanitizeValue(value: unknown, depth: number): unknown {
+	if (typeof value === "string") {
+		return value.length > MAX_STRING_LENGTH
+			? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+			: value;
+	}
+	if (Array.isArray(value)) {
+		if (depth >= MAX_DEPTH) return `[${value.length} items]`;
+		const items = value
+			.slice(0, MAX_ARRAY_ITEMS)
+			.map((item) => sanitizeValue(item, depth + 1));
+		if (value.length > MAX_ARRAY_ITEMS) {
+			items.push(`… (${value.length - MAX_ARRAY_ITEMS} more)`);
+		}
+		return items;
+	}
+	if (value && typeof value === "object") {
+		if (depth >= MAX_DEPTH) return "[object]";
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			result[key] = SECRET_ARGUMENT.test(key)
+				? "[REDACTED]"
+				: sanitizeValue(item, depth + 1);
+		}
+		return result;
+	}
+	return value;
+}
+
+// Redact secret fields (API keys, webhook URLs) at any depth, leaving everything else whole.
+// Flags such as webhook_configured stay readable: only strings and objects are redacted.
+export function redactSecrets(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(redactSecrets);
+	}
+	if (value && typeof value === "object") {
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			const secret =
+				SECRET_ARGUMENT.test(key) &&
+				(typeof item === "string" ||
+					(item !== null && typeof item === "object"));
+			result[key] = secret ? "[REDACTED]" : redactSecrets(item);
+		}
+		return result;
+	}
+	return value;
+}
+
+// Redact secrets (API keys, webhook URLs) and truncate long values
+export function sanitizeArguments(
+	args: Record<string, unknown>,
+): Record<string, unknown> {
+	return sanitizeValue(args, 0) as Record<string, unknown>;
+}
+
+// =========================================================================
+// API call tracing
+// =========================================================================
+
+interface ApiTrace {
+	calls: number;
+	lastStatus?: number;
+	balanceAfter?: number;
+}
+
+// API calls made during the current tool call
+const currentTrace = new AsyncLocalStorage<ApiTrace>();
+
+onResponse((event) => {
+	const trace = currentTrace.getStore();
+	if (!trace) return;
+	trace.calls += event.attempts;
+	trace.lastStatus = event.status;
+
+	const balance = (event.body as { credits?: CreditsInfo } | undefined)?.credits
+		?.balance_after;
+	if (typeof balance === "number") {
+		trace.balanceAfter = balance;
+	}
+});
+
+// Run fn, counting the API calls it makes and keeping the last status code and balance
+export async function traceApiCalls<T>(
+	fn: () => Promise<T>,
+): Promise<{ result: T; trace: ApiTrace }> {
+	const trace: ApiTrace = { calls: 0 };
+	const result = await currentTrace.run(trace, fn);
+	return { result, trace };
+}
+
+// =========================================================================
+// Writing and reading
+// =========================================================================
+
+function getLogFile(date: Date): string {
+	return resolve(getLogDir(), `audit-${date.toISOString().slice(0, 10)}.jsonl`);
+}
+
+// Append an entry to today's log. Failing to log never fails the tool call.
+export function writeAuditEntry(entry: AuditEntry): void {
+	try {
+		const logDir = getLogDir();
+		if (!existsSync(logDir)) {
+			mkdirSync(logDir, { recursive: true });
+		}
+		appendFileSync(
+			getLogFile(new Date(entry.timestamp)),
+			`${JSON.stringify(entry)}\n`,
+		);
+	} catch (error) {
+		console.error("Failed to write audit log:", error);
+	}
+}
+
+// Read entries from the daily logs, oldest first (since/until are YYYY-MM-DD, inclusive)
+export function readAuditEntries(
+	options: { since?: string; until?: string } = {},
+): AuditEntry[] {
+	const logDir = getLogDir();
+	if (!existsSync(logDir)) {
+		return [];
+	}
+
+	const files = readdirSync(logDir)
+		.filter((name) => /^audit-\d{4}-\d{2}-\d{2}\.jsonl$/.test(name))
+		.filter((name) => {
+			const day = name.slice(6, 16);
+			return (
+				(!options.since || day >= options.since) &&
+				(!options.until || day <= options.until)
+			);
+		})
+		.sort();
+
+	const entries: AuditEntry[] = [];
+	for (const name of files) {
+		for (const line of readFileSync(resolve(logDir, name), "utf-8").split(
+			"\n",
+		)) {
+			if (line.trim() === "") continue;
+			try {
+				entries.push(JSON.parse(line));
+			} catch {
+				// Skip lines cut short by a crash
+			}
+		}
+	}
+	return entries;
+}
+
+// =========================================================================
+// Spend summary
+// =========================================================================
+
+export interface SpendTotals {
+	calls: number;
+	errors: number;
+	credits: number;
+}
+
+export interface SpendSummary {
+	total: SpendTotals;
+	by_tool: Record<string, SpendTotals>;
+	by_day: Record<string, SpendTotals>;
+}
+
+function addTo(
+	totals: Record<string, SpendTotals>,
+	key: string,
+	entry: AuditEntry,
+): void {
+	const current = totals[key] ?? { calls: 0, errors: 0, credits: 0 };
+	current.calls += 1;
+	current.errors += entry.status === "error" ? 1 : 0;
+	current.credits += entry.credits_consumed;
+	totals[key] = current;
+}
+
+export function summarizeSpend(entries: AuditEntry[]): SpendSummary {
+	const summary: SpendSummary = {
+		total: { calls: 0, errors: 0, credits: 0 },
+		by_tool: {},
+		by_day: {},
+	};
+
+	for (const entry of entries) {
+		summary.total.calls += 1;
+		summary.total.errors += entry.status === "error" ? 1 : 0;
+		summary.total.credits += entry.credits_consumed;
+		addTo(summary.by_tool, entry.tool, entry);
+		addTo(summary.by_day, entry.timestamp.slice(0, 10), entry);
+	}
+
+	return summary;
+}
+
+// One aligned row of a spend table (CLI output)
+export function formatSpendTotals(
+	label: string,
+	totals: SpendTotals,
+	width: number,
+): string {
+	const errors = totals.errors > 0 ? `  (${totals.errors} failed)` : "";
+	return `  ${label.padEnd(width)}  ${String(totals.calls).padStart(6)} calls  ${String(totals.credits).padStart(8)} credits${errors}`;
+}
@@ -0,0 +1,304 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { crawl, executeWorkflow } from "./api.js";
+import { type BudgetConfig, readConfig } from "./config.js";
+import { onResponse, type RequestOptions } from "./request.js";
+import type { CreditsInfo } from "./types.js";
+
+// Thrown when a tool call would go over a configured credit budget
+export class BudgetExceededError extends Error {
+	constructor(
+		message: string,
+		public estimate: number | undefined,
+		public remaining: number,
+	) {
+		super(message);
+		this.name = "BudgetExceededError";
+	}
+}
+
+// Remaining budget, reported after every tool call
+export interface BudgetStatus {
+	spent_this_call: number;
+	session?: { id: string; spent: number; limit: number; remaining: number };
+	process?: { spent: number; limit: number; remaining: number };
+}
+
+// Budgets come from ZIPF_BUDGET_SESSION / ZIPF_BUDGET_PROCESS, then "budget" in the config file
+export function getBudgetConfig(): BudgetConfig {
+	const config = readConfig().budget ?? {};
+	return {
+		session: parseBudget(process.env.ZIPF_BUDGET_SESSION) ?? config.session,
+		process: parseBudget(process.env.ZIPF_BUDGET_PROCESS) ?? config.process,
+	};
+}
+
+function parseBudget(value: string | undefined): number | undefined {
+	if (!value || value.trim() === "") return undefined;
+	const budget = Number(value);
+	return Number.isFinite(budget) && budget >= 0 ? budget : undefined;
+}
+
+export function isBudgetEnabled(): boolean {
+	const budget = getBudgetConfig();
+	return budget.session !== undefined || budget.process !== undefined;
+}
+
+// =========================================================================
+// Spend tracking
+// =========================================================================
+
+let processSpent = 0;
+const sessionSpent = new Map<string, number>();
+
+// The tool call an API response belongs to
+const currentCall = new AsyncLocalStorage<{
+	sessionId?: string;
+	spent: number;
+	// Dry-run estimate of the call's crawl, shared by the budget check and the confirmation prompt
+	crawlEstimate?: Promise<number | undefined>;
+}>();
+
+// Credits already counted per job started in this process (search or crawl id). Async crawls
+// report their consumption on the polled GET, and every poll repeats the job's running total.
+const jobsCharged = new Map<string, number>();
+
+const FINISHED_JOB_STATUSES = new Set(["completed", "failed", "cancelled"]);
+
+function chargeCall(spent: number): void {
+	processSpent += spent;
+	const call = currentCall.getStore();
+	if (call) {
+		call.spent += spent;
+		if (call.sessionId) {
+			sessionSpent.set(
+				call.sessionId,
+				(sessionSpent.get(call.sessionId) ?? 0) + spent,
+			);
+		}
+	}
+}
+
+// POSTs spend credits; a GET of a job started by one of them counts whatever the job has
+// consumed since it was last seen
+onResponse((event) => {
+	if (!event.body) return;
+
+	const body = event.body as {
+		id?: unknown;
+		search_job_id?: unknown;
+		status?: unknown;
+		credits?: CreditsInfo;
+	};
+	const jobId = asJobId(body.search_job_id) ?? asJobId(body.id);
+	if (event.method !== "POST" && !(jobId && jobsCharged.has(jobId))) return;
+
+	const consumed = body.credits?.consumed ?? 0;
+	const charged = jobId ? (jobsCharged.get(jobId) ?? 0) : 0;
+	if (jobId) {
+		if (FINISHED_JOB_STATUSES.has(String(body.status))) {
+			jobsCharged.delete(jobId);
+		} else {
+			jobsCharged.set(jobId, Math.max(charged, consumed));
+		}
+	}
+
+	const spent = consumed - charged;
+	if (spent > 0) chargeCall(spent);
+});
+
+function asJobId(value: unknown): string | undefined {
+	return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+// Run a tool call, attributing the credits it spends to its session
+export async function meterToolCall<T>(
+	sessionId: string | undefined,
+	fn: () => Promise<T>,
+): Promise<{ result: T; spent: number }> {
+	const call = { sessionId, spent: 0 };
+	const result = await currentCall.run(call, fn);
+	return { result, spent: call.spent };
+}
+
+export function getBudgetStatus(
+	sessionId: string | undefined,
+	spentThisCall = 0,
+): BudgetStatus {
+	const budget = getBudgetConfig();
+	const status: BudgetStatus = { spent_this_call: spentThisCall };
+
+	if (budget.session !== undefined && sessionId) {
+		const spent = sessionSpent.get(sessionId) ?? 0;
+		status.session = {
+			id: sessionId,
+			spent,
+			limit: budget.session,
+			remaining: Math.max(0, budget.session - spent),
+		};
+	}
+	if (budget.process !== undefined) {
+		status.process = {
+			spent: processSpent,
+			limit: budget.process,
+			remaining: Math.max(0, budget.process - processSpent),
+		};
+	}
+
+	return status;
+}
+
+// =========================================================================
+// Cost estimates
+// =========================================================================
+
+type ToolArgs = Record<string, unknown>;
+
+type CostEstimator = (
+	args: ToolArgs,
+	options?: RequestOptions,
+) => number | undefined | Promise<number | undefined>;
+
+function num(value: unknown, fallback: number): number {
+	return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+// Base search plus paid AI features (see the zipfai_search description)
+function estimateSearch(args: ToolArgs): number {
+	return (
+		1 +
+		(args.interpret_query ? 1 : 0) +
+		(args.rerank_results ? 1 : 0) +
+		(args.generate_suggestions ? 1 : 0) +
+		(args.query_decomposition ? num(args.max_sub_queries, 5) : 0)
+	);
+}
+
+// Pages times the per-page price (extraction and classification use advanced pricing)
+function estimateCrawlPages(args: ToolArgs, pages: number): number {
+	const advanced =
+		args.extraction_schema !== undefined || args.classify_documents !== false;
+	return pages * (advanced ? 2 : 1);
+}
+
+const ASK_DEPTH_COST: Record<string, number> = {
+	quick: 2,
+	standard: 3,
+	deep: 5,
+};
+
+// Tools that spend credits; everything else is free and never refused
+const TOOL_COST_ESTIMATORS: Record<string, CostEstimator> = {
+	zipfai_quick_search: () => 1,
+	zipfai_search: estimateSearch,
+	zipfai_session_search: estimateSearch,
+	zipfai_ask: (args) =>
+		(ASK_DEPTH_COST[String(args.depth ?? "standard")] ?? 3) +
+		(args.enable_decomposition ? num(args.max_sub_queries, 3) : 0),
+	zipfai_suggest_schema: () => 2,
+	zipfai_crawl: async (args, options) => {
+		if (args.dry_run) return 0;
+		// Ask the API for a dry-run estimate, falling back to list prices
+		return (
+			(await estimateCrawlCredits(
+				args as Parameters<typeof crawl>[0],
+				options,
+			)) ?? estimateCrawlPages(args, num(args.max_pages, 10))
+		);
+	},
+	zipfai_session_crawl: (args) =>
+		estimateCrawlPages(args, num(args.max_pages, 10)),
+	zipfai_research: (args) =>
+		1 +
+		(args.interpret_query ? 1 : 0) +
+		(args.rerank_results ? 1 : 0) +
+		(args.generate_suggestions ? 1 : 0) +
+		estimateCrawlPages(
+			args,
+			num(args.auto_crawl_top_n, 5) * num(args.max_pages_per_url, 1),
+		),
+	zipfai_execute_workflow: async (args, options) => {
+		if (args.dry_run || typeof args.workflow_id !== "string") return 0;
+		try {
+			const dryRun = await executeWorkflow(
+				args.workflow_id,
+				{ dry_run: true },
+				options,
+			);
+			return parseCostEstimate(dryRun.cost_estimate);
+		} catch {
+			return undefined;
+		}
+	},
+};
+
+// Credits a crawl would reserve, from an API dry run (undefined if it failed). Made once per
+// tool call, so the budget check and a large-crawl confirmation share it.
+export function estimateCrawlCredits(
+	params: Parameters<typeof crawl>[0],
+	options?: RequestOptions,
+): Promise<number | undefined> {
+	const call = currentCall.getStore();
+	if (call?.crawlEstimate) return call.crawlEstimate;
+
+	const estimate = crawl(
+		{ ...params, processing_mode: "sync", dry_run: true },
+		options,
+	).then(
+		(dryRun) => dryRun.credits?.reserved ?? undefined,
+		() => undefined,
+	);
+	if (call) call.crawlEstimate = estimate;
+	return estimate;
+}
+
+// Workflow dry runs report their estimate as a number or an object with a credit total
+function parseCostEstimate(estimate: unknown): number | undefined {
+	if (typeof estimate === "number") return estimate;
+	if (estimate && typeof estimate === "object") {
+		const fields = estimate as Record<string, unknown>;
+		for (const key of ["total_credits", "estimated_credits", "credits"]) {
+			if (typeof fields[key] === "number") return fields[key] as number;
+		}
+	}
+	return undefined;
+}
+
+// Refuse a tool call whose estimated cost would go over the remaining session or process budget
+export async function enforceBudget(
+	tool: string,
+	args: ToolArgs,
+	sessionId: string | undefined,
+	options?: RequestOptions,
+): Promise<void> {
+	const estimator = TOOL_COST_ESTIMATORS[tool];
+	if (!estimator || !isBudgetEnabled()) return;
+
+	const status = getBudgetStatus(sessionId);
+	const limits = [
+		status.session && {
+			scope: `session ${status.session.id}`,
+			remaining: status.session.remaining,
+		},
+		status.process && {
+			scope: "this server process",
+			remaining: status.process.remaining,
+		},
+	].filter((limit) => limit !== undefined && limit !== null);
+	if (limits.length === 0) return;
+
+	const estimate = await estimator(args, options);
+	for (const limit of limits) {
+		// Unknown cost: only refuse once the budget is used up
+		const exceeded =
+			estimate === undefined
+				? limit.remaining <= 0
+				: estimate > 0 && estimate > limit.remaining;
+		if (exceeded) {
+			throw new BudgetExceededError(
+				`Credit budget exceeded for ${limit.scope}: ${tool} would cost ${estimate === undefined ? "an unknown number of" : `~${estimate}`} credits but only ${limit.remaining} remain. Raise the budget (ZIPF_BUDGET_SESSION / ZIPF_BUDGET_PROCESS or "budget" in ~/.zipfai/config.json) or use a cheaper call.`,
+				estimate,
+				limit.remaining,
+			);
+		}
+	}
+}
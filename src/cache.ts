@@ -0,0 +1,249 @@
+import { createHash } from "node:crypto";
+import {
+	mkdir,
+	readdir,
+	readFile,
+	rename,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { resolve } from "node:path";
+import { getZipfDir, readConfig } from "./config.js";
+import type { CreditsInfo } from "./types.js";
+
+// How a single call uses the cache: bypass skips it entirely, refresh fetches and overwrites
+export type CacheMode = "bypass" | "refresh";
+
+// Per-call cache options accepted by cacheable API functions
+export interface CacheOptions {
+	cache?: CacheMode;
+}
+
+export type CacheableOperation =
+	| "search"
+	| "quick_search"
+	| "ask"
+	| "suggest_schema";
+
+// Default TTL per operation (in seconds)
+export const DEFAULT_CACHE_TTL: Record<CacheableOperation, number> = {
+	search: 600, // 10 minutes
+	quick_search: 600, // 10 minutes
+	ask: 3600, // 1 hour
+	suggest_schema: 86400, // 24 hours - page structure rarely changes
+};
+
+// Cache status reported alongside a response
+export interface CacheInfo {
+	status: "hit" | "miss" | "refresh" | "bypass";
+	cached_at?: string;
+	expires_at?: string;
+	credits_saved?: number;
+}
+
+// The cache directory is trimmed to this size, dropping the oldest entries first
+export const MAX_CACHE_BYTES = 100 * 1024 * 1024; // 100 MB
+
+// Writes sweep the cache at most this often
+const SWEEP_INTERVAL = 10 * 60 * 1000; // 10 minutes
+
+interface CacheEntry<T> {
+	operation: CacheableOperation;
+	cached_at: string;
+	expires_at: string;
+	response: T;
+}
+
+export function getCacheDir(): string {
+	return resolve(getZipfDir(), "cache");
+}
+
+// The cache is opt-in: ZIPF_CACHE=1 (or 0) wins over "cache.enabled" in the config file
+export function isCacheEnabled(): boolean {
+	const env = process.env.ZIPF_CACHE?.trim().toLowerCase();
+	if (env) {
+		return env === "1" || env === "true";
+	}
+	return readConfig().cache?.enabled === true;
+}
+
+// TTL for an operation in seconds (0 disables caching for it)
+export function getCacheTtl(operation: CacheableOperation): number {
+	const ttl = readConfig().cache?.ttl?.[operation];
+	return typeof ttl === "number" && ttl >= 0
+		? ttl
+		: DEFAULT_CACHE_TTL[operation];
+}
+
+// Sort object keys and drop undefined values so equivalent requests share a key
+function normalize(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(normalize);
+	}
+	if (value && typeof value === "object") {
+		const result: Record<string, unknown> = {};
+		for (const key of Object.keys(value).sort()) {
+			const item = (value as Record<string, unknown>)[key];
+			if (item !== undefined) {
+				result[key] = normalize(item);
+			}
+		}
+		return result;
+	}
+	return typeof value === "string" ? value.trim() : value;
+}
+
+function cacheKey(
+	operation: CacheableOperation,
+	scope: string,
+	body: unknown,
+): string {
+	return createHash("sha256")
+		.update(JSON.stringify({ operation, scope, body: normalize(body) }))
+		.digest("hex");
+}
+
+async function readEntry<T>(file: string): Promise<CacheEntry<T> | undefined> {
+	try {
+		const entry = JSON.parse(await readFile(file, "utf-8")) as CacheEntry<T>;
+		if (Date.parse(entry.expires_at) > Date.now()) {
+			return entry;
+		}
+		// Expired - clean it up
+		await rm(file, { force: true });
+	} catch {
+		// Missing or unreadable entry is a miss
+	}
+	return undefined;
+}
+
+// Earliest time the next write sweeps the cache (the first write in a process always does)
+let nextSweep = 0;
+
+// Delete expired and unreadable entries, then the oldest ones until the cache fits in maxBytes.
+// Entries are otherwise only removed when they're read after expiring.
+export async function sweepCache(maxBytes = MAX_CACHE_BYTES): Promise<void> {
+	const root = getCacheDir();
+	const files = await readdir(root, { recursive: true }).catch(() => []);
+	const kept: { file: string; size: number; cachedAt: number }[] = [];
+
+	for (const name of files) {
+		if (!name.endsWith(".json")) continue;
+		const file = resolve(root, name);
+		try {
+			const entry = JSON.parse(
+				await readFile(file, "utf-8"),
+			) as CacheEntry<unknown>;
+			if (Date.parse(entry.expires_at) > Date.now()) {
+				const { size } = await stat(file);
+				kept.push({ file, size, cachedAt: Date.parse(entry.cached_at) });
+				continue;
+			}
+		} catch {
+			// Unreadable entries are deleted like expired ones
+		}
+		await rm(file, { force: true });
+	}
+
+	let total = kept.reduce((sum, entry) => sum + entry.size, 0);
+	kept.sort((a, b) => a.cachedAt - b.cachedAt);
+	for (const entry of kept) {
+		if (total <= maxBytes) break;
+		await rm(entry.file, { force: true });
+		total -= entry.size;
+	}
+}
+
+async function writeEntry<T>(
+	file: string,
+	entry: CacheEntry<T>,
+): Promise<void> {
+	try {
+		await mkdir(resolve(file, ".."), { recursive: true });
+		// Write then rename so concurrent readers never see a partial entry
+		const tmpFile = `${file}.${process.pid}.tmp`;
+		await writeFile(tmpFile, JSON.stringify(entry));
+		await rename(tmpFile, file);
+	} catch (error) {
+		// A failed cache write must never fail the call
+		console.error("Failed to write cache entry:", error);
+	}
+
+	if (Date.now() >= nextSweep) {
+		nextSweep = Date.now() + SWEEP_INTERVAL;
+		await sweepCache().catch((error) => {
+			console.error("Failed to sweep the cache:", error);
+		});
+	}
+}
+
+// Serve a response from the cache, or fetch and store it.
+// scope separates accounts (e.g. the API key) so they never share entries.
+// shouldStore can reject incomplete responses (e.g. partial results after a timeout).
+export async function cached<T extends object>(
+	operation: CacheableOperation,
+	scope: string,
+	body: unknown,
+	mode: CacheMode | undefined,
+	fetcher: () => Promise<T>,
+	shouldStore: (response: T) => boolean = () => true,
+): Promise<T & { cache?: CacheInfo }> {
+	const ttl = getCacheTtl(operation);
+	if (!isCacheEnabled() || ttl === 0) {
+		return fetcher();
+	}
+
+	if (mode === "bypass") {
+		const response = await fetcher();
+		return { ...response, cache: { status: "bypass" } };
+	}
+
+	const file = resolve(
+		getCacheDir(),
+		operation,
+		`${cacheKey(operation, scope, body)}.json`,
+	);
+
+	if (mode !== "refresh") {
+		const entry = await readEntry<T>(file);
+		if (entry) {
+			const credits = (entry.response as { credits?: CreditsInfo }).credits;
+			return {
+				...entry.response,
+				cache: {
+					status: "hit",
+					cached_at: entry.cached_at,
+					expires_at: entry.expires_at,
+					credits_saved: credits?.consumed ?? 0,
+				},
+			};
+		}
+	}
+
+	const response = await fetcher();
+	if (!shouldStore(response)) {
+		return {
+			...response,
+			cache: { status: mode === "refresh" ? "refresh" : "miss" },
+		};
+	}
+
+	const now = Date.now();
+	const entry: CacheEntry<T> = {
+		operation,
+		cached_at: new Date(now).toISOString(),
+		expires_at: new Date(now + ttl * 1000).toISOString(),
+		response,
+	};
+	await writeEntry(file, entry);
+
+	return {
+		...response,
+		cache: {
+			status: mode === "refresh" ? "refresh" : "miss",
+			cached_at: entry.cached_at,
+			expires_at: entry.expires_at,
+		},
+	};
+}
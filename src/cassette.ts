@@ -0,0 +1,274 @@
+import {
+	appendFileSync,
+	mkdirSync,
+	readFileSync,
+	writeFileSync,
+} from "node:fs";
+import { dirname, resolve } from "node:path";
+import { redactSecrets } from "./audit.js";
+import { getHttpClient, type HttpClient, setHttpClient } from "./request.js";
+
+// Record/replay of API traffic.
+// ZIPF_RECORD=<file> appends every request/response made by the API layer to a JSONL cassette;
+// ZIPF_REPLAY=<file> answers requests from a cassette instead of the network.
+// Cassettes are committed as test fixtures, so auth headers and secret body fields (API keys,
+// webhook URLs, as in the audit log) are redacted.
+
+// Headers whose values never end up in a cassette
+const REDACTED_HEADERS = new Set([
+	"authorization",
+	"proxy-authorization",
+	"x-api-key",
+	"cookie",
+	"set-cookie",
+]);
+
+const REDACTED = "[REDACTED]";
+
+// One line of a cassette
+export interface CassetteEntry {
+	recorded_at: string;
+	duration_ms: number;
+	request: {
+		method: string;
+		url: string;
+		headers: Record<string, string>;
+		body?: unknown;
+	};
+	// Missing when the request failed without a response (network error, abort)
+	response?: {
+		status: number;
+		status_text: string;
+		headers: Record<string, string>;
+		body?: unknown; // Parsed JSON body
+		text?: string; // Raw body when it wasn't JSON
+	};
+	error?: string;
+}
+
+function redactHeaders(
+	headers: HeadersInit | undefined,
+): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const [name, value] of new Headers(headers).entries()) {
+		result[name] = REDACTED_HEADERS.has(name) ? REDACTED : value;
+	}
+	return result;
+}
+
+function parseBody(text: string): { body?: unknown; text?: string } {
+	if (text === "") return {};
+	try {
+		return { body: JSON.parse(text) };
+	} catch {
+		return { text };
+	}
+}
+
+// A request body as it's recorded: JSON with its secrets redacted, else the raw text
+function recordedBody(text: string): unknown {
+	const { body } = parseBody(text);
+	return body === undefined ? text : redactSecrets(body);
+}
+
+// =========================================================================
+// Recording
+// =========================================================================
+
+// Wrap a client so every call it makes is appended to a cassette file
+export function createRecordingClient(
+	file: string,
+	inner: HttpClient = getHttpClient(),
+): HttpClient {
+	mkdirSync(dirname(resolve(file)), { recursive: true });
+
+	const record = (entry: CassetteEntry) => {
+		try {
+			appendFileSync(file, `${JSON.stringify(entry)}\n`);
+		} catch (error) {
+			// Recording is a debugging aid - never fail the call over it
+			console.error("Failed to write cassette entry:", error);
+		}
+	};
+
+	return async (url, init) => {
+		const startTime = Date.now();
+		const request: CassetteEntry["request"] = {
+			method: (init.method ?? "GET").toUpperCase(),
+			url,
+			headers: redactHeaders(init.headers),
+			...(typeof init.body === "string"
+				? { body: recordedBody(init.body) }
+				: {}),
+		};
+
+		let response: Response;
+		try {
+			response = await inner(url, init);
+		} catch (error) {
+			record({
+				recorded_at: new Date().toISOString(),
+				duration_ms: Date.now() - startTime,
+				request,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			throw error;
+		}
+
+		// Read the body once, then hand the caller an equivalent response
+		const text = await response.text();
+		const parsed = parseBody(text);
+		if (parsed.body !== undefined) {
+			parsed.body = redactSecrets(parsed.body);
+		}
+		record({
+			recorded_at: new Date().toISOString(),
+			duration_ms: Date.now() - startTime,
+			request,
+			response: {
+				status: response.status,
+				status_text: response.statusText,
+				headers: redactHeaders(response.headers),
+				...parsed,
+			},
+		});
+
+		return new Response(text === "" ? null : text, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: response.headers,
+		});
+	};
+}
+
+// =========================================================================
+// Replay
+// =========================================================================
+
+// Read a cassette file, failing on the first malformed line
+export function readCassette(file: string): CassetteEntry[] {
+	const lines = readFileSync(file, "utf-8").split("\n");
+	const entries: CassetteEntry[] = [];
+	lines.forEach((line, index) => {
+		if (line.trim() === "") return;
+		try {
+			const entry = JSON.parse(line) as CassetteEntry;
+			if (!entry?.request?.method || !entry.request.url) {
+				throw new Error("missing request method or url");
+			}
+			entries.push(entry);
+		} catch (error) {
+			throw new Error(
+				`Invalid cassette entry at ${file}:${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	});
+	return entries;
+}
+
+// Path and query of a URL - replays don't depend on which API base was recorded
+function requestPath(url: string): { path: string; pathname: string } {
+	const parsed = new URL(url);
+	return {
+		path: `${parsed.pathname}${parsed.search}`,
+		pathname: parsed.pathname,
+	};
+}
+
+function sameBody(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function toResponse(entry: CassetteEntry): Response {
+	if (!entry.response) {
+		throw new Error(entry.error ?? "Recorded request failed");
+	}
+
+	const { status, status_text, headers, body, text } = entry.response;
+	const payload = text ?? (body === undefined ? null : JSON.stringify(body));
+	return new Response(payload, { status, statusText: status_text, headers });
+}
+
+// Serve responses from recorded entries.
+// Each entry is used once, in recorded order: an exact match (method, path, query, body) is
+// preferred, then the next entry for the same method and path (queries often carry timestamps).
+// Once a request's entries are used up, its last response is repeated (e.g. a finished job).
+export function createReplayClient(
+	entries: CassetteEntry[],
+	source = "cassette",
+): HttpClient {
+	const remaining = entries.map((entry) => ({
+		entry,
+		...requestPath(entry.request.url),
+	}));
+	const lastServed = new Map<string, CassetteEntry>();
+
+	return async (url, init) => {
+		init.signal?.throwIfAborted();
+
+		const method = (init.method ?? "GET").toUpperCase();
+		const { path, pathname } = requestPath(url);
+		// Compared the way it was recorded, with its secrets redacted
+		const body =
+			typeof init.body === "string" ? recordedBody(init.body) : undefined;
+
+		const candidates = remaining.filter(
+			(item) =>
+				item.entry.request.method === method && item.pathname === pathname,
+		);
+		const match =
+			candidates.find(
+				(item) => item.path === path && sameBody(item.entry.request.body, body),
+			) ?? candidates[0];
+
+		let entry: CassetteEntry | undefined;
+		if (match) {
+			remaining.splice(remaining.indexOf(match), 1);
+			entry = match.entry;
+			lastServed.set(`${method} ${pathname}`, entry);
+		} else {
+			entry = lastServed.get(`${method} ${pathname}`);
+		}
+
+		if (!entry) {
+			return new Response(
+				JSON.stringify({
+					error: `No recorded response for ${method} ${path} in ${source}`,
+				}),
+				{ status: 404, headers: { "Content-Type": "application/json" } },
+			);
+		}
+		return toResponse(entry);
+	};
+}
+
+// =========================================================================
+// Environment
+// =========================================================================
+
+// Install the recording or replaying client from ZIPF_RECORD / ZIPF_REPLAY.
+// Returns a description for the startup log, or undefined when neither is set.
+export function configureCassette(): string | undefined {
+	const recordFile = process.env.ZIPF_RECORD?.trim();
+	const replayFile = process.env.ZIPF_REPLAY?.trim();
+
+	if (recordFile && replayFile) {
+		throw new Error("ZIPF_RECORD and ZIPF_REPLAY can't be used together");
+	}
+
+	if (recordFile) {
+		// One cassette per run: start from an empty file
+		mkdirSync(dirname(resolve(recordFile)), { recursive: true });
+		writeFileSync(recordFile, "");
+		setHttpClient(createRecordingClient(recordFile));
+		return `Recording API traffic to ${recordFile}`;
+	}
+
+	if (replayFile) {
+		const entries = readCassette(replayFile);
+		setHttpClient(createReplayClient(entries, replayFile));
+		return `Replaying ${entries.length} recorded API responses from ${replayFile}`;
+	}
+
+	return undefined;
+}
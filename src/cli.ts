@@ -1,11 +1,33 @@
 #!/usr/bin/env node
 
 import { spawn } from "node:child_process";
-import { existsSync, mkdirSync, writeFileSync } from "node:fs";
-import { homedir } from "node:os";
+import { realpathSync } from "node:fs";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import { parseArgs } from "node:util";
+import {
+	formatSpendTotals,
+	getLogDir,
+	readAuditEntries,
+	summarizeSpend,
+} from "./audit.js";
+import {
+	DEFAULT_API_BASE,
+	DEFAULT_PROFILE,
+	getConfigFile,
+	getProfileName,
+	listProfiles,
+	type ProfileConfig,
+	readConfig,
+	setProfileField,
+	writeConfig,
+} from "./config.js";
+import {
+	DEFAULT_MOCK_PORT,
+	MOCK_API_PATH,
+	startMockServer,
+} from "./mock-server.js";
+import { buildUsageReport, formatUsageReport } from "./usage.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -22,24 +44,17 @@ function runClaude(args: string[]): Promise<boolean> {
 	});
 }
 
-function saveApiKey(apiKey: string): void {
-	// Save API key to ~/.zipfai/config so the plugin can read it
-	const configDir = resolve(homedir(), ".zipfai");
-	const configFile = resolve(configDir, "config.json");
-
-	if (!existsSync(configDir)) {
-		mkdirSync(configDir, { recursive: true });
-	}
-
-	writeFileSync(configFile, JSON.stringify({ apiKey }, null, 2));
-	console.log(`API key saved to ${configFile}`);
+function saveApiKey(apiKey: string, profile: string = DEFAULT_PROFILE): void {
+	// Save API key to ~/.zipfai/config so the plugin can read it (keeping other settings)
+	setProfileField(profile, "apiKey", apiKey);
+	console.log(`API key saved to ${getConfigFile()} (profile: ${profile})`);
 }
 
-async function install(apiKey: string): Promise<void> {
+async function install(apiKey: string, profile?: string): Promise<void> {
 	console.log("Installing ZipfAI plugin to Claude Code...\n");
 
 	// Save API key
-	saveApiKey(apiKey);
+	saveApiKey(apiKey, profile);
 
 	const pluginRoot = getPluginRoot();
 
@@ -81,21 +96,350 @@ async function uninstall(): Promise<void> {
 	console.log("Uninstalled successfully!");
 }
 
+// =========================================================================
+// config command
+// =========================================================================
+
+const PROFILE_FIELDS: (keyof ProfileConfig)[] = ["apiKey", "baseUrl"];
+
+function isProfileField(key: string): key is keyof ProfileConfig {
+	return (PROFILE_FIELDS as string[]).includes(key);
+}
+
+// Show only the start and end of an API key
+function maskApiKey(apiKey: string | undefined): string {
+	if (!apiKey) return "(not set)";
+	return apiKey.length <= 8
+		? "****"
+		: `${apiKey.slice(0, 4)}...${apiKey.slice(-4)}`;
+}
+
+// Parse a CLI value as JSON (numbers, booleans, objects), falling back to a plain string
+function parseValue(value: string): unknown {
+	try {
+		return JSON.parse(value);
+	} catch {
+		return value;
+	}
+}
+
+// Read a dotted path like "cache.enabled" from the config
+function getPath(config: Record<string, unknown>, path: string): unknown {
+	let current: unknown = config;
+	for (const part of path.split(".")) {
+		if (!current || typeof current !== "object") return undefined;
+		current = (current as Record<string, unknown>)[part];
+	}
+	return current;
+}
+
+function setPath(
+	config: Record<string, unknown>,
+	path: string,
+	value: unknown,
+): void {
+	const parts = path.split(".");
+	let current = config;
+	for (const part of parts.slice(0, -1)) {
+		const next = current[part];
+		if (!next || typeof next !== "object") {
+			current[part] = {};
+		}
+		current = current[part] as Record<string, unknown>;
+	}
+	current[parts[parts.length - 1]] = value;
+}
+
+function configList(): void {
+	const config = readConfig();
+	const active = getProfileName(config);
+	const profiles = listProfiles(config);
+	const names = Object.keys(profiles);
+
+	console.log(`Config file: ${getConfigFile()}\n`);
+	if (names.length === 0) {
+		console.log(
+			"No profiles yet. Create one with: npx zipfai-mcp-server config set apiKey <key> --profile <name>",
+		);
+		return;
+	}
+
+	for (const name of names.sort()) {
+		const profile = profiles[name];
+		const marker = name === active ? "*" : " ";
+		console.log(`${marker} ${name}`);
+		console.log(`    apiKey:  ${maskApiKey(profile.apiKey)}`);
+		console.log(
+			`    baseUrl: ${profile.baseUrl ?? `${DEFAULT_API_BASE} (default)`}`,
+		);
+	}
+
+	if (!profiles[active]) {
+		console.log(`\nActive profile "${active}" does not exist yet.`);
+	}
+}
+
+// Mask every apiKey in a config value (e.g. "config get profiles")
+function maskApiKeys(value: unknown, key?: string): unknown {
+	if (key === "apiKey" && typeof value === "string") {
+		return maskApiKey(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => maskApiKeys(item));
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([field, item]) => [
+				field,
+				maskApiKeys(item, field),
+			]),
+		);
+	}
+	return value;
+}
+
+// API keys are masked unless reveal is set
+function configGet(key: string, profile: string, reveal: boolean): void {
+	const config = readConfig();
+	const raw = isProfileField(key)
+		? listProfiles(config)[profile]?.[key]
+		: getPath(config as Record<string, unknown>, key);
+
+	if (raw === undefined) {
+		console.error(`${key} is not set`);
+		process.exit(1);
+	}
+	const value = reveal ? raw : maskApiKeys(raw, key);
+	console.log(
+		typeof value === "string" ? value : JSON.stringify(value, null, 2),
+	);
+}
+
+function configSet(key: string, value: string, profile: string): void {
+	if (isProfileField(key)) {
+		setProfileField(profile, key, value);
+		console.log(`Set ${key} for profile ${profile}`);
+		return;
+	}
+
+	if (key === "profiles" || key.startsWith("profiles.") || key === "apiKey") {
+		console.error(
+			`Use "config set apiKey|baseUrl <value> --profile <name>" to edit profiles`,
+		);
+		process.exit(1);
+	}
+
+	const config = readConfig() as Record<string, unknown>;
+	setPath(config, key, parseValue(value));
+	writeConfig(config);
+	console.log(`Set ${key}`);
+}
+
+function configUse(profile: string): void {
+	const config = readConfig();
+	if (!listProfiles(config)[profile]) {
+		console.error(
+			`Profile "${profile}" not found. Create it with: npx zipfai-mcp-server config set apiKey <key> --profile ${profile}`,
+		);
+		process.exit(1);
+	}
+
+	writeConfig({ ...config, currentProfile: profile });
+	console.log(`Now using profile ${profile}`);
+	if (process.env.ZIPF_PROFILE && process.env.ZIPF_PROFILE !== profile) {
+		console.log(
+			`Note: ZIPF_PROFILE=${process.env.ZIPF_PROFILE} overrides this in the current shell`,
+		);
+	}
+}
+
+export function runConfigCommand(
+	args: string[],
+	profileOption?: string,
+	reveal = false,
+): void {
+	const [subcommand, key, value] = args;
+	const profile = profileOption ?? getProfileName();
+
+	switch (subcommand) {
+		case "list":
+			configList();
+			break;
+		case "get":
+			if (!key) {
+				console.error(
+					"Usage: npx zipfai-mcp-server config get <key> [--profile <name>] [--reveal]",
+				);
+				process.exit(1);
+			}
+			configGet(key, profile, reveal);
+			break;
+		case "set":
+			if (!key || value === undefined) {
+				console.error(
+					"Usage: npx zipfai-mcp-server config set <key> <value> [--profile <name>]",
+				);
+				process.exit(1);
+			}
+			configSet(key, value, profile);
+			break;
+		case "use":
+			if (!key) {
+				console.error("Usage: npx zipfai-mcp-server config use <profile>");
+				process.exit(1);
+			}
+			configUse(key);
+			break;
+		default:
+			console.error(`Unknown config command: ${subcommand ?? "(none)"}\n`);
+			printHelp();
+			process.exit(1);
+	}
+}
+
+async function startMock(
+	host: string,
+	portOption: string | undefined,
+	fixturesFile: string | undefined,
+): Promise<void> {
+	const port = portOption ? Number.parseInt(portOption, 10) : DEFAULT_MOCK_PORT;
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		console.error(`Invalid --port: ${portOption}`);
+		process.exit(1);
+	}
+
+	await startMockServer({ host, port, fixturesFile });
+	const baseUrl = `http://${host}:${port}${MOCK_API_PATH}`;
+	console.log(`Mock ZipfAI API running on ${baseUrl}`);
+	console.log("\nPoint the MCP server at it with:");
+	console.log(`  ZIPF_API_BASE_URL=${baseUrl} ZIPF_API_KEY=mock`);
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function showLogs(
+	since: string | undefined,
+	until: string | undefined,
+	json: boolean | undefined,
+): void {
+	for (const [option, value] of [
+		["--since", since],
+		["--until", until],
+	]) {
+		if (value !== undefined && !DAY_PATTERN.test(value)) {
+			console.error(`Invalid ${option}: ${value} (expected YYYY-MM-DD)`);
+			process.exit(1);
+		}
+	}
+
+	const summary = summarizeSpend(readAuditEntries({ since, until }));
+	if (json) {
+		console.log(JSON.stringify(summary, null, 2));
+		return;
+	}
+
+	console.log(`Audit logs: ${getLogDir()}\n`);
+	if (summary.total.calls === 0) {
+		console.log("No tool calls logged for this period.");
+		return;
+	}
+
+	// Most expensive tools first
+	const tools = Object.entries(summary.by_tool).sort(
+		([a, x], [b, y]) => y.credits - x.credits || a.localeCompare(b),
+	);
+	const width = Math.max(...tools.map(([name]) => name.length), 10);
+
+	console.log("Spend by tool:");
+	for (const [name, totals] of tools) {
+		console.log(formatSpendTotals(name, totals, width));
+	}
+
+	console.log("\nSpend by day:");
+	for (const [day, totals] of Object.entries(summary.by_day).sort()) {
+		console.log(formatSpendTotals(day, totals, width));
+	}
+
+	console.log(`\n${formatSpendTotals("Total", summary.total, width)}`);
+}
+
+async function showUsage(
+	since: string | undefined,
+	until: string | undefined,
+	json: boolean | undefined,
+	local: boolean | undefined,
+): Promise<void> {
+	try {
+		const report = await buildUsageReport({
+			since,
+			until,
+			include_api_stats: !local,
+		});
+		console.log(
+			json ? JSON.stringify(report, null, 2) : formatUsageReport(report),
+		);
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error);
+		process.exit(1);
+	}
+}
+
 function printHelp(): void {
 	console.log(`
 ZipfAI Web Search Plugin
 
 Usage:
-  npx zipfai-mcp-server install --api-key=<key>
+  npx zipfai-mcp-server install --api-key=<key> [--profile=<name>]
   npx zipfai-mcp-server uninstall
+  npx zipfai-mcp-server config list
+  npx zipfai-mcp-server config get <key> [--profile=<name>] [--reveal]
+  npx zipfai-mcp-server config set <key> <value> [--profile=<name>]
+  npx zipfai-mcp-server config use <profile>
+  npx zipfai-mcp-server mock [--port=4010] [--host=127.0.0.1] [--fixtures=<file>]
+  npx zipfai-mcp-server logs [--since=YYYY-MM-DD] [--until=YYYY-MM-DD] [--json]
+  npx zipfai-mcp-server usage [--since=<date>] [--until=<date>] [--json] [--local]
 
 Commands:
   install     Install plugin to Claude Code
   uninstall   Remove plugin from Claude Code
+  config      Manage ~/.zipfai/config.json
+                list          Show profiles (* marks the active one)
+                get/set       Read or change a setting: apiKey and baseUrl are
+                              per profile, anything else is a dotted path
+                              (e.g. cache.enabled, budget.process,
+                              tools.toolsets)
+                use           Switch the active profile
+  mock        Run a local mock of the ZipfAI API with canned responses
+              (no network, no credits)
+  logs        Summarize tool calls and credit spend from the audit log
+              (~/.zipfai/logs), by tool and by day
+  usage       Credits consumed per tool, session, workflow and day, with a
+              projection of when the balance runs out (default: last 7 days)
 
 Options:
   --api-key   Your ZipfAI API key (required for install)
+  --profile   Profile to read or write (default: the active profile)
+  --reveal    Print API keys in full with config get (masked by default)
+  --port      Port for the mock API (default: 4010)
+  --host      Host for the mock API (default: 127.0.0.1)
+  --fixtures  JSON file of canned responses that replace the built-in ones,
+              keyed by "METHOD /path"
+  --since     First day to include in logs/usage (UTC, inclusive)
+  --until     Last day to include in logs/usage (UTC, inclusive)
+  --json      Print the logs/usage summary as JSON
+  --local     Build the usage report from the audit log only (no API calls)
   --help      Show this help message
+
+Environment:
+  ZIPF_PROFILE        Use this profile instead of the active one
+  ZIPF_API_BASE_URL   Send API calls here instead of the profile's baseUrl
+  ZIPF_AUDIT          Set to 0 to stop the server writing the audit log
+  ZIPF_PROJECT        Project directory the current session is kept for (default: cwd)
+  ZIPF_TOOLSETS       Toolsets the server registers (search, sessions, workflows,
+                      quality, entities, admin; default: all)
+  ZIPF_TOOLS_ALLOW    Tools registered on top of the toolsets (comma-separated)
+  ZIPF_TOOLS_DENY     Tools never registered (comma-separated)
+  ZIPF_MODE           read_only (no changes, no spend) or no_spend (FREE tools only)
 `);
 }
 
@@ -104,6 +448,15 @@ async function main(): Promise<void> {
 		allowPositionals: true,
 		options: {
 			"api-key": { type: "string" },
+			profile: { type: "string" },
+			port: { type: "string" },
+			host: { type: "string", default: "127.0.0.1" },
+			fixtures: { type: "string" },
+			since: { type: "string" },
+			until: { type: "string" },
+			json: { type: "boolean" },
+			reveal: { type: "boolean" },
+			local: { type: "boolean" },
 			help: { type: "boolean", short: "h" },
 		},
 	});
@@ -123,12 +476,24 @@ async function main(): Promise<void> {
 				printHelp();
 				process.exit(1);
 			}
-			await install(apiKey);
+			await install(apiKey, values.profile);
 			break;
 		}
 		case "uninstall":
 			await uninstall();
 			break;
+		case "config":
+			runConfigCommand(positionals.slice(1), values.profile, values.reveal);
+			break;
+		case "mock":
+			await startMock(values.host, values.port, values.fixtures);
+			break;
+		case "logs":
+			showLogs(values.since, values.until, values.json);
+			break;
+		case "usage":
+			await showUsage(values.since, values.until, values.json, values.local);
+			break;
 		default:
 			console.error(`Unknown command: ${command}\n`);
 			printHelp();
@@ -136,4 +501,18 @@ async function main(): Promise<void> {
 	}
 }
 
-main();
+// Run only as the CLI itself, not when imported (e.g. by tests)
+function isEntryPoint(): boolean {
+	try {
+		return (
+			process.argv[1] !== undefined &&
+			realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)
+		);
+	} catch {
+		return false;
+	}
+}
+
+if (isEntryPoint()) {
+	main();
+}
@@ -0,0 +1,156 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+
+// Production API base URL
+export const DEFAULT_API_BASE = "https://www.zipf.ai/api/v1";
+
+// Name of the profile built from the top-level "apiKey" (configs written before profiles existed)
+export const DEFAULT_PROFILE = "default";
+
+// One account / environment to talk to
+export interface ProfileConfig {
+	apiKey?: string;
+	baseUrl?: string;
+}
+
+// Response cache settings
+export interface CacheConfig {
+	enabled?: boolean;
+	// TTL in seconds per operation (search, quick_search, ask, suggest_schema)
+	ttl?: Record<string, number>;
+}
+
+// Credit budgets enforced by the server (in credits)
+export interface BudgetConfig {
+	// Per ZipfAI session (session_id)
+	session?: number;
+	// Per server process
+	process?: number;
+}
+
+// Audit log of tool calls (~/.zipfai/logs)
+export interface AuditConfig {
+	enabled?: boolean;
+}
+
+// Tools the server registers (toolsets.ts)
+export interface ToolsConfig {
+	// Toolset names, or "all" (the default)
+	toolsets?: string[];
+	// Tools registered on top of the toolsets
+	allow?: string[];
+	// Tools never registered
+	deny?: string[];
+	// "read_only" or "no_spend" hides tools that change things or spend credits
+	mode?: string;
+}
+
+// Contents of ~/.zipfai/config.json
+export interface ZipfConfig {
+	// Key of the default profile
+	apiKey?: string;
+	// Profile used when ZIPF_PROFILE isn't set
+	currentProfile?: string;
+	profiles?: Record<string, ProfileConfig>;
+	cache?: CacheConfig;
+	budget?: BudgetConfig;
+	audit?: AuditConfig;
+	tools?: ToolsConfig;
+}
+
+// Directory for everything the server keeps on disk
+export function getZipfDir(): string {
+	return resolve(homedir(), ".zipfai");
+}
+
+export function getConfigFile(): string {
+	return resolve(getZipfDir(), "config.json");
+}
+
+// Read the config file, returning an empty config if it's missing or invalid
+export function readConfig(): ZipfConfig {
+	const configFile = getConfigFile();
+	if (!existsSync(configFile)) {
+		return {};
+	}
+
+	try {
+		const config = JSON.parse(readFileSync(configFile, "utf-8"));
+		return config && typeof config === "object" ? config : {};
+	} catch {
+		// Ignore parse errors
+		return {};
+	}
+}
+
+export function writeConfig(config: ZipfConfig): void {
+	const configDir = getZipfDir();
+	if (!existsSync(configDir)) {
+		mkdirSync(configDir, { recursive: true });
+	}
+
+	writeFileSync(getConfigFile(), JSON.stringify(config, null, 2));
+}
+
+// =========================================================================
+// Profiles
+// =========================================================================
+
+// Active profile: ZIPF_PROFILE, then "currentProfile" in the config file, then "default"
+export function getProfileName(config: ZipfConfig = readConfig()): string {
+	const env = process.env.ZIPF_PROFILE?.trim();
+	return env || config.currentProfile || DEFAULT_PROFILE;
+}
+
+// All profiles, including the default profile when the top-level apiKey is set
+export function listProfiles(
+	config: ZipfConfig = readConfig(),
+): Record<string, ProfileConfig> {
+	const profiles = { ...(config.profiles ?? {}) };
+	if (config.apiKey) {
+		profiles[DEFAULT_PROFILE] = {
+			apiKey: config.apiKey,
+			...profiles[DEFAULT_PROFILE],
+		};
+	}
+	return profiles;
+}
+
+// Settings of a profile (the active one by default); undefined if it doesn't exist
+export function getProfile(
+	name?: string,
+	config: ZipfConfig = readConfig(),
+): ProfileConfig | undefined {
+	return listProfiles(config)[name ?? getProfileName(config)];
+}
+
+// Update fields of a profile, creating it if needed
+export function setProfileField(
+	name: string,
+	field: keyof ProfileConfig,
+	value: string | undefined,
+): void {
+	const config = readConfig();
+
+	// The default profile's key has always lived at the top level
+	if (name === DEFAULT_PROFILE && field === "apiKey") {
+		config.apiKey = value;
+		const stored = config.profiles?.[name];
+		if (stored?.apiKey !== undefined) {
+			const { apiKey: _, ...rest } = stored;
+			config.profiles = { ...config.profiles, [name]: rest };
+		}
+		writeConfig(config);
+		return;
+	}
+
+	const profile = { ...(config.profiles?.[name] ?? {}) };
+	if (value === undefined) {
+		delete profile[field];
+	} else {
+		profile[field] = value;
+	}
+	config.profiles = { ...(config.profiles ?? {}), [name]: profile };
+	writeConfig(config);
+}
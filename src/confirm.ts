@@ -0,0 +1,138 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	type crawl,
+	getEntitySchema,
+	getWorkflowDetails,
+	getWorkflowRecoverySuggestions,
+	listEntities,
+} from "./api.js";
+import { estimateCrawlCredits } from "./budget.js";
+import type { RequestOptions } from "./request.js";
+
+// Confirmation before destructive or expensive tool calls. Clients that support MCP
+// elicitation ask the user directly; for other clients the call has to pass confirm: true
+// (so the agent has to ask the user itself).
+
+// Crawls above this many pages need confirmation
+export const LARGE_CRAWL_PAGES = 100;
+
+// Recovery URL changes listed in a confirmation prompt
+const MAX_LISTED_CHANGES = 10;
+
+// Thrown when a call wasn't confirmed, or the user declined it
+export class ConfirmationRequiredError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ConfirmationRequiredError";
+	}
+}
+
+// Ask the user to confirm an operation described by summary; returns when confirmed
+export async function confirmOperation(
+	server: McpServer,
+	summary: string,
+	confirm: boolean | undefined,
+	options?: RequestOptions,
+): Promise<void> {
+	// With elicitation the user decides, whatever the agent passed as confirm
+	if (server.server.getClientCapabilities()?.elicitation?.form) {
+		const result = await server.server.elicitInput(
+			{
+				message: summary,
+				requestedSchema: {
+					type: "object",
+					properties: {
+						confirm: {
+							type: "boolean",
+							title: "Proceed",
+							description: "Check to go ahead",
+						},
+					},
+					required: ["confirm"],
+				},
+			},
+			{ signal: options?.signal },
+		);
+		if (result.action === "accept" && result.content?.confirm === true) return;
+
+		const outcome =
+			result.action === "accept"
+				? "didn't confirm"
+				: result.action === "decline"
+					? "declined"
+					: "cancelled";
+		throw new ConfirmationRequiredError(
+			`Not done: the user ${outcome} the confirmation. ${summary}`,
+		);
+	}
+
+	if (confirm === true) return;
+	throw new ConfirmationRequiredError(
+		`${summary} Confirmation required: ask the user, then call again with confirm: true.`,
+	);
+}
+
+// =========================================================================
+// Summaries shown in the confirmation prompt
+// =========================================================================
+
+export async function describeWorkflowDeletion(
+	workflowId: string,
+	options?: RequestOptions,
+): Promise<string> {
+	const { workflow, stats } = await getWorkflowDetails(workflowId, options);
+	const executions = stats
+		? `, ${stats.total_executions} executions, ${stats.total_credits_consumed} credits spent so far`
+		: "";
+	return `Delete workflow "${workflow.name}" (${workflowId}, ${workflow.status}${executions})? Scheduled executions stop and the workflow can't be restored.`;
+}
+
+export async function describeSchemaDeletion(
+	schemaName: string,
+	options?: RequestOptions,
+): Promise<string> {
+	const [{ schema }, { total }] = await Promise.all([
+		getEntitySchema(schemaName, options),
+		listEntities(schemaName, { limit: 1 }, options),
+	]);
+	const label = schema.display_name ?? schema.name;
+	return `Delete entity schema "${label}" and all ${total} of its entities? They can't be restored.`;
+}
+
+// undefined when nothing is pending (so there's nothing to confirm)
+export async function describeRecoveryApplyAll(
+	workflowId: string,
+	options?: RequestOptions,
+): Promise<string | undefined> {
+	const { suggestions } = await getWorkflowRecoverySuggestions(
+		workflowId,
+		options,
+	);
+	const pending = suggestions.filter(
+		(suggestion) => suggestion.status === "pending",
+	);
+	if (pending.length === 0) return undefined;
+
+	const changes = pending
+		.slice(0, MAX_LISTED_CHANGES)
+		.map(
+			(suggestion) =>
+				`\n- ${suggestion.original_url} -> ${suggestion.suggested_url}`,
+		)
+		.join("");
+	const more =
+		pending.length > MAX_LISTED_CHANGES
+			? `\n- ...and ${pending.length - MAX_LISTED_CHANGES} more`
+			: "";
+	return `Apply all ${pending.length} pending recovery suggestions to workflow ${workflowId}? Its URLs will be rewritten:${changes}${more}\n`;
+}
+
+export async function describeLargeCrawl(
+	params: Parameters<typeof crawl>[0],
+	options?: RequestOptions,
+): Promise<string> {
+	// Without an estimate, ask anyway
+	const reserved = await estimateCrawlCredits(params, options);
+	const estimate = reserved === undefined ? "unknown" : `~${reserved}`;
+	return `Crawl up to ${params.max_pages} pages from ${params.urls.length} seed URL(s)? Estimated cost (dry run): ${estimate} credits.`;
+}
@@ -0,0 +1,456 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import {
+	getCrawl,
+	getSearch,
+	getSession,
+	getSessionTimeline,
+	normalizeUrl,
+} from "./api.js";
+import { getZipfDir } from "./config.js";
+import type { RequestOptions } from "./request.js";
+import type { Session, SessionTimelineOperation } from "./types.js";
+
+// Session export: every operation in a research session, the sources it found and any
+// crawled content, rendered as a Markdown report, JSON, or a BibTeX / CSL-JSON bibliography
+
+export const DOSSIER_FORMATS = ["markdown", "json", "bibtex", "csl"] as const;
+export type DossierFormat = (typeof DOSSIER_FORMATS)[number];
+
+// File extension per format (for saved exports)
+export const DOSSIER_EXTENSIONS: Record<DossierFormat, string> = {
+	markdown: "md",
+	json: "json",
+	bibtex: "bib",
+	csl: "csl.json",
+};
+
+const DEFAULT_MAX_CONTENT_CHARS = 2000;
+
+// One unique URL found by the session, numbered in order of first appearance
+export interface DossierSource {
+	id: number;
+	citation_key: string;
+	url: string;
+	title: string;
+	domain: string;
+	description?: string;
+	published_date?: string;
+	// Crawled page content (Markdown when available), truncated
+	content?: string;
+	// Operations that returned this URL
+	found_by: string[];
+}
+
+export interface DossierOperation {
+	id: string;
+	type: SessionTimelineOperation["type"];
+	status: string;
+	created_at: string;
+	credits_consumed?: number;
+	summary?: string;
+	query?: string;
+	urls?: string[];
+	// AI summary of the search or crawl, when one was generated
+	ai_summary?: string;
+	// Citation ids of the sources it returned
+	source_ids: number[];
+	// Set when the operation's results couldn't be fetched
+	error?: string;
+}
+
+export interface Dossier {
+	session: Pick<
+		Session,
+		| "id"
+		| "name"
+		| "description"
+		| "intent_context"
+		| "status"
+		| "created_at"
+		| "completed_at"
+	>;
+	generated_at: string;
+	operations: DossierOperation[];
+	sources: DossierSource[];
+	stats: {
+		operations: number;
+		unique_sources: number;
+		// Results that pointed at a URL another operation already found
+		duplicate_results: number;
+		crawled_pages: number;
+		total_credits: number;
+	};
+}
+
+interface FoundPage {
+	url: string;
+	title?: string;
+	description?: string;
+	published_date?: string;
+	content?: string;
+}
+
+function summaryText(
+	summary: string | { status: string; content?: string } | null | undefined,
+): string | undefined {
+	if (typeof summary === "string") return summary;
+	return summary?.content || undefined;
+}
+
+function truncate(text: string, maxChars: number): string {
+	return text.length > maxChars
+		? `${text.slice(0, maxChars).trimEnd()}… (${text.length} chars)`
+		: text;
+}
+
+function getDomain(url: string): string {
+	try {
+		return new URL(url).hostname.replace(/^www\./, "");
+	} catch {
+		return url;
+	}
+}
+
+// Results and AI summary of one operation's job
+async function fetchOperationPages(
+	operation: SessionTimelineOperation,
+	maxContentChars: number,
+	options?: RequestOptions,
+): Promise<{ pages: FoundPage[]; ai_summary?: string }> {
+	if (operation.search_job_id) {
+		const job = await getSearch(operation.search_job_id, options);
+		return {
+			pages: (job.results ?? []).map((result) => ({
+				...result,
+				title: result.title ?? undefined,
+				description: result.description ?? undefined,
+			})),
+			ai_summary: summaryText(job.summary),
+		};
+	}
+
+	if (operation.crawl_id) {
+		const job = await getCrawl(operation.crawl_id, options);
+		return {
+			pages: (job.results ?? [])
+				.filter((page) => !page.error)
+				.map((page) => {
+					const content = page.markdown ?? page.content;
+					return {
+						url: page.url,
+						title: page.title,
+						content:
+							content && maxContentChars > 0
+								? truncate(content, maxContentChars)
+								: undefined,
+					};
+				}),
+			ai_summary: summaryText(job.summary),
+		};
+	}
+
+	throw new Error("The API didn't report which job this operation ran");
+}
+
+// Author-year style key ("arxiv2024"), with a/b/c suffixes to keep keys unique
+function makeCitationKeys(sources: DossierSource[]): void {
+	const counts = new Map<string, number>();
+	const bases = sources.map((source) => {
+		const name = source.domain.split(".").slice(-2, -1)[0] ?? source.domain;
+		const base = `${name.replace(/[^a-z0-9]/gi, "").toLowerCase() || "source"}${source.published_date?.slice(0, 4) ?? ""}`;
+		counts.set(base, (counts.get(base) ?? 0) + 1);
+		return base;
+	});
+
+	const used = new Map<string, number>();
+	sources.forEach((source, index) => {
+		const base = bases[index];
+		if ((counts.get(base) ?? 0) === 1) {
+			source.citation_key = base;
+			return;
+		}
+		const n = used.get(base) ?? 0;
+		used.set(base, n + 1);
+		source.citation_key = `${base}${String.fromCharCode(97 + (n % 26))}${n >= 26 ? Math.floor(n / 26) : ""}`;
+	});
+}
+
+// Collect a session's operations and their results into a dossier with deduplicated sources.
+// An operation whose results can't be fetched is kept, with an error, instead of failing the export.
+export async function buildDossier(
+	sessionId: string,
+	params: { include_content?: boolean; max_content_chars?: number } = {},
+	options?: RequestOptions,
+): Promise<Dossier> {
+	const [{ session }, timeline] = await Promise.all([
+		getSession(sessionId, options),
+		getSessionTimeline(sessionId, options),
+	]);
+	const maxContentChars =
+		params.include_content === false
+			? 0
+			: (params.max_content_chars ?? DEFAULT_MAX_CONTENT_CHARS);
+
+	const sources: DossierSource[] = [];
+	const byUrl = new Map<string, DossierSource>();
+	const operations: DossierOperation[] = [];
+	let duplicateResults = 0;
+
+	const chronological = [...timeline.operations].sort((a, b) =>
+		a.created_at.localeCompare(b.created_at),
+	);
+
+	for (const operation of chronological) {
+		const entry: DossierOperation = {
+			id: operation.id,
+			type: operation.type,
+			status: operation.status,
+			created_at: operation.created_at,
+			credits_consumed: operation.credits_consumed,
+			summary: operation.summary,
+			query: operation.query,
+			urls: operation.urls,
+			source_ids: [],
+		};
+		operations.push(entry);
+
+		let pages: FoundPage[];
+		try {
+			const fetched = await fetchOperationPages(
+				operation,
+				maxContentChars,
+				options,
+			);
+			pages = fetched.pages;
+			entry.ai_summary = fetched.ai_summary;
+		} catch (error) {
+			// Cancellation always propagates
+			if (options?.signal?.aborted) throw error;
+			entry.error = error instanceof Error ? error.message : String(error);
+			continue;
+		}
+
+		for (const page of pages) {
+			const key = normalizeUrl(page.url);
+			let source = byUrl.get(key);
+			if (source) {
+				duplicateResults += 1;
+				// Later operations fill in what earlier ones didn't have (e.g. a crawl after a search)
+				if (source.title === source.url && page.title)
+					source.title = page.title;
+				source.description ??= page.description;
+				source.published_date ??= page.published_date;
+				source.content ??= page.content;
+			} else {
+				source = {
+					id: sources.length + 1,
+					citation_key: "",
+					url: page.url,
+					title: page.title || page.url,
+					domain: getDomain(page.url),
+					description: page.description,
+					published_date: page.published_date,
+					content: page.content,
+					found_by: [],
+				};
+				sources.push(source);
+				byUrl.set(key, source);
+			}
+			if (!source.found_by.includes(operation.id)) {
+				source.found_by.push(operation.id);
+				entry.source_ids.push(source.id);
+			}
+		}
+	}
+
+	makeCitationKeys(sources);
+
+	return {
+		session: {
+			id: session.id,
+			name: session.name,
+			description: session.description,
+			intent_context: session.intent_context,
+			status: session.status,
+			created_at: session.created_at,
+			completed_at: session.completed_at,
+		},
+		generated_at: new Date().toISOString(),
+		operations,
+		sources,
+		stats: {
+			operations: operations.length,
+			unique_sources: sources.length,
+			duplicate_results: duplicateResults,
+			crawled_pages: sources.filter((source) => source.content).length,
+			total_credits:
+				session.aggregates?.total_credits ??
+				operations.reduce((sum, op) => sum + (op.credits_consumed ?? 0), 0),
+		},
+	};
+}
+
+// =========================================================================
+// Formats
+// =========================================================================
+
+function formatMarkdown(dossier: Dossier): string {
+	const { session, stats } = dossier;
+	const cite = (ids: number[]) => ids.map((id) => `[${id}]`).join("");
+	const lines: string[] = [`# ${session.name}`, ""];
+
+	if (session.description) lines.push(session.description, "");
+	if (session.intent_context) lines.push(`> ${session.intent_context}`, "");
+	lines.push(
+		`Session \`${session.id}\` (${session.status}) · ${stats.operations} operation(s) · ${stats.unique_sources} unique source(s) · ${stats.total_credits} credits · exported ${dossier.generated_at.slice(0, 10)}`,
+		"",
+		"## Operations",
+		"",
+	);
+
+	if (dossier.operations.length === 0) {
+		lines.push("No operations in this session yet.", "");
+	}
+	dossier.operations.forEach((operation, index) => {
+		const what =
+			operation.type === "search" && operation.query
+				? `Search: "${operation.query}"`
+				: operation.type === "crawl" && operation.urls?.length
+					? `Crawl: ${operation.urls.join(", ")}`
+					: (operation.summary ?? operation.type);
+		lines.push(
+			`### ${index + 1}. ${what}`,
+			"",
+			`${operation.created_at}${operation.credits_consumed !== undefined ? ` · ${operation.credits_consumed} credits` : ""}`,
+			"",
+		);
+		if (operation.ai_summary) lines.push(operation.ai_summary, "");
+		if (operation.error) {
+			lines.push(`_Results unavailable: ${operation.error}_`, "");
+			return;
+		}
+		for (const id of operation.source_ids) {
+			const source = dossier.sources[id - 1];
+			lines.push(`- ${source.title} ${cite([id])}`);
+		}
+		if (operation.source_ids.length === 0) lines.push("_No results._");
+		lines.push("");
+	});
+
+	lines.push("## Sources", "");
+	for (const source of dossier.sources) {
+		const published = source.published_date
+			? ` Published ${source.published_date}.`
+			: "";
+		lines.push(
+			`[${source.id}] ${source.title}. ${source.domain}.${published} <${source.url}>`,
+			"",
+		);
+	}
+
+	const crawled = dossier.sources.filter((source) => source.content);
+	if (crawled.length > 0) {
+		lines.push("## Crawled Content", "");
+		for (const source of crawled) {
+			lines.push(
+				`### [${source.id}] ${source.title}`,
+				"",
+				source.content ?? "",
+				"",
+			);
+		}
+	}
+
+	return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function escapeBibtex(value: string): string {
+	return value.replace(/([&%$#_{}])/g, "\\$1").replace(/~/g, "\\~{}");
+}
+
+function formatBibtex(dossier: Dossier): string {
+	const accessed = dossier.generated_at.slice(0, 10);
+	return dossier.sources
+		.map((source) => {
+			const fields = [
+				`  title = {${escapeBibtex(source.title)}}`,
+				`  howpublished = {\\url{${source.url}}}`,
+				`  url = {${source.url}}`,
+				`  organization = {${escapeBibtex(source.domain)}}`,
+				...(source.published_date
+					? [
+							`  year = {${source.published_date.slice(0, 4)}}`,
+							`  date = {${source.published_date.slice(0, 10)}}`,
+						]
+					: []),
+				`  urldate = {${accessed}}`,
+				...(source.description
+					? [`  note = {${escapeBibtex(source.description)}}`]
+					: []),
+			];
+			return `@misc{${source.citation_key},\n${fields.join(",\n")}\n}`;
+		})
+		.join("\n\n")
+		.concat(dossier.sources.length > 0 ? "\n" : "");
+}
+
+// "2025-01-14" → [[2025, 1, 14]]
+function dateParts(value: string): { "date-parts": number[][] } | undefined {
+	const parts = value.slice(0, 10).split("-").map(Number);
+	if (parts.some(Number.isNaN)) return undefined;
+	return { "date-parts": [parts] };
+}
+
+function formatCsl(dossier: Dossier): string {
+	const items = dossier.sources.map((source) => ({
+		id: source.citation_key,
+		type: "webpage",
+		title: source.title,
+		URL: source.url,
+		"container-title": source.domain,
+		...(source.description ? { abstract: source.description } : {}),
+		...(source.published_date
+			? { issued: dateParts(source.published_date) }
+			: {}),
+		accessed: dateParts(dossier.generated_at),
+	}));
+	return JSON.stringify(items, null, 2);
+}
+
+export function formatDossier(dossier: Dossier, format: DossierFormat): string {
+	switch (format) {
+		case "markdown":
+			return formatMarkdown(dossier);
+		case "json":
+			return JSON.stringify(dossier, null, 2);
+		case "bibtex":
+			return formatBibtex(dossier);
+		case "csl":
+			return formatCsl(dossier);
+	}
+}
+
+// =========================================================================
+// Saving
+// =========================================================================
+
+export function getExportDir(): string {
+	return resolve(getZipfDir(), "exports");
+}
+
+// Write an export to ~/.zipfai/exports/<session_id>.<ext>, replacing an earlier export of that session
+export function saveDossier(
+	sessionId: string,
+	format: DossierFormat,
+	text: string,
+): string {
+	const exportDir = getExportDir();
+	mkdirSync(exportDir, { recursive: true });
+	const file = resolve(
+		exportDir,
+		`${sessionId.replace(/[^\w.-]/g, "_")}.${DOSSIER_EXTENSIONS[format]}`,
+	);
+	writeFileSync(file, text);
+	return file;
+}
@@ -0,0 +1,392 @@
+import { randomUUID } from "node:crypto";
+import {
+	createServer as createHttpServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "node:http";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { runWithApiKey } from "./api.js";
+import { createServer } from "./server.js";
+import { forgetConnection } from "./session-store.js";
+
+export interface HttpServerOptions {
+	host: string;
+	port: number;
+	// Let requests without an Authorization header spend the server's own key
+	// (ZIPF_API_KEY or the active profile) when listening on a non-loopback host
+	allowServerKey?: boolean;
+	// Close Streamable HTTP sessions with no request for this long (ms)
+	sessionIdleTimeout?: number;
+}
+
+// Paths served by the HTTP transport
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+// Reject request bodies larger than this (in bytes)
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+// Streamable HTTP sessions end with a DELETE, but clients that just disconnect never send one
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+const MAX_SWEEP_INTERVAL = 60 * 1000;
+
+// JSON-RPC error codes
+const JSONRPC_SERVER_ERROR = -32000;
+const JSONRPC_PARSE_ERROR = -32700;
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+// A request body that isn't valid JSON
+class ParseError extends Error {}
+
+// A request body over MAX_BODY_SIZE
+class BodyTooLargeError extends Error {}
+
+// A Streamable HTTP session and when it was last used
+interface StreamableSession {
+	transport: StreamableHTTPServerTransport;
+	lastSeen: number;
+	// Requests still being answered (a GET notification stream stays open)
+	active: number;
+}
+
+// Helper to write a JSON response
+function sendJson(
+	res: ServerResponse,
+	statusCode: number,
+	body: unknown,
+): void {
+	res.writeHead(statusCode, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
+
+// Helper to write a JSON-RPC error response (used before a transport takes over)
+function sendJsonRpcError(
+	res: ServerResponse,
+	statusCode: number,
+	message: string,
+	code = JSONRPC_SERVER_ERROR,
+): void {
+	sendJson(res, statusCode, {
+		jsonrpc: "2.0",
+		error: { code, message },
+		id: null,
+	});
+}
+
+// Read the raw request body, giving up as soon as it's over MAX_BODY_SIZE
+function readBody(req: IncomingMessage): Promise<string> {
+	const tooLarge = () =>
+		new BodyTooLargeError(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+	if (Number(req.headers["content-length"]) > MAX_BODY_SIZE) {
+		return Promise.reject(tooLarge());
+	}
+
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		const onData = (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_SIZE) {
+				// Stop reading; the error response closes the connection
+				req.off("data", onData).off("end", onEnd).pause();
+				reject(tooLarge());
+				return;
+			}
+			chunks.push(chunk);
+		};
+		const onEnd = () => resolve(Buffer.concat(chunks).toString("utf-8"));
+
+		req.on("data", onData).on("end", onEnd).once("error", reject);
+	});
+}
+
+// Read and parse a JSON request body
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const raw = await readBody(req);
+	if (!raw) return undefined;
+	try {
+		return JSON.parse(raw);
+	} catch (error) {
+		throw new ParseError(
+			`Parse error: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+// Extract the API key from an "Authorization: Bearer <key>" header, if present
+function getBearerToken(req: IncomingMessage): string | undefined {
+	const header = req.headers.authorization;
+	if (!header) return undefined;
+
+	const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+	return match ? match[1].trim() : undefined;
+}
+
+// Host header values a loopback server answers to, for DNS rebinding protection
+function loopbackHostHeaders(port: number): string[] {
+	return [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+}
+
+export async function startHttpServer(
+	options: HttpServerOptions,
+): Promise<Server> {
+	// Active sessions, keyed by MCP session id
+	const streamableSessions = new Map<string, StreamableSession>();
+	const sseTransports = new Map<string, SSEServerTransport>();
+
+	const loopback = LOOPBACK_HOSTS.includes(options.host);
+	const sessionIdleTimeout =
+		options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+
+	// Set once listening (the port may have been 0)
+	let allowedHosts: string[] | undefined;
+
+	// Transport options shared by both transports: a loopback server only answers to loopback
+	// Host headers, so a web page can't reach it through a rebound DNS name
+	function dnsRebindingOptions() {
+		return allowedHosts
+			? { allowedHosts, enableDnsRebindingProtection: true }
+			: {};
+	}
+
+	// Track a request against its session until the response ends
+	function trackRequest(session: StreamableSession, res: ServerResponse) {
+		session.active++;
+		session.lastSeen = Date.now();
+		res.once("close", () => {
+			session.active--;
+			session.lastSeen = Date.now();
+		});
+	}
+
+	// Close sessions that have been idle longer than sessionIdleTimeout
+	function evictIdleSessions(): void {
+		const cutoff = Date.now() - sessionIdleTimeout;
+		for (const [id, session] of streamableSessions) {
+			if (session.active === 0 && session.lastSeen <= cutoff) {
+				streamableSessions.delete(id);
+				session.transport.close().catch((error) => {
+					console.error("Failed to close idle session:", error);
+				});
+			}
+		}
+	}
+
+	// Streamable HTTP transport (POST for requests, GET for the notification stream, DELETE to end a session)
+	async function handleStreamableRequest(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		const sessionIdHeader = req.headers["mcp-session-id"];
+		const sessionId = Array.isArray(sessionIdHeader)
+			? sessionIdHeader[0]
+			: sessionIdHeader;
+		const existing = sessionId ? streamableSessions.get(sessionId) : undefined;
+
+		if (req.method === "POST") {
+			const body = await readJsonBody(req);
+
+			if (existing) {
+				trackRequest(existing, res);
+				await existing.transport.handleRequest(req, res, body);
+				return;
+			}
+
+			if (sessionId || !isInitializeRequest(body)) {
+				sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+				return;
+			}
+
+			// New session - every session gets its own server instance
+			const transport: StreamableHTTPServerTransport =
+				new StreamableHTTPServerTransport({
+					sessionIdGenerator: () => randomUUID(),
+					onsessioninitialized: (id) => {
+						const session = { transport, lastSeen: Date.now(), active: 0 };
+						streamableSessions.set(id, session);
+						trackRequest(session, res);
+					},
+					...dnsRebindingOptions(),
+				});
+			transport.onclose = () => {
+				if (transport.sessionId) {
+					streamableSessions.delete(transport.sessionId);
+					forgetConnection(transport.sessionId);
+				}
+			};
+
+			await createServer().connect(transport);
+			await transport.handleRequest(req, res, body);
+			return;
+		}
+
+		if (req.method === "GET" || req.method === "DELETE") {
+			if (!existing) {
+				sendJsonRpcError(
+					res,
+					400,
+					"Bad Request: Invalid or missing session ID",
+				);
+				return;
+			}
+			trackRequest(existing, res);
+			await existing.transport.handleRequest(req, res);
+			return;
+		}
+
+		res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+	}
+
+	// Legacy HTTP+SSE transport (GET /sse opens the stream, POST /messages sends requests)
+	async function handleSseStream(res: ServerResponse): Promise<void> {
+		const transport = new SSEServerTransport(
+			SSE_MESSAGES_PATH,
+			res,
+			dnsRebindingOptions(),
+		);
+		sseTransports.set(transport.sessionId, transport);
+		res.on("close", () => {
+			sseTransports.delete(transport.sessionId);
+			forgetConnection(transport.sessionId);
+		});
+
+		await createServer().connect(transport);
+	}
+
+	async function handleSseMessage(
+		req: IncomingMessage,
+		res: ServerResponse,
+		url: URL,
+	): Promise<void> {
+		const sessionId = url.searchParams.get("sessionId");
+		const transport = sessionId ? sseTransports.get(sessionId) : undefined;
+		if (!transport) {
+			sendJsonRpcError(
+				res,
+				400,
+				"Bad Request: No SSE session found for sessionId",
+			);
+			return;
+		}
+
+		const body = await readJsonBody(req);
+		await transport.handlePostMessage(req, res, body);
+	}
+
+	async function route(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		const url = new URL(
+			req.url ?? "/",
+			`http://${req.headers.host ?? "localhost"}`,
+		);
+
+		if (url.pathname === HEALTH_PATH && req.method === "GET") {
+			sendJson(res, 200, {
+				status: "ok",
+				sessions: {
+					streamable_http: streamableSessions.size,
+					sse: sseTransports.size,
+				},
+			});
+			return;
+		}
+
+		if (url.pathname === MCP_PATH) {
+			await handleStreamableRequest(req, res);
+			return;
+		}
+
+		if (url.pathname === SSE_PATH && req.method === "GET") {
+			await handleSseStream(res);
+			return;
+		}
+
+		if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+			await handleSseMessage(req, res, url);
+			return;
+		}
+
+		sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+	}
+
+	const httpServer = createHttpServer((req, res) => {
+		// Requests carrying their own API key use it instead of the process-wide key
+		const apiKey = getBearerToken(req);
+		const handle = () => route(req, res);
+
+		// Without one, only a loopback server (or one started with allowServerKey) spends its own key
+		if (
+			!apiKey &&
+			!loopback &&
+			!options.allowServerKey &&
+			req.url?.split("?")[0] !== HEALTH_PATH
+		) {
+			res.setHeader("WWW-Authenticate", "Bearer");
+			sendJsonRpcError(
+				res,
+				401,
+				"Unauthorized: send your ZipfAI API key as Authorization: Bearer <key>",
+			);
+			return;
+		}
+
+		(apiKey ? runWithApiKey(apiKey, handle) : handle()).catch((error) => {
+			if (error instanceof ParseError && !res.headersSent) {
+				sendJsonRpcError(res, 400, error.message, JSONRPC_PARSE_ERROR);
+				return;
+			}
+			if (error instanceof BodyTooLargeError && !res.headersSent) {
+				// The rest of the body is never read, so the connection can't be reused
+				res.setHeader("Connection", "close");
+				sendJsonRpcError(res, 413, error.message);
+				return;
+			}
+			console.error("HTTP transport error:", error);
+			if (!res.headersSent) {
+				sendJsonRpcError(
+					res,
+					500,
+					error instanceof Error ? error.message : "Internal server error",
+				);
+			} else {
+				res.end();
+			}
+		});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once("error", reject);
+		httpServer.listen(options.port, options.host, () => {
+			httpServer.off("error", reject);
+			resolve();
+		});
+	});
+
+	const address = httpServer.address();
+	if (loopback && address && typeof address === "object") {
+		allowedHosts = loopbackHostHeaders(address.port);
+	}
+
+	const sweep = setInterval(
+		evictIdleSessions,
+		Math.min(sessionIdleTimeout, MAX_SWEEP_INTERVAL),
+	);
+	sweep.unref();
+	httpServer.on("close", () => {
+		clearInterval(sweep);
+		for (const session of streamableSessions.values()) {
+			session.transport.close().catch(() => {});
+		}
+	});
+
+	return httpServer;
+}
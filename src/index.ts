@@ -1,19 +1,71 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { registerTools } from "./tools.js";
+import { configureCassette } from "./cassette.js";
+import { startHttpServer } from "./http.js";
+import { createServer } from "./server.js";
+import { configureToolsets, getToolMode, loadCreditCosts } from "./toolsets.js";
 
-const server = new McpServer({
-	name: "zipfai-web-search",
-	version: "0.1.0",
-});
+async function main() {
+	const { values } = parseArgs({
+		options: {
+			transport: { type: "string", default: "stdio" },
+			host: { type: "string", default: "127.0.0.1" },
+			port: { type: "string", default: process.env.PORT ?? "3000" },
+			"allow-server-key": { type: "boolean", default: false },
+			toolsets: { type: "string" },
+			"allow-tools": { type: "string" },
+			"deny-tools": { type: "string" },
+			mode: { type: "string" },
+		},
+	});
 
-registerTools(server);
+	const cassette = configureCassette();
+	if (cassette) {
+		console.error(cassette);
+	}
+
+	const flags = {
+		toolsets: values.toolsets?.split(","),
+		allow: values["allow-tools"]?.split(","),
+		deny: values["deny-tools"]?.split(","),
+		mode: values.mode,
+	};
+	let toolsets = configureToolsets(flags);
+	// no_spend and read_only follow the prices the account publishes
+	if (getToolMode() !== "full" && (await loadCreditCosts())) {
+		toolsets = configureToolsets(flags);
+	}
+	if (toolsets) {
+		console.error(toolsets);
+	}
+
+	if (values.transport === "http") {
+		const port = Number.parseInt(values.port, 10);
+		if (!Number.isInteger(port) || port < 0 || port > 65535) {
+			throw new Error(`Invalid --port: ${values.port}`);
+		}
+
+		await startHttpServer({
+			host: values.host,
+			port,
+			allowServerKey: values["allow-server-key"],
+		});
+		console.error(
+			`ZipfAI MCP Server running on http://${values.host}:${port} (Streamable HTTP: /mcp, SSE: /sse, health: /health)`,
+		);
+		return;
+	}
+
+	if (values.transport !== "stdio") {
+		throw new Error(
+			`Unknown --transport: ${values.transport} (expected "stdio" or "http")`,
+		);
+	}
 
-async function main() {
 	const transport = new StdioServerTransport();
-	await server.connect(transport);
+	await createServer().connect(transport);
 	console.error("ZipfAI MCP Server running on stdio");
 }
 
@@ -0,0 +1,482 @@
+import type {
+	AskResponse,
+	AssessIntentResponse,
+	CrawlResult,
+	Entity,
+	EntitySchema,
+	EntitySignal,
+	ExecutionDiff,
+	PlanWorkflowResponse,
+	SearchResult,
+	StatusResponse,
+	SuggestSchemaResponse,
+	Workflow,
+	WorkflowExecution,
+} from "./types.js";
+
+// Canned data served by the mock API (see mock-server.ts).
+// Everything is deterministic so demos and tests see the same responses every run.
+
+export const MOCK_CUSTOMER_ID = "cus_mock";
+
+// Timestamp used for seeded records
+export const MOCK_CREATED_AT = "2025-01-15T09:00:00.000Z";
+
+// Credits the mock account starts with
+export const MOCK_CREDITS_BALANCE = 10000;
+
+// =========================================================================
+// Search and Ask
+// =========================================================================
+
+// The mock always fills in the title and description
+type MockSearchResult = SearchResult & { title: string; description: string };
+
+// Results returned for every search; titles and descriptions mention the query
+const SEARCH_RESULT_TEMPLATES: MockSearchResult[] = [
+	{
+		title: "{query} - Overview",
+		url: "https://en.wikipedia.org/wiki/Mock_Overview",
+		description: "An encyclopedic overview of {query}.",
+		published_date: "2024-11-02",
+	},
+	{
+		title: "Getting started with {query}",
+		url: "https://developer.mozilla.org/en-US/docs/Mock/Getting_started",
+		description: "A step-by-step guide covering the basics of {query}.",
+		published_date: "2024-12-10",
+	},
+	{
+		title: "{query}: a practical handbook",
+		url: "https://www.typescriptlang.org/docs/handbook/mock.html",
+		description: "Patterns and best practices for {query}.",
+		published_date: "2024-10-21",
+	},
+	{
+		title: "Awesome {query}",
+		url: "https://github.com/zipfai/awesome-mock",
+		description: "A curated list of resources about {query}.",
+		published_date: "2025-01-03",
+	},
+	{
+		title: "A survey of {query}",
+		url: "https://arxiv.org/abs/2401.00001",
+		description: "We survey recent research on {query} and open problems.",
+		published_date: "2024-01-02",
+	},
+	{
+		title: "Ask HN: What do you use for {query}?",
+		url: "https://news.ycombinator.com/item?id=40000001",
+		description: "Community discussion comparing approaches to {query}.",
+		published_date: "2025-01-12",
+	},
+	{
+		title: "{query} explained",
+		url: "https://blog.example.com/posts/mock-explained",
+		description: "A plain-language explanation of {query}.",
+		published_date: "2024-09-30",
+	},
+	{
+		title: "{query} release notes",
+		url: "https://docs.example.org/changelog",
+		description: "What changed in the latest release related to {query}.",
+		published_date: "2025-01-14",
+	},
+];
+
+export function mockSearchResults(
+	query: string,
+	maxResults = 10,
+): MockSearchResult[] {
+	const count = Math.max(
+		0,
+		Math.min(maxResults, SEARCH_RESULT_TEMPLATES.length),
+	);
+	return SEARCH_RESULT_TEMPLATES.slice(0, count).map((result, index) => ({
+		...result,
+		title: result.title.replace("{query}", query),
+		description: result.description.replace("{query}", query),
+		relevance_score: Number((0.95 - index * 0.07).toFixed(2)),
+	}));
+}
+
+export function mockSearchSummary(query: string): string {
+	return `Mock summary: the top results describe ${query} from reference, tutorial, research and community perspectives.`;
+}
+
+export function mockAskResponse(
+	question: string,
+	depth: AskResponse["depth"],
+	maxSources = 5,
+): Omit<AskResponse, "credits"> {
+	const sources = mockSearchResults(question, maxSources).map((result) => ({
+		url: result.url,
+		title: result.title,
+		snippet: result.description,
+		relevance: result.relevance_score,
+	}));
+	return {
+		answer: `This is a mock answer to "${question}". In production, ZipfAI searches the web and synthesizes an answer from the sources below [1][2].`,
+		sources,
+		follow_up_questions: [
+			`What are the alternatives to ${question}?`,
+			`What changed recently in ${question}?`,
+		],
+		search_queries_used: [question],
+		depth,
+		timing: { total_ms: 42, search_ms: 20, synthesis_ms: 22 },
+	};
+}
+
+// =========================================================================
+// Crawl
+// =========================================================================
+
+export function mockCrawlPage(
+	url: string,
+	extractionSchema?: Record<string, string>,
+): CrawlResult {
+	const page: CrawlResult = {
+		url,
+		title: `Mock page for ${url}`,
+		content: `This is mock content for ${url}.`,
+		markdown: `# Mock page\n\nThis is mock content for ${url}.`,
+		classification: {
+			document_type: "article",
+			content_type: "text/html",
+			confidence: 0.9,
+		},
+	};
+	if (extractionSchema) {
+		const fields = Object.keys(extractionSchema);
+		page.extracted_data = Object.fromEntries(
+			fields.map((field) => [field, `mock ${field}`]),
+		);
+		page.extraction_metadata = {
+			fields_requested: fields.length,
+			fields_extracted: fields.length,
+		};
+	}
+	return page;
+}
+
+export function mockSchemaSuggestion(
+	url: string,
+): Omit<SuggestSchemaResponse, "credits"> {
+	return {
+		url,
+		detected_page_type: "article",
+		page_type_confidence: 0.88,
+		suggested_schema: {
+			title: "The article headline",
+			author: "Name of the author",
+			published_date: "Publication date (ISO 8601)",
+			summary: "One-paragraph summary of the article",
+		},
+		field_metadata: {
+			title: {
+				confidence: 0.95,
+				example_value: "Mock headline",
+				data_type: "string",
+			},
+			author: {
+				confidence: 0.8,
+				example_value: "Jane Doe",
+				data_type: "string",
+			},
+			published_date: {
+				confidence: 0.75,
+				example_value: "2025-01-15",
+				data_type: "date",
+			},
+			summary: { confidence: 0.7, data_type: "string" },
+		},
+		schema_org_detected: true,
+		schema_org_type: "Article",
+		reasoning: "Mock suggestion: the page looks like a news article.",
+	};
+}
+
+// =========================================================================
+// Workflows
+// =========================================================================
+
+export const MOCK_WORKFLOWS: Workflow[] = [
+	{
+		id: "wf_mock_search",
+		customer_id: MOCK_CUSTOMER_ID,
+		name: "AI regulation news",
+		mode: "simple",
+		workflow_type: "search",
+		operation_config: { query: "AI regulation news", max_results: 10 },
+		intent: "Alert me when a new AI regulation is announced",
+		stop_condition: {
+			type: "natural_language",
+			description: "A new AI regulation is announced",
+			confidence_threshold: 0.7,
+		},
+		interval_minutes: 1440,
+		execution_count: 2,
+		status: "active",
+		last_execution_at: "2025-01-15T09:00:00.000Z",
+		next_execution_at: "2025-01-16T09:00:00.000Z",
+		created_at: "2025-01-13T09:00:00.000Z",
+		updated_at: MOCK_CREATED_AT,
+	},
+	{
+		id: "wf_mock_crawl",
+		customer_id: MOCK_CUSTOMER_ID,
+		name: "Pricing page monitor",
+		mode: "simple",
+		workflow_type: "crawl",
+		operation_config: {
+			urls: ["https://example.com/pricing"],
+			extraction_schema: { price: "Monthly price of the Pro plan" },
+		},
+		stop_condition: { type: "always" },
+		interval_minutes: 360,
+		execution_count: 2,
+		status: "paused",
+		last_execution_at: "2025-01-15T06:00:00.000Z",
+		created_at: "2025-01-14T06:00:00.000Z",
+		updated_at: MOCK_CREATED_AT,
+	},
+];
+
+export function mockExecutions(workflowId: string): WorkflowExecution[] {
+	return [
+		{
+			id: `${workflowId}_exec_2`,
+			workflow_id: workflowId,
+			status: "completed",
+			trigger_type: "scheduled",
+			result_summary: { results: 10, new_urls: 2 },
+			credits_consumed: 1,
+			started_at: "2025-01-15T09:00:00.000Z",
+			completed_at: "2025-01-15T09:00:05.000Z",
+		},
+		{
+			id: `${workflowId}_exec_1`,
+			workflow_id: workflowId,
+			status: "completed",
+			trigger_type: "scheduled",
+			result_summary: { results: 10, new_urls: 10 },
+			credits_consumed: 1,
+			started_at: "2025-01-14T09:00:00.000Z",
+			completed_at: "2025-01-14T09:00:04.000Z",
+		},
+	];
+}
+
+export function mockExecutionDiffs(workflowId: string): ExecutionDiff[] {
+	return [
+		{
+			execution_id: `${workflowId}_exec_2`,
+			previous_execution_id: `${workflowId}_exec_1`,
+			executed_at: "2025-01-15T09:00:00.000Z",
+			has_changes: true,
+			changes: [
+				{
+					field: "result_count",
+					from: 8,
+					to: 10,
+					change_type: "increase",
+					change_percent: 25,
+				},
+			],
+			no_change: ["top_result"],
+			summary: "Two new results appeared since the previous run.",
+			extracted_state: {
+				result_count: 10,
+				net_new_urls: ["https://blog.example.com/posts/mock-explained"],
+			},
+			previous_state: { result_count: 8 },
+		},
+		{
+			execution_id: `${workflowId}_exec_1`,
+			previous_execution_id: null,
+			executed_at: "2025-01-14T09:00:00.000Z",
+			has_changes: false,
+			changes: [],
+			no_change: [],
+			summary: "First run.",
+			extracted_state: { result_count: 8 },
+			previous_state: null,
+		},
+	];
+}
+
+export function mockWorkflowPlan(intent: string): PlanWorkflowResponse {
+	return {
+		name: intent.slice(0, 60),
+		intent,
+		steps: [
+			{
+				step_id: "find_sources",
+				step_name: "Find sources",
+				step_type: "search",
+				config: { query: intent, max_results: 10 },
+				output_key: "sources",
+			},
+			{
+				step_id: "read_sources",
+				step_name: "Read top sources",
+				step_type: "crawl",
+				config: { max_pages: 5 },
+				depends_on: ["find_sources"],
+			},
+		],
+		estimated_credits_per_execution: 11,
+		reasoning: "Mock plan: search for sources, then crawl the top results.",
+	};
+}
+
+export function mockIntentAssessment(intent: string): AssessIntentResponse {
+	const specific = intent.trim().split(/\s+/).length >= 6;
+	return {
+		intent,
+		assessment: specific ? "specific" : "vague",
+		specificity_score: specific ? 0.8 : 0.4,
+		is_actionable: specific,
+		recommendation: specific
+			? "Create the workflow as described."
+			: "Add what should trigger an alert and which sources to watch.",
+		vague_aspects: specific ? undefined : ["trigger condition", "sources"],
+		inferred: {
+			trigger_conditions: ["new matching result"],
+			exclusions: [],
+			entities: [],
+			source_types: ["news"],
+			suggested_cadence: "daily",
+			monitoring_type: ["news"],
+		},
+		reasoning: "Mock assessment based on the length of the intent.",
+	};
+}
+
+// =========================================================================
+// Entities
+// =========================================================================
+
+export const MOCK_ENTITY_SCHEMAS: EntitySchema[] = [
+	{
+		id: "es_mock_job_posting",
+		customer_id: MOCK_CUSTOMER_ID,
+		name: "job_posting",
+		display_name: "Job posting",
+		description: "Open roles found by monitoring workflows",
+		dedup_key: ["company", "title"],
+		fields: {
+			company: { name: "company", type: "string", required: true },
+			title: { name: "title", type: "string", required: true },
+			location: { name: "location", type: "string" },
+			url: { name: "url", type: "url" },
+		},
+		lifecycle_config: { track_first_seen: true, stale_after_days: 14 },
+		created_at: MOCK_CREATED_AT,
+		updated_at: MOCK_CREATED_AT,
+	},
+];
+
+export const MOCK_ENTITIES: Entity[] = [
+	{
+		id: "ent_mock_1",
+		customer_id: MOCK_CUSTOMER_ID,
+		schema_id: "es_mock_job_posting",
+		dedup_hash: "mock-hash-1",
+		data: {
+			company: "Example Corp",
+			title: "Senior TypeScript Engineer",
+			location: "Remote",
+			url: "https://example.com/jobs/1",
+		},
+		classifications: { seniority: "senior" },
+		status: "active",
+		first_seen_at: "2025-01-14T09:00:00.000Z",
+		last_seen_at: MOCK_CREATED_AT,
+		times_seen: 2,
+		source_workflow_id: "wf_mock_search",
+		source_url: "https://example.com/jobs/1",
+		created_at: "2025-01-14T09:00:00.000Z",
+		updated_at: MOCK_CREATED_AT,
+	},
+	{
+		id: "ent_mock_2",
+		customer_id: MOCK_CUSTOMER_ID,
+		schema_id: "es_mock_job_posting",
+		dedup_hash: "mock-hash-2",
+		data: {
+			company: "Acme Inc",
+			title: "Data Engineer",
+			location: "Berlin",
+			url: "https://acme.example/careers/42",
+		},
+		classifications: { seniority: "mid" },
+		status: "stale",
+		first_seen_at: "2024-12-20T09:00:00.000Z",
+		last_seen_at: "2024-12-28T09:00:00.000Z",
+		times_seen: 3,
+		source_url: "https://acme.example/careers/42",
+		created_at: "2024-12-20T09:00:00.000Z",
+		updated_at: "2024-12-28T09:00:00.000Z",
+	},
+];
+
+export const MOCK_ENTITY_SIGNALS: EntitySignal[] = [
+	{
+		id: "sig_mock_new_remote",
+		customer_id: MOCK_CUSTOMER_ID,
+		schema_id: "es_mock_job_posting",
+		name: "New remote role",
+		description: "A new remote job posting appeared",
+		condition_config: {
+			type: "field_value",
+			field: "location",
+			operator: "=",
+			value: "Remote",
+		},
+		actions_config: [{ type: "log", config: {} }],
+		is_active: true,
+		last_evaluated_at: MOCK_CREATED_AT,
+		trigger_count: 1,
+		created_at: "2025-01-14T09:00:00.000Z",
+		updated_at: MOCK_CREATED_AT,
+	},
+];
+
+// =========================================================================
+// Status
+// =========================================================================
+
+export function mockStatus(creditsBalance: number): StatusResponse {
+	return {
+		api: {
+			name: "ZipfAI API (mock)",
+			version: "v1",
+			description:
+				"Local mock server with canned responses - no credits are spent",
+			status: "active",
+			documentation_url: "https://www.zipf.ai/docs",
+		},
+		user: {
+			id: MOCK_CUSTOMER_ID,
+			email: "mock@example.com",
+			name: "Mock User",
+			subscription_status: "active",
+			credits_balance: creditsBalance,
+		},
+		endpoints: {
+			search: "POST /search",
+			ask: "POST /ask",
+			crawls: "POST /crawls",
+			sessions: "POST /sessions",
+			workflows: "POST /workflows",
+		},
+		rate_limits: {
+			default_per_hour: 1000,
+			default_per_day: 10000,
+			note: "The mock server does not rate limit",
+		},
+		credit_costs: { search: 1, ask: "2-5", crawl_per_page: "1-2" },
+	};
+}
@@ -0,0 +1,1919 @@
+import { readFileSync } from "node:fs";
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "node:http";
+import {
+	MOCK_CREDITS_BALANCE,
+	MOCK_CUSTOMER_ID,
+	MOCK_ENTITIES,
+	MOCK_ENTITY_SCHEMAS,
+	MOCK_ENTITY_SIGNALS,
+	MOCK_WORKFLOWS,
+	mockAskResponse,
+	mockCrawlPage,
+	mockExecutionDiffs,
+	mockExecutions,
+	mockIntentAssessment,
+	mockSchemaSuggestion,
+	mockSearchResults,
+	mockSearchSummary,
+	mockStatus,
+	mockWorkflowPlan,
+} from "./mock-fixtures.js";
+import type { HttpClient } from "./request.js";
+import type {
+	CrawlResponse,
+	CrawlResult,
+	CreditsInfo,
+	Entity,
+	EntityFieldDefinition,
+	EntitySchema,
+	EntitySignal,
+	ExecutionDiff,
+	ExecutionFeedbackBatchResult,
+	ExecutionFeedbackReasonCategory,
+	ExecutionFeedbackRecord,
+	ExecutionFeedbackResponse,
+	FeedbackQueueItem,
+	SearchJobResponse,
+	Session,
+	SessionTimelineOperation,
+	SignalAction,
+	SignalCondition,
+	Workflow,
+	WorkflowExecution,
+	WorkflowStep,
+	WorkflowStopCondition,
+} from "./types.js";
+
+// A local stand-in for the ZipfAI API, for developing and demoing without network or credits.
+// Responses are shaped like types.ts and built from mock-fixtures.ts; records created through
+// the API (sessions, crawls, workflows, entities, signals) live in memory until the server stops.
+
+export interface MockServerOptions {
+	host: string;
+	port: number;
+	// JSON file with per-route overrides (see loadMockOverrides)
+	fixturesFile?: string;
+}
+
+// The API lives under this path, so base URLs look like production
+export const MOCK_API_PATH = "/api/v1";
+
+export const DEFAULT_MOCK_PORT = 4010;
+
+export interface MockResponse {
+	status: number;
+	body: unknown;
+}
+
+// Canned responses that replace the built-in ones, keyed by "METHOD /path" (path relative to the API root)
+export type MockOverrides = Record<string, MockResponse>;
+
+// Handles one API call: method, path relative to the API root (with query string), headers and parsed body
+export type MockApi = (
+	method: string,
+	path: string,
+	headers: Record<string, string>,
+	body: unknown,
+) => MockResponse;
+
+// Thrown by route handlers to answer with an error status
+class MockError extends Error {
+	constructor(
+		public status: number,
+		message: string,
+	) {
+		super(message);
+		this.name = "MockError";
+	}
+}
+
+interface MockRequest {
+	params: Record<string, string>;
+	query: URLSearchParams;
+	headers: Record<string, string>;
+	body: Record<string, unknown>;
+}
+
+type RouteHandler = (req: MockRequest) => unknown;
+
+interface Route {
+	method: string;
+	pattern: RegExp;
+	keys: string[];
+	handler: RouteHandler;
+}
+
+// Turn "/workflows/:id/execute" into a matcher that captures id
+function compileRoute(
+	method: string,
+	path: string,
+	handler: RouteHandler,
+): Route {
+	const keys: string[] = [];
+	const source = path
+		.split("/")
+		.map((segment) => {
+			if (segment.startsWith(":")) {
+				keys.push(segment.slice(1));
+				return "([^/]+)";
+			}
+			return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("/");
+	return { method, pattern: new RegExp(`^${source}/?$`), keys, handler };
+}
+
+// =========================================================================
+// Helpers
+// =========================================================================
+
+function str(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() !== "" ? value : undefined;
+}
+
+function num(value: unknown, fallback: number): number {
+	const parsed = typeof value === "string" ? Number(value) : value;
+	return typeof parsed === "number" && Number.isFinite(parsed)
+		? parsed
+		: fallback;
+}
+
+function now(): string {
+	return new Date().toISOString();
+}
+
+function notFound(what: string, id: string): MockError {
+	return new MockError(404, `${what} not found: ${id}`);
+}
+
+// "6 hours", "1 day", "2 weeks" -> minutes
+function parseInterval(interval: unknown): number | undefined {
+	const match = /^(\d+)\s*(minute|hour|day|week)s?$/i.exec(
+		String(interval ?? "").trim(),
+	);
+	if (!match) return undefined;
+
+	const unitMinutes: Record<string, number> = {
+		minute: 1,
+		hour: 60,
+		day: 1440,
+		week: 10080,
+	};
+	return Number(match[1]) * unitMinutes[match[2].toLowerCase()];
+}
+
+// Same list prices the budget estimates use (see budget.ts)
+function searchCost(body: Record<string, unknown>): number {
+	return (
+		1 +
+		(body.interpret_query ? 1 : 0) +
+		(body.rerank_results ? 1 : 0) +
+		(body.generate_suggestions ? 1 : 0) +
+		(body.query_decomposition ? num(body.max_sub_queries, 5) : 0)
+	);
+}
+
+function crawlPageCost(body: Record<string, unknown>): number {
+	return body.extraction_schema !== undefined ||
+		body.classify_documents !== false
+		? 2
+		: 1;
+}
+
+const ASK_DEPTH_COST: Record<string, number> = {
+	quick: 2,
+	standard: 3,
+	deep: 5,
+};
+
+// Entities match a filter when every filtered field equals the entity's value
+function matchesFilter(entity: Entity, filter: unknown): boolean {
+	if (!filter || typeof filter !== "object") return true;
+	return Object.entries(filter as Record<string, unknown>).every(
+		([field, value]) =>
+			field === "status"
+				? entity.status === value
+				: entity.data[field] === value,
+	);
+}
+
+// PATCH bodies may not change ids or ownership
+function withoutKeys(
+	body: Record<string, unknown>,
+	keys: string[],
+): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(body).filter(([key]) => !keys.includes(key)),
+	);
+}
+
+function parseFilter(value: string | null): unknown {
+	if (!value) return undefined;
+	try {
+		return JSON.parse(value);
+	} catch {
+		throw new MockError(400, "filter must be a JSON object");
+	}
+}
+
+function toCsv(rows: Record<string, unknown>[], fields: string[]): string {
+	const quote = (value: unknown) => {
+		const text =
+			value === undefined || value === null
+				? ""
+				: typeof value === "object"
+					? JSON.stringify(value)
+					: String(value);
+		return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	};
+	return [
+		fields.join(","),
+		...rows.map((row) => fields.map((field) => quote(row[field])).join(",")),
+	].join("\n");
+}
+
+// =========================================================================
+// Mock API
+// =========================================================================
+
+// Create a mock API with fresh in-memory state
+export function createMockApi(overrides: MockOverrides = {}): MockApi {
+	let balance = MOCK_CREDITS_BALANCE;
+	const counters = new Map<string, number>();
+
+	const searchJobs = new Map<string, SearchJobResponse>();
+	const crawls = new Map<
+		string,
+		{ job: CrawlResponse; pages: CrawlResult[] }
+	>();
+	const sessions = new Map<
+		string,
+		{
+			session: Session;
+			operations: SessionTimelineOperation[];
+			seenUrls: Set<string>;
+		}
+	>();
+	const workflows = new Map<string, Workflow>(
+		MOCK_WORKFLOWS.map((workflow) => [workflow.id, structuredClone(workflow)]),
+	);
+	const executions = new Map<string, WorkflowExecution[]>(
+		MOCK_WORKFLOWS.map((workflow) => [
+			workflow.id,
+			mockExecutions(workflow.id),
+		]),
+	);
+	const feedback: Array<
+		ExecutionFeedbackRecord & { workflow_id: string | null }
+	> = [];
+	const feedbackByIdempotencyKey = new Map<string, ExecutionFeedbackResponse>();
+	const recoverySuggestions = new Map<
+		string,
+		Array<{
+			id: string;
+			type: "url_correction" | "url_replacement";
+			original_url: string;
+			suggested_url: string;
+			reason: string;
+			confidence: number;
+			status: "pending" | "applied" | "rejected";
+		}>
+	>([
+		[
+			"wf_mock_crawl",
+			[
+				{
+					id: "rec_mock_1",
+					type: "url_correction",
+					original_url: "https://example.com/pricing",
+					suggested_url: "https://example.com/pricing/",
+					reason: "The URL redirects to a trailing-slash version",
+					confidence: 0.92,
+					status: "pending",
+				},
+			],
+		],
+	]);
+	const schemas = new Map<string, EntitySchema>(
+		MOCK_ENTITY_SCHEMAS.map((schema) => [schema.name, structuredClone(schema)]),
+	);
+	const entities = new Map<string, Entity[]>(
+		MOCK_ENTITY_SCHEMAS.map((schema) => [
+			schema.name,
+			structuredClone(
+				MOCK_ENTITIES.filter((entity) => entity.schema_id === schema.id),
+			),
+		]),
+	);
+	const signals = new Map<string, EntitySignal>(
+		MOCK_ENTITY_SIGNALS.map((signal) => [signal.id, structuredClone(signal)]),
+	);
+
+	// Sequential ids keep responses predictable across runs
+	function nextId(prefix: string): string {
+		const count = (counters.get(prefix) ?? 0) + 1;
+		counters.set(prefix, count);
+		return `${prefix}_mock_${count}`;
+	}
+
+	function charge(credits: number, reserved = false): CreditsInfo {
+		if (reserved) {
+			return { consumed: 0, reserved: credits, balance_after: balance };
+		}
+		balance = Math.max(0, balance - credits);
+		return {
+			consumed: credits,
+			balance_after: balance,
+			pricing_tier: credits > 1 ? "advanced" : "basic",
+		};
+	}
+
+	// -------------------------------------------------------------------------
+	// Search
+	// -------------------------------------------------------------------------
+
+	function startSearch(
+		body: Record<string, unknown>,
+		sessionId?: string,
+	): SearchJobResponse {
+		const query = str(body.query);
+		if (!query) throw new MockError(400, "query is required");
+
+		let results = mockSearchResults(query, num(body.max_results, 10));
+		const session = sessionId ? getSessionState(sessionId) : undefined;
+		if (session && body.filter_seen_urls !== false) {
+			results = results.filter((result) => !session.seenUrls.has(result.url));
+		}
+
+		// Summaries and metadata finish "in the background" - the first poll completes them
+		const pending = Boolean(body.generate_summary || body.extract_metadata);
+		const cost = searchCost(body);
+		const startedAt = now();
+		const job: SearchJobResponse = {
+			search_job_id: nextId("search"),
+			status: pending ? "running" : "completed",
+			query,
+			results,
+			query_interpretation:
+				body.interpret_query || body.extract_metadata
+					? {
+							original_query: query,
+							rewritten_query: query,
+							intent: "informational",
+							confidence: 0.9,
+							metadata_status: body.extract_metadata ? "processing" : null,
+						}
+					: undefined,
+			suggested_queries: body.generate_suggestions
+				? [
+						{
+							query: `${query} tutorial`,
+							type: "refinement",
+							reasoning: "Narrows the search to learning material",
+							confidence: 0.8,
+						},
+						{
+							query: `${query} alternatives`,
+							type: "related",
+							reasoning: "Explores related options",
+							confidence: 0.7,
+						},
+					]
+				: undefined,
+			summary_requested: Boolean(body.generate_summary),
+			summary: body.generate_summary ? { status: "processing" } : null,
+			decomposition: body.query_decomposition
+				? {
+						enabled: true,
+						sub_queries: [`${query} overview`, `${query} examples`],
+						strategy: "mock",
+					}
+				: undefined,
+			execution: { credits_consumed: cost },
+			timing: {
+				started_at: startedAt,
+				completed_at: startedAt,
+				duration_ms: 12,
+			},
+			credits: charge(cost),
+		};
+		searchJobs.set(job.search_job_id, job);
+
+		if (session) {
+			for (const result of job.results ?? []) session.seenUrls.add(result.url);
+			recordOperation(session, "search", cost, `Searched "${query}"`, {
+				search_job_id: job.search_job_id,
+				query,
+			});
+		}
+		return job;
+	}
+
+	function getSearchJob(id: string): SearchJobResponse {
+		const job = searchJobs.get(id);
+		if (!job) throw notFound("Search job", id);
+
+		if (job.status === "running") {
+			job.status = "completed";
+			if (job.summary_requested) {
+				job.summary = {
+					status: "completed",
+					content: mockSearchSummary(job.query),
+				};
+			}
+			if (job.query_interpretation?.metadata_status === "processing") {
+				job.query_interpretation.metadata_status = "completed";
+				job.query_interpretation.extracted_metadata = {
+					entities: [],
+					keywords: job.query.split(/\s+/),
+					complexity: "simple",
+				};
+			}
+			if (job.timing) job.timing.completed_at = now();
+		}
+		return job;
+	}
+
+	// -------------------------------------------------------------------------
+	// Crawl
+	// -------------------------------------------------------------------------
+
+	// Crawl the given URLs, plus made-up subpages when link following is on
+	function crawlPageUrls(body: Record<string, unknown>): string[] {
+		const urls = Array.isArray(body.urls) ? body.urls.map(String) : [];
+		const maxPages = num(body.max_pages, 10);
+		const pages = [...urls];
+		const followLinks =
+			body.follow_links === true ||
+			(typeof body.expansion === "string" && body.expansion !== "none");
+		for (
+			let i = 1;
+			followLinks && urls.length > 0 && pages.length < maxPages;
+			i++
+		) {
+			pages.push(`${urls[0].replace(/\/+$/, "")}/page-${i}`);
+		}
+		return pages.slice(0, maxPages);
+	}
+
+	function startCrawl(
+		body: Record<string, unknown>,
+		sessionId?: string,
+	): CrawlResponse {
+		const urls = Array.isArray(body.urls) ? body.urls.map(String) : [];
+		if (urls.length === 0) throw new MockError(400, "urls is required");
+
+		const session = sessionId ? getSessionState(sessionId) : undefined;
+		let pageUrls = crawlPageUrls(body);
+		if (session && body.filter_seen_urls === true) {
+			pageUrls = pageUrls.filter((url) => !session.seenUrls.has(url));
+		}
+		const cost = pageUrls.length * crawlPageCost(body);
+
+		if (body.dry_run) {
+			return {
+				id: "crawl_dry_run",
+				status: "pending",
+				urls,
+				pages_crawled: 0,
+				credits: charge(cost, true),
+			};
+		}
+
+		const extractionSchema = body.extraction_schema as
+			| Record<string, string>
+			| undefined;
+		const pages = pageUrls.map((url) => mockCrawlPage(url, extractionSchema));
+		const async = body.processing_mode === "async";
+		const job: CrawlResponse = {
+			id: nextId("crawl"),
+			status: async ? "running" : "completed",
+			urls,
+			pages_crawled: async ? 0 : pages.length,
+			results: async ? [] : pages,
+			summary_requested: Boolean(body.generate_summary),
+			summary: body.generate_summary
+				? `Mock summary of ${pages.length} crawled pages.`
+				: null,
+			stats: {
+				total_documents: pages.length,
+				processing_time_ms: 25,
+				pages_crawled: async ? 0 : pages.length,
+				pages_failed: 0,
+			},
+			execution: { mode: async ? "async" : "sync", success: true },
+			credits: charge(cost),
+		};
+		crawls.set(job.id, { job, pages });
+
+		if (session) {
+			for (const url of pageUrls) session.seenUrls.add(url);
+			recordOperation(session, "crawl", cost, `Crawled ${pages.length} pages`, {
+				crawl_id: job.id,
+				urls,
+			});
+		}
+		return job;
+	}
+
+	// Async crawls finish one page per poll so progress can be watched
+	function getCrawl(id: string): CrawlResponse {
+		const crawl = crawls.get(id);
+		if (!crawl) throw notFound("Crawl", id);
+
+		const { job, pages } = crawl;
+		if (job.status === "running") {
+			const crawled = Math.min(pages.length, (job.pages_crawled ?? 0) + 1);
+			job.pages_crawled = crawled;
+			job.results = pages.slice(0, crawled);
+			if (job.stats) job.stats.pages_crawled = crawled;
+			if (crawled >= pages.length) job.status = "completed";
+		}
+		return job;
+	}
+
+	function cancelCrawl(id: string): CrawlResponse {
+		const crawl = crawls.get(id);
+		if (!crawl) throw notFound("Crawl", id);
+
+		if (crawl.job.status === "running" || crawl.job.status === "pending") {
+			crawl.job.status = "cancelled";
+		}
+		return crawl.job;
+	}
+
+	// -------------------------------------------------------------------------
+	// Sessions
+	// -------------------------------------------------------------------------
+
+	function getSessionState(id: string) {
+		const state = sessions.get(id);
+		if (!state) throw notFound("Session", id);
+		if (state.session.status !== "active") {
+			throw new MockError(409, `Session ${id} is ${state.session.status}`);
+		}
+		return state;
+	}
+
+	function recordOperation(
+		state: {
+			session: Session;
+			operations: SessionTimelineOperation[];
+			seenUrls: Set<string>;
+		},
+		type: "search" | "crawl",
+		credits: number,
+		summary: string,
+		job: Pick<
+			SessionTimelineOperation,
+			"search_job_id" | "crawl_id" | "query" | "urls"
+		>,
+	): void {
+		const timestamp = now();
+		state.operations.push({
+			id: nextId(`op_${type}`),
+			type,
+			status: "completed",
+			created_at: timestamp,
+			completed_at: timestamp,
+			credits_consumed: credits,
+			summary,
+			...job,
+		});
+
+		const aggregates = state.session.aggregates ?? {};
+		const byType = aggregates.operations_by_type ?? {};
+		byType[type] = (byType[type] ?? 0) + 1;
+		state.session.aggregates = {
+			unique_urls: state.seenUrls.size,
+			total_credits: (aggregates.total_credits ?? 0) + credits,
+			operation_count: state.operations.length,
+			operations_by_type: byType,
+		};
+		state.session.updated_at = timestamp;
+	}
+
+	// -------------------------------------------------------------------------
+	// Workflows
+	// -------------------------------------------------------------------------
+
+	function getWorkflow(id: string): Workflow {
+		const workflow = workflows.get(id);
+		if (!workflow) throw notFound("Workflow", id);
+		return workflow;
+	}
+
+	function workflowCost(workflow: Workflow): number {
+		if (workflow.steps && workflow.steps.length > 0) {
+			return workflow.steps.length;
+		}
+		const urls = workflow.operation_config?.urls;
+		return workflow.workflow_type === "crawl" && Array.isArray(urls)
+			? urls.length * 2
+			: 1;
+	}
+
+	// Changes between consecutive executions (seeded workflows have richer canned diffs)
+	function getDiffs(workflowId: string): ExecutionDiff[] {
+		const runs = executions.get(workflowId) ?? [];
+		const seeded = MOCK_WORKFLOWS.some((workflow) => workflow.id === workflowId)
+			? mockExecutionDiffs(workflowId)
+			: [];
+		// Executions are newest first, so each run's predecessor is the next one
+		return runs.map(
+			(run, i) =>
+				seeded.find((diff) => diff.execution_id === run.id) ??
+				genericDiff(run, runs[i + 1]?.id ?? null),
+		);
+	}
+
+	function genericDiff(
+		run: WorkflowExecution,
+		previousId: string | null,
+	): ExecutionDiff {
+		return {
+			execution_id: run.id,
+			previous_execution_id: previousId,
+			executed_at: run.started_at ?? now(),
+			has_changes: false,
+			changes: [],
+			no_change: previousId ? ["result_count"] : [],
+			summary: previousId ? "No changes since the previous run." : "First run.",
+			extracted_state: run.result_summary,
+			previous_state: null,
+		};
+	}
+
+	function executeWorkflow(
+		workflowId: string,
+		body: Record<string, unknown>,
+	): unknown {
+		const workflow = getWorkflow(workflowId);
+		const cost = workflowCost(workflow);
+		if (body.dry_run) {
+			return {
+				message: `Dry run: executing ${workflow.name} would cost about ${cost} credits`,
+				dry_run: true,
+				cost_estimate: { total_credits: cost },
+			};
+		}
+
+		const runs = executions.get(workflowId) ?? [];
+		const timestamp = now();
+		const execution: WorkflowExecution = {
+			id: `${workflowId}_exec_${runs.length + 1}`,
+			workflow_id: workflowId,
+			status: "completed",
+			trigger_type: "manual",
+			result_summary: { results: 10, new_urls: 0 },
+			credits_consumed: cost,
+			started_at: timestamp,
+			completed_at: timestamp,
+		};
+		executions.set(workflowId, [execution, ...runs]);
+		workflow.execution_count = (workflow.execution_count ?? 0) + 1;
+		workflow.last_execution_at = timestamp;
+		workflow.updated_at = timestamp;
+
+		return {
+			message: `Workflow ${workflow.name} executed`,
+			execution_id: execution.id,
+			credits: charge(cost),
+		};
+	}
+
+	// -------------------------------------------------------------------------
+	// Execution feedback
+	// -------------------------------------------------------------------------
+
+	function findExecution(executionId: string): WorkflowExecution | undefined {
+		for (const runs of executions.values()) {
+			const run = runs.find((execution) => execution.id === executionId);
+			if (run) return run;
+		}
+		return undefined;
+	}
+
+	function rate(
+		workflowId: string | undefined,
+		executionId: string,
+		body: Record<string, unknown>,
+		headers: Record<string, string>,
+	): ExecutionFeedbackResponse {
+		if (workflowId) getWorkflow(workflowId);
+		if (body.rating !== "positive" && body.rating !== "negative") {
+			throw new MockError(400, 'rating must be "positive" or "negative"');
+		}
+
+		const idempotencyKey =
+			headers["idempotency-key"] ?? str(body.idempotency_key);
+		const replay = idempotencyKey
+			? feedbackByIdempotencyKey.get(idempotencyKey)
+			: undefined;
+		if (replay) {
+			return { ...replay, status: "idempotent_replay" };
+		}
+
+		const stepId = str(body.workflow_step_id) ?? null;
+		const existing = feedback.find(
+			(record) =>
+				record.execution_id === executionId &&
+				record.workflow_step_id === stepId,
+		);
+		const source = headers["x-zipf-signal-source"] === "mcp" ? "mcp" : "api";
+		const record = existing ?? {
+			id: nextId("feedback"),
+			execution_id: executionId,
+			workflow_id:
+				workflowId ?? findExecution(executionId)?.workflow_id ?? null,
+			execution_kind: "workflow_execution" as const,
+			workflow_step_id: stepId,
+			signal_type: "result_thumbs_up" as const,
+			reason_category: null,
+			comment: null,
+			result_url: null,
+			actor: { type: source, id_hash: "mock", model: null },
+			signal_source: source,
+			immediate_reward: 0,
+			reward_version: 1,
+			created_at: now(),
+		};
+		Object.assign(record, {
+			execution_kind: body.execution_kind ?? record.execution_kind,
+			signal_type:
+				body.rating === "positive" ? "result_thumbs_up" : "result_thumbs_down",
+			reason_category:
+				(body.reason_category as ExecutionFeedbackReasonCategory) ?? null,
+			comment: str(body.comment) ?? null,
+			result_url: str(body.result_url) ?? null,
+			actor: { ...record.actor, model: str(body.actor_model) ?? null },
+			immediate_reward: body.rating === "positive" ? 1 : -1,
+		});
+		if (!existing) feedback.push(record);
+
+		const { workflow_id, ...feedbackRecord } = record;
+		const response: ExecutionFeedbackResponse = {
+			schema_version: "execution_feedback_v1",
+			workflow_id: workflow_id ?? undefined,
+			execution_id: executionId,
+			status: existing ? "updated" : "created",
+			feedback: feedbackRecord,
+		};
+		if (idempotencyKey) feedbackByIdempotencyKey.set(idempotencyKey, response);
+		return response;
+	}
+
+	function rateBatch(
+		workflowId: string | undefined,
+		body: Record<string, unknown>,
+		headers: Record<string, string>,
+	): unknown {
+		const items = Array.isArray(body.feedback)
+			? (body.feedback as Record<string, unknown>[])
+			: [];
+		const results: ExecutionFeedbackBatchResult[] = items.map((item) => {
+			const executionId = String(item.execution_id ?? "");
+			try {
+				const response = rate(workflowId, executionId, item, {
+					...headers,
+					"idempotency-key": str(item.idempotency_key) ?? "",
+				});
+				return {
+					execution_id: executionId,
+					status: response.status === "updated" ? "updated" : "created",
+					signal_id: response.feedback.id,
+				};
+			} catch (error) {
+				return {
+					execution_id: executionId,
+					status: "failed",
+					error: error instanceof Error ? error.message : String(error),
+				};
+			}
+		});
+		const failed = results.filter(
+			(result) => result.status === "failed",
+		).length;
+		return {
+			schema_version: "execution_feedback_v1",
+			workflow_id: workflowId,
+			submitted: results.length,
+			succeeded: results.length - failed,
+			failed,
+			results,
+		};
+	}
+
+	function workflowFeedback(workflowId: string) {
+		return feedback.filter((record) => record.workflow_id === workflowId);
+	}
+
+	// -------------------------------------------------------------------------
+	// Entities
+	// -------------------------------------------------------------------------
+
+	function getSchema(name: string): EntitySchema {
+		const schema = schemas.get(name);
+		if (!schema) throw notFound("Entity schema", name);
+		return schema;
+	}
+
+	function getEntities(schemaName: string): Entity[] {
+		getSchema(schemaName);
+		return entities.get(schemaName) ?? [];
+	}
+
+	function getSignal(id: string): EntitySignal {
+		const signal = signals.get(id);
+		if (!signal) throw notFound("Entity signal", id);
+		return signal;
+	}
+
+	// -------------------------------------------------------------------------
+	// Routes (relative to MOCK_API_PATH)
+	// -------------------------------------------------------------------------
+
+	const routes: Route[] = [
+		compileRoute("GET", "", () => mockStatus(balance)),
+
+		// Search, ask and research
+		compileRoute("POST", "/search", ({ body }) => startSearch(body)),
+		compileRoute("GET", "/search/jobs/:id", ({ params }) =>
+			getSearchJob(params.id),
+		),
+		compileRoute("POST", "/ask", ({ body }) => {
+			const question = str(body.question);
+			if (!question) throw new MockError(400, "question is required");
+			const depth = (["quick", "standard", "deep"] as const).find(
+				(d) => d === body.depth,
+			);
+			const cost =
+				(ASK_DEPTH_COST[depth ?? "standard"] ?? 3) +
+				(body.enable_decomposition ? num(body.max_sub_queries, 3) : 0);
+			return {
+				...mockAskResponse(
+					question,
+					depth ?? "standard",
+					num(body.max_sources, 10),
+				),
+				credits: charge(cost),
+			};
+		}),
+		compileRoute("POST", "/research", ({ body }) => {
+			const query = str(body.query);
+			if (!query) throw new MockError(400, "query is required");
+			const sessionId = str(body.session_id);
+			const search = startSearch(
+				{ ...body, max_results: num(body.search_count, 10) },
+				sessionId,
+			);
+			const topUrls = (search.results ?? [])
+				.slice(0, num(body.auto_crawl_top_n, 5))
+				.map((result) => result.url);
+			const crawled = topUrls.map((url) =>
+				startCrawl(
+					{
+						urls: [url],
+						max_pages: num(body.max_pages_per_url, 1),
+						extraction_schema: body.extraction_schema,
+						classify_documents: body.classify_documents,
+					},
+					sessionId,
+				),
+			);
+			const consumed = [search, ...crawled].reduce(
+				(total, job) => total + (job.credits?.consumed ?? 0),
+				0,
+			);
+			return {
+				session_id: sessionId,
+				search_job_id: search.search_job_id,
+				crawl_ids: crawled.map((job) => job.id),
+				answer: `Mock research answer for "${query}", based on ${crawled.length} crawled sources.`,
+				sources: (search.results ?? []).map((result) => ({
+					url: result.url,
+					title: result.title,
+					content_preview: result.description,
+					crawled: topUrls.includes(result.url),
+				})),
+				summary: mockSearchSummary(query),
+				// Search and crawls were already charged; report the total once
+				credits: { consumed, balance_after: balance },
+				timing: { total_ms: 60, search_ms: 12, crawl_ms: 48 },
+			};
+		}),
+
+		// Crawls
+		compileRoute("POST", "/crawls/suggest-schema", ({ body }) => {
+			const url = str(body.url);
+			if (!url) throw new MockError(400, "url is required");
+			return { ...mockSchemaSuggestion(url), credits: charge(2) };
+		}),
+		compileRoute("POST", "/crawls", ({ body }) => startCrawl(body)),
+		compileRoute("GET", "/crawls/:id", ({ params }) => getCrawl(params.id)),
+		compileRoute("POST", "/crawls/:id/cancel", ({ params }) =>
+			cancelCrawl(params.id),
+		),
+
+		// Sessions
+		compileRoute("POST", "/sessions", ({ body }) => {
+			const name = str(body.name);
+			if (!name) throw new MockError(400, "name is required");
+			const timestamp = now();
+			const session: Session = {
+				id: nextId("session"),
+				customer_id: MOCK_CUSTOMER_ID,
+				name,
+				description: str(body.description),
+				status: "active",
+				intent_context: str(body.intent_context),
+				session_config: body.session_config as Session["session_config"],
+				aggregates: {
+					unique_urls: 0,
+					total_credits: 0,
+					operation_count: 0,
+					operations_by_type: {},
+				},
+				created_at: timestamp,
+				updated_at: timestamp,
+			};
+			sessions.set(session.id, {
+				session,
+				operations: [],
+				seenUrls: new Set(),
+			});
+			return { session };
+		}),
+		compileRoute("GET", "/sessions", ({ query }) => {
+			const status = query.get("status");
+			const limit = num(query.get("limit"), 20);
+			const offset = num(query.get("offset"), 0);
+			const all = [...sessions.values()]
+				.map((state) => state.session)
+				.filter((session) => !status || session.status === status);
+			return {
+				sessions: all.slice(offset, offset + limit),
+				pagination: {
+					total: all.length,
+					limit,
+					offset,
+					hasMore: offset + limit < all.length,
+				},
+			};
+		}),
+		compileRoute("GET", "/sessions/:id", ({ params }) => {
+			const state = sessions.get(params.id);
+			if (!state) throw notFound("Session", params.id);
+			return { session: state.session };
+		}),
+		compileRoute("PATCH", "/sessions/:id", ({ params, body }) => {
+			const state = sessions.get(params.id);
+			if (!state) throw notFound("Session", params.id);
+			const { session } = state;
+			if (
+				body.status !== undefined &&
+				body.status !== "active" &&
+				body.status !== "archived"
+			) {
+				throw new MockError(400, 'status must be "active" or "archived"');
+			}
+			if (body.status === "active" && session.status === "completed") {
+				throw new MockError(
+					409,
+					`Session ${params.id} is completed and can't be resumed`,
+				);
+			}
+			Object.assign(session, {
+				name: str(body.name) ?? session.name,
+				description: str(body.description) ?? session.description,
+				status: body.status ?? session.status,
+				updated_at: now(),
+			});
+			return { session };
+		}),
+		compileRoute("GET", "/sessions/:id/timeline", ({ params }) => {
+			const state = sessions.get(params.id);
+			if (!state) throw notFound("Session", params.id);
+			return {
+				session_id: params.id,
+				operations: state.operations,
+				aggregates: state.session.aggregates,
+			};
+		}),
+		compileRoute("POST", "/sessions/:id/complete", ({ params }) => {
+			const state = sessions.get(params.id);
+			if (!state) throw notFound("Session", params.id);
+			state.session.status = "completed";
+			state.session.completed_at = now();
+			state.session.updated_at = state.session.completed_at;
+			return { session: state.session };
+		}),
+		compileRoute("POST", "/sessions/:id/search", ({ params, body }) =>
+			startSearch(body, params.id),
+		),
+		compileRoute("POST", "/sessions/:id/crawl", ({ params, body }) =>
+			startCrawl(body, params.id),
+		),
+
+		// Workflows (fixed paths before /workflows/:id)
+		compileRoute("POST", "/workflows/plan", ({ body }) => {
+			const intent = str(body.intent);
+			if (!intent) throw new MockError(400, "intent is required");
+			return mockWorkflowPlan(intent);
+		}),
+		compileRoute("POST", "/workflows/assess-intent", ({ body }) => {
+			const intent = str(body.intent);
+			if (!intent) throw new MockError(400, "intent is required");
+			return mockIntentAssessment(intent);
+		}),
+		compileRoute("POST", "/workflows", ({ body }) => {
+			const name = str(body.name);
+			if (!name) throw new MockError(400, "name is required");
+			if (!body.stop_condition) {
+				throw new MockError(400, "stop_condition is required");
+			}
+			const timestamp = now();
+			const intervalMinutes =
+				num(body.interval_minutes, 0) || parseInterval(body.interval) || 1440;
+			const workflow: Workflow = {
+				id: body.dry_run ? "wf_dry_run" : nextId("wf"),
+				customer_id: MOCK_CUSTOMER_ID,
+				name,
+				mode: (body.mode as Workflow["mode"]) ?? "simple",
+				workflow_type: body.workflow_type as Workflow["workflow_type"],
+				operation_config: body.operation_config as Record<string, unknown>,
+				steps: body.steps as WorkflowStep[] | undefined,
+				intent: str(body.intent),
+				stop_condition: body.stop_condition as WorkflowStopCondition,
+				interval_minutes: intervalMinutes,
+				max_executions: body.max_executions as number | undefined,
+				execution_count: 0,
+				status: "active",
+				next_execution_at: new Date(
+					Date.now() + intervalMinutes * 60000,
+				).toISOString(),
+				session_id: str(body.session_id),
+				email_config: body.email_config as Workflow["email_config"],
+				slack_config: body.slack_config as Workflow["slack_config"],
+				created_at: timestamp,
+				updated_at: timestamp,
+			};
+			if (body.dry_run) {
+				return {
+					workflow,
+					dry_run: true,
+					cost_estimate: { credits_per_execution: workflowCost(workflow) },
+				};
+			}
+			workflows.set(workflow.id, workflow);
+			executions.set(workflow.id, []);
+			return { workflow };
+		}),
+		compileRoute("GET", "/workflows", ({ query }) => {
+			const status = query.get("status");
+			const limit = num(query.get("limit"), 20);
+			const offset = num(query.get("offset"), 0);
+			const all = [...workflows.values()].filter(
+				(workflow) => !status || workflow.status === status,
+			);
+			return {
+				workflows: all.slice(offset, offset + limit),
+				pagination: {
+					total: all.length,
+					limit,
+					offset,
+					hasMore: offset + limit < all.length,
+				},
+			};
+		}),
+		compileRoute("GET", "/workflows/:id", ({ params }) => ({
+			workflow: getWorkflow(params.id),
+		})),
+		compileRoute("PATCH", "/workflows/:id", ({ params, body }) => {
+			const workflow = getWorkflow(params.id);
+			const changes = withoutKeys(body, ["id", "customer_id", "interval"]);
+			Object.assign(workflow, changes, {
+				interval_minutes:
+					parseInterval(body.interval) ??
+					num(changes.interval_minutes, workflow.interval_minutes),
+				updated_at: now(),
+			});
+			return { workflow };
+		}),
+		compileRoute("DELETE", "/workflows/:id", ({ params }) => {
+			const workflow = getWorkflow(params.id);
+			workflows.delete(params.id);
+			executions.delete(params.id);
+			return { message: `Workflow ${workflow.name} deleted` };
+		}),
+		compileRoute("GET", "/workflows/:id/details", ({ params }) => {
+			const workflow = getWorkflow(params.id);
+			const runs = executions.get(params.id) ?? [];
+			return {
+				workflow,
+				executions: runs,
+				stats: {
+					total_executions: runs.length,
+					successful_executions: runs.filter(
+						(run) => run.status === "completed",
+					).length,
+					failed_executions: runs.filter((run) => run.status === "failed")
+						.length,
+					total_credits_consumed: runs.reduce(
+						(total, run) => total + (run.credits_consumed ?? 0),
+						0,
+					),
+				},
+			};
+		}),
+		compileRoute("POST", "/workflows/:id/execute", ({ params, body }) =>
+			executeWorkflow(params.id, body),
+		),
+		compileRoute("GET", "/workflows/:id/timeline", ({ params }) => {
+			getWorkflow(params.id);
+			return {
+				workflow_id: params.id,
+				executions: executions.get(params.id) ?? [],
+			};
+		}),
+		compileRoute("GET", "/workflows/:id/diff", ({ params, query }) => {
+			const workflow = getWorkflow(params.id);
+			const since = query.get("since");
+			const diffs = getDiffs(params.id)
+				.filter((diff) => !since || diff.executed_at >= since)
+				.slice(0, num(query.get("limit"), 10));
+			const changed = diffs.filter((diff) => diff.has_changes);
+			const latest = diffs[0];
+			return {
+				workflow_id: workflow.id,
+				workflow_name: workflow.name,
+				workflow_type: workflow.workflow_type ?? null,
+				workflow_mode: workflow.mode ?? "simple",
+				is_multi_step: workflow.mode === "multi_step",
+				total_executions: (executions.get(params.id) ?? []).length,
+				stats: {
+					executions_with_changes: changed.length,
+					executions_without_changes: diffs.length - changed.length,
+					change_rate: diffs.length > 0 ? changed.length / diffs.length : 0,
+					most_volatile_fields:
+						changed.length > 0
+							? [{ field: "result_count", change_count: changed.length }]
+							: [],
+				},
+				diffs,
+				latest: latest
+					? {
+							execution_id: latest.execution_id,
+							executed_at: latest.executed_at,
+							state: latest.extracted_state ?? {},
+							changes_from_previous: latest.changes,
+							summary: latest.summary,
+						}
+					: null,
+			};
+		}),
+		compileRoute("POST", "/workflows/:id/assessments", ({ params, body }) => {
+			getWorkflow(params.id);
+			const assessments = Array.isArray(body.assessments)
+				? body.assessments
+				: [];
+			return {
+				workflow_id: params.id,
+				accepted: assessments.length,
+				message: `Recorded ${assessments.length} assessments`,
+			};
+		}),
+		compileRoute(
+			"POST",
+			"/workflows/:id/executions/:executionId/feedback",
+			({ params, body, headers }) =>
+				rate(params.id, params.executionId, body, headers),
+		),
+		compileRoute("POST", "/feedback", ({ body, headers }) => {
+			const executionId = str(body.execution_id);
+			if (!executionId) throw new MockError(400, "execution_id is required");
+			return rate(undefined, executionId, body, headers);
+		}),
+		compileRoute(
+			"GET",
+			"/workflows/:id/execution-feedback",
+			({ params, query }) => {
+				getWorkflow(params.id);
+				const limit = num(query.get("limit"), 50);
+				const filters: Record<string, string | null> = {
+					execution_id: query.get("execution_id"),
+					workflow_step_id: query.get("workflow_step_id"),
+					signal_type: query.get("signal_type"),
+					reason_category: query.get("reason_category"),
+				};
+				const actorType = query.get("actor_type");
+				const records = workflowFeedback(params.id)
+					.filter(
+						(record) =>
+							Object.entries(filters).every(
+								([field, value]) =>
+									!value ||
+									(record as unknown as Record<string, unknown>)[field] ===
+										value,
+							) &&
+							(!actorType || record.actor.type === actorType),
+					)
+					.map(({ workflow_id, ...record }) => record);
+				return {
+					schema_version: "execution_feedback_v1",
+					workflow_id: params.id,
+					feedback: records.slice(0, limit),
+					pagination: { limit, next_cursor: null },
+				};
+			},
+		),
+		compileRoute(
+			"GET",
+			"/workflows/:id/execution-feedback/stats",
+			({ params }) => {
+				getWorkflow(params.id);
+				const records = workflowFeedback(params.id);
+				const positive = records.filter(
+					(record) => record.signal_type === "result_thumbs_up",
+				).length;
+				const ratedExecutions = new Set(
+					records.map((record) => record.execution_id),
+				);
+				const runs = executions.get(params.id) ?? [];
+				const byReason: Record<string, number> = {};
+				const byActor = { human: 0, api: 0, mcp: 0 };
+				for (const record of records) {
+					if (record.reason_category) {
+						byReason[record.reason_category] =
+							(byReason[record.reason_category] ?? 0) + 1;
+					}
+					byActor[record.actor.type]++;
+				}
+				return {
+					schema_version: "execution_feedback_v1",
+					workflow_id: params.id,
+					total_feedback: records.length,
+					thumbs_up_count: positive,
+					thumbs_down_count: records.length - positive,
+					positive_rate: records.length > 0 ? positive / records.length : 0,
+					executions_with_feedback: ratedExecutions.size,
+					feedback_coverage_rate:
+						runs.length > 0 ? ratedExecutions.size / runs.length : 0,
+					reason_completion_rate:
+						records.length > 0
+							? records.filter((record) => record.reason_category).length /
+								records.length
+							: 0,
+					by_reason: byReason,
+					by_actor_type: byActor,
+					trends: {
+						last_7d: { positive, negative: records.length - positive },
+						last_30d: { positive, negative: records.length - positive },
+					},
+					total_immediate_reward: records.reduce(
+						(total, record) => total + record.immediate_reward,
+						0,
+					),
+				};
+			},
+		),
+		compileRoute(
+			"POST",
+			"/workflows/:id/execution-feedback/batch",
+			({ params, body, headers }) => {
+				getWorkflow(params.id);
+				return rateBatch(params.id, body, headers);
+			},
+		),
+		compileRoute("POST", "/feedback/batch", ({ body, headers }) =>
+			rateBatch(undefined, body, headers),
+		),
+		compileRoute("GET", "/feedback/queue", ({ query }) => {
+			const workflowId = query.get("workflow_id");
+			const rated = new Set(feedback.map((record) => record.execution_id));
+			const unrated = [...executions.entries()]
+				.filter(([id]) => !workflowId || id === workflowId)
+				.flatMap(([, runs]) => runs)
+				.filter((run) => !rated.has(run.id));
+			const items: FeedbackQueueItem[] = unrated
+				.slice(0, num(query.get("limit"), 10))
+				.map((run) => ({
+					execution_id: run.id,
+					execution_kind: "workflow_execution",
+					workflow_id: run.workflow_id,
+					workflow_name: workflows.get(run.workflow_id)?.name ?? null,
+					created_at: run.started_at ?? now(),
+					score: 0.5,
+					score_reasons: ["unrated"],
+					feedback_hint: {
+						suggested: true,
+						action: {
+							tool: "zipfai_rate_execution",
+							args: { workflow_id: run.workflow_id, execution_id: run.id },
+						},
+						note: "Rate whether this run's results were useful",
+					},
+				}));
+			return { items, total_unrated: unrated.length };
+		}),
+		compileRoute("GET", "/workflows/:id/feedback-impact", ({ params }) => {
+			getWorkflow(params.id);
+			const records = workflowFeedback(params.id);
+			const positive = records.filter(
+				(record) => record.signal_type === "result_thumbs_up",
+			).length;
+			const runs = executions.get(params.id) ?? [];
+			const reasons = new Map<string, number>();
+			for (const record of records) {
+				if (
+					record.signal_type === "result_thumbs_down" &&
+					record.reason_category
+				) {
+					reasons.set(
+						record.reason_category,
+						(reasons.get(record.reason_category) ?? 0) + 1,
+					);
+				}
+			}
+			return {
+				workflow_id: params.id,
+				your_ratings: {
+					total: records.length,
+					positive,
+					negative: records.length - positive,
+					coverage_rate: runs.length > 0 ? records.length / runs.length : 0,
+				},
+				calibration_impact: null,
+				negative_patterns: {
+					top_reasons: [...reasons.entries()].map(([reason, count]) => ({
+						reason,
+						count,
+					})),
+					recommended_edits: [],
+				},
+				community: {
+					total_ratings: records.length,
+					positive_rate: 0,
+					actors: 1,
+				},
+			};
+		}),
+
+		// Workflow notifications, validation and recovery
+		compileRoute("GET", "/workflows/:id/test-slack", ({ params }) => {
+			const workflow = getWorkflow(params.id);
+			const slack = workflow.slack_config;
+			return {
+				endpoint: `/api/v1/workflows/${params.id}/test-slack`,
+				method: "POST",
+				description: "Send a test Slack notification",
+				credits_cost: 0,
+				workflow_id: workflow.id,
+				workflow_name: workflow.name,
+				slack_status: {
+					configured: Boolean(slack),
+					enabled: slack?.enabled ?? false,
+					webhook_configured: Boolean(slack?.webhook_url),
+					per_execution: slack?.per_execution ?? false,
+					digest: "none",
+					event_types: ["execution_completed"],
+				},
+				validation_error: slack?.webhook_url
+					? null
+					: "No Slack webhook URL configured",
+				ready_to_test: Boolean(slack?.enabled && slack.webhook_url),
+			};
+		}),
+		compileRoute("POST", "/workflows/:id/test-slack", ({ params }) => {
+			const workflow = getWorkflow(params.id);
+			if (
+				!workflow.slack_config?.enabled ||
+				!workflow.slack_config.webhook_url
+			) {
+				throw new MockError(400, "Slack is not configured for this workflow");
+			}
+			return {
+				success: true,
+				message: "Mock test notification sent (nothing was posted to Slack)",
+				workflow_id: workflow.id,
+				workflow_name: workflow.name,
+				channel: "#mock",
+				timestamp: now(),
+			};
+		}),
+		compileRoute("GET", "/workflows/:id/validate", ({ params }) => {
+			getWorkflow(params.id);
+			return {
+				endpoint: `/api/v1/workflows/${params.id}/validate`,
+				method: "POST",
+				description: "Validate the workflow configuration and URLs",
+				workflow_id: params.id,
+				validation_status: {
+					validation_available: true,
+					issues_found: recoverySuggestions.get(params.id)?.length ?? 0,
+				},
+			};
+		}),
+		compileRoute("POST", "/workflows/:id/validate", ({ params, body }) => {
+			const workflow = getWorkflow(params.id);
+			const urls = workflow.operation_config?.urls;
+			const suggestions = recoverySuggestions.get(params.id) ?? [];
+			return {
+				workflow_id: params.id,
+				validation_results: {
+					valid: true,
+					warnings: suggestions
+						.filter((suggestion) => suggestion.status === "pending")
+						.map((suggestion) => ({
+							type: "url_redirect",
+							message: suggestion.reason,
+						})),
+					url_health:
+						body.url_health_check && Array.isArray(urls)
+							? urls.map((url) => {
+									const suggestion = suggestions.find(
+										(s) => s.original_url === url && s.status === "pending",
+									);
+									return suggestion
+										? {
+												url: String(url),
+												status: "redirect" as const,
+												status_code: 301,
+												redirect_url: suggestion.suggested_url,
+												correction_suggestion: suggestion.suggested_url,
+											}
+										: {
+												url: String(url),
+												status: "ok" as const,
+												status_code: 200,
+											};
+								})
+							: undefined,
+				},
+				validated_at: now(),
+			};
+		}),
+		compileRoute("GET", "/workflows/:id/recovery", ({ params }) => {
+			getWorkflow(params.id);
+			const suggestions = recoverySuggestions.get(params.id) ?? [];
+			return {
+				workflow_id: params.id,
+				suggestions,
+				total_pending: suggestions.filter((s) => s.status === "pending").length,
+			};
+		}),
+		compileRoute("POST", "/workflows/:id/recovery", ({ params, body }) => {
+			getWorkflow(params.id);
+			const ids = Array.isArray(body.suggestion_ids)
+				? body.suggestion_ids.map(String)
+				: [];
+			let applied = 0;
+			let rejected = 0;
+			for (const suggestion of recoverySuggestions.get(params.id) ?? []) {
+				if (suggestion.status !== "pending") continue;
+				if (body.reject_all) {
+					suggestion.status = "rejected";
+					rejected++;
+				} else if (body.apply_all || ids.includes(suggestion.id)) {
+					suggestion.status = "applied";
+					applied++;
+				}
+			}
+			return {
+				workflow_id: params.id,
+				applied,
+				rejected,
+				steps_marked_for_retry: body.retry_steps ? [] : undefined,
+				message: `Applied ${applied} and rejected ${rejected} suggestions`,
+			};
+		}),
+
+		// Entity schemas
+		compileRoute("GET", "/entity-schemas", () => ({
+			schemas: [...schemas.values()],
+			total: schemas.size,
+		})),
+		compileRoute("POST", "/entity-schemas", ({ body }) => {
+			const name = str(body.name);
+			if (!name) throw new MockError(400, "name is required");
+			if (schemas.has(name)) {
+				throw new MockError(409, `Entity schema already exists: ${name}`);
+			}
+			const fields = (body.fields ?? {}) as Record<
+				string,
+				Omit<EntityFieldDefinition, "name">
+			>;
+			const timestamp = now();
+			const schema: EntitySchema = {
+				id: nextId("es"),
+				customer_id: MOCK_CUSTOMER_ID,
+				name,
+				display_name: str(body.display_name),
+				description: str(body.description),
+				dedup_key: Array.isArray(body.dedup_key)
+					? body.dedup_key.map(String)
+					: [],
+				fields: Object.fromEntries(
+					Object.entries(fields).map(([field, definition]) => [
+						field,
+						{ ...definition, name: field },
+					]),
+				),
+				lifecycle_config:
+					body.lifecycle_config as EntitySchema["lifecycle_config"],
+				created_at: timestamp,
+				updated_at: timestamp,
+			};
+			schemas.set(name, schema);
+			entities.set(name, []);
+			return { schema };
+		}),
+		compileRoute("GET", "/entity-schemas/:name", ({ params }) => ({
+			schema: getSchema(params.name),
+		})),
+		compileRoute("DELETE", "/entity-schemas/:name", ({ params }) => {
+			getSchema(params.name);
+			schemas.delete(params.name);
+			entities.delete(params.name);
+			return { message: `Entity schema ${params.name} deleted` };
+		}),
+
+		// Entities (export before /entities/:schema/:id)
+		compileRoute("GET", "/entities/:schema/export", ({ params, query }) => {
+			const format = query.get("format") === "csv" ? "csv" : "json";
+			const status = query.get("status");
+			const rows = getEntities(params.schema)
+				.filter((entity) => !status || entity.status === status)
+				.slice(0, num(query.get("limit"), 1000));
+			const fields =
+				query.get("fields")?.split(",").filter(Boolean) ??
+				Object.keys(getSchema(params.schema).fields);
+			return {
+				data:
+					format === "csv"
+						? toCsv(
+								rows.map((entity) => entity.data),
+								fields,
+							)
+						: rows,
+				format,
+				count: rows.length,
+				credits: charge(0),
+			};
+		}),
+		compileRoute("GET", "/entities/:schema", ({ params, query }) => {
+			const status = query.get("status");
+			const filter = parseFilter(query.get("filter"));
+			const sortBy = (query.get("sort_by") ?? "last_seen_at") as keyof Entity;
+			const direction = query.get("sort_order") === "asc" ? 1 : -1;
+			const limit = num(query.get("limit"), 50);
+			const offset = num(query.get("offset"), 0);
+			const matching = getEntities(params.schema)
+				.filter(
+					(entity) =>
+						(!status || entity.status === status) &&
+						matchesFilter(entity, filter),
+				)
+				.sort(
+					(a, b) =>
+						direction *
+						String(a[sortBy]).localeCompare(String(b[sortBy]), undefined, {
+							numeric: true,
+						}),
+				);
+			return {
+				schema_name: params.schema,
+				entities: matching.slice(offset, offset + limit),
+				total: matching.length,
+				limit,
+				offset,
+				has_more: offset + limit < matching.length,
+			};
+		}),
+		compileRoute("POST", "/entities/:schema", ({ params, body }) => {
+			const matching = getEntities(params.schema).filter((entity) =>
+				matchesFilter(entity, body.filter),
+			);
+			const offset = num(body.offset, 0);
+			const aggregations = Array.isArray(body.aggregations)
+				? (body.aggregations as Record<string, unknown>[]).map(
+						(aggregation) => {
+							if (aggregation.type === "count_by" && aggregation.field) {
+								const counts: Record<string, number> = {};
+								for (const entity of matching) {
+									const key = String(
+										entity.data[String(aggregation.field)] ?? "unknown",
+									);
+									counts[key] = (counts[key] ?? 0) + 1;
+								}
+								return { type: "count_by", results: counts };
+							}
+							if (aggregation.type === "timeline") {
+								const dateField = (aggregation.date_field ??
+									"first_seen_at") as "first_seen_at";
+								const counts = new Map<string, number>();
+								for (const entity of matching) {
+									const date = entity[dateField].slice(0, 10);
+									counts.set(date, (counts.get(date) ?? 0) + 1);
+								}
+								return {
+									type: "timeline",
+									results: [...counts.entries()].map(([date, count]) => ({
+										date,
+										count,
+									})),
+								};
+							}
+							return { type: "count", results: { count: matching.length } };
+						},
+					)
+				: undefined;
+			return {
+				schema_name: params.schema,
+				entities: matching.slice(offset, offset + num(body.limit, 50)),
+				total: matching.length,
+				aggregations,
+				credits: charge(1),
+			};
+		}),
+		compileRoute("GET", "/entities/:schema/:id", ({ params }) => {
+			const entity = getEntities(params.schema).find(
+				(candidate) => candidate.id === params.id,
+			);
+			if (!entity) throw notFound("Entity", params.id);
+			return { entity };
+		}),
+		compileRoute("PATCH", "/entities/:schema/:id", ({ params, body }) => {
+			const entity = getEntities(params.schema).find(
+				(candidate) => candidate.id === params.id,
+			);
+			if (!entity) throw notFound("Entity", params.id);
+			if (body.data && typeof body.data === "object") {
+				entity.data = {
+					...entity.data,
+					...(body.data as Record<string, unknown>),
+				};
+			}
+			if (typeof body.status === "string") {
+				entity.status = body.status as Entity["status"];
+				if (entity.status === "closed") entity.closed_at = now();
+			}
+			entity.updated_at = now();
+			return { entity };
+		}),
+
+		// Entity signals
+		compileRoute("GET", "/entity-signals", ({ query }) => {
+			const schemaId = query.get("schema_id");
+			const isActive = query.get("is_active");
+			const matching = [...signals.values()].filter(
+				(signal) =>
+					(!schemaId || signal.schema_id === schemaId) &&
+					(isActive === null || String(signal.is_active) === isActive),
+			);
+			return { signals: matching, total: matching.length };
+		}),
+		compileRoute("POST", "/entity-signals", ({ body }) => {
+			const name = str(body.name);
+			const schemaId = str(body.schema_id);
+			if (!name || !schemaId) {
+				throw new MockError(400, "schema_id and name are required");
+			}
+			const timestamp = now();
+			const signal: EntitySignal = {
+				id: nextId("sig"),
+				customer_id: MOCK_CUSTOMER_ID,
+				schema_id: schemaId,
+				name,
+				description: str(body.description),
+				condition_config: body.condition_config as SignalCondition,
+				actions_config: (body.actions_config ?? []) as SignalAction[],
+				is_active: true,
+				trigger_count: 0,
+				created_at: timestamp,
+				updated_at: timestamp,
+			};
+			signals.set(signal.id, signal);
+			return { signal };
+		}),
+		compileRoute("GET", "/entity-signals/:id", ({ params }) => ({
+			signal: getSignal(params.id),
+		})),
+		compileRoute("PATCH", "/entity-signals/:id", ({ params, body }) => {
+			const signal = getSignal(params.id);
+			const changes = withoutKeys(body, ["id", "customer_id", "schema_id"]);
+			Object.assign(signal, changes, { updated_at: now() });
+			return { signal };
+		}),
+		compileRoute("DELETE", "/entity-signals/:id", ({ params }) => {
+			const signal = getSignal(params.id);
+			signals.delete(params.id);
+			return { message: `Entity signal ${signal.name} deleted` };
+		}),
+	];
+
+	return (method, path, headers, body) => {
+		const url = new URL(path, "http://mock");
+		const pathname = url.pathname.replace(/\/+$/, "");
+		method = method.toUpperCase();
+
+		const override = overrides[`${method} ${pathname || "/"}`];
+		if (override) {
+			return { status: override.status, body: override.body };
+		}
+
+		if (!headers.authorization?.startsWith("Bearer ")) {
+			return { status: 401, body: { error: "Missing API key" } };
+		}
+
+		let methodAllowed = false;
+		for (const route of routes) {
+			const match = route.pattern.exec(pathname);
+			if (!match) continue;
+			if (route.method !== method) {
+				methodAllowed = true;
+				continue;
+			}
+
+			const params = Object.fromEntries(
+				route.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]),
+			);
+			try {
+				const result = route.handler({
+					params,
+					query: url.searchParams,
+					headers,
+					body:
+						body && typeof body === "object"
+							? (body as Record<string, unknown>)
+							: {},
+				});
+				return { status: 200, body: result };
+			} catch (error) {
+				if (error instanceof MockError) {
+					return { status: error.status, body: { error: error.message } };
+				}
+				throw error;
+			}
+		}
+
+		return methodAllowed
+			? { status: 405, body: { error: `Method ${method} not allowed` } }
+			: {
+					status: 404,
+					body: {
+						error: `The mock API has no route for ${method} ${pathname}`,
+					},
+				};
+	};
+}
+
+// Read per-route overrides: { "GET /workflows/wf_1": { "status": 200, "body": { ... } } }
+export function loadMockOverrides(file: string): MockOverrides {
+	const raw: unknown = JSON.parse(readFileSync(file, "utf-8"));
+	if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+		throw new Error(`${file} must contain a JSON object`);
+	}
+
+	const overrides: MockOverrides = {};
+	for (const [key, value] of Object.entries(raw)) {
+		const [method, path] = key.trim().split(/\s+/, 2);
+		if (!method || !path?.startsWith("/")) {
+			throw new Error(
+				`Invalid fixture key "${key}" in ${file} (expected "METHOD /path")`,
+			);
+		}
+		const response: { status?: number; body: unknown } =
+			value && typeof value === "object" && "body" in value
+				? (value as { status?: number; body: unknown })
+				: { body: value };
+		overrides[`${method.toUpperCase()} ${path.replace(/(.)\/+$/, "$1")}`] = {
+			status: response.status ?? 200,
+			body: response.body,
+		};
+	}
+	return overrides;
+}
+
+// Strip the API prefix so routes see paths relative to the API root
+function toApiPath(pathname: string): string | undefined {
+	if (pathname === MOCK_API_PATH || pathname.startsWith(`${MOCK_API_PATH}/`)) {
+		return pathname.slice(MOCK_API_PATH.length) || "/";
+	}
+	return undefined;
+}
+
+// An HttpClient that answers from a mock API in-process (see setHttpClient)
+export function createMockHttpClient(
+	api: MockApi = createMockApi(),
+): HttpClient {
+	return async (url, init) => {
+		init.signal?.throwIfAborted();
+
+		const parsed = new URL(url);
+		const path = toApiPath(parsed.pathname) ?? parsed.pathname;
+		const headers = Object.fromEntries(new Headers(init.headers).entries());
+		const body =
+			typeof init.body === "string" && init.body !== ""
+				? JSON.parse(init.body)
+				: undefined;
+
+		const response = api(
+			init.method ?? "GET",
+			`${path}${parsed.search}`,
+			headers,
+			body,
+		);
+		return new Response(JSON.stringify(response.body), {
+			status: response.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	};
+}
+
+// =========================================================================
+// HTTP server
+// =========================================================================
+
+// Helper to write a JSON response
+function sendJson(
+	res: ServerResponse,
+	statusCode: number,
+	body: unknown,
+): void {
+	res.writeHead(statusCode, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+}
+
+// Read and parse a JSON request body
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of req) {
+		chunks.push(chunk as Buffer);
+	}
+
+	const raw = Buffer.concat(chunks).toString("utf-8");
+	return raw ? JSON.parse(raw) : undefined;
+}
+
+export async function startMockServer(
+	options: MockServerOptions,
+): Promise<Server> {
+	const api = createMockApi(
+		options.fixturesFile ? loadMockOverrides(options.fixturesFile) : {},
+	);
+
+	const httpServer = createServer((req, res) => {
+		const url = new URL(
+			req.url ?? "/",
+			`http://${req.headers.host ?? "localhost"}`,
+		);
+		const path = toApiPath(url.pathname);
+		if (path === undefined) {
+			sendJson(res, 404, {
+				error: `Not found: ${url.pathname} (the mock API is served under ${MOCK_API_PATH})`,
+			});
+			return;
+		}
+
+		readJsonBody(req)
+			.then((body) => {
+				const headers = Object.fromEntries(
+					Object.entries(req.headers).map(([key, value]) => [
+						key,
+						Array.isArray(value) ? value.join(", ") : (value ?? ""),
+					]),
+				);
+				const response = api(
+					req.method ?? "GET",
+					`${path}${url.search}`,
+					headers,
+					body,
+				);
+				console.error(`${req.method} ${url.pathname} -> ${response.status}`);
+				sendJson(res, response.status, response.body);
+			})
+			.catch((error) => {
+				console.error("Mock server error:", error);
+				sendJson(res, error instanceof SyntaxError ? 400 : 500, {
+					error:
+						error instanceof Error ? error.message : "Internal server error",
+				});
+			});
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once("error", reject);
+		httpServer.listen(options.port, options.host, () => {
+			httpServer.off("error", reject);
+			resolve();
+		});
+	});
+
+	return httpServer;
+}
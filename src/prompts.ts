@@ -0,0 +1,191 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// MCP prompts: research and monitoring recipes that expand into a concrete tool-call plan,
+// so any MCP client gets the guidance from skills/web-search/SKILL.md.
+// Prompt arguments are always strings on the wire.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function userPrompt(description: string, text: string): GetPromptResult {
+	return {
+		description,
+		messages: [{ role: "user", content: { type: "text", text } }],
+	};
+}
+
+// Comma- or newline-separated list argument
+function splitList(value: string): string[] {
+	return value
+		.split(/[,\n]/)
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
+
+const RESEARCH_DEPTHS = {
+	quick: { subQueries: 3, followUps: 1, crawl: 3 },
+	standard: { subQueries: 5, followUps: 2, crawl: 5 },
+	thorough: { subQueries: 8, followUps: 4, crawl: 10 },
+};
+
+export function registerPrompts(server: McpServer): void {
+	// =========================================================================
+	// Deep research - session-based search, crawl and cited dossier
+	// =========================================================================
+	server.registerPrompt(
+		"deep_research",
+		{
+			title: "Deep research",
+			description:
+				"Research a topic in a ZipfAI session: decomposed search, follow-up searches, crawl of the best sources, and a cited report.",
+			argsSchema: {
+				topic: z.string().describe("What to research"),
+				depth: z
+					.enum(["quick", "standard", "thorough"])
+					.optional()
+					.describe("quick, standard (default) or thorough"),
+				export_format: z
+					.enum(["markdown", "json", "bibtex", "csl"])
+					.optional()
+					.describe("Format of the exported dossier (default: markdown)"),
+			},
+		},
+		({ topic, depth, export_format }) => {
+			const plan = RESEARCH_DEPTHS[depth ?? "standard"];
+			return userPrompt(
+				`Deep research on ${topic}`,
+				`Research this topic thoroughly using the ZipfAI tools: ${topic}
+
+Follow this plan:
+1. Call zipfai_status and check the balance covers roughly ${plan.subQueries + plan.followUps * 2 + plan.crawl * 2} credits. If it doesn't, say so and ask before continuing.
+2. Call zipfai_create_session with name "Research: ${topic}" and intent_context describing what the research is for. It becomes the current session, so the session tools below don't need a session_id.
+3. Call zipfai_session_search with query "${topic}", query_decomposition: true, max_sub_queries: ${plan.subQueries} and generate_summary: true for a broad first pass.
+4. Read the summary and results, note what's missing or contradictory, and run up to ${plan.followUps} focused zipfai_session_search call(s) on those gaps. Seen URLs are filtered out automatically.
+5. Pick the ${plan.crawl} most authoritative and relevant URLs and call zipfai_session_crawl on them with generate_summary: true.
+6. Call zipfai_export_session with format: "${export_format ?? "markdown"}" to collect every source with citation numbers.
+7. Write the answer: key findings first, each claim cited with the dossier's [n] source numbers, then open questions. Finish with zipfai_complete_session.`,
+			);
+		},
+	);
+
+	// =========================================================================
+	// Competitive monitor setup - assess intent, plan and deploy a workflow
+	// =========================================================================
+	server.registerPrompt(
+		"competitive_monitor_setup",
+		{
+			title: "Competitive monitor setup",
+			description:
+				"Set up a workflow that watches competitors: sharpen the intent with zipfai_assess_intent, plan it with zipfai_plan_workflow, then deploy and baseline it.",
+			argsSchema: {
+				competitors: z
+					.string()
+					.describe("Competitors to watch (names or domains, comma-separated)"),
+				focus: z
+					.string()
+					.optional()
+					.describe(
+						"What to watch for, e.g. pricing changes, product launches, hiring (default: pricing and product launches)",
+					),
+				frequency: z
+					.string()
+					.optional()
+					.describe('How often to check, e.g. "6 hours" or "1 day" (default)'),
+				budget: z.string().optional().describe("Maximum credits per execution"),
+			},
+		},
+		({ competitors, focus, frequency, budget }) => {
+			const names = splitList(competitors);
+			const watch = focus?.trim() || "pricing changes and product launches";
+			const intent = `Monitor ${names.join(", ")} for ${watch}, and alert when something new is announced or changed`;
+			const budgetArgs = budget ? `, max_credits_per_execution: ${budget}` : "";
+			return userPrompt(
+				`Competitive monitor for ${names.join(", ")}`,
+				`Set up a ZipfAI workflow that monitors these competitors: ${names.join(", ")}.
+Watch for: ${watch}. Check every ${frequency?.trim() || "1 day"}.
+
+Follow this plan:
+1. Call zipfai_assess_intent with intent: "${intent}". If the score is below 8, adopt its proposed_intent (or add the missing specifics it lists, such as sources and trigger conditions) and assess again.
+2. Call zipfai_plan_workflow with the final intent, name: "Competitors: ${names.join(", ")}"${budgetArgs}. Review the steps: every competitor should be covered, and the stop condition should describe a real change, not just "new results".
+3. Show me the planned steps and estimated credits per execution, and ask for confirmation before deploying.
+4. Once confirmed, call zipfai_create_workflow with the planned steps (mode: "ai_planned", the same intent) and interval: "${frequency?.trim() || "1 day"}", then zipfai_execute_workflow once to establish a baseline.
+5. Call zipfai_get_workflow on the new workflow. If it returns quality_questions, answer the ones you can judge from the results via its assessments parameter, following the quality_loop guidance.
+6. Summarize what is monitored, the schedule, the expected cost per run, and how alerts will arrive.`,
+			);
+		},
+	);
+
+	// =========================================================================
+	// Daily briefing - consolidated workflow digest
+	// =========================================================================
+	server.registerPrompt(
+		"daily_briefing",
+		{
+			title: "Daily briefing",
+			description:
+				"Brief me on what changed across my workflows: zipfai_workflow_updates digest, diffs for the important ones, quality questions and ratings.",
+			argsSchema: {
+				since: z
+					.string()
+					.optional()
+					.describe(
+						"ISO timestamp to report changes since (default: 24 hours ago)",
+					),
+				focus: z
+					.string()
+					.optional()
+					.describe("Topics or workflows to put first"),
+			},
+		},
+		({ since, focus }) => {
+			const from = since?.trim() || new Date(Date.now() - DAY_MS).toISOString();
+			return userPrompt(
+				"Daily briefing",
+				`Give me a briefing on my ZipfAI workflows since ${from}.${focus ? `\nPut anything about ${focus} first.` : ""}
+
+Follow this plan:
+1. Call zipfai_workflow_updates with since: "${from}" and format: "briefing_llm".
+2. For each urgent or notable workflow (signal score 60+), call zipfai_workflow_diff with its workflow_id to see exactly what changed. Skip routine and noise workflows unless they're correlated with an important change.
+3. If the digest has quality_questions you can answer from what you've seen, answer them in one zipfai_workflow_updates call with the assessments parameter.
+4. Call zipfai_feedback_queue and rate the runs you reviewed with zipfai_batch_rate_executions (positive when the changes mattered, negative with a reason_category when they were noise).
+5. Write the briefing: what needs attention today, then notable changes, then a one-line summary of the quiet workflows. Link every item to its source URLs.`,
+			);
+		},
+	);
+
+	// =========================================================================
+	// Triage workflow quality - quality loop for one workflow
+	// =========================================================================
+	server.registerPrompt(
+		"triage_workflow_quality",
+		{
+			title: "Triage workflow quality",
+			description:
+				"Find out why a workflow's results are poor and fix it: timeline diagnostics, ratings, feedback impact, recovery suggestions and quality-question assessments.",
+			argsSchema: {
+				workflow_id: z.string().describe("Workflow to triage"),
+				symptom: z
+					.string()
+					.optional()
+					.describe(
+						"What looks wrong, e.g. irrelevant results, missed alerts, too many alerts",
+					),
+			},
+		},
+		({ workflow_id, symptom }) =>
+			userPrompt(
+				`Quality triage for ${workflow_id}`,
+				`Triage the quality of ZipfAI workflow ${workflow_id}.${symptom ? `\nReported problem: ${symptom}` : ""}
+
+Follow this plan:
+1. Call zipfai_get_workflow with workflow_id: "${workflow_id}" for its configuration and recent executions.
+2. Call zipfai_workflow_timeline for the execution history and quality diagnostics, and zipfai_workflow_diff to see what recent runs actually changed.
+3. Call zipfai_execution_rating_stats and zipfai_feedback_impact to see how runs have been rated and what calibration has already happened.
+4. Call zipfai_get_workflow_recovery_suggestions. Apply the suggestions that clearly fix a broken source with zipfai_apply_workflow_recovery; list the rest for me.
+5. Answer the quality_questions returned in steps 1-2 via the assessments parameter of zipfai_workflow_timeline, and follow the returned quality_loop next_tool_call until it reports nothing left to do.
+6. Rate the runs you inspected with zipfai_batch_rate_executions, with a reason_category for negative ratings.
+7. Report the diagnosis, what you changed, and any configuration edits (query, sources, stop condition, schedule) you recommend I make with zipfai_update_workflow.`,
+			),
+	);
+}
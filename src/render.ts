@@ -0,0 +1,310 @@
+import type { CacheInfo } from "./cache.js";
+import type {
+	AskResponse,
+	CrawlResponse,
+	CreditsInfo,
+	ResearchResponse,
+	SearchJobResponse,
+	WorkflowUpdatesDigestResponse,
+} from "./types.js";
+
+// Concise text renderings of tool results. The full result goes out as structuredContent
+// (schemas.ts); the text is what a person (or a client without structured output) reads.
+
+// Longest string shown as is; structuredContent has the full value
+const MAX_TEXT_CHARS = 300;
+
+// Items shown per list
+const MAX_LIST_ITEMS = 20;
+
+// Content shown per crawled page (clients that only read the text still get the pages)
+const MAX_PAGE_CHARS = 2000;
+
+function truncate(text: string): string {
+	const line = text.replace(/\s+/g, " ").trim();
+	return line.length > MAX_TEXT_CHARS
+		? `${line.slice(0, MAX_TEXT_CHARS).trimEnd()}… (${line.length} chars)`
+		: line;
+}
+
+function isEmpty(value: unknown): boolean {
+	return (
+		value === undefined ||
+		value === null ||
+		value === "" ||
+		(Array.isArray(value) && value.length === 0) ||
+		(typeof value === "object" && Object.keys(value).length === 0)
+	);
+}
+
+function isScalar(value: unknown): boolean {
+	return value === null || typeof value !== "object";
+}
+
+function moreItems(total: number): string[] {
+	return total > MAX_LIST_ITEMS ? [`… ${total - MAX_LIST_ITEMS} more`] : [];
+}
+
+// YAML-like outline of a value: one "key: value" line per field, nested fields indented,
+// and empty fields left out
+function renderFields(
+	value: Record<string, unknown>,
+	indent: string,
+): string[] {
+	const lines: string[] = [];
+	for (const [key, field] of Object.entries(value)) {
+		if (isEmpty(field)) continue;
+		if (isScalar(field)) {
+			lines.push(`${indent}${key}: ${truncate(String(field))}`);
+		} else if (Array.isArray(field) && field.every(isScalar)) {
+			const items = field.slice(0, MAX_LIST_ITEMS).map(String);
+			lines.push(
+				`${indent}${key}: ${truncate([...items, ...moreItems(field.length)].join(", "))}`,
+			);
+		} else if (Array.isArray(field)) {
+			lines.push(`${indent}${key} (${field.length}):`);
+			for (const item of field.slice(0, MAX_LIST_ITEMS)) {
+				lines.push(...renderListItem(item, `${indent}  `));
+			}
+			lines.push(
+				...moreItems(field.length).map((more) => `${indent}  ${more}`),
+			);
+		} else {
+			lines.push(`${indent}${key}:`);
+			lines.push(
+				...renderFields(field as Record<string, unknown>, `${indent}  `),
+			);
+		}
+	}
+	return lines;
+}
+
+function renderListItem(item: unknown, indent: string): string[] {
+	if (isScalar(item)) return [`${indent}- ${truncate(String(item))}`];
+	const lines = Array.isArray(item)
+		? renderFields({ items: item }, `${indent}  `)
+		: renderFields(item as Record<string, unknown>, `${indent}  `);
+	if (lines.length === 0) return [`${indent}- {}`];
+	lines[0] = `${indent}- ${lines[0].slice(indent.length + 2)}`;
+	return lines;
+}
+
+// Any tool result as a YAML-like outline
+export function renderResult(result: object): string {
+	return (
+		renderFields(result as Record<string, unknown>, "").join("\n") ||
+		"(empty result)"
+	);
+}
+
+// =========================================================================
+// Search, ask and crawl
+// =========================================================================
+
+function formatResultsMarkdown(
+	results: {
+		title?: string | null;
+		url: string;
+		description?: string | null;
+	}[],
+): string {
+	if (results.length === 0) {
+		return "No results found.";
+	}
+
+	return results
+		.map((result) => {
+			const title = result.title?.trim() || result.url;
+			const description = result.description?.trim();
+			return description
+				? `- [${title}](${result.url}) - ${description}`
+				: `- [${title}](${result.url})`;
+		})
+		.join("\n");
+}
+
+// "1 page", "2 pages"
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// "a, b, c" leaving out missing parts
+function joinParts(...parts: (string | undefined)[]): string {
+	return parts.filter(Boolean).join(", ");
+}
+
+// "1 credit", "cached result, 2 credits saved", or undefined when neither is known
+function creditsLabel(
+	credits?: CreditsInfo | null,
+	cache?: CacheInfo,
+): string | undefined {
+	if (cache?.status === "hit") {
+		return `cached result, ${cache.credits_saved ?? 0} credits saved`;
+	}
+	const consumed = credits?.consumed;
+	if (consumed === undefined || consumed === null) return undefined;
+	return plural(consumed, "credit");
+}
+
+function summaryText(
+	summary: string | { status: string; content?: string } | null | undefined,
+): string | undefined {
+	if (typeof summary === "string") return summary || undefined;
+	return summary?.content || undefined;
+}
+
+export function renderQuickSearch(result: {
+	results: {
+		title?: string | null;
+		url: string;
+		description?: string | null;
+	}[];
+	cache?: CacheInfo;
+}): string {
+	const cached =
+		result.cache?.status === "hit"
+			? `\n\n(${creditsLabel(undefined, result.cache)})`
+			: "";
+	return `${formatResultsMarkdown(result.results ?? [])}${cached}`;
+}
+
+export function renderSearch(
+	result: SearchJobResponse & { cache?: CacheInfo },
+): string {
+	const results = result.results ?? [];
+	const sections = [
+		`Search "${result.query}": ${joinParts(result.status, plural(results.length, "result"), creditsLabel(result.credits, result.cache))}`,
+	];
+	const rewritten = result.query_interpretation?.rewritten_query;
+	if (rewritten && rewritten !== result.query) {
+		sections.push(`Rewritten query: ${rewritten}`);
+	}
+	const summary = summaryText(result.summary);
+	if (summary) sections.push(`Summary:\n${summary}`);
+	sections.push(formatResultsMarkdown(results));
+	if (result.suggested_queries?.length) {
+		sections.push(
+			`Suggested queries:\n${result.suggested_queries.map((suggestion) => `- ${suggestion.query}`).join("\n")}`,
+		);
+	}
+	return sections.join("\n\n");
+}
+
+export function renderAsk(result: AskResponse & { cache?: CacheInfo }): string {
+	const sources = result.sources.map(
+		(source, index) =>
+			`[${index + 1}] ${source.title || source.url} - ${source.url}`,
+	);
+	const sections = [
+		result.answer,
+		`Sources (${joinParts(result.depth, creditsLabel(result.credits, result.cache))}):\n${sources.join("\n")}`,
+	];
+	if (result.follow_up_questions?.length) {
+		sections.push(
+			`Follow-up questions:\n${result.follow_up_questions.map((question) => `- ${question}`).join("\n")}`,
+		);
+	}
+	return sections.join("\n\n");
+}
+
+export function renderCrawl(result: CrawlResponse): string {
+	const results = result.results ?? [];
+	const pages = result.pages_crawled ?? results.length;
+	const sections = [
+		`Crawl ${result.id}: ${joinParts(result.status, plural(pages, "page"), creditsLabel(result.credits))}`,
+	];
+	if (result.status === "pending" || result.status === "running") {
+		sections.push(
+			`The crawl is still ${result.status}. Check it with zipfai_get_crawl (crawl_id "${result.id}") or stop it with zipfai_cancel_crawl.`,
+		);
+	}
+	const summary = summaryText(result.summary);
+	if (summary) sections.push(`Summary:\n${summary}`);
+	if (results.length > 0) {
+		let cut = results.length > MAX_LIST_ITEMS;
+		sections.push(
+			results
+				.slice(0, MAX_LIST_ITEMS)
+				.flatMap((page) => {
+					const lines = [`- [${page.title?.trim() || page.url}](${page.url})`];
+					if (page.error) lines.push(`  error: ${truncate(page.error)}`);
+					if (!isEmpty(page.extracted_data)) {
+						lines.push(
+							...renderFields({ extracted_data: page.extracted_data }, "  "),
+						);
+					}
+					const content = (page.markdown || page.content)?.trim();
+					if (content) {
+						cut ||= content.length > MAX_PAGE_CHARS;
+						const shown =
+							content.length > MAX_PAGE_CHARS
+								? `${content.slice(0, MAX_PAGE_CHARS).trimEnd()}… (${content.length} chars)`
+								: content;
+						lines.push(...shown.split("\n").map((line) => line && `  ${line}`));
+					}
+					return lines;
+				})
+				.concat(moreItems(results.length))
+				.join("\n"),
+		);
+		if (cut) {
+			sections.push(
+				`Pages are cut short here. zipfai_get_crawl (crawl_id "${result.id}") returns them in full.`,
+			);
+		}
+	}
+	return sections.join("\n\n");
+}
+
+export function renderResearch(result: ResearchResponse): string {
+	const sections: string[] = [];
+	if (result.answer) sections.push(result.answer);
+	if (result.summary) sections.push(`Summary:\n${result.summary}`);
+	const sources = result.sources ?? [];
+	const lines = sources.map(
+		(source, index) =>
+			`[${index + 1}] ${source.title || source.url} - ${source.url}${source.crawled ? " (crawled)" : ""}`,
+	);
+	sections.push(
+		`Sources (${joinParts(`${sources.length} found`, creditsLabel(result.credits))}):\n${lines.join("\n")}`,
+	);
+	if (result.session_id) sections.push(`Session: ${result.session_id}`);
+	return sections.join("\n\n");
+}
+
+// =========================================================================
+// Workflow updates
+// =========================================================================
+
+// The briefing (briefing / compact formats), or the summary and a line per workflow, then
+// the assessment submission and quality loop
+export function renderWorkflowUpdates(
+	result: WorkflowUpdatesDigestResponse & {
+		assessment_submission?: unknown;
+		quality_loop?: unknown;
+	},
+): string {
+	const sections: string[] = [];
+	if (result.formatted_output) {
+		sections.push(result.formatted_output);
+	} else {
+		sections.push(result.summary);
+		const workflows = result.workflows
+			.slice(0, MAX_LIST_ITEMS)
+			.map((digest) => {
+				const signal = digest.signal_level
+					? ` [${digest.signal_level}, score ${digest.signal_score ?? "?"}]`
+					: "";
+				return `- ${digest.workflow_name} (${digest.workflow_id})${signal}: ${digest.error ?? digest.change_summary}`;
+			});
+		if (workflows.length > 0) {
+			sections.push(
+				[...workflows, ...moreItems(result.workflows.length)].join("\n"),
+			);
+		}
+	}
+	const { assessment_submission, quality_loop } = result;
+	const rest = renderFields({ assessment_submission, quality_loop }, "");
+	if (rest.length > 0) sections.push(rest.join("\n"));
+	return sections.join("\n\n");
+}
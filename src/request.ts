@@ -0,0 +1,345 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Custom error class for API errors
+export class ApiError extends Error {
+	constructor(
+		message: string,
+		public statusCode?: number,
+		public details?: string,
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+// =========================================================================
+// Pluggable HTTP client
+// =========================================================================
+
+// Anything that can send a request the way fetch does
+export type HttpClient = (url: string, init: RequestInit) => Promise<Response>;
+
+const defaultHttpClient: HttpClient = (url, init) => fetch(url, init);
+
+let httpClient: HttpClient = defaultHttpClient;
+
+// Replace the client used for every API call (pass undefined to restore fetch)
+export function setHttpClient(client: HttpClient | undefined): void {
+	httpClient = client ?? defaultHttpClient;
+}
+
+export function getHttpClient(): HttpClient {
+	return httpClient;
+}
+
+// =========================================================================
+// Response listeners
+// =========================================================================
+
+// A finished API call (after retries), successful or not
+export interface ResponseEvent {
+	method: string;
+	path: string;
+	status?: number; // Missing for network errors
+	attempts: number;
+	duration_ms: number;
+	body?: unknown; // Parsed response body on success
+	error?: string;
+}
+
+export type ResponseListener = (event: ResponseEvent) => void;
+
+const responseListeners = new Set<ResponseListener>();
+
+// Get notified about every API call; returns a function that removes the listener
+export function onResponse(listener: ResponseListener): () => void {
+	responseListeners.add(listener);
+	return () => {
+		responseListeners.delete(listener);
+	};
+}
+
+function emitResponse(event: ResponseEvent): void {
+	for (const listener of responseListeners) {
+		try {
+			listener(event);
+		} catch (error) {
+			// A broken listener must never fail the call
+			console.error("Response listener error:", error);
+		}
+	}
+}
+
+// =========================================================================
+// Retry policy
+// =========================================================================
+
+export interface RetryPolicy {
+	maxRetries: number; // Retries after the first attempt
+	initialDelay: number; // Backoff base in ms
+	maxDelay: number; // Cap for a single backoff in ms
+	budget: number; // Total ms a single call may spend waiting between attempts
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxRetries: 3,
+	initialDelay: 500,
+	maxDelay: 8000,
+	budget: 20000,
+};
+
+// Default timeout for a single API call, including retries (in ms)
+export const DEFAULT_FETCH_TIMEOUT = 30000; // 30 seconds
+
+// Timeout for calls that do their work synchronously (sync crawls, research, ask)
+export const LONG_FETCH_TIMEOUT = 300000; // 5 minutes
+
+export interface RequestOptions {
+	// Cancels the call (e.g. the MCP request's cancellation signal)
+	signal?: AbortSignal;
+	// Abort the call after this many ms (default: DEFAULT_FETCH_TIMEOUT)
+	timeoutMs?: number;
+	// Sent as Idempotency-Key; makes POST requests safe to retry
+	idempotencyKey?: string;
+	// Override the retry policy for this call, or disable retries with false
+	retry?: Partial<RetryPolicy> | false;
+}
+
+// One retried attempt, reported back to the tool that made the call
+export interface RetryAttempt {
+	method: string;
+	path: string;
+	attempt: number;
+	reason: string;
+	delay_ms: number;
+}
+
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// Retries made during the current tool call
+const retryLog = new AsyncLocalStorage<RetryAttempt[]>();
+
+// Run fn and collect every retry the API layer made while it ran
+export async function collectRetries<T>(
+	fn: () => Promise<T>,
+): Promise<{ result: T; retries: RetryAttempt[] }> {
+	const retries: RetryAttempt[] = [];
+	const result = await retryLog.run(retries, fn);
+	return { result, retries };
+}
+
+// Helper to wait, waking up early (and rejecting) if the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+// Helper to create an AbortSignal that fires on timeout or when the caller's signal aborts
+function createTimeoutSignal(
+	timeoutMs: number,
+	signal?: AbortSignal,
+): { signal: AbortSignal; timedOut: () => boolean; clear: () => void } {
+	const controller = new AbortController();
+	let timedOut = false;
+
+	const onAbort = () => controller.abort(signal?.reason);
+	const timer = setTimeout(() => {
+		timedOut = true;
+		controller.abort(new Error(`Request timed out after ${timeoutMs}ms`));
+	}, timeoutMs);
+
+	if (signal?.aborted) {
+		onAbort();
+	} else {
+		signal?.addEventListener("abort", onAbort, { once: true });
+	}
+
+	return {
+		signal: controller.signal,
+		timedOut: () => timedOut,
+		clear: () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		},
+	};
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+	const ceiling = Math.min(policy.maxDelay, policy.initialDelay * 2 ** attempt);
+	return Math.round(Math.random() * ceiling);
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds) && seconds >= 0) {
+		return seconds * 1000;
+	}
+
+	const date = Date.parse(value);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+// Helper to handle API responses with proper error checking
+async function handleResponse<T>(response: Response): Promise<T> {
+	if (!response.ok) {
+		let errorMessage = `API request failed with status ${response.status}`;
+		let details: string | undefined;
+
+		try {
+			const errorBody = await response.json();
+			if (errorBody.error) {
+				errorMessage = errorBody.error;
+			} else if (errorBody.message) {
+				errorMessage = errorBody.message;
+			}
+			details = JSON.stringify(errorBody);
+		} catch {
+			// Response wasn't JSON, use status text
+			errorMessage = `${response.status} ${response.statusText}`;
+		}
+
+		throw new ApiError(errorMessage, response.status, details);
+	}
+
+	return (await response.json()) as T;
+}
+
+// Send a request through the HTTP client, retrying transient failures (429/5xx, network errors).
+// Only idempotent methods, and POSTs carrying an idempotency key, are retried - except for a 429,
+// which the server rejects before doing any work.
+export async function request<T>(
+	url: string,
+	init: RequestInit & { method: string; headers: Record<string, string> },
+	options?: RequestOptions,
+): Promise<T> {
+	const method = init.method.toUpperCase();
+	const headers = options?.idempotencyKey
+		? { ...init.headers, "Idempotency-Key": options.idempotencyKey }
+		: init.headers;
+	const policy: RetryPolicy = {
+		...DEFAULT_RETRY_POLICY,
+		...(options?.retry || {}),
+	};
+	const safeToRepeat =
+		IDEMPOTENT_METHODS.has(method) ||
+		(method === "POST" && Boolean(options?.idempotencyKey));
+
+	const timeoutMs = options?.timeoutMs ?? DEFAULT_FETCH_TIMEOUT;
+	const timeout = createTimeoutSignal(timeoutMs, options?.signal);
+	const path = new URL(url).pathname;
+	const startTime = Date.now();
+	let attempts = 0;
+	let status: number | undefined;
+
+	// Cancelled or timed out - the same error whether it happens during a fetch or a backoff
+	const abortError = () =>
+		timeout.timedOut()
+			? new ApiError(`Request to ${path} timed out after ${timeoutMs}ms`, 408)
+			: timeout.signal.reason;
+
+	try {
+		let waited = 0;
+		for (let attempt = 0; ; attempt++) {
+			attempts = attempt + 1;
+			let response: Response | undefined;
+			let networkError: unknown;
+			try {
+				response = await httpClient(url, {
+					...init,
+					headers,
+					signal: timeout.signal,
+				});
+			} catch (error) {
+				networkError = error;
+			}
+			status = response?.status;
+
+			// Cancelled or timed out - never retried
+			if (timeout.signal.aborted) {
+				throw abortError();
+			}
+
+			const transient = response
+				? RETRYABLE_STATUS_CODES.has(response.status)
+				: true;
+			const retryAfter = parseRetryAfter(
+				response?.headers.get("retry-after") ?? null,
+			);
+			const delay = retryAfter ?? backoffDelay(attempt, policy);
+
+			const canRetry =
+				options?.retry !== false && (safeToRepeat || response?.status === 429);
+
+			if (
+				!canRetry ||
+				!transient ||
+				attempt >= policy.maxRetries ||
+				waited + delay > policy.budget
+			) {
+				if (!response) throw networkError;
+				const body = await handleResponse<T>(response);
+				emitResponse({
+					method,
+					path,
+					status,
+					attempts,
+					duration_ms: Date.now() - startTime,
+					body,
+				});
+				return body;
+			}
+
+			waited += delay;
+			retryLog.getStore()?.push({
+				method,
+				path,
+				attempt: attempt + 1,
+				reason: response
+					? `${response.status} ${response.statusText}`.trim()
+					: `network error: ${networkError instanceof Error ? networkError.message : String(networkError)}`,
+				delay_ms: delay,
+			});
+
+			// Release the connection before waiting
+			await response?.body?.cancel().catch(() => {});
+			await sleep(delay, timeout.signal).catch(() => {
+				throw abortError();
+			});
+		}
+	} catch (error) {
+		emitResponse({
+			method,
+			path,
+			status,
+			attempts,
+			duration_ms: Date.now() - startTime,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		throw error;
+	} finally {
+		timeout.clear();
+	}
+}
@@ -0,0 +1,209 @@
+import {
+	type McpServer,
+	ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	type ReadResourceResult,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+	getEntity,
+	getSessionTimeline,
+	getWorkflowDetails,
+	getWorkflowDiff,
+	listSessions,
+	listWorkflows,
+} from "./api.js";
+
+// MCP resources backed by the API, so clients can attach workflows, diffs, session timelines
+// and entities as context. Clients that subscribe get notifications/resources/updated when a
+// tool call through this server changes one (e.g. zipfai_execute_workflow).
+
+// Resources listed per template in resources/list
+const LIST_LIMIT = 50;
+
+// URIs each server's client has subscribed to
+const subscriptions = new WeakMap<McpServer, Set<string>>();
+
+export function workflowUri(workflowId: string): string {
+	return `zipfai://workflows/${encodeURIComponent(workflowId)}`;
+}
+
+export function workflowDiffUri(workflowId: string): string {
+	return `${workflowUri(workflowId)}/diff/latest`;
+}
+
+export function sessionTimelineUri(sessionId: string): string {
+	return `zipfai://sessions/${encodeURIComponent(sessionId)}/timeline`;
+}
+
+export function entityUri(schemaName: string, entityId: string): string {
+	return `zipfai://entities/${encodeURIComponent(schemaName)}/${encodeURIComponent(entityId)}`;
+}
+
+function jsonContents(uri: URL, value: unknown): ReadResourceResult {
+	return {
+		contents: [
+			{
+				uri: uri.href,
+				mimeType: "application/json",
+				text: JSON.stringify(value, null, 2),
+			},
+		],
+	};
+}
+
+// A single template variable, decoded
+function variable(value: string | string[]): string {
+	return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+// Tell the client about changed resources it subscribed to (a no-op for everything else)
+export async function notifyResourcesUpdated(
+	server: McpServer,
+	uris: string[],
+): Promise<void> {
+	const subscribed = subscriptions.get(server);
+	if (!subscribed || !server.isConnected()) return;
+
+	for (const uri of uris) {
+		if (!subscribed.has(uri)) continue;
+		try {
+			await server.server.sendResourceUpdated({ uri });
+		} catch (error) {
+			// A lost notification never fails the tool call that caused it
+			console.error("Failed to send resource update:", error);
+		}
+	}
+}
+
+export function registerResources(server: McpServer): void {
+	// =========================================================================
+	// Subscriptions
+	// =========================================================================
+	const subscribed = new Set<string>();
+	subscriptions.set(server, subscribed);
+
+	server.server.registerCapabilities({ resources: { subscribe: true } });
+	server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+		subscribed.add(request.params.uri);
+		return {};
+	});
+	server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+		subscribed.delete(request.params.uri);
+		return {};
+	});
+
+	// =========================================================================
+	// Workflows (more specific templates first: {id} would not match across "/")
+	// =========================================================================
+	server.registerResource(
+		"workflow_diff_latest",
+		new ResourceTemplate("zipfai://workflows/{id}/diff/latest", {
+			list: undefined,
+		}),
+		{
+			title: "Latest workflow diff",
+			description:
+				"What changed in the workflow's most recent execution compared to the one before",
+			mimeType: "application/json",
+		},
+		async (uri, { id }, extra) =>
+			jsonContents(
+				uri,
+				await getWorkflowDiff(
+					variable(id),
+					{ limit: 1 },
+					{ signal: extra.signal },
+				),
+			),
+	);
+
+	server.registerResource(
+		"workflow",
+		new ResourceTemplate("zipfai://workflows/{id}", {
+			list: async (extra) => {
+				const { workflows } = await listWorkflows(
+					{ limit: LIST_LIMIT },
+					{ signal: extra.signal },
+				);
+				return {
+					resources: workflows.map((workflow) => ({
+						uri: workflowUri(workflow.id),
+						name: workflow.name,
+						description: `${workflow.workflow_type ?? "workflow"} · ${workflow.status}`,
+						mimeType: "application/json",
+					})),
+				};
+			},
+		}),
+		{
+			title: "Workflow",
+			description:
+				"Workflow configuration, recent executions and stats (zipfai_get_workflow)",
+			mimeType: "application/json",
+		},
+		async (uri, { id }, extra) =>
+			jsonContents(
+				uri,
+				await getWorkflowDetails(variable(id), { signal: extra.signal }),
+			),
+	);
+
+	// =========================================================================
+	// Sessions
+	// =========================================================================
+	server.registerResource(
+		"session_timeline",
+		new ResourceTemplate("zipfai://sessions/{id}/timeline", {
+			list: async (extra) => {
+				const { sessions } = await listSessions(
+					{ limit: LIST_LIMIT },
+					{ signal: extra.signal },
+				);
+				return {
+					resources: sessions.map((session) => ({
+						uri: sessionTimelineUri(session.id),
+						name: `${session.name} timeline`,
+						description: `Session ${session.status}`,
+						mimeType: "application/json",
+					})),
+				};
+			},
+		}),
+		{
+			title: "Session timeline",
+			description:
+				"Operations run in a research session, with credits and aggregates",
+			mimeType: "application/json",
+		},
+		async (uri, { id }, extra) =>
+			jsonContents(
+				uri,
+				await getSessionTimeline(variable(id), { signal: extra.signal }),
+			),
+	);
+
+	// =========================================================================
+	// Entities
+	// =========================================================================
+	server.registerResource(
+		"entity",
+		new ResourceTemplate("zipfai://entities/{schema}/{id}", {
+			list: undefined,
+		}),
+		{
+			title: "Entity",
+			description: "An entity tracked under an entity schema",
+			mimeType: "application/json",
+		},
+		async (uri, { schema, id }, extra) =>
+			jsonContents(
+				uri,
+				await getEntity(variable(schema), variable(id), {
+					signal: extra.signal,
+				}),
+			),
+	);
+}
@@ -0,0 +1,1249 @@
+import { z } from "zod";
+import { DOSSIER_FORMATS } from "./dossier.js";
+import { TOOL_MODES } from "./toolsets.js";
+
+// Zod versions of the types.ts responses, used as each tool's outputSchema: tool results carry
+// them as structuredContent, which the MCP SDK validates before sending. Objects pass unknown
+// fields through, so API additions don't fail validation, and optional fields also accept null.
+
+function object<Shape extends z.ZodRawShape>(shape: Shape) {
+	return z.object(shape).passthrough();
+}
+
+const summaryField = z
+	.union([
+		z.string(),
+		object({ status: z.string(), content: z.string().nullish() }),
+	])
+	.nullish();
+
+// =========================================================================
+// Shared
+// =========================================================================
+
+const creditsInfoSchema = object({
+	consumed: z.number().nullish(),
+	reserved: z.number().nullish(),
+	balance_after: z.number().nullish(),
+	pricing_tier: z.enum(["basic", "advanced"]).nullish(),
+	advanced_features: z.array(z.string()).nullish(),
+	breakdown: z.record(z.unknown()).nullish(),
+});
+
+// Local response cache (cache.ts)
+const cacheInfoSchema = object({
+	status: z.enum(["hit", "miss", "refresh", "bypass"]),
+	cached_at: z.string().nullish(),
+	expires_at: z.string().nullish(),
+	credits_saved: z.number().nullish(),
+});
+
+const messageSchema = object({ message: z.string() });
+
+const paginationSchema = object({
+	total: z.number(),
+	limit: z.number(),
+	offset: z.number(),
+	hasMore: z.boolean().nullish(),
+});
+
+// =========================================================================
+// Status and usage
+// =========================================================================
+
+// zipfai_status's summary of StatusResponse
+const statusSummarySchema = object({
+	healthy: z.boolean(),
+	api_version: z.string(),
+	credits_balance: z.number(),
+	rate_limits: object({ per_hour: z.number(), per_day: z.number() }),
+	available_endpoints: z.array(z.string()),
+	credit_costs: z.record(z.unknown()),
+	mode: z.enum(TOOL_MODES),
+});
+
+const spendTotalsSchema = object({
+	calls: z.number(),
+	errors: z.number(),
+	credits: z.number(),
+});
+
+const usageReportSchema = object({
+	since: z.string(),
+	until: z.string(),
+	total: spendTotalsSchema,
+	by_tool: z.record(spendTotalsSchema),
+	by_day: z.record(spendTotalsSchema),
+	by_session: z.record(
+		spendTotalsSchema.extend({
+			api: object({
+				credits_in_range: z.number(),
+				total_credits: z.number().nullish(),
+				operation_count: z.number().nullish(),
+			}).nullish(),
+			error: z.string().nullish(),
+		}),
+	),
+	by_workflow: z.record(
+		spendTotalsSchema.extend({
+			api: object({
+				name: z.string(),
+				status: z.string(),
+				executions_in_range: z.number(),
+				credits_in_range: z.number(),
+				scheduled_credits_in_range: z.number(),
+				total_executions: z.number().nullish(),
+				total_credits_consumed: z.number().nullish(),
+			}).nullish(),
+			error: z.string().nullish(),
+		}),
+	),
+	balance: object({
+		credits: z.number(),
+		source: z.enum(["api", "audit_log"]),
+		as_of: z.string(),
+	}).nullish(),
+	burn_rate: object({
+		credits_per_day: z.number(),
+		credits_in_range: z.number(),
+		days: z.number(),
+	}),
+	projection: object({
+		days_remaining: z.number().nullish(),
+		runs_out_at: z.string().nullish(),
+		note: z.string(),
+	}),
+	lookups_skipped: object({
+		sessions: z.number(),
+		workflows: z.number(),
+	}).nullish(),
+});
+
+// =========================================================================
+// Search, ask and crawl
+// =========================================================================
+
+const quickSearchResponseSchema = object({
+	results: z.array(
+		object({
+			title: z.string().nullish(),
+			url: z.string(),
+			description: z.string().nullish(),
+			published_date: z.string().nullish(),
+		}),
+	),
+	cache: cacheInfoSchema.nullish(),
+});
+
+const classificationSchema = object({
+	type: z.string(),
+	confidence: z.number(),
+	reasoning: z.string().nullish(),
+});
+
+const queryInterpretationSchema = object({
+	original_query: z.string(),
+	rewritten_query: z.string().nullish(),
+	intent: z.string().nullish(),
+	confidence: z.number().nullish(),
+	metadata_status: z
+		.enum(["pending", "processing", "completed", "failed"])
+		.nullish(),
+	document_types: z.array(classificationSchema).nullish(),
+	content_types: z.array(classificationSchema).nullish(),
+	dewey_classifications: z
+		.array(
+			object({ code: z.string(), label: z.string(), confidence: z.number() }),
+		)
+		.nullish(),
+	search_parameters: object({
+		recency: z.string().nullish(),
+		authority: z.string().nullish(),
+		diversity: z.string().nullish(),
+	}).nullish(),
+	extracted_metadata: object({
+		entities: z.array(z.string()).nullish(),
+		keywords: z.array(z.string()).nullish(),
+		complexity: z.string().nullish(),
+	}).nullish(),
+});
+
+const searchJobResponseSchema = object({
+	search_job_id: z.string(),
+	status: z.enum(["pending", "running", "completed", "failed"]),
+	query: z.string(),
+	results: z
+		.array(
+			object({
+				title: z.string().nullish(),
+				url: z.string(),
+				description: z.string().nullish(),
+				published_date: z.string().nullish(),
+				relevance_score: z.number().nullish(),
+			}),
+		)
+		.nullish(),
+	query_interpretation: queryInterpretationSchema.nullish(),
+	suggested_queries: z
+		.array(
+			object({
+				query: z.string(),
+				type: z.string(),
+				reasoning: z.string().nullish(),
+				confidence: z.number(),
+			}),
+		)
+		.nullish(),
+	summary_requested: z.boolean().nullish(),
+	summary: summaryField,
+	metadata_status: z.string().nullish(),
+	decomposition: object({
+		enabled: z.boolean(),
+		sub_queries: z.array(z.string()).nullish(),
+		reasoning: z.string().nullish(),
+		strategy: z.string().nullish(),
+	}).nullish(),
+	aggregation: object({
+		total_before_dedup: z.number().nullish(),
+		unique_urls: z.number().nullish(),
+		deduplication_rate: z.string().nullish(),
+	}).nullish(),
+	execution: object({ credits_consumed: z.number() }).nullish(),
+	timing: object({
+		started_at: z.string().nullish(),
+		completed_at: z.string().nullish(),
+		duration_ms: z.number().nullish(),
+	}).nullish(),
+	credits: creditsInfoSchema.nullish(),
+	cache: cacheInfoSchema.nullish(),
+});
+
+const askResponseSchema = object({
+	answer: z.string(),
+	sources: z.array(
+		object({
+			url: z.string(),
+			title: z.string().nullish(),
+			snippet: z.string().nullish(),
+			relevance: z.number().nullish(),
+		}),
+	),
+	follow_up_questions: z.array(z.string()).nullish(),
+	search_queries_used: z.array(z.string()).nullish(),
+	depth: z.enum(["quick", "standard", "deep"]),
+	credits: creditsInfoSchema,
+	timing: object({
+		total_ms: z.number().nullish(),
+		search_ms: z.number().nullish(),
+		synthesis_ms: z.number().nullish(),
+	}).nullish(),
+	cache: cacheInfoSchema.nullish(),
+});
+
+const crawlResponseSchema = object({
+	id: z.string(),
+	status: z.enum(["pending", "running", "completed", "failed", "cancelled"]),
+	urls: z.array(z.string()),
+	pages_crawled: z.number().nullish(),
+	results: z
+		.array(
+			object({
+				url: z.string(),
+				title: z.string().nullish(),
+				content: z.string().nullish(),
+				markdown: z.string().nullish(),
+				extracted_data: z.record(z.unknown()).nullish(),
+				extraction_metadata: object({
+					fields_requested: z.number().nullish(),
+					fields_extracted: z.number().nullish(),
+					confidence_scores: z.record(z.number()).nullish(),
+					provenance: z.record(z.string()).nullish(),
+				}).nullish(),
+				classification: object({
+					document_type: z.string().nullish(),
+					content_type: z.string().nullish(),
+					confidence: z.number().nullish(),
+				}).nullish(),
+				error: z.string().nullish(),
+			}),
+		)
+		.nullish(),
+	summary_requested: z.boolean().nullish(),
+	summary: summaryField,
+	stats: object({
+		total_documents: z.number().nullish(),
+		processing_time_ms: z.number().nullish(),
+		pages_crawled: z.number().nullish(),
+		pages_failed: z.number().nullish(),
+	}).nullish(),
+	execution: object({
+		mode: z.string().nullish(),
+		duration_ms: z.number().nullish(),
+		success: z.boolean().nullish(),
+	}).nullish(),
+	credits: creditsInfoSchema.nullish(),
+});
+
+const suggestSchemaResponseSchema = object({
+	url: z.string(),
+	detected_page_type: z.string(),
+	page_type_confidence: z.number(),
+	suggested_schema: z.record(z.string()),
+	field_metadata: z
+		.record(
+			object({
+				confidence: z.number(),
+				example_value: z.string().nullish(),
+				data_type: z.string().nullish(),
+			}),
+		)
+		.nullish(),
+	schema_org_detected: z.boolean().nullish(),
+	schema_org_type: z.string().nullish(),
+	reasoning: z.string().nullish(),
+	credits: creditsInfoSchema.nullish(),
+	cache: cacheInfoSchema.nullish(),
+});
+
+const researchResponseSchema = object({
+	session_id: z.string().nullish(),
+	search_job_id: z.string().nullish(),
+	crawl_ids: z.array(z.string()).nullish(),
+	answer: z.string().nullish(),
+	sources: z
+		.array(
+			object({
+				url: z.string(),
+				title: z.string().nullish(),
+				content_preview: z.string().nullish(),
+				crawled: z.boolean().nullish(),
+			}),
+		)
+		.nullish(),
+	summary: z.string().nullish(),
+	credits: creditsInfoSchema.nullish(),
+	timing: object({
+		total_ms: z.number().nullish(),
+		search_ms: z.number().nullish(),
+		crawl_ms: z.number().nullish(),
+		synthesis_ms: z.number().nullish(),
+	}).nullish(),
+});
+
+// =========================================================================
+// Sessions
+// =========================================================================
+
+const sessionAggregatesSchema = object({
+	unique_urls: z.number().nullish(),
+	total_credits: z.number().nullish(),
+	operation_count: z.number().nullish(),
+	operations_by_type: z.record(z.number()).nullish(),
+});
+
+const sessionSchema = object({
+	id: z.string(),
+	customer_id: z.string().nullish(),
+	name: z.string(),
+	description: z.string().nullish(),
+	status: z.enum(["active", "completed", "archived"]),
+	intent_context: z.string().nullish(),
+	session_config: object({
+		auto_deduplicate: z.boolean().nullish(),
+		accumulate_context: z.boolean().nullish(),
+		use_session_context: z.boolean().nullish(),
+		max_operations: z.number().nullish(),
+	}).nullish(),
+	aggregates: sessionAggregatesSchema.nullish(),
+	created_at: z.string().nullish(),
+	updated_at: z.string().nullish(),
+	completed_at: z.string().nullish(),
+});
+
+const sessionResponseSchema = object({ session: sessionSchema });
+
+const listSessionsResponseSchema = object({
+	sessions: z.array(sessionSchema),
+	pagination: paginationSchema.nullish(),
+	// This project's current session (session-store.ts)
+	current_session_id: z.string().nullish(),
+});
+
+// zipfai_use_session: the locally remembered sessions
+const useSessionSchema = object({
+	project: z.string(),
+	current_session_id: z.string().nullable(),
+	remembered_sessions: z.array(
+		object({
+			id: z.string(),
+			name: z.string(),
+			profile: z.string(),
+			project: z.string(),
+			created_at: z.string(),
+		}),
+	),
+});
+
+const sessionTimelineResponseSchema = object({
+	session_id: z.string(),
+	operations: z.array(
+		object({
+			id: z.string(),
+			type: z.enum(["search", "crawl"]),
+			status: z.string(),
+			created_at: z.string(),
+			completed_at: z.string().nullish(),
+			credits_consumed: z.number().nullish(),
+			summary: z.string().nullish(),
+			search_job_id: z.string().nullish(),
+			crawl_id: z.string().nullish(),
+			query: z.string().nullish(),
+			urls: z.array(z.string()).nullish(),
+		}),
+	),
+	aggregates: sessionAggregatesSchema.nullish(),
+});
+
+// zipfai_export_session: the dossier (dossier.ts), or just its stats and file when saved
+const sessionExportSchema = object({
+	format: z.enum(DOSSIER_FORMATS),
+	file: z.string().nullish(),
+	session: sessionSchema
+		.pick({
+			id: true,
+			name: true,
+			description: true,
+			intent_context: true,
+			status: true,
+			created_at: true,
+			completed_at: true,
+		})
+		.nullish(),
+	generated_at: z.string().nullish(),
+	operations: z
+		.array(
+			object({
+				id: z.string(),
+				type: z.enum(["search", "crawl"]),
+				status: z.string(),
+				created_at: z.string(),
+				credits_consumed: z.number().nullish(),
+				summary: z.string().nullish(),
+				query: z.string().nullish(),
+				urls: z.array(z.string()).nullish(),
+				ai_summary: z.string().nullish(),
+				source_ids: z.array(z.number()),
+				error: z.string().nullish(),
+			}),
+		)
+		.nullish(),
+	sources: z
+		.array(
+			object({
+				id: z.number(),
+				citation_key: z.string(),
+				url: z.string(),
+				title: z.string(),
+				domain: z.string(),
+				description: z.string().nullish(),
+				published_date: z.string().nullish(),
+				content: z.string().nullish(),
+				found_by: z.array(z.string()),
+			}),
+		)
+		.nullish(),
+	stats: object({
+		operations: z.number(),
+		unique_sources: z.number(),
+		duplicate_results: z.number(),
+		crawled_pages: z.number(),
+		total_credits: z.number(),
+	}),
+});
+
+// =========================================================================
+// Workflows
+// =========================================================================
+
+const workflowStepSchema = object({
+	step_id: z.string(),
+	step_name: z.string(),
+	step_type: z.enum(["search", "crawl", "aggregate"]),
+	config: z.record(z.unknown()),
+	depends_on: z.array(z.string()).nullish(),
+	output_key: z.string().nullish(),
+	cascade_condition: object({
+		type: z.string(),
+		from_step: z.string().nullish(),
+		operator: z.string().nullish(),
+		value: z.unknown(),
+	}).nullish(),
+});
+
+const workflowStatusSchema = z.enum([
+	"active",
+	"paused",
+	"completed",
+	"failed",
+]);
+
+const workflowModeSchema = z.enum(["simple", "multi_step", "ai_planned"]);
+
+const workflowSchema = object({
+	id: z.string(),
+	customer_id: z.string().nullish(),
+	name: z.string(),
+	mode: workflowModeSchema.nullish(),
+	workflow_type: z.enum(["search", "crawl"]).nullish(),
+	operation_config: z.record(z.unknown()).nullish(),
+	steps: z.array(workflowStepSchema).nullish(),
+	intent: z.string().nullish(),
+	stop_condition: object({
+		type: z.enum([
+			"result_count",
+			"contains_url",
+			"field_value",
+			"extracted_field",
+			"natural_language",
+			"always",
+		]),
+		operator: z.string().nullish(),
+		value: z.union([z.string(), z.number()]).nullish(),
+		url: z.string().nullish(),
+		field: z.string().nullish(),
+		description: z.string().nullish(),
+		confidence_threshold: z.number().nullish(),
+	}),
+	interval_minutes: z.number(),
+	max_executions: z.number().nullish(),
+	execution_count: z.number().nullish(),
+	status: workflowStatusSchema,
+	next_execution_at: z.string().nullish(),
+	last_execution_at: z.string().nullish(),
+	session_id: z.string().nullish(),
+	email_config: object({
+		enabled: z.boolean(),
+		per_execution: z.boolean().nullish(),
+		digest: z.enum(["none", "daily", "weekly"]).nullish(),
+		recipients: z.array(z.string()).nullish(),
+	}).nullish(),
+	slack_config: object({
+		enabled: z.boolean(),
+		webhook_url: z.string().nullish(),
+		per_execution: z.boolean().nullish(),
+		include_diff: z.boolean().nullish(),
+		include_summary: z.boolean().nullish(),
+	}).nullish(),
+	created_at: z.string().nullish(),
+	updated_at: z.string().nullish(),
+});
+
+const workflowResponseSchema = object({ workflow: workflowSchema });
+
+const workflowExecutionSchema = object({
+	id: z.string(),
+	// Left out of the executions listed under their workflow
+	workflow_id: z.string().nullish(),
+	status: z.enum(["pending", "running", "completed", "failed"]),
+	trigger_type: z.enum(["scheduled", "manual"]).nullish(),
+	result_summary: z.record(z.unknown()).nullish(),
+	credits_consumed: z.number().nullish(),
+	error: z.string().nullish(),
+	started_at: z.string().nullish(),
+	completed_at: z.string().nullish(),
+});
+
+// Added by the tools that take quality_questions assessments
+const qualityLoopShape = {
+	assessment_submission: z.unknown(),
+	quality_loop: z.record(z.unknown()).nullish(),
+};
+
+const assessIntentResponseSchema = object({
+	intent: z.string(),
+	assessment: z.enum(["specific", "vague"]),
+	specificity_score: z.number(),
+	is_actionable: z.boolean(),
+	recommendation: z.string(),
+	vague_aspects: z.array(z.string()).nullish(),
+	proposed_intent: z.string().nullish(),
+	what_we_clarified: z.array(z.string()).nullish(),
+	inferred: object({
+		trigger_conditions: z.array(z.string()),
+		exclusions: z.array(z.string()),
+		entities: z.array(z.string()),
+		source_types: z.array(z.string()),
+		suggested_cadence: z.string(),
+		monitoring_type: z.array(z.string()),
+		extraction_fields: z.array(z.string()).nullish(),
+	}),
+	reasoning: z.string(),
+});
+
+const planWorkflowResponseSchema = object({
+	name: z.string(),
+	intent: z.string(),
+	steps: z.array(workflowStepSchema),
+	estimated_credits_per_execution: z.number(),
+	reasoning: z.string(),
+});
+
+const createWorkflowResponseSchema = workflowResponseSchema.extend({
+	// Set for dry runs
+	dry_run: z.boolean().nullish(),
+	cost_estimate: z.unknown(),
+});
+
+const listWorkflowsResponseSchema = object({
+	workflows: z.array(workflowSchema),
+	pagination: paginationSchema.nullish(),
+});
+
+const workflowDetailsResponseSchema = object({
+	workflow: workflowSchema,
+	executions: z.array(workflowExecutionSchema).nullish(),
+	stats: object({
+		total_executions: z.number(),
+		successful_executions: z.number(),
+		failed_executions: z.number(),
+		total_credits_consumed: z.number(),
+	}).nullish(),
+});
+
+const executeWorkflowResponseSchema = object({
+	message: z.string(),
+	execution_id: z.string().nullish(),
+	dry_run: z.boolean().nullish(),
+	cost_estimate: z.unknown(),
+});
+
+const workflowTimelineResponseSchema = object({
+	workflow_id: z.string(),
+	executions: z.array(workflowExecutionSchema),
+});
+
+const fieldChangeSchema = object({
+	field: z.string(),
+	from: z.unknown(),
+	to: z.unknown(),
+	change_type: z.enum([
+		"increase",
+		"decrease",
+		"added",
+		"removed",
+		"status_change",
+		"text_change",
+	]),
+	change_percent: z.number().nullish(),
+});
+
+const executionDiffSchema = object({
+	execution_id: z.string(),
+	previous_execution_id: z.string().nullable(),
+	executed_at: z.string(),
+	has_changes: z.boolean(),
+	changes: z.array(fieldChangeSchema),
+	no_change: z.array(z.string()),
+	summary: z.string().nullish(),
+	extracted_state: z.record(z.unknown()).nullish(),
+	previous_state: z.record(z.unknown()).nullish(),
+});
+
+const workflowDiffResponseSchema = object({
+	workflow_id: z.string(),
+	workflow_name: z.string(),
+	workflow_type: z.string().nullable(),
+	workflow_mode: workflowModeSchema,
+	is_multi_step: z.boolean(),
+	total_executions: z.number(),
+	stats: object({
+		executions_with_changes: z.number(),
+		executions_without_changes: z.number(),
+		change_rate: z.number(),
+		most_volatile_fields: z.array(
+			object({ field: z.string(), change_count: z.number() }),
+		),
+	}),
+	analytics: object({
+		field_trends: z
+			.array(
+				object({
+					field: z.string(),
+					trend: z.enum(["increasing", "decreasing", "stable", "volatile"]),
+					direction_consistency: z.number(),
+					total_changes: z.number(),
+					increases: z.number(),
+					decreases: z.number(),
+				}),
+			)
+			.nullish(),
+		numeric_fields: z
+			.array(
+				object({
+					field: z.string(),
+					min: z.number(),
+					max: z.number(),
+					avg: z.number(),
+					latest: z.number(),
+					range: z.number(),
+					data_points: z.number(),
+				}),
+			)
+			.nullish(),
+		extraction_stats: object({
+			total_pages_crawled: z.number(),
+			pages_with_extraction: z.number(),
+			fields_success_rate: z.record(z.number()),
+			avg_fields_extracted: z.number(),
+			most_reliable_fields: z.array(z.string()),
+			least_reliable_fields: z.array(z.string()),
+		}).nullish(),
+	}).nullish(),
+	diffs: z.array(executionDiffSchema),
+	latest: object({
+		execution_id: z.string(),
+		executed_at: z.string(),
+		state: z.record(z.unknown()),
+		changes_from_previous: z.array(fieldChangeSchema),
+		summary: z.string().nullish(),
+	}).nullish(),
+});
+
+const workflowUpdatesDigestResponseSchema = object({
+	summary: z.string(),
+	since: z.string(),
+	checked_at: z.string(),
+	total_workflows: z.number(),
+	total_workflows_scanned: z.number().nullish(),
+	workflows_truncated: z.boolean().nullish(),
+	max_workflows_applied: z.number().nullish(),
+	workflows_with_changes: z.number(),
+	triggered_workflows: z.number(),
+	total_executions_since: z.number(),
+	workflows: z.array(
+		object({
+			workflow_id: z.string(),
+			workflow_name: z.string(),
+			workflow_type: z.enum(["search", "crawl"]).nullish(),
+			workflow_mode: workflowModeSchema.nullish(),
+			status: workflowStatusSchema,
+			has_changes: z.boolean(),
+			triggered_condition: z.boolean(),
+			// Left out in compact format, like the fields below
+			executions_since: z.number().nullish(),
+			last_execution_at: z.string().nullish(),
+			next_execution_at: z.string().nullish(),
+			change_summary: z.string(),
+			change_rate: z.number().nullish(),
+			signal_score: z.number().nullish(),
+			signal_level: z.enum(["urgent", "notable", "routine", "noise"]).nullish(),
+			signal_reasoning: z.string().nullish(),
+			new_urls: z
+				.array(
+					object({
+						url: z.string(),
+						title: z.string().nullish(),
+						snippet: z.string().nullish(),
+						published_date: z.string().nullish(),
+						document_type: z.string().nullish(),
+					}),
+				)
+				.nullish(),
+			recent_diffs: z.array(executionDiffSchema).nullish(),
+			recent_executions: z.array(workflowExecutionSchema).nullish(),
+			latest_state: z.record(z.unknown()).nullish(),
+			error: z.string().nullish(),
+		}),
+	),
+	formatted_output: z.string().nullish(),
+	correlations: z
+		.array(
+			object({
+				type: z.enum(["shared_url", "shared_topic", "shared_entity"]),
+				value: z.string(),
+				workflows: z.array(
+					object({
+						workflow_id: z.string(),
+						workflow_name: z.string(),
+						context: z.string(),
+					}),
+				),
+				insight: z.string(),
+			}),
+		)
+		.nullish(),
+	correlation_metadata: object({
+		workflows_analyzed: z.number(),
+		workflows_skipped: z.number(),
+		total_urls_compared: z.number(),
+	}).nullish(),
+});
+
+const slackStatusSchema = object({
+	endpoint: z.string(),
+	method: z.string(),
+	description: z.string(),
+	credits_cost: z.number(),
+	workflow_id: z.string(),
+	workflow_name: z.string(),
+	slack_status: object({
+		configured: z.boolean(),
+		enabled: z.boolean(),
+		webhook_configured: z.boolean(),
+		per_execution: z.boolean(),
+		digest: z.string(),
+		event_types: z.array(z.string()),
+	}),
+	validation_error: z.string().nullable(),
+	ready_to_test: z.boolean(),
+});
+
+const slackTestSchema = object({
+	success: z.boolean(),
+	message: z.string(),
+	workflow_id: z.string(),
+	workflow_name: z.string(),
+	channel: z.string(),
+	timestamp: z.string(),
+});
+
+// =========================================================================
+// Quality: ratings, validation and recovery
+// =========================================================================
+
+const feedbackRecordSchema = object({
+	id: z.string(),
+	execution_id: z.string(),
+	execution_kind: z.enum([
+		"workflow_execution",
+		"search_job",
+		"crawl_job",
+		"workflow_step",
+		"ask_job",
+	]),
+	workflow_step_id: z.string().nullable(),
+	signal_type: z.enum(["result_thumbs_up", "result_thumbs_down"]),
+	reason_category: z.string().nullable(),
+	comment: z.string().nullable(),
+	result_url: z.string().nullable(),
+	actor: object({
+		type: z.enum(["human", "api", "mcp"]),
+		id_hash: z.string(),
+		model: z.string().nullable(),
+	}),
+	signal_source: z.enum(["ui", "api", "mcp"]),
+	immediate_reward: z.number(),
+	reward_version: z.number(),
+	created_at: z.string(),
+});
+
+const executionFeedbackListResponseSchema = object({
+	schema_version: z.literal("execution_feedback_v1"),
+	workflow_id: z.string(),
+	feedback: z.array(feedbackRecordSchema),
+	pagination: object({
+		limit: z.number(),
+		next_cursor: z.string().nullable(),
+	}),
+});
+
+const executionFeedbackResponseSchema = object({
+	schema_version: z.literal("execution_feedback_v1"),
+	workflow_id: z.string().nullish(),
+	execution_id: z.string(),
+	status: z.enum(["created", "updated", "idempotent_replay"]),
+	feedback: feedbackRecordSchema,
+});
+
+const executionFeedbackBatchResponseSchema = object({
+	schema_version: z.literal("execution_feedback_v1"),
+	workflow_id: z.string().nullish(),
+	submitted: z.number(),
+	succeeded: z.number(),
+	failed: z.number(),
+	results: z.array(
+		object({
+			execution_id: z.string(),
+			status: z.enum(["created", "updated", "failed"]),
+			signal_id: z.string().nullish(),
+			error: z.string().nullish(),
+		}),
+	),
+});
+
+const feedbackQueueResponseSchema = object({
+	items: z.array(
+		object({
+			execution_id: z.string(),
+			execution_kind: z.string(),
+			workflow_id: z.string().nullable(),
+			workflow_name: z.string().nullable(),
+			created_at: z.string(),
+			score: z.number(),
+			score_reasons: z.array(z.string()),
+			feedback_hint: object({
+				suggested: z.boolean(),
+				action: object({
+					tool: z.string(),
+					args: object({
+						workflow_id: z.string().nullish(),
+						execution_id: z.string(),
+						rating: z.enum(["positive", "negative"]).nullish(),
+					}),
+				}),
+				note: z.string(),
+			}),
+		}),
+	),
+	total_unrated: z.number(),
+});
+
+const ratingTrendSchema = object({
+	positive: z.number(),
+	negative: z.number(),
+});
+
+const executionFeedbackStatsResponseSchema = object({
+	schema_version: z.literal("execution_feedback_v1"),
+	workflow_id: z.string(),
+	total_feedback: z.number(),
+	thumbs_up_count: z.number(),
+	thumbs_down_count: z.number(),
+	positive_rate: z.number(),
+	executions_with_feedback: z.number(),
+	feedback_coverage_rate: z.number(),
+	reason_completion_rate: z.number(),
+	by_reason: z.record(z.number()),
+	by_actor_type: z.record(z.number()),
+	trends: object({ last_7d: ratingTrendSchema, last_30d: ratingTrendSchema }),
+	total_immediate_reward: z.number(),
+});
+
+const feedbackImpactResponseSchema = object({
+	workflow_id: z.string(),
+	your_ratings: object({
+		total: z.number(),
+		positive: z.number(),
+		negative: z.number(),
+		coverage_rate: z.number(),
+	}),
+	calibration_impact: object({
+		nl_condition_adjustments: z.number(),
+		false_positive_reports: z.number(),
+		current_confidence_threshold: z.number(),
+		original_confidence_threshold: z.number(),
+	}).nullable(),
+	negative_patterns: object({
+		top_reasons: z.array(object({ reason: z.string(), count: z.number() })),
+		recommended_edits: z.array(z.string()),
+	}),
+	community: object({
+		total_ratings: z.number(),
+		positive_rate: z.number(),
+		actors: z.number(),
+	}),
+});
+
+const validationStatusSchema = object({
+	endpoint: z.string(),
+	method: z.string(),
+	description: z.string(),
+	workflow_id: z.string(),
+	validation_status: object({
+		last_validated_at: z.string().nullish(),
+		validation_available: z.boolean(),
+		issues_found: z.number().nullish(),
+	}).nullish(),
+});
+
+const validationIssueSchema = object({
+	type: z.string(),
+	message: z.string(),
+	step_id: z.string().nullish(),
+});
+
+const validationResultSchema = object({
+	workflow_id: z.string(),
+	validation_results: object({
+		valid: z.boolean(),
+		errors: z.array(validationIssueSchema).nullish(),
+		warnings: z.array(validationIssueSchema).nullish(),
+		url_health: z
+			.array(
+				object({
+					url: z.string(),
+					status: z.enum(["ok", "failed", "redirect"]),
+					status_code: z.number().nullish(),
+					redirect_url: z.string().nullish(),
+					correction_suggestion: z.string().nullish(),
+				}),
+			)
+			.nullish(),
+	}),
+	validated_at: z.string(),
+});
+
+const recoverySuggestionsSchema = object({
+	workflow_id: z.string(),
+	suggestions: z.array(
+		object({
+			id: z.string(),
+			type: z.enum(["url_correction", "url_replacement"]),
+			original_url: z.string(),
+			suggested_url: z.string(),
+			reason: z.string(),
+			confidence: z.number(),
+			step_id: z.string().nullish(),
+			status: z.enum(["pending", "applied", "rejected"]),
+		}),
+	),
+	total_pending: z.number(),
+});
+
+const recoveryResultSchema = object({
+	workflow_id: z.string(),
+	applied: z.number(),
+	rejected: z.number(),
+	steps_marked_for_retry: z.array(z.string()).nullish(),
+	message: z.string(),
+});
+
+// =========================================================================
+// Entities
+// =========================================================================
+
+const entitySchemaSchema = object({
+	id: z.string(),
+	customer_id: z.string(),
+	name: z.string(),
+	display_name: z.string().nullish(),
+	description: z.string().nullish(),
+	dedup_key: z.array(z.string()),
+	fields: z.record(
+		object({
+			name: z.string(),
+			type: z.enum([
+				"string",
+				"number",
+				"boolean",
+				"date",
+				"array",
+				"object",
+				"url",
+				"email",
+			]),
+			description: z.string().nullish(),
+			required: z.boolean().nullish(),
+			default_value: z.unknown(),
+			validation: object({
+				pattern: z.string().nullish(),
+				min: z.number().nullish(),
+				max: z.number().nullish(),
+				enum: z.array(z.string()).nullish(),
+			}).nullish(),
+		}),
+	),
+	lifecycle_config: object({
+		track_first_seen: z.boolean().nullish(),
+		track_last_seen: z.boolean().nullish(),
+		stale_after_days: z.number().nullish(),
+		auto_close_after_days: z.number().nullish(),
+	}).nullish(),
+	created_at: z.string(),
+	updated_at: z.string(),
+});
+
+const entitySchemaResponseSchema = object({ schema: entitySchemaSchema });
+
+const entityRecordSchema = object({
+	id: z.string(),
+	customer_id: z.string(),
+	schema_id: z.string(),
+	dedup_hash: z.string(),
+	data: z.record(z.unknown()),
+	classifications: z.record(z.union([z.string(), z.array(z.string())])),
+	status: z.enum(["active", "stale", "closed"]),
+	first_seen_at: z.string(),
+	last_seen_at: z.string(),
+	closed_at: z.string().nullish(),
+	times_seen: z.number(),
+	source_workflow_id: z.string().nullish(),
+	source_url: z.string().nullish(),
+	source_execution_id: z.string().nullish(),
+	created_at: z.string(),
+	updated_at: z.string(),
+});
+
+const entityResponseSchema = object({ entity: entityRecordSchema });
+
+const listEntitiesResponseSchema = object({
+	schema_name: z.string(),
+	entities: z.array(entityRecordSchema),
+	total: z.number(),
+	limit: z.number(),
+	offset: z.number(),
+	has_more: z.boolean(),
+});
+
+const queryEntitiesResponseSchema = object({
+	schema_name: z.string(),
+	entities: z.array(entityRecordSchema),
+	total: z.number(),
+	aggregations: z
+		.array(
+			object({
+				type: z.string(),
+				results: z.union([
+					z.record(z.number()),
+					z.array(object({ date: z.string(), count: z.number() })),
+				]),
+			}),
+		)
+		.nullish(),
+	credits: creditsInfoSchema,
+});
+
+const exportEntitiesResponseSchema = object({
+	data: z.union([z.array(entityRecordSchema), z.string()]),
+	format: z.enum(["json", "csv"]),
+	count: z.number(),
+	credits: creditsInfoSchema,
+});
+
+const entitySignalSchema = object({
+	id: z.string(),
+	customer_id: z.string(),
+	schema_id: z.string(),
+	name: z.string(),
+	description: z.string().nullish(),
+	condition_config: object({
+		type: z.enum([
+			"new_entity",
+			"entity_closed",
+			"entity_updated",
+			"field_value",
+			"population_change",
+			"threshold",
+			"custom",
+		]),
+		field: z.string().nullish(),
+		operator: z
+			.enum(["=", "!=", ">", "<", ">=", "<=", "contains", "matches"])
+			.nullish(),
+		value: z.unknown(),
+		threshold: z.number().nullish(),
+		natural_language: z.string().nullish(),
+	}),
+	actions_config: z.array(
+		object({
+			type: z.enum(["email", "webhook", "slack", "log"]),
+			config: z.record(z.unknown()),
+		}),
+	),
+	is_active: z.boolean(),
+	last_evaluated_at: z.string().nullish(),
+	last_triggered_at: z.string().nullish(),
+	trigger_count: z.number(),
+	created_at: z.string(),
+	updated_at: z.string(),
+});
+
+const entitySignalResponseSchema = object({ signal: entitySignalSchema });
+
+// =========================================================================
+// Output schema per tool
+// =========================================================================
+
+const TOOL_OUTPUT_SCHEMAS: Record<string, z.AnyZodObject> = {
+	// Status
+	zipfai_status: statusSummarySchema,
+	zipfai_usage_report: usageReportSchema,
+
+	// Search and crawl
+	zipfai_quick_search: quickSearchResponseSchema,
+	zipfai_search: searchJobResponseSchema,
+	zipfai_ask: askResponseSchema,
+	zipfai_crawl: crawlResponseSchema,
+	zipfai_get_crawl: crawlResponseSchema,
+	zipfai_cancel_crawl: crawlResponseSchema,
+	zipfai_suggest_schema: suggestSchemaResponseSchema,
+	zipfai_research: researchResponseSchema,
+
+	// Sessions
+	zipfai_create_session: sessionResponseSchema,
+	zipfai_session_search: searchJobResponseSchema,
+	zipfai_session_crawl: crawlResponseSchema,
+	zipfai_list_sessions: listSessionsResponseSchema,
+	zipfai_use_session: useSessionSchema,
+	zipfai_get_session: sessionResponseSchema,
+	zipfai_session_timeline: sessionTimelineResponseSchema,
+	zipfai_export_session: sessionExportSchema,
+	zipfai_complete_session: sessionResponseSchema,
+	zipfai_archive_session: sessionResponseSchema,
+	zipfai_resume_session: sessionResponseSchema,
+
+	// Workflows (zipfai_assess_intent leaves out the echoed intent and the reasoning)
+	zipfai_assess_intent: assessIntentResponseSchema.omit({
+		intent: true,
+		reasoning: true,
+	}),
+	zipfai_plan_workflow: planWorkflowResponseSchema,
+	zipfai_create_workflow: createWorkflowResponseSchema,
+	zipfai_list_workflows: listWorkflowsResponseSchema,
+	zipfai_get_workflow: workflowDetailsResponseSchema.extend(qualityLoopShape),
+	zipfai_update_workflow: workflowResponseSchema,
+	zipfai_execute_workflow: executeWorkflowResponseSchema,
+	zipfai_workflow_timeline:
+		workflowTimelineResponseSchema.extend(qualityLoopShape),
+	zipfai_workflow_diff: workflowDiffResponseSchema.extend(qualityLoopShape),
+	zipfai_workflow_updates:
+		workflowUpdatesDigestResponseSchema.extend(qualityLoopShape),
+	zipfai_delete_workflow: messageSchema,
+	zipfai_get_workflow_slack_status: slackStatusSchema,
+	zipfai_test_workflow_slack: slackTestSchema,
+
+	// Quality
+	zipfai_execution_ratings: executionFeedbackListResponseSchema,
+	zipfai_rate_execution: executionFeedbackResponseSchema,
+	zipfai_batch_rate_executions: executionFeedbackBatchResponseSchema,
+	zipfai_feedback_queue: feedbackQueueResponseSchema,
+	zipfai_execution_rating_stats: executionFeedbackStatsResponseSchema,
+	zipfai_feedback_impact: feedbackImpactResponseSchema,
+	zipfai_get_workflow_validation_status: validationStatusSchema,
+	zipfai_validate_workflow: validationResultSchema,
+	zipfai_get_workflow_recovery_suggestions: recoverySuggestionsSchema,
+	zipfai_apply_workflow_recovery: recoveryResultSchema,
+
+	// Entities
+	zipfai_list_entity_schemas: object({
+		schemas: z.array(entitySchemaSchema),
+		total: z.number(),
+	}),
+	zipfai_create_entity_schema: entitySchemaResponseSchema,
+	zipfai_get_entity_schema: entitySchemaResponseSchema,
+	zipfai_delete_entity_schema: messageSchema,
+	zipfai_list_entities: listEntitiesResponseSchema,
+	zipfai_query_entities: queryEntitiesResponseSchema,
+	zipfai_get_entity: entityResponseSchema,
+	zipfai_update_entity: entityResponseSchema,
+	zipfai_export_entities: exportEntitiesResponseSchema,
+	zipfai_list_entity_signals: object({
+		signals: z.array(entitySignalSchema),
+		total: z.number(),
+	}),
+	zipfai_create_entity_signal: entitySignalResponseSchema,
+	zipfai_get_entity_signal: entitySignalResponseSchema,
+	zipfai_update_entity_signal: entitySignalResponseSchema,
+	zipfai_delete_entity_signal: messageSchema,
+};
+
+// Output schema to register a tool with
+export function getOutputSchema(name: string): z.AnyZodObject {
+	const schema = TOOL_OUTPUT_SCHEMAS[name];
+	if (!schema) {
+		throw new Error(
+			`No output schema for tool ${name} (add it to TOOL_OUTPUT_SCHEMAS)`,
+		);
+	}
+	return schema;
+}
@@ -0,0 +1,19 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import { registerTools } from "./tools.js";
+
+// Create a fully configured MCP server instance.
+// The HTTP transport creates one per client session, stdio creates exactly one.
+export function createServer(): McpServer {
+	const server = new McpServer({
+		name: "zipfai-web-search",
+		version: "0.1.0",
+	});
+
+	registerTools(server);
+	registerResources(server);
+	registerPrompts(server);
+
+	return server;
+}
@@ -0,0 +1,196 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { getApiKeyFingerprint } from "./api.js";
+import { getProfileName, getZipfDir } from "./config.js";
+
+// Local registry of ZipfAI sessions (~/.zipfai/sessions.json), so agents can find sessions
+// again after the server restarts: friendly names map to session ids, and each project
+// directory has a "current session" that session tools fall back to. Over HTTP, where
+// clients share the server, each connection and API key gets its own current session.
+
+export interface StoredSession {
+	id: string;
+	name: string;
+	// Profile (account) the session was created with
+	profile: string;
+	// Fingerprint of the API key it was created with (fingerprintApiKey)
+	account?: string;
+	// Project directory it was created from
+	project: string;
+	created_at: string;
+}
+
+// Contents of ~/.zipfai/sessions.json
+export interface SessionStore {
+	sessions: StoredSession[];
+	// Current session id per profile, then per project directory
+	current: Record<string, Record<string, string>>;
+}
+
+// Oldest entries are dropped beyond this many sessions
+const MAX_STORED_SESSIONS = 500;
+
+// MCP session id of the HTTP connection a tool call came in on (unset over stdio)
+const currentConnection = new AsyncLocalStorage<string>();
+
+// Current session per HTTP connection, then per API key fingerprint. Connections don't
+// outlive the server, so these are kept in memory rather than in sessions.json.
+const connectionSessions = new Map<string, Map<string, string>>();
+
+// Run fn on behalf of an HTTP connection, so it reads and sets that connection's current session
+export function runInConnection<T>(
+	connectionId: string | undefined,
+	fn: () => T,
+): T {
+	return connectionId ? currentConnection.run(connectionId, fn) : fn();
+}
+
+// Drop a closed connection's current sessions
+export function forgetConnection(connectionId: string): void {
+	connectionSessions.delete(connectionId);
+}
+
+export function getSessionStoreFile(): string {
+	return resolve(getZipfDir(), "sessions.json");
+}
+
+// Project the server works for: ZIPF_PROJECT, else the directory it was started in
+export function getProjectKey(): string {
+	return resolve(process.env.ZIPF_PROJECT?.trim() || process.cwd());
+}
+
+// Read the registry, returning an empty one if it's missing or invalid
+export function readSessionStore(): SessionStore {
+	const file = getSessionStoreFile();
+	if (!existsSync(file)) {
+		return { sessions: [], current: {} };
+	}
+
+	try {
+		const store = JSON.parse(readFileSync(file, "utf-8"));
+		return {
+			sessions: Array.isArray(store?.sessions) ? store.sessions : [],
+			current:
+				store?.current && typeof store.current === "object"
+					? store.current
+					: {},
+		};
+	} catch {
+		// Ignore parse errors
+		return { sessions: [], current: {} };
+	}
+}
+
+function writeSessionStore(store: SessionStore): void {
+	const zipfDir = getZipfDir();
+	if (!existsSync(zipfDir)) {
+		mkdirSync(zipfDir, { recursive: true });
+	}
+
+	writeFileSync(getSessionStoreFile(), JSON.stringify(store, null, 2));
+}
+
+// Remember a newly created session; with makeCurrent it becomes the project's current session
+export function rememberSession(
+	session: { id: string; name: string; created_at?: string },
+	makeCurrent = true,
+): void {
+	const store = readSessionStore();
+
+	store.sessions = store.sessions
+		.filter((stored) => stored.id !== session.id)
+		.concat({
+			id: session.id,
+			name: session.name,
+			profile: getProfileName(),
+			account: getApiKeyFingerprint(),
+			project: getProjectKey(),
+			created_at: session.created_at ?? new Date().toISOString(),
+		})
+		.slice(-MAX_STORED_SESSIONS);
+	if (makeCurrent) {
+		updateCurrentSession(store, session.id);
+	}
+	writeSessionStore(store);
+}
+
+// Sessions remembered for the active key (or, for entries without one, profile), newest first
+export function listStoredSessions(): StoredSession[] {
+	const profile = getProfileName();
+	const account = getApiKeyFingerprint();
+	return readSessionStore()
+		.sessions.filter((stored) =>
+			stored.account && account
+				? stored.account === account
+				: stored.profile === profile,
+		)
+		.reverse();
+}
+
+// Session id for a friendly name (the newest session with that name, preferring this
+// project's); anything that isn't a known name is returned unchanged as an id
+export function resolveSessionId(ref: string): string {
+	const project = getProjectKey();
+	const named = listStoredSessions().filter((stored) => stored.name === ref);
+	const match = named.find((stored) => stored.project === project) ?? named[0];
+	return match?.id ?? ref;
+}
+
+export function getCurrentSessionId(): string | undefined {
+	const connectionId = currentConnection.getStore();
+	if (connectionId) {
+		return connectionSessions
+			.get(connectionId)
+			?.get(getApiKeyFingerprint() ?? "");
+	}
+	return readSessionStore().current[getProfileName()]?.[getProjectKey()];
+}
+
+// Point the current session at sessionId (undefined clears it): the connection's over HTTP,
+// otherwise the profile's for this project in the store
+function updateCurrentSession(
+	store: SessionStore,
+	sessionId: string | undefined,
+): void {
+	const connectionId = currentConnection.getStore();
+	if (connectionId) {
+		const account = getApiKeyFingerprint() ?? "";
+		const current = connectionSessions.get(connectionId) ?? new Map();
+		if (sessionId) {
+			current.set(account, sessionId);
+		} else {
+			current.delete(account);
+		}
+		connectionSessions.set(connectionId, current);
+		return;
+	}
+
+	const profile = getProfileName();
+	const project = getProjectKey();
+	const current = { ...store.current[profile] };
+	if (sessionId) {
+		current[project] = sessionId;
+	} else {
+		delete current[project];
+	}
+	store.current[profile] = current;
+}
+
+// Make a session (id or friendly name) the project's current session; undefined clears it.
+// Returns the resolved session id.
+export function setCurrentSession(ref: string | undefined): string | undefined {
+	const store = readSessionStore();
+	const sessionId = ref === undefined ? undefined : resolveSessionId(ref);
+
+	updateCurrentSession(store, sessionId);
+	writeSessionStore(store);
+	return sessionId;
+}
+
+// Stop falling back to a session that can't take new operations (completed or archived)
+export function clearCurrentSession(sessionId: string): void {
+	if (getCurrentSessionId() === sessionId) {
+		setCurrentSession(undefined);
+	}
+}
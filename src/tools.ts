@@ -1,10 +1,23 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { z } from "zod";
+import { randomUUID } from "node:crypto";
+import type {
+	McpServer,
+	ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+	CallToolResult,
+	ServerNotification,
+	ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { type ZodRawShape, z } from "zod";
+import { getToolAnnotations } from "./annotations.js";
 import {
 	ApiError,
 	applyWorkflowRecovery,
 	ask,
 	assessIntent,
+	batchRateExecutions,
+	cancelCrawl,
 	completeSession,
 	crawlWithPolling,
 	createEntitySchema,
@@ -16,10 +29,14 @@ import {
 	deleteWorkflow,
 	executeWorkflow,
 	exportEntities,
+	getApiKeyFingerprint,
+	getCrawl,
 	getEntity,
 	getEntitySchema,
 	getEntitySignal,
 	getFeedbackImpact,
+	getFeedbackQueue,
+	getSession,
 	getExecutionRatingStats,
 	getExecutionRatings,
 	getSessionTimeline,
@@ -31,12 +48,17 @@ import {
 	getWorkflowTimeline,
 	getWorkflowUpdatesDigest,
 	getWorkflowValidationStatus,
+	hasRequestApiKey,
 	listEntities,
 	listEntitySchemas,
 	listEntitySignals,
+	listSessions,
 	listWorkflows,
+	type ProgressUpdate,
 	planWorkflow,
 	queryEntities,
+	quickSearch,
+	rateExecution,
 	research,
 	searchWithPolling,
 	sessionCrawl,
@@ -46,9 +68,67 @@ import {
 	testWorkflowSlack,
 	updateEntity,
 	updateEntitySignal,
+	updateSession,
 	updateWorkflow,
 	validateWorkflow,
 } from "./api.js";
+import {
+	isAuditEnabled,
+	sanitizeArguments,
+	traceApiCalls,
+	writeAuditEntry,
+} from "./audit.js";
+import {
+	type BudgetStatus,
+	enforceBudget,
+	getBudgetStatus,
+	isBudgetEnabled,
+	meterToolCall,
+} from "./budget.js";
+import { getProfileName } from "./config.js";
+import {
+	confirmOperation,
+	describeLargeCrawl,
+	describeRecoveryApplyAll,
+	describeSchemaDeletion,
+	describeWorkflowDeletion,
+	LARGE_CRAWL_PAGES,
+} from "./confirm.js";
+import {
+	buildDossier,
+	DOSSIER_FORMATS,
+	formatDossier,
+	saveDossier,
+} from "./dossier.js";
+import {
+	renderAsk,
+	renderCrawl,
+	renderQuickSearch,
+	renderResearch,
+	renderResult,
+	renderSearch,
+	renderWorkflowUpdates,
+} from "./render.js";
+import { collectRetries, type RetryAttempt } from "./request.js";
+import {
+	entityUri,
+	notifyResourcesUpdated,
+	sessionTimelineUri,
+	workflowDiffUri,
+	workflowUri,
+} from "./resources.js";
+import { getOutputSchema } from "./schemas.js";
+import {
+	clearCurrentSession,
+	getCurrentSessionId,
+	getProjectKey,
+	listStoredSessions,
+	rememberSession,
+	resolveSessionId,
+	runInConnection,
+} from "./session-store.js";
+import { checkToolMode, getEnabledTools, getToolMode } from "./toolsets.js";
+import { buildUsageReport } from "./usage.js";
 
 // Helper to format errors for MCP response
 function formatError(error: unknown): {
@@ -62,12 +142,14 @@ function formatError(error: unknown): {
 		if (error.statusCode === 401 || error.statusCode === 403) {
 			message = `Authentication failed: ${error.message}. Check your ZIPF_API_KEY.`;
 		} else if (error.statusCode === 429) {
-			message = `Rate limited: ${error.message}. Please wait before retrying.`;
+			message = `Rate limited: ${error.message}. Automatic retries were exhausted; please wait before retrying.`;
 		} else if (error.statusCode === 402) {
 			message = `Insufficient credits: ${error.message}. Add credits at zipf.ai/dashboard.`;
 		} else if (error.statusCode && error.statusCode >= 500) {
-			message = `Server error: ${error.message}. Please try again later.`;
+			message = `Server error: ${error.message}. Automatic retries were exhausted; please try again later.`;
 		}
+	} else if (error instanceof Error && error.name === "AbortError") {
+		message = "Request cancelled before the ZipfAI API responded.";
 	} else if (error instanceof Error) {
 		message = error.message;
 		// Check for common network errors
@@ -82,6 +164,283 @@ function formatError(error: unknown): {
 	};
 }
 
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Append a note about retried requests so the model can see transient failures that were recovered from
+function withRetryReport(
+	result: CallToolResult,
+	retries: RetryAttempt[],
+): CallToolResult {
+	if (retries.length === 0) return result;
+
+	const attempts = retries
+		.map(
+			(r) =>
+				`${r.method} ${r.path} attempt ${r.attempt} failed (${r.reason}), retried after ${r.delay_ms}ms`,
+		)
+		.join("; ");
+	return {
+		...result,
+		content: [
+			...result.content,
+			{
+				type: "text",
+				text: `Retried ${retries.length} request(s) after transient errors: ${attempts}`,
+			},
+		],
+	};
+}
+
+// Result carrying the tool's structuredContent (checked against its outputSchema, schemas.ts),
+// with a readable rendering of it as text
+function toolResult(
+	structured: object,
+	text: string = renderResult(structured),
+): CallToolResult {
+	return {
+		content: [{ type: "text", text }],
+		structuredContent: structured as Record<string, unknown>,
+	};
+}
+
+// Interval between progress heartbeats while waiting on a single long request
+const PROGRESS_HEARTBEAT_INTERVAL = 5000;
+
+// Send progress updates to the client as notifications/progress.
+// Returns undefined when the client didn't ask for progress (no progressToken).
+function createProgressReporter(
+	extra: ToolExtra,
+): ((update: ProgressUpdate) => void) | undefined {
+	const progressToken = extra._meta?.progressToken;
+	if (progressToken === undefined) return undefined;
+
+	// Progress must increase with every notification
+	let lastProgress = -1;
+	return (update) => {
+		if (update.progress <= lastProgress || extra.signal.aborted) return;
+		lastProgress = update.progress;
+
+		extra
+			.sendNotification({
+				method: "notifications/progress",
+				params: { progressToken, ...update },
+			})
+			.catch((error) => {
+				console.error("Failed to send progress notification:", error);
+			});
+	};
+}
+
+// Report elapsed time while waiting on a request that can't report progress itself
+async function withProgressHeartbeat<T>(
+	extra: ToolExtra,
+	label: string,
+	operation: Promise<T>,
+): Promise<T> {
+	const report = createProgressReporter(extra);
+	if (!report) return operation;
+
+	const startTime = Date.now();
+	let beats = 0;
+	const timer = setInterval(() => {
+		beats++;
+		report({
+			progress: beats,
+			message: `${label}: ${Math.round((Date.now() - startTime) / 1000)}s elapsed`,
+		});
+	}, PROGRESS_HEARTBEAT_INTERVAL);
+
+	try {
+		return await operation;
+	} finally {
+		clearInterval(timer);
+	}
+}
+
+// Append the remaining credit budget (only when a budget is configured)
+function withBudgetReport(
+	result: CallToolResult,
+	status: BudgetStatus,
+): CallToolResult {
+	const parts = [`${status.spent_this_call} credits spent this call`];
+	if (status.session) {
+		parts.push(
+			`${status.session.remaining} of ${status.session.limit} credits left for session ${status.session.id}`,
+		);
+	}
+	if (status.process) {
+		parts.push(
+			`${status.process.remaining} of ${status.process.limit} credits left for this server`,
+		);
+	}
+
+	return {
+		...result,
+		content: [
+			...result.content,
+			{ type: "text", text: `Budget: ${parts.join("; ")}` },
+		],
+	};
+}
+
+function getResultText(result: CallToolResult): string | undefined {
+	const first = result.content[0];
+	return first?.type === "text" ? first.text : undefined;
+}
+
+// Workflow a tool call was about: its workflow_id argument, or the workflow it created
+function findWorkflowId(
+	args: Record<string, unknown>,
+	result: CallToolResult,
+): string | undefined {
+	const fromArgs = asString(args.workflow_id);
+	if (fromArgs) return fromArgs;
+	if (result.isError) return undefined;
+
+	const workflow = asObject(result.structuredContent?.workflow);
+	return asString(workflow?.id) ?? undefined;
+}
+
+// Model/client that submits a rating, from the MCP client info (e.g. "claude-ai/0.1.0")
+function getActorModel(server: McpServer): string | undefined {
+	const client = server.server.getClientVersion();
+	return client ? `${client.name}/${client.version}` : undefined;
+}
+
+// Tools that run in the project's current session when no session_id is passed
+const CURRENT_SESSION_TOOLS = new Set([
+	"zipfai_session_search",
+	"zipfai_session_crawl",
+]);
+
+// Resolve a friendly session name to its id, or fill in the project's current session
+function withSessionId(
+	name: string,
+	args: Record<string, unknown>,
+): Record<string, unknown> {
+	const ref = asString(args.session_id);
+	if (ref) {
+		const sessionId = resolveSessionId(ref);
+		return sessionId === ref ? args : { ...args, session_id: sessionId };
+	}
+	if (CURRENT_SESSION_TOOLS.has(name)) {
+		const current = getCurrentSessionId();
+		if (current) return { ...args, session_id: current };
+	}
+	return args;
+}
+
+function requireSessionId(sessionId: string | undefined): string {
+	if (!sessionId) {
+		throw new Error(
+			"No session_id given and this project has no current session. Create one with zipfai_create_session or pick one with zipfai_use_session.",
+		);
+	}
+	return sessionId;
+}
+
+// Tools each server registers (toolsets.ts), set by registerTools
+const enabledTools = new WeakMap<McpServer, Set<string>>();
+
+// Fallback for clients without elicitation, which are asked to confirm instead
+const confirmSchema = z
+	.boolean()
+	.optional()
+	.describe(
+		"Set to true once the user has confirmed. Only needed when the client can't show a confirmation prompt (MCP elicitation)",
+	);
+
+// Register a tool, running its handler through the shared tool middleware, with its
+// annotations (annotations.ts) and output schema (schemas.ts). Tools left out of the
+// configured toolsets are skipped.
+function registerTool<Args extends ZodRawShape>(
+	server: McpServer,
+	name: string,
+	config: { description: string; inputSchema: Args },
+	handler: ToolCallback<Args>,
+): void {
+	if (!enabledTools.get(server)?.has(name)) return;
+
+	const callback = handler as unknown as (
+		args: unknown,
+		extra: ToolExtra,
+	) => CallToolResult | Promise<CallToolResult>;
+
+	const run = async (
+		args: unknown,
+		extra: ToolExtra,
+	): Promise<CallToolResult> => {
+		const toolArgs = withSessionId(name, asObject(args) ?? {});
+		const sessionId = asString(toolArgs.session_id) ?? undefined;
+		const startTime = Date.now();
+
+		const {
+			result: {
+				result: { result, retries },
+				trace,
+			},
+			spent,
+		} = await meterToolCall(sessionId, () =>
+			traceApiCalls(() =>
+				collectRetries(async () => {
+					try {
+						checkToolMode(name, toolArgs);
+						await enforceBudget(name, toolArgs, sessionId, {
+							signal: extra.signal,
+						});
+					} catch (error) {
+						return formatError(error);
+					}
+					return callback(toolArgs, extra);
+				}),
+			),
+		);
+
+		if (isAuditEnabled()) {
+			const client = server.server.getClientVersion();
+			writeAuditEntry({
+				timestamp: new Date(startTime).toISOString(),
+				tool: name,
+				arguments: sanitizeArguments(toolArgs),
+				duration_ms: Date.now() - startTime,
+				status: result.isError ? "error" : "ok",
+				status_code: trace.lastStatus,
+				api_calls: trace.calls,
+				credits_consumed: spent,
+				balance_after: trace.balanceAfter,
+				session_id: sessionId,
+				workflow_id: findWorkflowId(toolArgs, result),
+				account: getApiKeyFingerprint(),
+				// A per-request key (HTTP bearer) isn't the profile's
+				profile: hasRequestApiKey() ? undefined : getProfileName(),
+				client: client && { name: client.name, version: client.version },
+				error: result.isError
+					? getResultText(result)?.slice(0, 500)
+					: undefined,
+			});
+		}
+
+		const reported = withRetryReport(result, retries);
+		return isBudgetEnabled()
+			? withBudgetReport(reported, getBudgetStatus(sessionId, spent))
+			: reported;
+	};
+
+	// Over HTTP, each connection (MCP session) keeps its own current session
+	const wrapped = (args: unknown, extra: ToolExtra) =>
+		runInConnection(extra.sessionId, () => run(args, extra));
+
+	server.registerTool(
+		name,
+		{
+			...config,
+			...getToolAnnotations(name),
+			outputSchema: getOutputSchema(name),
+		},
+		wrapped as unknown as ToolCallback<Args>,
+	);
+}
+
 type QualityLoopConfidence = "high" | "medium";
 
 interface QualityLoopQuestion {
@@ -454,19 +813,22 @@ function buildWorkflowUpdatesQualityLoopHint(params: {
 }
 
 export function registerTools(server: McpServer): void {
+	enabledTools.set(server, getEnabledTools());
+
 	// =========================================================================
 	// Status - Health check and account info (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_status",
 		{
 			description:
 				"Check ZipfAI API health and get account status (FREE). Returns API status, credit balance, rate limits, and available endpoints. Use this to verify your API key works and check your remaining credits before starting operations.",
 			inputSchema: {},
 		},
-		async () => {
+		async (_args, extra) => {
 			try {
-				const status = await getStatus();
+				const status = await getStatus({ signal: extra.signal });
 
 				// Format a clean summary for the LLM
 				const summary = {
@@ -479,11 +841,11 @@ export function registerTools(server: McpServer): void {
 					},
 					available_endpoints: Object.keys(status.endpoints),
 					credit_costs: status.credit_costs,
+					// read_only / no_spend hide the tools that change things or spend credits
+					mode: getToolMode(),
 				};
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
-				};
+				return toolResult(summary);
 			} catch (error) {
 				// For status check, provide more detailed error info
 				if (error instanceof ApiError) {
@@ -514,10 +876,115 @@ export function registerTools(server: McpServer): void {
 		},
 	);
 
+	// =========================================================================
+	// Usage Report - Local spend analytics (FREE)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_usage_report",
+		{
+			description: `Report credits consumed per tool, per session, per workflow and per day over a time range, with a projection of when the credit balance runs out at the current burn rate (FREE).
+
+Spend comes from this server's local audit log of tool calls. By default, sessions and workflows that appear in it are enriched with stats from the API (including scheduled workflow runs), and the current balance is fetched - all free calls. Use this before planning expensive work, or to see which workflows burn the most credits.`,
+			inputSchema: {
+				since: z
+					.string()
+					.optional()
+					.describe(
+						"Start of the range: YYYY-MM-DD (UTC) or ISO timestamp (default: 7 days ago)",
+					),
+				until: z
+					.string()
+					.optional()
+					.describe(
+						"End of the range: YYYY-MM-DD (whole day, UTC) or ISO timestamp (default: now)",
+					),
+				include_api_stats: z
+					.boolean()
+					.optional()
+					.describe(
+						"Look up session/workflow stats and the current balance in the API (default: true). Set false for a purely local report.",
+					),
+			},
+		},
+		async ({ since, until, include_api_stats }, extra) => {
+			try {
+				const result = await buildUsageReport(
+					{ since, until, include_api_stats },
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Quick Search - Lightweight search without AI features (1 credit)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_quick_search",
+		{
+			description: `Fast, cheap web search (1 credit). Returns compact results - title, URL, description and date - with no AI features.
+
+USE THIS WHEN: You only need a handful of links, e.g. to find an official page or a source to crawl.
+USE search INSTEAD WHEN: You want summaries, reranking, suggestions or query decomposition.
+
+Optionally restrict results to (or exclude) specific domains. The text is a short Markdown link list; structuredContent has the full results.`,
+			inputSchema: {
+				query: z
+					.string()
+					.describe(
+						"Search query - be specific for better results (max 1000 chars)",
+					),
+				max_results: z
+					.number()
+					.optional()
+					.describe("Number of results, 1-20 (default: 10)"),
+				domains: z
+					.array(z.string())
+					.optional()
+					.describe(
+						"Only return results from these domains (subdomains included), e.g. ['github.com', 'arxiv.org']",
+					),
+				exclude_domains: z
+					.array(z.string())
+					.optional()
+					.describe("Drop results from these domains, e.g. ['pinterest.com']"),
+				cache: z
+					.enum(["bypass", "refresh"])
+					.optional()
+					.describe(
+						"Local response cache (when enabled): bypass to skip it, refresh to fetch fresh results and overwrite the cached entry",
+					),
+			},
+		},
+		async ({ query, max_results, domains, exclude_domains, cache }, extra) => {
+			try {
+				const result = await quickSearch(
+					{
+						query,
+						max_results: max_results ?? 10,
+						domains: domains ?? undefined,
+						exclude_domains: exclude_domains ?? undefined,
+					},
+					{ signal: extra.signal, cache },
+				);
+
+				return toolResult(result, renderQuickSearch(result));
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
 	// =========================================================================
 	// Search - AI-enhanced search with all features (1-2 credits)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_search",
 		{
 			description:
@@ -600,41 +1067,64 @@ Features: query rewriting, semantic reranking, AI summaries, follow-up suggestio
 					.describe(
 						"Filter results by recency: day (last 24h), week, month, or year. Omit for any time.",
 					),
+				timeout_ms: z
+					.number()
+					.optional()
+					.describe(
+						"How long to wait for async results (summary, metadata) in ms, 5000-300000 (default: 60000). Partial results are returned on timeout.",
+					),
+				cache: z
+					.enum(["bypass", "refresh"])
+					.optional()
+					.describe(
+						"Local response cache (when enabled): bypass to skip it, refresh to fetch fresh results and overwrite the cached entry",
+					),
 			},
 		},
-		async ({
-			query,
-			max_results,
-			interpret_query,
-			rerank_results,
-			generate_summary,
-			generate_suggestions,
-			num_suggestions,
-			extract_metadata,
-			query_decomposition,
-			max_sub_queries,
-			source_type,
-			freshness,
-		}) => {
+		async (
+			{
+				query,
+				max_results,
+				interpret_query,
+				rerank_results,
+				generate_summary,
+				generate_suggestions,
+				num_suggestions,
+				extract_metadata,
+				query_decomposition,
+				max_sub_queries,
+				source_type,
+				freshness,
+				timeout_ms,
+				cache,
+			},
+			extra,
+		) => {
 			try {
-				const results = await searchWithPolling({
-					query,
-					max_results: max_results ?? 10,
-					interpret_query: interpret_query ?? false,
-					extract_metadata: extract_metadata ?? false,
-					rerank_results: rerank_results ?? false,
-					generate_summary: generate_summary ?? false,
-					generate_suggestions: generate_suggestions ?? false,
-					num_suggestions: num_suggestions ?? undefined,
-					query_decomposition: query_decomposition ?? false,
-					max_sub_queries: max_sub_queries ?? undefined,
-					source_type: source_type ?? undefined,
-					freshness: freshness ?? undefined,
-				});
+				const results = await searchWithPolling(
+					{
+						query,
+						max_results: max_results ?? 10,
+						interpret_query: interpret_query ?? false,
+						extract_metadata: extract_metadata ?? false,
+						rerank_results: rerank_results ?? false,
+						generate_summary: generate_summary ?? false,
+						generate_suggestions: generate_suggestions ?? false,
+						num_suggestions: num_suggestions ?? undefined,
+						query_decomposition: query_decomposition ?? false,
+						max_sub_queries: max_sub_queries ?? undefined,
+						source_type: source_type ?? undefined,
+						freshness: freshness ?? undefined,
+						timeout_ms: timeout_ms ?? undefined,
+					},
+					{
+						signal: extra.signal,
+						onProgress: createProgressReporter(extra),
+						cache,
+					},
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
-				};
+				return toolResult(results, renderSearch(results));
 			} catch (error) {
 				return formatError(error);
 			}
@@ -644,7 +1134,8 @@ Features: query rewriting, semantic reranking, AI summaries, follow-up suggestio
 	// =========================================================================
 	// Ask - Direct question answering (2-5 credits)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_ask",
 		{
 			description:
@@ -711,37 +1202,52 @@ Tip: For niche or multi-faceted topics, use depth='deep' and enable_decompositio
 					.describe(
 						"Max sub-queries when decomposition is enabled, 1-5 (default: 3)",
 					),
+				cache: z
+					.enum(["bypass", "refresh"])
+					.optional()
+					.describe(
+						"Local response cache (when enabled): bypass to skip it, refresh to fetch fresh results and overwrite the cached entry",
+					),
 			},
 		},
-		async ({
-			question,
-			depth,
-			max_sources,
-			include_follow_ups,
-			response_style,
-			session_id,
-			skip_rerank,
-			enable_query_rewrite,
-			enable_decomposition,
-			max_sub_queries,
-		}) => {
+		async (
+			{
+				question,
+				depth,
+				max_sources,
+				include_follow_ups,
+				response_style,
+				session_id,
+				skip_rerank,
+				enable_query_rewrite,
+				enable_decomposition,
+				max_sub_queries,
+				cache,
+			},
+			extra,
+		) => {
 			try {
-				const result = await ask({
-					question,
-					depth: depth ?? "standard",
-					max_sources: max_sources ?? 10,
-					include_follow_ups: include_follow_ups ?? undefined,
-					response_style: response_style ?? undefined,
-					session_id: session_id ?? undefined,
-					skip_rerank: skip_rerank ?? undefined,
-					enable_query_rewrite: enable_query_rewrite ?? undefined,
-					enable_decomposition: enable_decomposition ?? undefined,
-					max_sub_queries: max_sub_queries ?? undefined,
-				});
+				const result = await withProgressHeartbeat(
+					extra,
+					"Waiting for answer",
+					ask(
+						{
+							question,
+							depth: depth ?? "standard",
+							max_sources: max_sources ?? 10,
+							include_follow_ups: include_follow_ups ?? undefined,
+							response_style: response_style ?? undefined,
+							session_id: session_id ?? undefined,
+							skip_rerank: skip_rerank ?? undefined,
+							enable_query_rewrite: enable_query_rewrite ?? undefined,
+							enable_decomposition: enable_decomposition ?? undefined,
+							max_sub_queries: max_sub_queries ?? undefined,
+						},
+						{ signal: extra.signal, cache },
+					),
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result, renderAsk(result));
 			} catch (error) {
 				return formatError(error);
 			}
@@ -751,11 +1257,11 @@ Tip: For niche or multi-faceted topics, use depth='deep' and enable_decompositio
 	// =========================================================================
 	// Crawl - Web crawling with extraction (1-2 credits/page)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_crawl",
 		{
-			description:
-				"Crawl web pages and extract content (1-2 credits/page). Use for deep content extraction, structured data extraction with custom schemas, or following links. Returns full page content as markdown. Uses sync mode - waits for completion.",
+			description: `Crawl web pages and extract content (1-2 credits/page). Use for deep content extraction, structured data extraction with custom schemas, or following links. Returns full page content as markdown. Uses sync mode by default - waits for completion. For big crawls use processing_mode 'async', which returns a crawl id right away; check it with zipfai_get_crawl and stop it with zipfai_cancel_crawl. Crawls of more than ${LARGE_CRAWL_PAGES} pages ask the user to confirm the estimated credits first.`,
 			inputSchema: {
 				urls: z.array(z.string()).describe("URLs to crawl (1-100 seed URLs)"),
 				max_pages: z
@@ -778,6 +1284,12 @@ Tip: For niche or multi-faceted topics, use depth='deep' and enable_decompositio
 					.boolean()
 					.optional()
 					.describe("Generate AI summary of crawled content (FREE)"),
+				processing_mode: z
+					.enum(["sync", "async"])
+					.optional()
+					.describe(
+						"sync: wait for the crawl to finish. async: return the crawl id immediately, then poll with zipfai_get_crawl. Default: wait like sync, except that a client asking for progress gets the crawl polled for up to 5 minutes, after which it comes back still running",
+					),
 				expansion: z
 					.enum(["internal", "external", "both", "none"])
 					.optional()
@@ -815,39 +1327,105 @@ Tip: For niche or multi-faceted topics, use depth='deep' and enable_decompositio
 					.describe(
 						"Link this crawl to an existing session for URL deduplication",
 					),
+				confirm: confirmSchema,
 			},
 		},
-		async ({
-			urls,
-			max_pages,
-			extraction_schema,
-			classify_documents,
-			generate_summary,
-			expansion,
-			follow_links,
-			use_cache,
-			cache_max_age,
-			dry_run,
-			session_id,
-		}) => {
+		async (
+			{
+				urls,
+				max_pages,
+				extraction_schema,
+				classify_documents,
+				generate_summary,
+				processing_mode,
+				expansion,
+				follow_links,
+				use_cache,
+				cache_max_age,
+				dry_run,
+				session_id,
+				confirm,
+			},
+			extra,
+		) => {
 			try {
-				const result = await crawlWithPolling({
+				const params = {
 					urls,
 					max_pages: max_pages ?? 10,
 					extraction_schema: extraction_schema ?? undefined,
 					classify_documents: classify_documents ?? true,
 					generate_summary: generate_summary ?? false,
+					processing_mode: processing_mode ?? undefined,
 					expansion: expansion ?? undefined,
 					follow_links: follow_links ?? undefined,
 					use_cache: use_cache ?? undefined,
 					cache_max_age: cache_max_age ?? undefined,
 					dry_run: dry_run ?? undefined,
 					session_id: session_id ?? undefined,
+				};
+				if (!dry_run && params.max_pages > LARGE_CRAWL_PAGES) {
+					await confirmOperation(
+						server,
+						await describeLargeCrawl(params, { signal: extra.signal }),
+						confirm,
+						{ signal: extra.signal },
+					);
+				}
+
+				const result = await crawlWithPolling(params, {
+					signal: extra.signal,
+					onProgress: createProgressReporter(extra),
 				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result, renderCrawl(result));
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Get Crawl - Check an async crawl (FREE)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_get_crawl",
+		{
+			description:
+				"Get the status and results of a crawl by id (FREE). Use after zipfai_crawl with processing_mode 'async' - status is pending, running, completed, failed, or cancelled. Results are included once the crawl has completed.",
+			inputSchema: {
+				crawl_id: z.string().describe("The crawl ID returned by zipfai_crawl"),
+			},
+		},
+		async ({ crawl_id }, extra) => {
+			try {
+				const result = await getCrawl(crawl_id, { signal: extra.signal });
+
+				return toolResult(result, renderCrawl(result));
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Cancel Crawl - Stop a pending or running crawl (FREE)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_cancel_crawl",
+		{
+			description:
+				"Cancel a pending or running crawl (FREE). Pages already crawled are kept and billed; no further pages are crawled. The crawl ends in status 'cancelled'.",
+			inputSchema: {
+				crawl_id: z.string().describe("The crawl ID to cancel"),
+			},
+		},
+		async ({ crawl_id }, extra) => {
+			try {
+				const result = await cancelCrawl(crawl_id, { signal: extra.signal });
+
+				return toolResult(result, renderCrawl(result));
 			} catch (error) {
 				return formatError(error);
 			}
@@ -857,7 +1435,8 @@ Tip: For niche or multi-faceted topics, use depth='deep' and enable_decompositio
 	// =========================================================================
 	// Suggest Schema - AI-powered extraction schema suggestion (2 credits)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_suggest_schema",
 		{
 			description:
@@ -868,15 +1447,22 @@ Tip: For niche or multi-faceted topics, use depth='deep' and enable_decompositio
 				"The suggested schema can be passed directly to zipfai_crawl's extraction_schema parameter.",
 			inputSchema: {
 				url: z.string().describe("The URL to analyze for schema suggestion"),
+				cache: z
+					.enum(["bypass", "refresh"])
+					.optional()
+					.describe(
+						"Local response cache (when enabled): bypass to skip it, refresh to fetch fresh results and overwrite the cached entry",
+					),
 			},
 		},
-		async ({ url }) => {
+		async ({ url, cache }, extra) => {
 			try {
-				const result = await suggestSchema({ url });
+				const result = await suggestSchema(
+					{ url },
+					{ signal: extra.signal, cache },
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -886,7 +1472,8 @@ Tip: For niche or multi-faceted topics, use depth='deep' and enable_decompositio
 	// =========================================================================
 	// Create Session - Start a multi-step research workflow
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_create_session",
 		{
 			description:
@@ -924,30 +1511,43 @@ Sessions provide: URL deduplication across searches, context accumulation for be
 					.boolean()
 					.optional()
 					.describe("Use accumulated context for AI features (default: true)"),
+				make_current: z
+					.boolean()
+					.optional()
+					.default(true)
+					.describe(
+						"Make it this project's current session, used by session tools when no session_id is passed (default: true)",
+					),
 			},
 		},
-		async ({
-			name,
-			description,
-			intent_context,
-			auto_deduplicate,
-			use_session_context,
-		}) => {
+		async (
+			{
+				name,
+				description,
+				intent_context,
+				auto_deduplicate,
+				use_session_context,
+				make_current,
+			},
+			extra,
+		) => {
 			try {
-				const result = await createSession({
-					name,
-					description: description ?? undefined,
-					intent_context: intent_context ?? undefined,
-					session_config: {
-						auto_deduplicate: auto_deduplicate ?? true,
-						accumulate_context: true,
-						use_session_context: use_session_context ?? true,
+				const result = await createSession(
+					{
+						name,
+						description: description ?? undefined,
+						intent_context: intent_context ?? undefined,
+						session_config: {
+							auto_deduplicate: auto_deduplicate ?? true,
+							accumulate_context: true,
+							use_session_context: use_session_context ?? true,
+						},
 					},
-				});
+					{ signal: extra.signal },
+				);
+				rememberSession(result.session, make_current);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -957,7 +1557,8 @@ Sessions provide: URL deduplication across searches, context accumulation for be
 	// =========================================================================
 	// Session Search - Search within a session context
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_session_search",
 		{
 			description:
@@ -966,11 +1567,14 @@ Sessions provide: URL deduplication across searches, context accumulation for be
 USE THIS WHEN: You already have a session and want to run follow-up searches that skip previously seen URLs.
 USE zipfai_search INSTEAD WHEN: You're doing a standalone one-off search without a session.
 
-Requires session_id from zipfai_create_session. For comprehensive research, enable query_decomposition.`,
+Runs in session_id, or in the project's current session (the last one created or picked with zipfai_use_session). For comprehensive research, enable query_decomposition.`,
 			inputSchema: {
 				session_id: z
 					.string()
-					.describe("Session ID from zipfai_create_session"),
+					.optional()
+					.describe(
+						"Session ID or name (default: the project's current session)",
+					),
 				query: z.string().describe("Search query"),
 				max_results: z
 					.number()
@@ -1008,34 +1612,41 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 					),
 			},
 		},
-		async ({
-			session_id,
-			query,
-			max_results,
-			filter_seen_urls,
-			interpret_query,
-			rerank_results,
-			generate_summary,
-			query_decomposition,
-			max_sub_queries,
-			freshness,
-		}) => {
+		async (
+			{
+				session_id,
+				query,
+				max_results,
+				filter_seen_urls,
+				interpret_query,
+				rerank_results,
+				generate_summary,
+				query_decomposition,
+				max_sub_queries,
+				freshness,
+			},
+			extra,
+		) => {
 			try {
-				const result = await sessionSearch(session_id, {
-					query,
-					max_results: max_results ?? 10,
-					filter_seen_urls: filter_seen_urls ?? true,
-					interpret_query: interpret_query ?? false,
-					rerank_results: rerank_results ?? false,
-					generate_summary: generate_summary ?? false,
-					query_decomposition: query_decomposition ?? false,
-					max_sub_queries: max_sub_queries ?? undefined,
-					freshness: freshness ?? undefined,
-				});
+				const sessionId = requireSessionId(session_id);
+				const result = await sessionSearch(
+					sessionId,
+					{
+						query,
+						max_results: max_results ?? 10,
+						filter_seen_urls: filter_seen_urls ?? true,
+						interpret_query: interpret_query ?? false,
+						rerank_results: rerank_results ?? false,
+						generate_summary: generate_summary ?? false,
+						query_decomposition: query_decomposition ?? false,
+						max_sub_queries: max_sub_queries ?? undefined,
+						freshness: freshness ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
+				await notifyResourcesUpdated(server, [sessionTimelineUri(sessionId)]);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result, renderSearch(result));
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1045,15 +1656,19 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 	// =========================================================================
 	// Session Crawl - Crawl within a session context
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_session_crawl",
 		{
 			description:
-				"Crawl URLs within a session context (1-2 credits/page). Automatically skips URLs already crawled in the session. When expansion is enabled, Smart Crawl finds high-value pages first, saving 50-75% of crawl budget. Use session_id from zipfai_create_session.",
+				"Crawl URLs within a session context (1-2 credits/page). Automatically skips URLs already crawled in the session. When expansion is enabled, Smart Crawl finds high-value pages first, saving 50-75% of crawl budget. Runs in session_id, or in the project's current session.",
 			inputSchema: {
 				session_id: z
 					.string()
-					.describe("Session ID from zipfai_create_session"),
+					.optional()
+					.describe(
+						"Session ID or name (default: the project's current session)",
+					),
 				urls: z.array(z.string()).describe("URLs to crawl"),
 				max_pages: z
 					.number()
@@ -1083,30 +1698,156 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 					),
 			},
 		},
-		async ({
-			session_id,
-			urls,
-			max_pages,
-			filter_seen_urls,
-			extraction_schema,
-			classify_documents,
-			generate_summary,
-			expansion,
-		}) => {
+		async (
+			{
+				session_id,
+				urls,
+				max_pages,
+				filter_seen_urls,
+				extraction_schema,
+				classify_documents,
+				generate_summary,
+				expansion,
+			},
+			extra,
+		) => {
+			try {
+				const sessionId = requireSessionId(session_id);
+				const result = await withProgressHeartbeat(
+					extra,
+					"Waiting for crawl",
+					sessionCrawl(
+						sessionId,
+						{
+							urls,
+							max_pages: max_pages ?? 10,
+							filter_seen_urls: filter_seen_urls ?? true,
+							extraction_schema: extraction_schema ?? undefined,
+							classify_documents: classify_documents ?? true,
+							generate_summary: generate_summary ?? false,
+							expansion: expansion ?? undefined,
+						},
+						{ signal: extra.signal },
+					),
+				);
+				await notifyResourcesUpdated(server, [sessionTimelineUri(sessionId)]);
+
+				return toolResult(result, renderCrawl(result));
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// List Sessions - Find sessions created earlier (FREE)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_list_sessions",
+		{
+			description:
+				"List research sessions with pagination and status filtering (FREE). Use to pick up sessions created in an earlier conversation.",
+			inputSchema: {
+				status: z
+					.enum(["active", "completed", "archived"])
+					.optional()
+					.describe("Filter by status"),
+				limit: z
+					.number()
+					.optional()
+					.describe("Number of results, 1-100 (default: 20)"),
+				offset: z
+					.number()
+					.optional()
+					.describe("Pagination offset (default: 0)"),
+			},
+		},
+		async ({ status, limit, offset }, extra) => {
 			try {
-				const result = await sessionCrawl(session_id, {
-					urls,
-					max_pages: max_pages ?? 10,
-					filter_seen_urls: filter_seen_urls ?? true,
-					extraction_schema: extraction_schema ?? undefined,
-					classify_documents: classify_documents ?? true,
-					generate_summary: generate_summary ?? false,
-					expansion: expansion ?? undefined,
+				const result = await listSessions(
+					{
+						status: status ?? undefined,
+						limit: limit ?? undefined,
+						offset: offset ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
+
+				return toolResult({
+					...result,
+					current_session_id: getCurrentSessionId(),
 				});
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Use Session - Pick the project's current session (FREE)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_use_session",
+		{
+			description:
+				"Make a session this project's current session (FREE). zipfai_session_search and zipfai_session_crawl run in it when no session_id is passed. Sessions and the current session are remembered across server restarts in ~/.zipfai/sessions.json; call without session_id to see them.",
+			inputSchema: {
+				session_id: z
+					.string()
+					.optional()
+					.describe("Session ID or name to make current"),
+			},
+		},
+		async ({ session_id }, extra) => {
+			try {
+				if (session_id) {
+					const { session } = await getSession(session_id, {
+						signal: extra.signal,
+					});
+					if (session.status !== "active") {
+						throw new Error(
+							session.status === "archived"
+								? `Session ${session.id} is archived. Resume it with zipfai_resume_session first.`
+								: `Session ${session.id} is completed and accepts no new operations.`,
+						);
+					}
+					rememberSession(session);
+				}
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				const result = {
+					project: getProjectKey(),
+					current_session_id: getCurrentSessionId() ?? null,
+					remembered_sessions: listStoredSessions().slice(0, 20),
 				};
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Get Session - Status, config and aggregates (FREE)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_get_session",
+		{
+			description:
+				"Get a session's status, session_config and aggregates (unique URLs, credits, operation counts) (FREE). Use zipfai_session_timeline for the individual operations.",
+			inputSchema: {
+				session_id: z.string().describe("Session ID"),
+			},
+		},
+		async ({ session_id }, extra) => {
+			try {
+				const result = await getSession(session_id, {
+					signal: extra.signal,
+				});
+
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1116,7 +1857,8 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 	// =========================================================================
 	// Session Timeline - Get session operation history
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_session_timeline",
 		{
 			description:
@@ -1125,13 +1867,75 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 				session_id: z.string().describe("Session ID to get timeline for"),
 			},
 		},
-		async ({ session_id }) => {
+		async ({ session_id }, extra) => {
 			try {
-				const result = await getSessionTimeline(session_id);
+				const result = await getSessionTimeline(session_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Export Session - Research dossier (FREE)
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_export_session",
+		{
+			description:
+				"Export a research session as a dossier (FREE): every search and crawl, the sources they found (deduplicated, numbered for citation) and crawled content. Formats: markdown (report with citations), json, bibtex or csl (CSL-JSON bibliography of the sources).",
+			inputSchema: {
+				session_id: z.string().describe("Session ID to export"),
+				format: z
+					.enum(DOSSIER_FORMATS)
+					.optional()
+					.default("markdown")
+					.describe("Output format (default: markdown)"),
+				include_content: z
+					.boolean()
+					.optional()
+					.default(true)
+					.describe("Include crawled page content"),
+				max_content_chars: z
+					.number()
+					.optional()
+					.default(2000)
+					.describe("Truncate each crawled page's content to this length"),
+				save: z
+					.boolean()
+					.optional()
+					.default(false)
+					.describe(
+						"Also write the export to ~/.zipfai/exports/<session_id>.<ext> and return only its path and stats",
+					),
+			},
+		},
+		async (
+			{ session_id, format, include_content, max_content_chars, save },
+			extra,
+		) => {
+			try {
+				const dossier = await buildDossier(
+					session_id,
+					{ include_content, max_content_chars },
+					{ signal: extra.signal },
+				);
+				const text = formatDossier(dossier, format);
+
+				if (save) {
+					const file = saveDossier(session_id, format, text);
+					return toolResult(
+						{ file, format, stats: dossier.stats },
+						`Saved the ${format} export of session ${dossier.session.id} to ${file} (${dossier.stats.unique_sources} sources from ${dossier.stats.operations} operations).`,
+					);
+				}
+
+				return toolResult({ ...dossier, format }, text);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1141,7 +1945,8 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 	// =========================================================================
 	// Complete Session - Mark session as completed
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_complete_session",
 		{
 			description:
@@ -1150,13 +1955,68 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 				session_id: z.string().describe("Session ID to complete"),
 			},
 		},
-		async ({ session_id }) => {
+		async ({ session_id }, extra) => {
 			try {
-				const result = await completeSession(session_id);
+				const result = await completeSession(session_id, {
+					signal: extra.signal,
+				});
+				clearCurrentSession(result.session.id);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Archive / Resume Session
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_archive_session",
+		{
+			description:
+				"Archive a session you no longer work on (FREE). Archived sessions accept no new operations; use zipfai_resume_session to bring one back.",
+			inputSchema: {
+				session_id: z.string().describe("Session ID to archive"),
+			},
+		},
+		async ({ session_id }, extra) => {
+			try {
+				const result = await updateSession(
+					session_id,
+					{ status: "archived" },
+					{ signal: extra.signal },
+				);
+				clearCurrentSession(result.session.id);
+
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	registerTool(
+		server,
+		"zipfai_resume_session",
+		{
+			description:
+				"Resume an archived session so searches and crawls can be added to it again (FREE). Completed sessions can't be resumed.",
+			inputSchema: {
+				session_id: z.string().describe("Session ID to resume"),
+			},
+		},
+		async ({ session_id }, extra) => {
+			try {
+				const result = await updateSession(
+					session_id,
+					{ status: "active" },
+					{ signal: extra.signal },
+				);
+
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1166,7 +2026,8 @@ Requires session_id from zipfai_create_session. For comprehensive research, enab
 	// =========================================================================
 	// Research - Combo search + auto-crawl (variable credits)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_research",
 		{
 			description:
@@ -1228,37 +2089,45 @@ Returns: search results + full crawled content from top N results. Supports extr
 					),
 			},
 		},
-		async ({
-			query,
-			search_count,
-			auto_crawl_top_n,
-			max_pages_per_url,
-			extraction_schema,
-			only_uncrawled,
-			classify_documents,
-			interpret_query,
-			rerank_results,
-			generate_suggestions,
-			session_id,
-		}) => {
+		async (
+			{
+				query,
+				search_count,
+				auto_crawl_top_n,
+				max_pages_per_url,
+				extraction_schema,
+				only_uncrawled,
+				classify_documents,
+				interpret_query,
+				rerank_results,
+				generate_suggestions,
+				session_id,
+			},
+			extra,
+		) => {
 			try {
-				const result = await research({
-					query,
-					search_count: search_count ?? 10,
-					auto_crawl_top_n: auto_crawl_top_n ?? 5,
-					max_pages_per_url: max_pages_per_url ?? 1,
-					extraction_schema: extraction_schema ?? undefined,
-					only_uncrawled: only_uncrawled ?? undefined,
-					classify_documents: classify_documents ?? undefined,
-					interpret_query: interpret_query ?? undefined,
-					rerank_results: rerank_results ?? undefined,
-					generate_suggestions: generate_suggestions ?? undefined,
-					session_id: session_id ?? undefined,
-				});
+				const result = await withProgressHeartbeat(
+					extra,
+					"Waiting for research",
+					research(
+						{
+							query,
+							search_count: search_count ?? 10,
+							auto_crawl_top_n: auto_crawl_top_n ?? 5,
+							max_pages_per_url: max_pages_per_url ?? 1,
+							extraction_schema: extraction_schema ?? undefined,
+							only_uncrawled: only_uncrawled ?? undefined,
+							classify_documents: classify_documents ?? undefined,
+							interpret_query: interpret_query ?? undefined,
+							rerank_results: rerank_results ?? undefined,
+							generate_suggestions: generate_suggestions ?? undefined,
+							session_id: session_id ?? undefined,
+						},
+						{ signal: extra.signal },
+					),
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result, renderResearch(result));
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1268,7 +2137,8 @@ Returns: search results + full crawled content from top N results. Supports extr
 	// =========================================================================
 	// Assess Intent - Check if monitoring intent is specific enough (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_assess_intent",
 		{
 			description:
@@ -1292,9 +2162,9 @@ Returns: search results + full crawled content from top N results. Supports extr
 					),
 			},
 		},
-		async ({ intent }) => {
+		async ({ intent }, extra) => {
 			try {
-				const result = await assessIntent({ intent });
+				const result = await assessIntent({ intent }, { signal: extra.signal });
 
 				// Format agent-friendly response
 				const response = {
@@ -1308,9 +2178,7 @@ Returns: search results + full crawled content from top N results. Supports extr
 					inferred: result.inferred,
 				};
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-				};
+				return toolResult(response);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1320,7 +2188,8 @@ Returns: search results + full crawled content from top N results. Supports extr
 	// =========================================================================
 	// Plan Workflow - Preview AI-planned workflow (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_plan_workflow",
 		{
 			description:
@@ -1354,27 +2223,31 @@ Returns: search results + full crawled content from top N results. Supports extr
 					.describe("Skip entity discovery for faster response"),
 			},
 		},
-		async ({
-			intent,
-			name,
-			max_credits_per_execution,
-			planning_budget,
-			quality_mode,
-			skip_entity_discovery,
-		}) => {
+		async (
+			{
+				intent,
+				name,
+				max_credits_per_execution,
+				planning_budget,
+				quality_mode,
+				skip_entity_discovery,
+			},
+			extra,
+		) => {
 			try {
-				const result = await planWorkflow({
-					intent,
-					name: name ?? undefined,
-					max_credits_per_execution: max_credits_per_execution ?? undefined,
-					planning_budget: planning_budget ?? undefined,
-					quality_mode: quality_mode ?? undefined,
-					skip_entity_discovery: skip_entity_discovery ?? undefined,
-				});
+				const result = await planWorkflow(
+					{
+						intent,
+						name: name ?? undefined,
+						max_credits_per_execution: max_credits_per_execution ?? undefined,
+						planning_budget: planning_budget ?? undefined,
+						quality_mode: quality_mode ?? undefined,
+						skip_entity_discovery: skip_entity_discovery ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1384,7 +2257,8 @@ Returns: search results + full crawled content from top N results. Supports extr
 	// =========================================================================
 	// Create Workflow - Scheduled recurring monitoring (1-2 credits/execution)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_create_workflow",
 		{
 			description:
@@ -1572,35 +2446,38 @@ Returns: search results + full crawled content from top N results. Supports extr
 					),
 			},
 		},
-		async ({
-			name,
-			mode,
-			workflow_type,
-			operation_config,
-			steps,
-			intent,
-			stop_condition_type,
-			stop_condition_value,
-			stop_condition_operator,
-			stop_condition_confidence,
-			interval,
-			interval_minutes,
-			cron_expression,
-			scheduled_for,
-			anchor_minute,
-			timezone,
-			max_executions,
-			email_notifications,
-			email_per_execution,
-			email_digest,
-			email_recipients,
-			slack_webhook_url,
-			slack_per_execution,
-			slack_include_diff,
-			slack_include_summary,
-			dry_run,
-			recency_confidence_threshold,
-		}) => {
+		async (
+			{
+				name,
+				mode,
+				workflow_type,
+				operation_config,
+				steps,
+				intent,
+				stop_condition_type,
+				stop_condition_value,
+				stop_condition_operator,
+				stop_condition_confidence,
+				interval,
+				interval_minutes,
+				cron_expression,
+				scheduled_for,
+				anchor_minute,
+				timezone,
+				max_executions,
+				email_notifications,
+				email_per_execution,
+				email_digest,
+				email_recipients,
+				slack_webhook_url,
+				slack_per_execution,
+				slack_include_diff,
+				slack_include_summary,
+				dry_run,
+				recency_confidence_threshold,
+			},
+			extra,
+		) => {
 			try {
 				// Build stop condition from parameters
 				const stopCondition: Record<string, unknown> = {
@@ -1670,51 +2547,54 @@ Returns: search results + full crawled content from top N results. Supports extr
 					};
 				}
 
-				const result = await createWorkflow({
-					name,
-					mode: mode ?? "simple",
-					workflow_type: workflow_type ?? undefined,
-					operation_config: operation_config ?? undefined,
-					steps: steps as Array<{
-						step_id: string;
-						step_name: string;
-						step_type: "search" | "crawl" | "aggregate";
-						config: Record<string, unknown>;
-						depends_on?: string[];
-						output_key?: string;
-						cascade_condition?: {
-							type: string;
-							from_step?: string;
-							operator?: string;
-							value?: unknown;
-						};
-					}> ?? undefined,
-					intent: intent ?? undefined,
-					stop_condition: stopCondition as {
-						type:
-							| "result_count"
-							| "contains_url"
-							| "field_value"
-							| "extracted_field"
-							| "natural_language"
-							| "always";
+				const result = await createWorkflow(
+					{
+						name,
+						mode: mode ?? "simple",
+						workflow_type: workflow_type ?? undefined,
+						operation_config: operation_config ?? undefined,
+						steps:
+							(steps as Array<{
+								step_id: string;
+								step_name: string;
+								step_type: "search" | "crawl" | "aggregate";
+								config: Record<string, unknown>;
+								depends_on?: string[];
+								output_key?: string;
+								cascade_condition?: {
+									type: string;
+									from_step?: string;
+									operator?: string;
+									value?: unknown;
+								};
+							}>) ?? undefined,
+						intent: intent ?? undefined,
+						stop_condition: stopCondition as {
+							type:
+								| "result_count"
+								| "contains_url"
+								| "field_value"
+								| "extracted_field"
+								| "natural_language"
+								| "always";
+						},
+						interval: interval ?? undefined,
+						interval_minutes: interval_minutes ?? undefined,
+						cron_expression: cron_expression ?? undefined,
+						scheduled_for: scheduled_for ?? undefined,
+						anchor_minute: anchor_minute ?? undefined,
+						timezone: timezone ?? undefined,
+						max_executions: max_executions ?? undefined,
+						email_config: emailConfig,
+						slack_config: slackConfig,
+						dry_run: dry_run ?? undefined,
+						recency_confidence_threshold:
+							recency_confidence_threshold ?? undefined,
 					},
-					interval: interval ?? undefined,
-					interval_minutes: interval_minutes ?? undefined,
-					cron_expression: cron_expression ?? undefined,
-					scheduled_for: scheduled_for ?? undefined,
-					anchor_minute: anchor_minute ?? undefined,
-					timezone: timezone ?? undefined,
-					max_executions: max_executions ?? undefined,
-					email_config: emailConfig,
-					slack_config: slackConfig,
-					dry_run: dry_run ?? undefined,
-					recency_confidence_threshold: recency_confidence_threshold ?? undefined,
-				});
+					{ signal: extra.signal },
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1724,7 +2604,8 @@ Returns: search results + full crawled content from top N results. Supports extr
 	// =========================================================================
 	// List Workflows - Get all workflows (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_list_workflows",
 		{
 			description: "List all workflows with pagination and filtering (FREE).",
@@ -1743,17 +2624,18 @@ Returns: search results + full crawled content from top N results. Supports extr
 					.describe("Filter by status"),
 			},
 		},
-		async ({ limit, offset, status }) => {
+		async ({ limit, offset, status }, extra) => {
 			try {
-				const result = await listWorkflows({
-					limit: limit ?? undefined,
-					offset: offset ?? undefined,
-					status: status ?? undefined,
-				});
+				const result = await listWorkflows(
+					{
+						limit: limit ?? undefined,
+						offset: offset ?? undefined,
+						status: status ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1763,7 +2645,8 @@ Returns: search results + full crawled content from top N results. Supports extr
 	// =========================================================================
 	// Get Workflow - Get workflow details (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_get_workflow",
 		{
 			description:
@@ -1786,13 +2669,19 @@ Returns: search results + full crawled content from top N results. Supports extr
 					),
 			},
 		},
-		async ({ workflow_id, assessments }) => {
+		async ({ workflow_id, assessments }, extra) => {
 			try {
 				let assessmentSubmission: unknown | undefined;
 				if (assessments?.length) {
-					assessmentSubmission = await submitAssessments(workflow_id, { assessments });
+					assessmentSubmission = await submitAssessments(
+						workflow_id,
+						{ assessments },
+						{ signal: extra.signal },
+					);
 				}
-				const result = await getWorkflowDetails(workflow_id);
+				const result = await getWorkflowDetails(workflow_id, {
+					signal: extra.signal,
+				});
 				const baseResponse = assessmentSubmission
 					? { ...(result as unknown as Record<string, unknown>), assessment_submission: assessmentSubmission }
 					: result;
@@ -1808,9 +2697,7 @@ Returns: search results + full crawled content from top N results. Supports extr
 						? { ...responseObject, quality_loop: qualityLoopHint }
 						: baseResponse;
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-				};
+				return toolResult(response);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -1820,7 +2707,8 @@ Returns: search results + full crawled content from top N results. Supports extr
 	// =========================================================================
 	// Update Workflow - Modify workflow parameters (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_update_workflow",
 		{
 			description:
@@ -1946,31 +2834,34 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 					),
 			},
 		},
-		async ({
-			workflow_id,
-			name,
-			operation_config,
-			interval,
-			interval_minutes,
-			cron_expression,
-			scheduled_for,
-			anchor_minute,
-			timezone,
-			max_executions,
-			status,
-			email_notifications,
-			email_per_execution,
-			email_digest,
-			email_recipients,
-			disable_emails,
-			slack_webhook_url,
-			slack_per_execution,
-			slack_include_diff,
-			slack_include_summary,
-			disable_slack,
-			recency_confidence_threshold,
-			suppression_threshold,
-		}) => {
+		async (
+			{
+				workflow_id,
+				name,
+				operation_config,
+				interval,
+				interval_minutes,
+				cron_expression,
+				scheduled_for,
+				anchor_minute,
+				timezone,
+				max_executions,
+				status,
+				email_notifications,
+				email_per_execution,
+				email_digest,
+				email_recipients,
+				disable_emails,
+				slack_webhook_url,
+				slack_per_execution,
+				slack_include_diff,
+				slack_include_summary,
+				disable_slack,
+				recency_confidence_threshold,
+				suppression_threshold,
+			},
+			extra,
+		) => {
 			try {
 				// Build email config if any email settings provided
 				let emailConfig:
@@ -2039,26 +2930,30 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 						? { suppression_threshold }
 						: undefined;
 
-				const result = await updateWorkflow(workflow_id, {
-					name: name ?? undefined,
-					operation_config: operation_config ?? undefined,
-					interval: interval ?? undefined,
-					interval_minutes: interval_minutes ?? undefined,
-					cron_expression: cron_expression ?? undefined,
-					scheduled_for: scheduled_for ?? undefined,
-					anchor_minute: anchor_minute ?? undefined,
-					timezone: timezone ?? undefined,
-					max_executions: max_executions ?? undefined,
-					status: status ?? undefined,
-					email_config: emailConfig,
-					slack_config: slackConfig,
-					notification_settings: notificationSettings,
-					recency_confidence_threshold: recency_confidence_threshold ?? undefined,
-				});
+				const result = await updateWorkflow(
+					workflow_id,
+					{
+						name: name ?? undefined,
+						operation_config: operation_config ?? undefined,
+						interval: interval ?? undefined,
+						interval_minutes: interval_minutes ?? undefined,
+						cron_expression: cron_expression ?? undefined,
+						scheduled_for: scheduled_for ?? undefined,
+						anchor_minute: anchor_minute ?? undefined,
+						timezone: timezone ?? undefined,
+						max_executions: max_executions ?? undefined,
+						status: status ?? undefined,
+						email_config: emailConfig,
+						slack_config: slackConfig,
+						notification_settings: notificationSettings,
+						recency_confidence_threshold:
+							recency_confidence_threshold ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
+				await notifyResourcesUpdated(server, [workflowUri(workflow_id)]);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2068,7 +2963,8 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 	// =========================================================================
 	// Execute Workflow - Run workflow immediately (1-2 credits)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_execute_workflow",
 		{
 			description:
@@ -2083,15 +2979,23 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 					),
 			},
 		},
-		async ({ workflow_id, dry_run }) => {
+		async ({ workflow_id, dry_run }, extra) => {
 			try {
-				const result = await executeWorkflow(workflow_id, {
-					dry_run: dry_run ?? undefined,
-				});
+				const result = await executeWorkflow(
+					workflow_id,
+					{
+						dry_run: dry_run ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
+				if (!dry_run) {
+					await notifyResourcesUpdated(server, [
+						workflowUri(workflow_id),
+						workflowDiffUri(workflow_id),
+					]);
+				}
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2101,7 +3005,8 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 	// =========================================================================
 	// Workflow Timeline - Get execution history (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_workflow_timeline",
 		{
 			description:
@@ -2124,13 +3029,19 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 					),
 			},
 		},
-		async ({ workflow_id, assessments }) => {
+		async ({ workflow_id, assessments }, extra) => {
 			try {
 				let assessmentSubmission: unknown | undefined;
 				if (assessments?.length) {
-					assessmentSubmission = await submitAssessments(workflow_id, { assessments });
+					assessmentSubmission = await submitAssessments(
+						workflow_id,
+						{ assessments },
+						{ signal: extra.signal },
+					);
 				}
-				const result = await getWorkflowTimeline(workflow_id);
+				const result = await getWorkflowTimeline(workflow_id, {
+					signal: extra.signal,
+				});
 				const baseResponse = assessmentSubmission
 					? { ...(result as unknown as Record<string, unknown>), assessment_submission: assessmentSubmission }
 					: result;
@@ -2146,9 +3057,7 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 						? { ...responseObject, quality_loop: qualityLoopHint }
 						: baseResponse;
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-				};
+				return toolResult(response);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2158,7 +3067,8 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 	// =========================================================================
 	// Workflow Diff - Get execution diffs (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_workflow_diff",
 		{
 			description:
@@ -2189,16 +3099,24 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 					),
 			},
 		},
-		async ({ workflow_id, limit, since, assessments }) => {
+		async ({ workflow_id, limit, since, assessments }, extra) => {
 			try {
 				let assessmentSubmission: unknown | undefined;
 				if (assessments?.length) {
-					assessmentSubmission = await submitAssessments(workflow_id, { assessments });
+					assessmentSubmission = await submitAssessments(
+						workflow_id,
+						{ assessments },
+						{ signal: extra.signal },
+					);
 				}
-				const result = await getWorkflowDiff(workflow_id, {
-					limit: limit ?? undefined,
-					since: since ?? undefined,
-				});
+				const result = await getWorkflowDiff(
+					workflow_id,
+					{
+						limit: limit ?? undefined,
+						since: since ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
 				const baseResponse = assessmentSubmission
 					? { ...(result as unknown as Record<string, unknown>), assessment_submission: assessmentSubmission }
 					: result;
@@ -2214,9 +3132,7 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 						? { ...responseObject, quality_loop: qualityLoopHint }
 						: baseResponse;
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-				};
+				return toolResult(response);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2226,7 +3142,8 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 	// =========================================================================
 	// Workflow Execution Feedback - List ratings
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_execution_ratings",
 		{
 			description:
@@ -2278,34 +3195,255 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 				cursor: z.string().optional().describe("Opaque pagination cursor"),
 			},
 		},
-		async ({
-			workflow_id,
-			execution_id,
-			workflow_step_id,
-			signal_type,
-			actor_type,
-			reason_category,
-			limit,
-			since,
-			until,
-			cursor,
-		}) => {
+		async (
+			{
+				workflow_id,
+				execution_id,
+				workflow_step_id,
+				signal_type,
+				actor_type,
+				reason_category,
+				limit,
+				since,
+				until,
+				cursor,
+			},
+			extra,
+		) => {
 			try {
-				const result = await getExecutionRatings(workflow_id, {
-					execution_id: execution_id ?? undefined,
-					workflow_step_id: workflow_step_id ?? undefined,
-					signal_type: signal_type ?? "all",
-					actor_type: actor_type ?? "all",
-					reason_category: reason_category ?? "all",
-					limit: limit ?? 50,
-					since: since ?? undefined,
-					until: until ?? undefined,
-					cursor: cursor ?? undefined,
-				});
+				const result = await getExecutionRatings(
+					workflow_id,
+					{
+						execution_id: execution_id ?? undefined,
+						workflow_step_id: workflow_step_id ?? undefined,
+						signal_type: signal_type ?? "all",
+						actor_type: actor_type ?? "all",
+						reason_category: reason_category ?? "all",
+						limit: limit ?? 50,
+						since: since ?? undefined,
+						until: until ?? undefined,
+						cursor: cursor ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Workflow Execution Feedback - Rate
+	// =========================================================================
+	const reasonCategorySchema = z
+		.enum([
+			"relevant_results",
+			"accurate_information",
+			"timely_alert",
+			"good_formatting",
+			"irrelevant_results",
+			"missing_information",
+			"outdated_content",
+			"false_positive",
+			"missed_alert",
+			"too_slow",
+			"other",
+		])
+		.optional()
+		.describe("Why the result was good or bad");
+
+	const executionKindSchema = z
+		.enum([
+			"workflow_execution",
+			"search_job",
+			"crawl_job",
+			"workflow_step",
+			"ask_job",
+		])
+		.optional()
+		.describe("What kind of run is rated (default: workflow_execution)");
+
+	registerTool(
+		server,
+		"zipfai_rate_execution",
+		{
+			description:
+				"Rate whether a workflow run, search, crawl or ask was useful (FREE). Ratings calibrate the workflow's conditions and filters. Pass the args from a feedback_hint.action as-is, adding a rating. Rating the same run again updates the earlier rating.",
+			inputSchema: {
+				workflow_id: z
+					.string()
+					.optional()
+					.describe(
+						"Workflow ID (omit for standalone searches, crawls and asks)",
+					),
+				execution_id: z.string().describe("Execution or job ID to rate"),
+				rating: z
+					.enum(["positive", "negative"])
+					.describe("Was the result useful?"),
+				reason_category: reasonCategorySchema,
+				comment: z.string().optional().describe("Free-text explanation"),
+				execution_kind: executionKindSchema,
+				workflow_step_id: z
+					.string()
+					.optional()
+					.describe("Rate a single step of a multi-step workflow"),
+				result_url: z
+					.string()
+					.optional()
+					.describe("The specific result URL the rating is about"),
+				idempotency_key: z
+					.string()
+					.optional()
+					.describe(
+						"Reuse the same key when resubmitting a rating so it is only counted once (default: a new key per call)",
+					),
+			},
+		},
+		async (
+			{
+				workflow_id,
+				execution_id,
+				rating,
+				reason_category,
+				comment,
+				execution_kind,
+				workflow_step_id,
+				result_url,
+				idempotency_key,
+			},
+			extra,
+		) => {
+			try {
+				const result = await rateExecution(
+					workflow_id,
+					execution_id,
+					{
+						rating,
+						reason_category,
+						comment,
+						execution_kind,
+						workflow_step_id,
+						result_url,
+						idempotency_key: idempotency_key ?? randomUUID(),
+						actor_model: getActorModel(server),
+					},
+					{ signal: extra.signal },
+				);
+
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Workflow Execution Feedback - Batch rate
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_batch_rate_executions",
+		{
+			description:
+				"Rate several runs in one call (FREE), e.g. after reviewing zipfai_feedback_queue. Each rating is applied independently; the result lists which succeeded and which failed.",
+			inputSchema: {
+				workflow_id: z
+					.string()
+					.optional()
+					.describe(
+						"Workflow all ratings belong to (omit to rate runs across workflows and standalone jobs)",
+					),
+				ratings: z
+					.array(
+						z.object({
+							workflow_id: z
+								.string()
+								.optional()
+								.describe(
+									"Accepted so feedback_hint.action args can be passed as-is",
+								),
+							execution_id: z.string().describe("Execution or job ID to rate"),
+							rating: z.enum(["positive", "negative"]),
+							reason_category: reasonCategorySchema,
+							comment: z.string().optional(),
+							execution_kind: executionKindSchema,
+							workflow_step_id: z.string().optional(),
+							result_url: z.string().optional(),
+							idempotency_key: z
+								.string()
+								.optional()
+								.describe("Default: a new key per rating"),
+						}),
+					)
+					.min(1)
+					.max(100)
+					.describe("Ratings to submit (1-100)"),
+			},
+		},
+		async ({ workflow_id, ratings }, extra) => {
+			try {
+				const mismatched = ratings.find(
+					(item) =>
+						workflow_id && item.workflow_id && item.workflow_id !== workflow_id,
+				);
+				if (mismatched) {
+					throw new Error(
+						`Execution ${mismatched.execution_id} belongs to ${mismatched.workflow_id}, not ${workflow_id}`,
+					);
+				}
+
+				const actorModel = getActorModel(server);
+				const result = await batchRateExecutions(
+					workflow_id,
+					{
+						feedback: ratings.map(({ workflow_id: _, ...item }) => ({
+							...item,
+							idempotency_key: item.idempotency_key ?? randomUUID(),
+							actor_model: actorModel,
+						})),
+					},
+					{ signal: extra.signal },
+				);
+
+				return toolResult(result);
+			} catch (error) {
+				return formatError(error);
+			}
+		},
+	);
+
+	// =========================================================================
+	// Workflow Execution Feedback - Queue of unrated runs
+	// =========================================================================
+	registerTool(
+		server,
+		"zipfai_feedback_queue",
+		{
+			description:
+				"List recent runs that haven't been rated yet, most useful to rate first (FREE). Each item has a feedback_hint.action with the tool and args to rate it - add a rating and call zipfai_rate_execution (or collect several into zipfai_batch_rate_executions).",
+			inputSchema: {
+				workflow_id: z
+					.string()
+					.optional()
+					.describe("Only runs of this workflow"),
+				include_standalone: z
+					.boolean()
+					.optional()
+					.default(true)
+					.describe("Include standalone searches, crawls and asks"),
+				limit: z.number().optional().default(10).describe("Max items (1-50)"),
+			},
+		},
+		async ({ workflow_id, include_standalone, limit }, extra) => {
+			try {
+				const result = await getFeedbackQueue(
+					{ workflow_id, include_standalone, limit },
+					{ signal: extra.signal },
+				);
+
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2315,7 +3453,8 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 	// =========================================================================
 	// Workflow Execution Feedback - Stats
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_execution_rating_stats",
 		{
 			description:
@@ -2324,13 +3463,13 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 				workflow_id: z.string().describe("Workflow ID"),
 			},
 		},
-		async ({ workflow_id }) => {
+		async ({ workflow_id }, extra) => {
 			try {
-				const result = await getExecutionRatingStats(workflow_id);
+				const result = await getExecutionRatingStats(workflow_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2340,7 +3479,8 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 	// =========================================================================
 	// Feedback Impact - Closed-loop visibility (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_feedback_impact",
 		{
 			description:
@@ -2349,13 +3489,13 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 				workflow_id: z.string().describe("Workflow ID"),
 			},
 		},
-		async ({ workflow_id }) => {
+		async ({ workflow_id }, extra) => {
 			try {
-				const result = await getFeedbackImpact(workflow_id);
+				const result = await getFeedbackImpact(workflow_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2365,7 +3505,8 @@ Suppression threshold (0-100) controls notification intelligence — how aggress
 	// =========================================================================
 	// Workflow Updates Digest - Consolidated "what's new" view (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_workflow_updates",
 		{
 			description: `Consolidated digest of all workflow updates. One call replaces checking each workflow individually. FREE.
@@ -2443,7 +3584,10 @@ Output formats:
 					),
 			},
 		},
-		async ({ since, include_inactive, max_workflows, verbose, format, assessments }) => {
+		async (
+			{ since, include_inactive, max_workflows, verbose, format, assessments },
+			extra,
+		) => {
 			try {
 				let assessmentSubmission: Array<{ workflow_id: string; result: unknown }> = [];
 				// Submit assessments grouped by workflow_id
@@ -2465,48 +3609,41 @@ Output formats:
 					assessmentSubmission = await Promise.all(
 						Array.from(byWorkflow.entries()).map(async ([wfId, items]) => ({
 							workflow_id: wfId,
-							result: await submitAssessments(wfId, { assessments: items }),
+							result: await submitAssessments(
+								wfId,
+								{ assessments: items },
+								{ signal: extra.signal },
+							),
 						})),
 					);
 				}
-				const result = await getWorkflowUpdatesDigest({
-					since: since ?? undefined,
-					include_inactive: include_inactive ?? undefined,
-					max_workflows: max_workflows ?? undefined,
-					verbose: verbose ?? undefined,
-					format: format ?? undefined,
-				});
+				const result = await getWorkflowUpdatesDigest(
+					{
+						since: since ?? undefined,
+						include_inactive: include_inactive ?? undefined,
+						max_workflows: max_workflows ?? undefined,
+						verbose: verbose ?? undefined,
+						format: format ?? undefined,
+					},
+					{ signal: extra.signal },
+				);
 				const qualityLoopHint = buildWorkflowUpdatesQualityLoopHint({
 					payload: result,
 					assessmentsSubmitted: assessmentSubmission.length > 0,
 					assessmentWorkflowIds: assessments?.map((a) => a.workflow_id),
 				});
-				if (typeof result === "string") {
-					const sections: string[] = [result];
-					if (assessmentSubmission.length > 0) {
-						sections.push(
-							`assessment_submission:\n${JSON.stringify(assessmentSubmission, null, 2)}`,
-						);
-					}
-					if (qualityLoopHint) {
-						sections.push(`quality_loop:\n${JSON.stringify(qualityLoopHint, null, 2)}`);
-					}
-					return {
-						content: [{ type: "text", text: sections.join("\n\n") }],
-					};
-				}
-
 				const responseObject = {
-					...(result as unknown as Record<string, unknown>),
+					...result,
 					...(assessmentSubmission.length > 0
 						? { assessment_submission: assessmentSubmission }
 						: {}),
 					...(qualityLoopHint ? { quality_loop: qualityLoopHint } : {}),
 				};
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(responseObject, null, 2) }],
-				};
+				return toolResult(
+					responseObject,
+					renderWorkflowUpdates(responseObject),
+				);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2516,21 +3653,30 @@ Output formats:
 	// =========================================================================
 	// Delete Workflow - Stop and remove workflow (FREE)
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_delete_workflow",
 		{
-			description: "Delete a workflow and stop scheduled executions (FREE).",
+			description:
+				"Delete a workflow and stop scheduled executions (FREE). The user is asked to confirm first.",
 			inputSchema: {
 				workflow_id: z.string().describe("Workflow ID"),
+				confirm: confirmSchema,
 			},
 		},
-		async ({ workflow_id }) => {
+		async ({ workflow_id, confirm }, extra) => {
 			try {
-				const result = await deleteWorkflow(workflow_id);
+				await confirmOperation(
+					server,
+					await describeWorkflowDeletion(workflow_id, { signal: extra.signal }),
+					confirm,
+					{ signal: extra.signal },
+				);
+				const result = await deleteWorkflow(workflow_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2540,7 +3686,8 @@ Output formats:
 	// =========================================================================
 	// Workflow - Get Slack configuration status
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_get_workflow_slack_status",
 		{
 			description:
@@ -2549,13 +3696,13 @@ Output formats:
 				workflow_id: z.string().describe("Workflow ID"),
 			},
 		},
-		async ({ workflow_id }) => {
+		async ({ workflow_id }, extra) => {
 			try {
-				const result = await getWorkflowSlackStatus(workflow_id);
+				const result = await getWorkflowSlackStatus(workflow_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2565,7 +3712,8 @@ Output formats:
 	// =========================================================================
 	// Workflow - Test Slack notification
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_test_workflow_slack",
 		{
 			description:
@@ -2574,13 +3722,13 @@ Output formats:
 				workflow_id: z.string().describe("Workflow ID"),
 			},
 		},
-		async ({ workflow_id }) => {
+		async ({ workflow_id }, extra) => {
 			try {
-				const result = await testWorkflowSlack(workflow_id);
+				const result = await testWorkflowSlack(workflow_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2590,7 +3738,8 @@ Output formats:
 	// =========================================================================
 	// Workflow Validation - Get validation status
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_get_workflow_validation_status",
 		{
 			description:
@@ -2599,13 +3748,13 @@ Output formats:
 				workflow_id: z.string().describe("Workflow ID"),
 			},
 		},
-		async ({ workflow_id }) => {
+		async ({ workflow_id }, extra) => {
 			try {
-				const result = await getWorkflowValidationStatus(workflow_id);
+				const result = await getWorkflowValidationStatus(workflow_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2615,7 +3764,8 @@ Output formats:
 	// =========================================================================
 	// Workflow Validation - Run validation
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_validate_workflow",
 		{
 			description:
@@ -2638,17 +3788,22 @@ Output formats:
 					.describe("Re-validate even if recently validated (default: false)"),
 			},
 		},
-		async ({ workflow_id, url_health_check, full_validation, force }) => {
+		async (
+			{ workflow_id, url_health_check, full_validation, force },
+			extra,
+		) => {
 			try {
-				const result = await validateWorkflow(workflow_id, {
-					url_health_check,
-					full_validation,
-					force,
-				});
+				const result = await validateWorkflow(
+					workflow_id,
+					{
+						url_health_check,
+						full_validation,
+						force,
+					},
+					{ signal: extra.signal },
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2658,7 +3813,8 @@ Output formats:
 	// =========================================================================
 	// Workflow Recovery - Get suggestions
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_get_workflow_recovery_suggestions",
 		{
 			description:
@@ -2667,13 +3823,13 @@ Output formats:
 				workflow_id: z.string().describe("Workflow ID"),
 			},
 		},
-		async ({ workflow_id }) => {
+		async ({ workflow_id }, extra) => {
 			try {
-				const result = await getWorkflowRecoverySuggestions(workflow_id);
+				const result = await getWorkflowRecoverySuggestions(workflow_id, {
+					signal: extra.signal,
+				});
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2683,11 +3839,12 @@ Output formats:
 	// =========================================================================
 	// Workflow Recovery - Apply suggestions
 	// =========================================================================
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_apply_workflow_recovery",
 		{
 			description:
-				"Apply or reject recovery suggestions for a workflow (FREE). Updates workflow URLs with corrections and optionally triggers step retry.",
+				"Apply or reject recovery suggestions for a workflow (FREE). Updates workflow URLs with corrections and optionally triggers step retry. With apply_all the user is asked to confirm first.",
 			inputSchema: {
 				workflow_id: z.string().describe("Workflow ID"),
 				suggestion_ids: z
@@ -2709,28 +3866,45 @@ Output formats:
 					.describe(
 						"Mark affected steps for retry after applying (default: true)",
 					),
+				confirm: confirmSchema,
 			},
 		},
-		async ({
-			workflow_id,
-			suggestion_ids,
-			apply_all,
-			reject_all,
-			reject_reason,
-			retry_steps,
-		}) => {
+		async (
+			{
+				workflow_id,
+				suggestion_ids,
+				apply_all,
+				reject_all,
+				reject_reason,
+				retry_steps,
+				confirm,
+			},
+			extra,
+		) => {
 			try {
-				const result = await applyWorkflowRecovery(workflow_id, {
-					suggestion_ids,
-					apply_all,
-					reject_all,
-					reject_reason,
-					retry_steps,
-				});
+				if (apply_all) {
+					const summary = await describeRecoveryApplyAll(workflow_id, {
+						signal: extra.signal,
+					});
+					if (summary) {
+						await confirmOperation(server, summary, confirm, {
+							signal: extra.signal,
+						});
+					}
+				}
+				const result = await applyWorkflowRecovery(
+					workflow_id,
+					{
+						suggestion_ids,
+						apply_all,
+						reject_all,
+						reject_reason,
+						retry_steps,
+					},
+					{ signal: extra.signal },
+				);
 
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2741,26 +3915,26 @@ Output formats:
 	// Entity Schema APIs
 	// =========================================================================
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_list_entity_schemas",
 		{
 			description:
 				"List all entity schemas (FREE). Entity schemas define the structure of tracked items like job postings, products, or companies.",
 			inputSchema: {},
 		},
-		async () => {
+		async (_args, extra) => {
 			try {
-				const result = await listEntitySchemas();
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await listEntitySchemas({ signal: extra.signal });
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_create_entity_schema",
 		{
 			description:
@@ -2814,15 +3988,18 @@ Output formats:
 					.describe("Auto-close entities after N days stale"),
 			},
 		},
-		async ({
-			name,
-			display_name,
-			description,
-			dedup_key,
-			fields,
-			stale_after_days,
-			auto_close_after_days,
-		}) => {
+		async (
+			{
+				name,
+				display_name,
+				description,
+				dedup_key,
+				fields,
+				stale_after_days,
+				auto_close_after_days,
+			},
+			extra,
+		) => {
 			try {
 				const lifecycle_config =
 					stale_after_days || auto_close_after_days
@@ -2834,24 +4011,26 @@ Output formats:
 						  }
 						: undefined;
 
-				const result = await createEntitySchema({
-					name,
-					display_name,
-					description,
-					dedup_key,
-					fields,
-					lifecycle_config,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await createEntitySchema(
+					{
+						name,
+						display_name,
+						description,
+						dedup_key,
+						fields,
+						lifecycle_config,
+					},
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_get_entity_schema",
 		{
 			description: "Get entity schema details by name (FREE).",
@@ -2859,33 +4038,41 @@ Output formats:
 				schema_name: z.string().describe("Schema name (e.g., 'job_posting')"),
 			},
 		},
-		async ({ schema_name }) => {
+		async ({ schema_name }, extra) => {
 			try {
-				const result = await getEntitySchema(schema_name);
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await getEntitySchema(schema_name, {
+					signal: extra.signal,
+				});
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_delete_entity_schema",
 		{
 			description:
-				"Delete an entity schema and all associated entities (FREE). WARNING: This permanently deletes all entities in this schema.",
+				"Delete an entity schema and all associated entities (FREE). WARNING: This permanently deletes all entities in this schema. The user is asked to confirm first.",
 			inputSchema: {
 				schema_name: z.string().describe("Schema name to delete"),
+				confirm: confirmSchema,
 			},
 		},
-		async ({ schema_name }) => {
+		async ({ schema_name, confirm }, extra) => {
 			try {
-				const result = await deleteEntitySchema(schema_name);
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				await confirmOperation(
+					server,
+					await describeSchemaDeletion(schema_name, { signal: extra.signal }),
+					confirm,
+					{ signal: extra.signal },
+				);
+				const result = await deleteEntitySchema(schema_name, {
+					signal: extra.signal,
+				});
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -2896,7 +4083,8 @@ Output formats:
 	// Entity APIs
 	// =========================================================================
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_list_entities",
 		{
 			description:
@@ -2922,25 +4110,31 @@ Output formats:
 					.describe("Sort order (default: desc)"),
 			},
 		},
-		async ({ schema_name, status, limit, offset, sort_by, sort_order }) => {
+		async (
+			{ schema_name, status, limit, offset, sort_by, sort_order },
+			extra,
+		) => {
 			try {
-				const result = await listEntities(schema_name, {
-					status,
-					limit,
-					offset,
-					sort_by,
-					sort_order,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await listEntities(
+					schema_name,
+					{
+						status,
+						limit,
+						offset,
+						sort_by,
+						sort_order,
+					},
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_query_entities",
 		{
 			description:
@@ -2970,30 +4164,27 @@ Output formats:
 				offset: z.number().optional().describe("Pagination offset"),
 			},
 		},
-		async ({
-			schema_name,
-			filter,
-			aggregations,
-			limit,
-			offset,
-		}) => {
+		async ({ schema_name, filter, aggregations, limit, offset }, extra) => {
 			try {
-				const result = await queryEntities(schema_name, {
-					filter,
-					aggregations,
-					limit,
-					offset,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await queryEntities(
+					schema_name,
+					{
+						filter,
+						aggregations,
+						limit,
+						offset,
+					},
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_get_entity",
 		{
 			description: "Get a specific entity by ID (FREE).",
@@ -3002,19 +4193,20 @@ Output formats:
 				entity_id: z.string().describe("Entity ID"),
 			},
 		},
-		async ({ schema_name, entity_id }) => {
+		async ({ schema_name, entity_id }, extra) => {
 			try {
-				const result = await getEntity(schema_name, entity_id);
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await getEntity(schema_name, entity_id, {
+					signal: extra.signal,
+				});
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_update_entity",
 		{
 			description: "Update entity data or status (FREE).",
@@ -3031,22 +4223,29 @@ Output formats:
 					.describe("New entity status"),
 			},
 		},
-		async ({ schema_name, entity_id, data, status }) => {
+		async ({ schema_name, entity_id, data, status }, extra) => {
 			try {
-				const result = await updateEntity(schema_name, entity_id, {
-					data,
-					status,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await updateEntity(
+					schema_name,
+					entity_id,
+					{
+						data,
+						status,
+					},
+					{ signal: extra.signal },
+				);
+				await notifyResourcesUpdated(server, [
+					entityUri(schema_name, entity_id),
+				]);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_export_entities",
 		{
 			description: "Export entities as JSON or CSV (1 credit).",
@@ -3070,17 +4269,19 @@ Output formats:
 					.describe("Specific data fields to include"),
 			},
 		},
-		async ({ schema_name, format, status, limit, fields }) => {
+		async ({ schema_name, format, status, limit, fields }, extra) => {
 			try {
-				const result = await exportEntities(schema_name, {
-					format,
-					status,
-					limit,
-					fields,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await exportEntities(
+					schema_name,
+					{
+						format,
+						status,
+						limit,
+						fields,
+					},
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -3091,7 +4292,8 @@ Output formats:
 	// Entity Signal APIs
 	// =========================================================================
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_list_entity_signals",
 		{
 			description:
@@ -3101,22 +4303,24 @@ Output formats:
 				is_active: z.boolean().optional().describe("Filter by active status"),
 			},
 		},
-		async ({ schema_id, is_active }) => {
+		async ({ schema_id, is_active }, extra) => {
 			try {
-				const result = await listEntitySignals({
-					schema_id,
-					is_active,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await listEntitySignals(
+					{
+						schema_id,
+						is_active,
+					},
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_create_entity_signal",
 		{
 			description:
@@ -3166,18 +4370,21 @@ Output formats:
 					.describe("Actions to execute when triggered"),
 			},
 		},
-		async ({
-			schema_id,
-			name,
-			description,
-			condition_type,
-			condition_field,
-			condition_operator,
-			condition_value,
-			condition_threshold,
-			condition_natural_language,
-			actions,
-		}) => {
+		async (
+			{
+				schema_id,
+				name,
+				description,
+				condition_type,
+				condition_field,
+				condition_operator,
+				condition_value,
+				condition_threshold,
+				condition_natural_language,
+				actions,
+			},
+			extra,
+		) => {
 			try {
 				// Build condition config with proper type
 				const condition: {
@@ -3203,23 +4410,25 @@ Output formats:
 				if (condition_natural_language)
 					condition.natural_language = condition_natural_language;
 
-				const result = await createEntitySignal({
-					schema_id,
-					name,
-					description,
-					condition_config: condition,
-					actions_config: actions,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await createEntitySignal(
+					{
+						schema_id,
+						name,
+						description,
+						condition_config: condition,
+						actions_config: actions,
+					},
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_get_entity_signal",
 		{
 			description: "Get entity signal details (FREE).",
@@ -3227,19 +4436,20 @@ Output formats:
 				signal_id: z.string().describe("Signal ID"),
 			},
 		},
-		async ({ signal_id }) => {
+		async ({ signal_id }, extra) => {
 			try {
-				const result = await getEntitySignal(signal_id);
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await getEntitySignal(signal_id, {
+					signal: extra.signal,
+				});
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_update_entity_signal",
 		{
 			description: "Update entity signal configuration (FREE).",
@@ -3250,23 +4460,26 @@ Output formats:
 				is_active: z.boolean().optional().describe("Enable or disable the signal"),
 			},
 		},
-		async ({ signal_id, name, description, is_active }) => {
+		async ({ signal_id, name, description, is_active }, extra) => {
 			try {
-				const result = await updateEntitySignal(signal_id, {
-					name,
-					description,
-					is_active,
-				});
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await updateEntitySignal(
+					signal_id,
+					{
+						name,
+						description,
+						is_active,
+					},
+					{ signal: extra.signal },
+				);
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
 		},
 	);
 
-	server.registerTool(
+	registerTool(
+		server,
 		"zipfai_delete_entity_signal",
 		{
 			description: "Delete an entity signal (FREE).",
@@ -3274,12 +4487,12 @@ Output formats:
 				signal_id: z.string().describe("Signal ID to delete"),
 			},
 		},
-		async ({ signal_id }) => {
+		async ({ signal_id }, extra) => {
 			try {
-				const result = await deleteEntitySignal(signal_id);
-				return {
-					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-				};
+				const result = await deleteEntitySignal(signal_id, {
+					signal: extra.signal,
+				});
+				return toolResult(result);
 			} catch (error) {
 				return formatError(error);
 			}
@@ -0,0 +1,314 @@
+import { TOOL_INFO } from "./annotations.js";
+import { getStatus } from "./api.js";
+import { readConfig, type ToolsConfig } from "./config.js";
+
+// Named groups of tools, so agents can load only the tools they need: every registered
+// tool's description takes up context window in the client.
+
+export const TOOLSETS = {
+	search: [
+		"zipfai_quick_search",
+		"zipfai_search",
+		"zipfai_ask",
+		"zipfai_crawl",
+		"zipfai_get_crawl",
+		"zipfai_cancel_crawl",
+		"zipfai_suggest_schema",
+		"zipfai_research",
+	],
+	sessions: [
+		"zipfai_create_session",
+		"zipfai_session_search",
+		"zipfai_session_crawl",
+		"zipfai_list_sessions",
+		"zipfai_use_session",
+		"zipfai_get_session",
+		"zipfai_session_timeline",
+		"zipfai_export_session",
+		"zipfai_complete_session",
+		"zipfai_archive_session",
+		"zipfai_resume_session",
+	],
+	workflows: [
+		"zipfai_assess_intent",
+		"zipfai_plan_workflow",
+		"zipfai_create_workflow",
+		"zipfai_list_workflows",
+		"zipfai_get_workflow",
+		"zipfai_update_workflow",
+		"zipfai_execute_workflow",
+		"zipfai_workflow_timeline",
+		"zipfai_workflow_diff",
+		"zipfai_workflow_updates",
+		"zipfai_delete_workflow",
+		"zipfai_get_workflow_slack_status",
+		"zipfai_test_workflow_slack",
+	],
+	quality: [
+		"zipfai_execution_ratings",
+		"zipfai_rate_execution",
+		"zipfai_batch_rate_executions",
+		"zipfai_feedback_queue",
+		"zipfai_execution_rating_stats",
+		"zipfai_feedback_impact",
+		"zipfai_get_workflow_validation_status",
+		"zipfai_validate_workflow",
+		"zipfai_get_workflow_recovery_suggestions",
+		"zipfai_apply_workflow_recovery",
+	],
+	entities: [
+		"zipfai_list_entity_schemas",
+		"zipfai_create_entity_schema",
+		"zipfai_get_entity_schema",
+		"zipfai_delete_entity_schema",
+		"zipfai_list_entities",
+		"zipfai_query_entities",
+		"zipfai_get_entity",
+		"zipfai_update_entity",
+		"zipfai_export_entities",
+		"zipfai_list_entity_signals",
+		"zipfai_create_entity_signal",
+		"zipfai_get_entity_signal",
+		"zipfai_update_entity_signal",
+		"zipfai_delete_entity_signal",
+	],
+	admin: ["zipfai_status", "zipfai_usage_report"],
+} as const satisfies Record<string, readonly string[]>;
+
+export type ToolsetName = keyof typeof TOOLSETS;
+
+export const TOOLSET_NAMES = Object.keys(TOOLSETS) as ToolsetName[];
+
+const ALL_TOOLS = new Set<string>(Object.values(TOOLSETS).flat());
+
+// =========================================================================
+// Safety modes
+// =========================================================================
+
+// full: every tool. no_spend: only FREE tools that stay within the account. read_only: only
+// those that don't change anything in it (browsing workflows, sessions and entities).
+export const TOOL_MODES = ["full", "read_only", "no_spend"] as const;
+
+export type ToolMode = (typeof TOOL_MODES)[number];
+
+// Tools that spend credits by the list prices in TOOL_INFO (as in their descriptions).
+// zipfai_create_workflow schedules paid executions. The account's published credit_costs
+// (loadCreditCosts) win for the tools they price.
+export const PAID_TOOLS = new Set<string>(
+	Object.keys(TOOL_INFO).filter((name) => TOOL_INFO[name].credits),
+);
+
+// credit_costs from zipfai_status, once loaded
+let creditCosts: Record<string, unknown> | undefined;
+
+// How long startup waits for zipfai_status before falling back to the list prices
+const CREDIT_COSTS_TIMEOUT = 10000;
+
+export function setCreditCosts(
+	costs: Record<string, unknown> | undefined,
+): void {
+	creditCosts = costs;
+}
+
+// Fetch the account's credit_costs, so no_spend and read_only follow price changes.
+// Returns false when they can't be had (offline, no API key), leaving the list prices in use.
+export async function loadCreditCosts(): Promise<boolean> {
+	try {
+		const status = await getStatus({ timeoutMs: CREDIT_COSTS_TIMEOUT });
+		setCreditCosts(status.credit_costs);
+		return true;
+	} catch (error) {
+		console.error(
+			`Couldn't load credit costs, using list prices: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return false;
+	}
+}
+
+function isFreeCost(cost: unknown): boolean {
+	return (
+		cost === 0 || (typeof cost === "string" && /^(0|free)$/i.test(cost.trim()))
+	);
+}
+
+// Whether a tool spends credits: by its credit_costs entry when the account publishes one,
+// otherwise by its list price
+export function isPaidTool(name: string): boolean {
+	const key = TOOL_INFO[name]?.creditCostKey;
+	if (key && creditCosts && key in creditCosts) {
+		return !isFreeCost(creditCosts[key]);
+	}
+	return PAID_TOOLS.has(name);
+}
+
+// Tools that reach the open web without a published price (zipfai_validate_workflow,
+// zipfai_test_workflow_slack). Their descriptions say FREE, but zipfai_status's
+// credit_costs doesn't list them, so no_spend and read_only leave them out too.
+export const UNPRICED_WEB_TOOLS = new Set<string>(
+	Object.keys(TOOL_INFO).filter(
+		(name) => TOOL_INFO[name].openWorld && !TOOL_INFO[name].credits,
+	),
+);
+
+// Free tools that create, change or delete something in the account (or send a message)
+export const MUTATING_TOOLS = new Set<string>([
+	"zipfai_cancel_crawl",
+	"zipfai_create_session",
+	"zipfai_complete_session",
+	"zipfai_archive_session",
+	"zipfai_resume_session",
+	"zipfai_update_workflow",
+	"zipfai_delete_workflow",
+	"zipfai_test_workflow_slack",
+	"zipfai_rate_execution",
+	"zipfai_batch_rate_executions",
+	"zipfai_apply_workflow_recovery",
+	"zipfai_create_entity_schema",
+	"zipfai_delete_entity_schema",
+	"zipfai_update_entity",
+	"zipfai_create_entity_signal",
+	"zipfai_update_entity_signal",
+	"zipfai_delete_entity_signal",
+]);
+
+// Arguments that make an otherwise read-only tool change something: answering quality
+// questions submits assessments and can auto-fix the workflow
+const MUTATING_ARGS = ["assessments"];
+
+function isAllowedInMode(name: string, mode: ToolMode): boolean {
+	if (mode === "full") return true;
+	if (isPaidTool(name) || UNPRICED_WEB_TOOLS.has(name)) return false;
+	return mode === "no_spend" || !MUTATING_TOOLS.has(name);
+}
+
+function parseMode(value: string | undefined): ToolMode {
+	const mode = value?.trim().toLowerCase() || "full";
+	if (!(TOOL_MODES as readonly string[]).includes(mode)) {
+		throw new Error(
+			`Unknown mode "${value}" (expected: ${TOOL_MODES.join(", ")})`,
+		);
+	}
+	return mode as ToolMode;
+}
+
+// Mode from --mode, then ZIPF_MODE, then "tools.mode" in the config file
+export function getToolMode(
+	selection: ToolsConfig = getToolsConfig(),
+): ToolMode {
+	return parseMode(selection.mode);
+}
+
+// Refuse a call to a registered tool whose arguments would change something in read_only mode
+export function checkToolMode(
+	name: string,
+	args: Record<string, unknown>,
+): void {
+	if (getToolMode() !== "read_only") return;
+
+	for (const arg of MUTATING_ARGS) {
+		const value = args[arg];
+		if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+			continue;
+		}
+		throw new Error(
+			`${name} can't take ${arg} in read_only mode: answering them changes the workflow. Call it without ${arg}.`,
+		);
+	}
+}
+
+// =========================================================================
+// Selection
+// =========================================================================
+
+// Selection given as CLI flags (--toolsets, --allow-tools, --deny-tools, --mode)
+let cliSelection: ToolsConfig = {};
+
+// Comma-separated list (env, CLI, "config set") or a JSON array (config file)
+function parseList(value: unknown): string[] | undefined {
+	const items = Array.isArray(value)
+		? value.map(String)
+		: typeof value === "string"
+			? value.split(",")
+			: undefined;
+	if (!items) return undefined;
+	const list = items.map((item) => item.trim()).filter(Boolean);
+	return list.length > 0 ? list : undefined;
+}
+
+// Each field comes from the CLI flag, then ZIPF_TOOLSETS / ZIPF_TOOLS_ALLOW / ZIPF_TOOLS_DENY /
+// ZIPF_MODE, then "tools" in the config file
+export function getToolsConfig(): ToolsConfig {
+	const config = readConfig().tools ?? {};
+	return {
+		toolsets:
+			parseList(cliSelection.toolsets) ??
+			parseList(process.env.ZIPF_TOOLSETS) ??
+			parseList(config.toolsets),
+		allow:
+			parseList(cliSelection.allow) ??
+			parseList(process.env.ZIPF_TOOLS_ALLOW) ??
+			parseList(config.allow),
+		deny:
+			parseList(cliSelection.deny) ??
+			parseList(process.env.ZIPF_TOOLS_DENY) ??
+			parseList(config.deny),
+		mode:
+			cliSelection.mode?.trim() ||
+			process.env.ZIPF_MODE?.trim() ||
+			config.mode?.trim() ||
+			undefined,
+	};
+}
+
+// Names of the tools to register: the selected toolsets (all when none are selected, "all"
+// selects every one), plus allowed tools, minus denied ones and those the mode rules out
+// (even when allowed)
+export function getEnabledTools(
+	selection: ToolsConfig = getToolsConfig(),
+): Set<string> {
+	const enabled = new Set<string>();
+	const toolsets = selection.toolsets ?? ["all"];
+	for (const toolset of toolsets) {
+		if (toolset === "all") {
+			for (const name of ALL_TOOLS) enabled.add(name);
+		} else if (toolset in TOOLSETS) {
+			for (const name of TOOLSETS[toolset as ToolsetName]) enabled.add(name);
+		} else {
+			throw new Error(
+				`Unknown toolset "${toolset}" (expected: all, ${TOOLSET_NAMES.join(", ")})`,
+			);
+		}
+	}
+
+	for (const [field, names] of [
+		["allow", selection.allow],
+		["deny", selection.deny],
+	] as const) {
+		const unknown = names?.find((name) => !ALL_TOOLS.has(name));
+		if (unknown) {
+			throw new Error(`Unknown tool "${unknown}" in the ${field} list`);
+		}
+	}
+
+	for (const name of selection.allow ?? []) enabled.add(name);
+	for (const name of selection.deny ?? []) enabled.delete(name);
+
+	const mode = getToolMode(selection);
+	for (const name of enabled) {
+		if (!isAllowedInMode(name, mode)) enabled.delete(name);
+	}
+	return enabled;
+}
+
+// Apply the CLI flags and check the whole selection before the server starts.
+// Returns a description for the startup log, or undefined when every tool is enabled.
+export function configureToolsets(flags: ToolsConfig): string | undefined {
+	cliSelection = flags;
+
+	const selection = getToolsConfig();
+	const enabled = getEnabledTools(selection);
+	if (enabled.size === ALL_TOOLS.size) return undefined;
+
+	const toolsets = (selection.toolsets ?? ["all"]).join(", ");
+	return `Registering ${enabled.size} of ${ALL_TOOLS.size} tools (toolsets: ${toolsets}, mode: ${getToolMode(selection)})`;
+}
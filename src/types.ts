@@ -1,18 +1,18 @@
 // Quick Search (lightweight, fast)
 export interface QuickSearchResponse {
 	results: {
-		title: string;
+		title?: string | null;
 		url: string;
-		description: string;
+		description?: string | null;
 		published_date: string;
 	}[];
 }
 
 // Full Search Types
 export interface SearchResult {
-	title: string;
+	title?: string | null;
 	url: string;
-	description: string;
+	description?: string | null;
 	published_date?: string;
 	relevance_score?: number;
 }
@@ -23,8 +23,16 @@ export interface QueryInterpretation {
 	intent?: string;
 	confidence?: number;
 	metadata_status?: "pending" | "processing" | "completed" | "failed" | null;
-	document_types?: { type: string; confidence: number; reasoning: string }[];
-	content_types?: { type: string; confidence: number; reasoning: string }[];
+	document_types?: {
+		type: string;
+		confidence: number;
+		reasoning?: string | null;
+	}[];
+	content_types?: {
+		type: string;
+		confidence: number;
+		reasoning?: string | null;
+	}[];
 	dewey_classifications?: {
 		code: string;
 		label: string;
@@ -45,7 +53,7 @@ export interface QueryInterpretation {
 export interface SuggestedQuery {
 	query: string;
 	type: string;
-	reasoning: string;
+	reasoning?: string | null;
 	confidence: number;
 }
 
@@ -102,7 +110,7 @@ export interface AskResponse {
 	answer: string;
 	sources: {
 		url: string;
-		title: string;
+		title?: string | null;
 		snippet?: string;
 		relevance?: number;
 	}[];
@@ -237,6 +245,16 @@ export interface CreateSessionResponse {
 	session: Session;
 }
 
+export interface ListSessionsResponse {
+	sessions: Session[];
+	pagination?: {
+		total: number;
+		limit: number;
+		offset: number;
+		hasMore?: boolean;
+	};
+}
+
 export interface SessionTimelineOperation {
 	id: string;
 	type: "search" | "crawl";
@@ -245,6 +263,11 @@ export interface SessionTimelineOperation {
 	completed_at?: string;
 	credits_consumed?: number;
 	summary?: string;
+	// The job the operation ran (fetch its results with GET /search/jobs/:id or /crawls/:id)
+	search_job_id?: string;
+	crawl_id?: string;
+	query?: string;
+	urls?: string[];
 }
 
 export interface SessionTimelineResponse {
@@ -263,7 +286,7 @@ export interface ResearchResponse {
 	answer?: string;
 	sources?: {
 		url: string;
-		title: string;
+		title?: string | null;
 		content_preview?: string;
 		crawled?: boolean;
 	}[];
@@ -0,0 +1,434 @@
+import {
+	getApiKeyFingerprint,
+	getSessionTimeline,
+	getStatus,
+	getWorkflowDetails,
+} from "./api.js";
+import {
+	type AuditEntry,
+	formatSpendTotals,
+	readAuditEntries,
+	type SpendTotals,
+	summarizeSpend,
+} from "./audit.js";
+import { DEFAULT_PROFILE, getProfileName } from "./config.js";
+import type { RequestOptions } from "./request.js";
+
+// Spend analytics over the local audit log, enriched with (free) session and workflow stats from the API
+
+// Default report window
+export const DEFAULT_USAGE_DAYS = 7;
+
+// Sessions / workflows looked up in the API per report (most expensive first)
+const MAX_LOOKUPS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionUsage extends SpendTotals {
+	// From the session timeline (missing with include_api_stats: false)
+	api?: {
+		credits_in_range: number;
+		total_credits?: number;
+		operation_count?: number;
+	};
+	error?: string;
+}
+
+export interface WorkflowUsage extends SpendTotals {
+	// From the workflow details, including scheduled runs the agent never saw
+	api?: {
+		name: string;
+		status: string;
+		executions_in_range: number;
+		credits_in_range: number;
+		scheduled_credits_in_range: number;
+		total_executions?: number;
+		total_credits_consumed?: number;
+	};
+	error?: string;
+}
+
+export interface UsageReport {
+	since: string;
+	until: string;
+	// Tool calls made through this server (from the audit log)
+	total: SpendTotals;
+	by_tool: Record<string, SpendTotals>;
+	by_day: Record<string, SpendTotals>;
+	by_session: Record<string, SessionUsage>;
+	by_workflow: Record<string, WorkflowUsage>;
+	balance?: {
+		credits: number;
+		source: "api" | "audit_log";
+		as_of: string;
+	};
+	burn_rate: {
+		credits_per_day: number;
+		// Tool-call spend plus scheduled workflow runs in the window
+		credits_in_range: number;
+		days: number;
+	};
+	projection: {
+		days_remaining?: number;
+		runs_out_at?: string;
+		note: string;
+	};
+	lookups_skipped?: { sessions: number; workflows: number };
+}
+
+// Accept YYYY-MM-DD (start of that UTC day) or any date Date.parse understands
+function parseDate(value: string, name: string): number {
+	const time = Date.parse(
+		/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value,
+	);
+	if (Number.isNaN(time)) {
+		throw new Error(
+			`Invalid ${name}: ${value} (expected YYYY-MM-DD or an ISO timestamp)`,
+		);
+	}
+	return time;
+}
+
+// Report window: since defaults to DEFAULT_USAGE_DAYS ago, until to now.
+// A bare YYYY-MM-DD until includes that whole day.
+export function resolveUsageRange(
+	since?: string,
+	until?: string,
+	now = Date.now(),
+): { since: number; until: number } {
+	const end = until
+		? parseDate(until, "until") +
+			(/^\d{4}-\d{2}-\d{2}$/.test(until) ? DAY_MS - 1 : 0)
+		: now;
+	const start = since
+		? parseDate(since, "since")
+		: now - DEFAULT_USAGE_DAYS * DAY_MS;
+	if (start > end) {
+		throw new Error("since must be before until");
+	}
+	return { since: start, until: end };
+}
+
+function inRange(
+	timestamp: string | undefined,
+	since: number,
+	until: number,
+): boolean {
+	if (!timestamp) return false;
+	const time = Date.parse(timestamp);
+	return time >= since && time <= until;
+}
+
+// Group entries by a key, keeping the most expensive groups first
+function groupBy(
+	entries: AuditEntry[],
+	key: (entry: AuditEntry) => string | undefined,
+): [string, SpendTotals][] {
+	const groups = new Map<string, AuditEntry[]>();
+	for (const entry of entries) {
+		const id = key(entry);
+		if (!id) continue;
+		groups.set(id, [...(groups.get(id) ?? []), entry]);
+	}
+	return [...groups.entries()]
+		.map(([id, group]): [string, SpendTotals] => [
+			id,
+			summarizeSpend(group).total,
+		])
+		.sort(([, a], [, b]) => b.credits - a.credits);
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+// Only calls made with the key whose balance the report projects count; entries logged
+// before keys were fingerprinted fall back to their profile
+function isSameAccount(
+	entry: AuditEntry,
+	account: string | undefined,
+	profile: string,
+): boolean {
+	if (entry.account && account) return entry.account === account;
+	return (entry.profile ?? DEFAULT_PROFILE) === profile;
+}
+
+async function lookupSession(
+	sessionId: string,
+	totals: SpendTotals,
+	range: { since: number; until: number },
+	options?: RequestOptions,
+): Promise<SessionUsage> {
+	try {
+		const timeline = await getSessionTimeline(sessionId, options);
+		const creditsInRange = (timeline.operations ?? [])
+			.filter((op) =>
+				inRange(op.completed_at ?? op.created_at, range.since, range.until),
+			)
+			.reduce((sum, op) => sum + (op.credits_consumed ?? 0), 0);
+		return {
+			...totals,
+			api: {
+				credits_in_range: creditsInRange,
+				total_credits: timeline.aggregates?.total_credits,
+				operation_count: timeline.aggregates?.operation_count,
+			},
+		};
+	} catch (error) {
+		options?.signal?.throwIfAborted();
+		return { ...totals, error: errorMessage(error) };
+	}
+}
+
+async function lookupWorkflow(
+	workflowId: string,
+	totals: SpendTotals,
+	range: { since: number; until: number },
+	options?: RequestOptions,
+): Promise<WorkflowUsage> {
+	try {
+		const details = await getWorkflowDetails(workflowId, options);
+		const executions = (details.executions ?? []).filter((execution) =>
+			inRange(
+				execution.completed_at ?? execution.started_at,
+				range.since,
+				range.until,
+			),
+		);
+		const credits = (trigger?: string) =>
+			executions
+				.filter((execution) => !trigger || execution.trigger_type === trigger)
+				.reduce((sum, execution) => sum + (execution.credits_consumed ?? 0), 0);
+		return {
+			...totals,
+			api: {
+				name: details.workflow.name,
+				status: details.workflow.status,
+				executions_in_range: executions.length,
+				credits_in_range: credits(),
+				scheduled_credits_in_range: credits("scheduled"),
+				total_executions: details.stats?.total_executions,
+				total_credits_consumed: details.stats?.total_credits_consumed,
+			},
+		};
+	} catch (error) {
+		options?.signal?.throwIfAborted();
+		return { ...totals, error: errorMessage(error) };
+	}
+}
+
+// Build a usage report. With include_api_stats (default), sessions and workflows from the log are
+// looked up in the API and the balance comes from the status endpoint - all FREE calls.
+export async function buildUsageReport(
+	params: { since?: string; until?: string; include_api_stats?: boolean } = {},
+	options?: RequestOptions,
+): Promise<UsageReport> {
+	const now = Date.now();
+	const range = resolveUsageRange(params.since, params.until, now);
+	const includeApiStats = params.include_api_stats ?? true;
+
+	const account = getApiKeyFingerprint();
+	const profile = getProfileName();
+	const ownEntries = (entries: AuditEntry[]) =>
+		entries.filter((entry) => isSameAccount(entry, account, profile));
+
+	const day = (time: number) => new Date(time).toISOString().slice(0, 10);
+	const entries = ownEntries(
+		readAuditEntries({ since: day(range.since), until: day(range.until) }),
+	).filter((entry) => inRange(entry.timestamp, range.since, range.until));
+	const summary = summarizeSpend(entries);
+
+	const sessions = groupBy(entries, (entry) => entry.session_id);
+	const workflows = groupBy(entries, (entry) => entry.workflow_id);
+
+	const bySession: Record<string, SessionUsage> = {};
+	const byWorkflow: Record<string, WorkflowUsage> = {};
+	let balance: UsageReport["balance"];
+
+	if (includeApiStats) {
+		const [sessionUsage, workflowUsage, status] = await Promise.all([
+			Promise.all(
+				sessions
+					.slice(0, MAX_LOOKUPS)
+					.map(([id, totals]) => lookupSession(id, totals, range, options)),
+			),
+			Promise.all(
+				workflows
+					.slice(0, MAX_LOOKUPS)
+					.map(([id, totals]) => lookupWorkflow(id, totals, range, options)),
+			),
+			getStatus(options).catch((error) => {
+				options?.signal?.throwIfAborted();
+				console.error(
+					"Usage report: failed to fetch balance:",
+					errorMessage(error),
+				);
+				return undefined;
+			}),
+		]);
+		sessionUsage.forEach((usage, i) => {
+			bySession[sessions[i][0]] = usage;
+		});
+		workflowUsage.forEach((usage, i) => {
+			byWorkflow[workflows[i][0]] = usage;
+		});
+		if (status) {
+			balance = {
+				credits: status.user.credits_balance,
+				source: "api",
+				as_of: new Date(now).toISOString(),
+			};
+		}
+	}
+
+	// Sessions / workflows not looked up still get their local totals
+	for (const [id, totals] of sessions) bySession[id] ??= totals;
+	for (const [id, totals] of workflows) byWorkflow[id] ??= totals;
+
+	// Offline (or status failed): the last balance an API response reported
+	if (!balance) {
+		const latest = ownEntries(readAuditEntries())
+			.reverse()
+			.find((entry) => typeof entry.balance_after === "number");
+		if (latest?.balance_after !== undefined) {
+			balance = {
+				credits: latest.balance_after,
+				source: "audit_log",
+				as_of: latest.timestamp,
+			};
+		}
+	}
+
+	// Scheduled runs spend credits without a tool call; manual runs are already in the log
+	const scheduledCredits = Object.values(byWorkflow).reduce(
+		(sum, usage) => sum + (usage.api?.scheduled_credits_in_range ?? 0),
+		0,
+	);
+	const creditsInRange = summary.total.credits + scheduledCredits;
+	const days = Math.max(
+		(Math.min(range.until, now) - range.since) / DAY_MS,
+		1 / 24,
+	);
+	const creditsPerDay = creditsInRange / days;
+
+	return {
+		since: new Date(range.since).toISOString(),
+		until: new Date(range.until).toISOString(),
+		...summary,
+		by_session: bySession,
+		by_workflow: byWorkflow,
+		balance,
+		burn_rate: {
+			credits_per_day: roundRate(creditsPerDay),
+			credits_in_range: creditsInRange,
+			days: round(days),
+		},
+		projection: projectRunout(balance?.credits, creditsPerDay, now),
+		...(sessions.length > MAX_LOOKUPS || workflows.length > MAX_LOOKUPS
+			? {
+					lookups_skipped: {
+						sessions: Math.max(0, sessions.length - MAX_LOOKUPS),
+						workflows: Math.max(0, workflows.length - MAX_LOOKUPS),
+					},
+				}
+			: {}),
+	};
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+// Small burn rates (a few credits over months) shouldn't round down to 0
+function roundRate(value: number): number {
+	return Number(value.toPrecision(3));
+}
+
+function projectRunout(
+	balance: number | undefined,
+	creditsPerDay: number,
+	now: number,
+): UsageReport["projection"] {
+	if (balance === undefined) {
+		return {
+			note: "Balance unknown - no API access and no balance in the audit log.",
+		};
+	}
+	if (creditsPerDay <= 0) {
+		return {
+			note: "No credits spent in this window, so the balance isn't going down.",
+		};
+	}
+
+	const daysRemaining = balance / creditsPerDay;
+	return {
+		days_remaining: round(daysRemaining),
+		runs_out_at: new Date(now + daysRemaining * DAY_MS).toISOString(),
+		note: `At ${roundRate(creditsPerDay)} credits/day, ${balance} credits last about ${Math.floor(daysRemaining)} more day(s).`,
+	};
+}
+
+// =========================================================================
+// Text rendering (CLI)
+// =========================================================================
+
+export function formatUsageReport(report: UsageReport): string {
+	const lines = [`Usage from ${report.since} to ${report.until}`, ""];
+
+	const labels = [
+		...Object.keys(report.by_tool),
+		...Object.keys(report.by_session),
+		...Object.keys(report.by_workflow),
+	];
+	const width = Math.max(...labels.map((label) => label.length), 10);
+	const section = (
+		title: string,
+		rows: [string, SpendTotals][],
+		extra?: (id: string) => string,
+	) => {
+		if (rows.length === 0) return;
+		lines.push(`${title}:`);
+		for (const [id, totals] of rows) {
+			lines.push(`${formatSpendTotals(id, totals, width)}${extra?.(id) ?? ""}`);
+		}
+		lines.push("");
+	};
+
+	if (report.total.calls === 0) {
+		lines.push("No tool calls logged in this window.", "");
+	}
+	section(
+		"By tool",
+		Object.entries(report.by_tool).sort(
+			([, a], [, b]) => b.credits - a.credits,
+		),
+	);
+	section("By day", Object.entries(report.by_day).sort());
+	section("By session", Object.entries(report.by_session), (id) => {
+		const { api, error } = report.by_session[id];
+		if (error) return `  [lookup failed: ${error}]`;
+		return api
+			? `  [API: ${api.credits_in_range} in range, ${api.total_credits ?? "?"} total]`
+			: "";
+	});
+	section("By workflow", Object.entries(report.by_workflow), (id) => {
+		const { api, error } = report.by_workflow[id];
+		if (error) return `  [lookup failed: ${error}]`;
+		return api
+			? `  [${api.name}: ${api.executions_in_range} runs, ${api.credits_in_range} credits in range]`
+			: "";
+	});
+
+	lines.push(formatSpendTotals("Total", report.total, width));
+	lines.push(
+		`Burn rate: ${report.burn_rate.credits_per_day} credits/day (${report.burn_rate.credits_in_range} credits over ${report.burn_rate.days} days, including scheduled workflow runs)`,
+	);
+	if (report.balance) {
+		lines.push(
+			`Balance: ${report.balance.credits} credits (${report.balance.source}, ${report.balance.as_of})`,
+		);
+	}
+	lines.push(report.projection.note);
+
+	return lines.join("\n");
+}
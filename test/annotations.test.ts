@@ -0,0 +1,103 @@
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { CREDIT_COST_META_KEY, TOOL_INFO } from "../src/annotations.js";
+import { MUTATING_TOOLS } from "../src/toolsets.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("tool annotations", () => {
+	let test: TestClient;
+	let tools: Map<string, Tool>;
+
+	beforeAll(async () => {
+		test = await startTestClient();
+		const listed = await test.client.listTools();
+		tools = new Map(listed.tools.map((tool) => [tool.name, tool]));
+	});
+
+	afterAll(async () => {
+		await test.close();
+	});
+
+	it("gives every tool a title, all four hints and a credit cost", () => {
+		for (const tool of tools.values()) {
+			expect(tool.title, tool.name).toBeTruthy();
+			expect(tool.annotations, tool.name).toEqual({
+				title: tool.title,
+				readOnlyHint: expect.any(Boolean),
+				destructiveHint: expect.any(Boolean),
+				idempotentHint: expect.any(Boolean),
+				openWorldHint: expect.any(Boolean),
+			});
+			expect(tool._meta?.[CREDIT_COST_META_KEY], tool.name).toEqual({
+				free: expect.any(Boolean),
+				estimate: expect.stringMatching(/credits$/),
+			});
+		}
+	});
+
+	it("marks reads, web access, destructive changes and prices", () => {
+		expect(tools.get("zipfai_list_workflows")?.annotations).toMatchObject({
+			readOnlyHint: true,
+			openWorldHint: false,
+		});
+		expect(tools.get("zipfai_delete_workflow")?.annotations).toMatchObject({
+			readOnlyHint: false,
+			destructiveHint: true,
+		});
+		expect(tools.get("zipfai_create_session")?.annotations).toMatchObject({
+			readOnlyHint: false,
+			destructiveHint: false,
+			idempotentHint: false,
+		});
+
+		const search = tools.get("zipfai_search");
+		expect(search?.annotations?.openWorldHint).toBe(true);
+		expect(search?._meta?.[CREDIT_COST_META_KEY]).toEqual({
+			free: false,
+			estimate: "1-2 credits",
+		});
+		expect(
+			tools.get("zipfai_get_workflow")?._meta?.[CREDIT_COST_META_KEY],
+		).toEqual({ free: true, estimate: "0 credits" });
+	});
+
+	it("never marks a paid tool as read-only or idempotent", () => {
+		const paid = Object.keys(TOOL_INFO).filter(
+			(name) => TOOL_INFO[name].credits,
+		);
+		expect(paid).toContain("zipfai_crawl");
+		for (const name of paid) {
+			expect(tools.get(name)?.annotations, name).toMatchObject({
+				readOnlyHint: false,
+				idempotentHint: false,
+			});
+		}
+		expect(tools.get("zipfai_research")?.annotations?.openWorldHint).toBe(true);
+	});
+
+	it("never marks a tool that changes the account as read-only", () => {
+		for (const name of MUTATING_TOOLS) {
+			expect(tools.get(name)?.annotations?.readOnlyHint, name).toBe(false);
+		}
+		// Tools taking quality-question assessments can change the workflow with them
+		const assessing = [...tools.values()].filter(
+			(tool) => tool.inputSchema.properties?.assessments,
+		);
+		expect(assessing.map((tool) => tool.name).sort()).toEqual([
+			"zipfai_get_workflow",
+			"zipfai_workflow_diff",
+			"zipfai_workflow_timeline",
+			"zipfai_workflow_updates",
+		]);
+		for (const tool of assessing) {
+			expect(tool.annotations?.readOnlyHint, tool.name).toBe(false);
+		}
+
+		const destructive = [...tools.values()].filter(
+			(tool) => tool.annotations?.destructiveHint,
+		);
+		for (const tool of destructive) {
+			expect(MUTATING_TOOLS.has(tool.name), tool.name).toBe(true);
+		}
+	});
+});
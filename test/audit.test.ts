@@ -0,0 +1,150 @@
+import { rmSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { fingerprintApiKey } from "../src/api.js";
+import {
+	type AuditEntry,
+	getLogDir,
+	readAuditEntries,
+	sanitizeArguments,
+	summarizeSpend,
+} from "../src/audit.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("audit log", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		rmSync(getLogDir(), { recursive: true, force: true });
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		delete process.env.ZIPF_AUDIT;
+		await test.close();
+	});
+
+	it("logs every tool call with its spend", async () => {
+		await test.callTool("zipfai_ask", {
+			question: "What is MCP?",
+			depth: "quick",
+		});
+		await test.callTool("zipfai_execute_workflow", {
+			workflow_id: "wf_mock_search",
+		});
+		await test.callTool("zipfai_get_workflow", { workflow_id: "wf_missing" });
+
+		const entries = readAuditEntries();
+		expect(entries).toHaveLength(3);
+		expect(entries[0]).toMatchObject({
+			tool: "zipfai_ask",
+			arguments: { question: "What is MCP?", depth: "quick" },
+			status: "ok",
+			status_code: 200,
+			api_calls: 1,
+			credits_consumed: 2,
+			account: fingerprintApiKey("test-key"),
+			profile: "default",
+			client: { name: "zipfai-test", version: "1.0.0" },
+			duration_ms: expect.any(Number),
+		});
+		expect(entries[1]).toMatchObject({
+			tool: "zipfai_execute_workflow",
+			workflow_id: "wf_mock_search",
+			credits_consumed: 1,
+		});
+		expect(entries[2]).toMatchObject({
+			tool: "zipfai_get_workflow",
+			status: "error",
+			status_code: 404,
+			credits_consumed: 0,
+			error: "Error: Workflow not found: wf_missing",
+		});
+	});
+
+	it("records the session and the workflow a call created", async () => {
+		await test.callTool("zipfai_create_session", { name: "Research" });
+		await test.callTool("zipfai_session_search", {
+			session_id: "session_mock_1",
+			query: "mcp",
+		});
+		await test.callTool("zipfai_create_workflow", {
+			name: "Daily MCP news",
+			workflow_type: "search",
+			operation_config: { query: "MCP news" },
+			stop_condition_type: "always",
+			interval: "1 day",
+		});
+
+		const [, search, workflow] = readAuditEntries();
+		expect(search.session_id).toBe("session_mock_1");
+		expect(search.credits_consumed).toBeGreaterThan(0);
+		expect(workflow.workflow_id).toBe("wf_mock_1");
+	});
+
+	it("can be turned off with ZIPF_AUDIT=0", async () => {
+		process.env.ZIPF_AUDIT = "0";
+		await test.callTool("zipfai_status");
+		expect(readAuditEntries()).toEqual([]);
+	});
+});
+
+describe("sanitizeArguments", () => {
+	it("redacts secrets and truncates long values", () => {
+		const sanitized = sanitizeArguments({
+			workflow_id: "wf_1",
+			slack_webhook_url: "https://hooks.slack.com/services/T0/B0/secret",
+			dedup_key: ["domain"],
+			operation_config: { api_key: "sk-123", query: "q" },
+			question: "x".repeat(300),
+			urls: Array.from({ length: 25 }, (_, i) => `https://example.com/${i}`),
+		});
+
+		expect(sanitized).toMatchObject({
+			workflow_id: "wf_1",
+			slack_webhook_url: "[REDACTED]",
+			dedup_key: ["domain"],
+			operation_config: { api_key: "[REDACTED]", query: "q" },
+			question: `${"x".repeat(200)}… (300 chars)`,
+		});
+		expect(sanitized.urls).toHaveLength(21);
+		expect((sanitized.urls as string[])[20]).toBe("… (5 more)");
+	});
+});
+
+describe("summarizeSpend", () => {
+	const entry = (
+		tool: string,
+		timestamp: string,
+		credits: number,
+		status: AuditEntry["status"] = "ok",
+	): AuditEntry => ({
+		timestamp,
+		tool,
+		arguments: {},
+		duration_ms: 10,
+		status,
+		api_calls: 1,
+		credits_consumed: credits,
+	});
+
+	it("totals calls, failures and credits by tool and by day", () => {
+		const summary = summarizeSpend([
+			entry("zipfai_search", "2025-01-14T10:00:00.000Z", 3),
+			entry("zipfai_search", "2025-01-15T10:00:00.000Z", 1),
+			entry("zipfai_ask", "2025-01-15T11:00:00.000Z", 2),
+			entry("zipfai_ask", "2025-01-15T12:00:00.000Z", 0, "error"),
+		]);
+
+		expect(summary).toEqual({
+			total: { calls: 4, errors: 1, credits: 6 },
+			by_tool: {
+				zipfai_search: { calls: 2, errors: 0, credits: 4 },
+				zipfai_ask: { calls: 2, errors: 1, credits: 2 },
+			},
+			by_day: {
+				"2025-01-14": { calls: 1, errors: 0, credits: 3 },
+				"2025-01-15": { calls: 3, errors: 1, credits: 3 },
+			},
+		});
+	});
+});
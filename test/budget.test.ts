@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { crawl, getCrawl } from "../src/api.js";
+import { getBudgetStatus, meterToolCall } from "../src/budget.js";
+import { type HttpClient, setHttpClient } from "../src/request.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("credit budgets", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		delete process.env.ZIPF_BUDGET_SESSION;
+		await test.close();
+	});
+
+	// Create a session and return its id
+	async function createSession(name: string): Promise<string> {
+		const result = await test.callTool("zipfai_create_session", { name });
+		return (result.data as { session: { id: string } }).session.id;
+	}
+
+	const calls = (route: string) =>
+		test.requests.filter((r) => `${r.method} ${r.path}` === route).length;
+
+	it("refuses a call whose estimate is over the remaining budget", async () => {
+		process.env.ZIPF_BUDGET_SESSION = "2";
+		const sessionId = await createSession("Budget refusal");
+
+		// A standard-depth answer is estimated at 3 credits
+		const result = await test.callTool("zipfai_ask", {
+			question: "What is MCP?",
+			session_id: sessionId,
+		});
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			`Credit budget exceeded for session ${sessionId}: zipfai_ask would cost ~3 credits but only 2 remain.`,
+		);
+		expect(calls("POST /ask")).toBe(0);
+	});
+
+	it("accumulates spend per session until the budget runs out", async () => {
+		process.env.ZIPF_BUDGET_SESSION = "2";
+		const sessionId = await createSession("Budget accumulation");
+		const otherSessionId = await createSession("Another budget");
+		const search = (session_id: string) =>
+			test.client.callTool({
+				name: "zipfai_session_search",
+				arguments: { query: "mcp", session_id },
+			});
+
+		await search(sessionId);
+		const second = await search(sessionId);
+		expect(second.isError).toBeFalsy();
+		expect((second.content as { text: string }[]).at(-1)?.text).toBe(
+			`Budget: 1 credits spent this call; 0 of 2 credits left for session ${sessionId}`,
+		);
+		expect(getBudgetStatus(sessionId).session).toMatchObject({
+			spent: 2,
+			remaining: 0,
+		});
+
+		const refused = await search(sessionId);
+		expect(refused.isError).toBe(true);
+		expect(calls(`POST /sessions/${sessionId}/search`)).toBe(2);
+
+		// Other sessions keep their own budget
+		expect((await search(otherSessionId)).isError).toBeFalsy();
+	});
+
+	it("estimates a large crawl with a single dry run", async () => {
+		process.env.ZIPF_BUDGET_SESSION = "1000";
+		const sessionId = await createSession("Large crawl");
+
+		const result = await test.callTool("zipfai_crawl", {
+			urls: ["https://example.com"],
+			max_pages: 150,
+			session_id: sessionId,
+			confirm: true,
+		});
+
+		expect(result.isError).toBe(false);
+		const dryRuns = test.requests.filter(
+			(r) =>
+				r.method === "POST" &&
+				r.path === "/crawls" &&
+				(r.body as { dry_run?: boolean }).dry_run === true,
+		);
+		expect(dryRuns).toHaveLength(1);
+	});
+});
+
+describe("credit metering", () => {
+	afterEach(() => {
+		setHttpClient(undefined);
+	});
+
+	// A crawl API that, like the real one, reports an async crawl's consumption on its GETs
+	function asyncCrawlApi(...polls: { status: string; consumed: number }[]) {
+		let poll = 0;
+		const client: HttpClient = async (url, init) => {
+			const isPost = init.method === "POST";
+			const { status, consumed } = isPost
+				? { status: "running", consumed: 0 }
+				: polls[Math.min(poll++, polls.length - 1)];
+			const path = new URL(url).pathname;
+			return Response.json({
+				id: path.endsWith("/crawls") ? "crawl_1" : path.split("/").at(-1),
+				status,
+				urls: ["https://example.com"],
+				credits: { consumed },
+			});
+		};
+		return client;
+	}
+
+	it("counts the credits an async crawl reports while it's polled, once", async () => {
+		setHttpClient(
+			asyncCrawlApi(
+				{ status: "running", consumed: 2 },
+				{ status: "running", consumed: 2 },
+				{ status: "completed", consumed: 5 },
+			),
+		);
+
+		const { spent } = await meterToolCall(undefined, async () => {
+			const job = await crawl({
+				urls: ["https://example.com"],
+				processing_mode: "async",
+			});
+			for (let i = 0; i < 3; i++) await getCrawl(job.id);
+		});
+
+		expect(spent).toBe(5);
+	});
+
+	it("never counts a finished job again", async () => {
+		setHttpClient(asyncCrawlApi({ status: "completed", consumed: 4 }));
+
+		const first = await meterToolCall(undefined, async () => {
+			const job = await crawl({
+				urls: ["https://example.com"],
+				processing_mode: "async",
+			});
+			await getCrawl(job.id);
+		});
+		const later = await meterToolCall(undefined, () => getCrawl("crawl_1"));
+
+		expect(first.spent).toBe(4);
+		expect(later.spent).toBe(0);
+	});
+});
@@ -0,0 +1,139 @@
+import { readdirSync, rmSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getCacheDir, sweepCache } from "../src/cache.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("response cache", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		rmSync(getCacheDir(), { recursive: true, force: true });
+		process.env.ZIPF_CACHE = "1";
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		vi.useRealTimers();
+		delete process.env.ZIPF_CACHE;
+		process.env.ZIPF_API_KEY = "test-key";
+		await test.close();
+	});
+
+	// API calls made for a path, e.g. "POST /search"
+	const calls = (route: string) =>
+		test.requests.filter((r) => `${r.method} ${r.path}` === route).length;
+
+	const search = (args: Record<string, unknown> = {}) =>
+		test.callTool("zipfai_search", { query: "mcp servers", ...args });
+
+	const cacheStatus = (result: { data: unknown }) =>
+		(result.data as { cache?: { status: string } }).cache?.status;
+
+	it("serves a repeated call from the cache", async () => {
+		const first = await search();
+		const second = await search({ query: "  mcp servers " });
+
+		expect(cacheStatus(first)).toBe("miss");
+		expect(cacheStatus(second)).toBe("hit");
+		expect(calls("POST /search")).toBe(1);
+		expect(second.data).toMatchObject({
+			cache: { credits_saved: expect.any(Number) },
+		});
+	});
+
+	it("misses for a different request", async () => {
+		await search();
+		const other = await search({ max_results: 5 });
+
+		expect(cacheStatus(other)).toBe("miss");
+		expect(calls("POST /search")).toBe(2);
+	});
+
+	it("expires entries after their TTL", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		await search();
+
+		// search entries live for 10 minutes
+		vi.setSystemTime(Date.now() + 9 * 60 * 1000);
+		expect(cacheStatus(await search())).toBe("hit");
+		vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+		expect(cacheStatus(await search())).toBe("miss");
+		expect(calls("POST /search")).toBe(2);
+	});
+
+	it("never shares entries between API keys", async () => {
+		await search();
+		process.env.ZIPF_API_KEY = "other-key";
+		const other = await search();
+
+		expect(cacheStatus(other)).toBe("miss");
+		expect(calls("POST /search")).toBe(2);
+		expect(test.requests.at(-1)?.headers.authorization).toBe(
+			"Bearer other-key",
+		);
+
+		process.env.ZIPF_API_KEY = "test-key";
+		expect(cacheStatus(await search())).toBe("hit");
+	});
+
+	it("sweeps expired entries, then the oldest ones over the size cap", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		const entries = () =>
+			readdirSync(resolve(getCacheDir(), "search")).map((name) =>
+				resolve(getCacheDir(), "search", name),
+			);
+
+		await search({ query: "expired" });
+		vi.setSystemTime(Date.now() + 8 * 60 * 1000);
+		await search({ query: "older" });
+		vi.setSystemTime(Date.now() + 60 * 1000);
+		await search({ query: "newer" });
+		expect(entries()).toHaveLength(3);
+
+		// The first entry is now 11 minutes old
+		vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+		await sweepCache();
+		expect(entries()).toHaveLength(2);
+
+		// Room for one entry keeps the newest
+		await sweepCache(Math.max(...entries().map((file) => statSync(file).size)));
+		expect(entries()).toHaveLength(1);
+		expect(cacheStatus(await search({ query: "newer" }))).toBe("hit");
+		expect(cacheStatus(await search({ query: "older" }))).toBe("miss");
+	});
+
+	it("skips or refreshes the cache on request", async () => {
+		await search();
+
+		expect(cacheStatus(await search({ cache: "bypass" }))).toBe("bypass");
+		expect(cacheStatus(await search({ cache: "refresh" }))).toBe("refresh");
+		expect(calls("POST /search")).toBe(3);
+	});
+
+	it("never caches calls tied to a session", async () => {
+		await test.callTool("zipfai_create_session", { name: "Cache test" });
+		const ask = () =>
+			test.callTool("zipfai_ask", {
+				question: "What is MCP?",
+				session_id: "session_mock_1",
+			});
+
+		const first = await ask();
+		const second = await ask();
+
+		expect(cacheStatus(first)).toBeUndefined();
+		expect(cacheStatus(second)).toBeUndefined();
+		expect(calls("POST /ask")).toBe(2);
+	});
+
+	it("is off unless enabled", async () => {
+		delete process.env.ZIPF_CACHE;
+
+		await search();
+		const second = await search();
+
+		expect(cacheStatus(second)).toBeUndefined();
+		expect(calls("POST /search")).toBe(2);
+	});
+});
@@ -0,0 +1,169 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	type CassetteEntry,
+	createRecordingClient,
+	createReplayClient,
+	readCassette,
+} from "../src/cassette.js";
+import { getHttpClient, setHttpClient } from "../src/request.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("cassettes", () => {
+	let test: TestClient | undefined;
+	let file: string;
+
+	beforeEach(() => {
+		test = undefined;
+		file = join(mkdtempSync(join(tmpdir(), "zipfai-cassette-")), "run.jsonl");
+	});
+
+	afterEach(async () => {
+		await test?.close();
+	});
+
+	// Run a few tool calls against the mock API, recording them
+	async function record(): Promise<unknown[]> {
+		const recorder = await startTestClient();
+		setHttpClient(createRecordingClient(file, getHttpClient()));
+
+		const outputs = [
+			(
+				await recorder.callTool("zipfai_search", {
+					query: "mcp",
+					generate_summary: true,
+				})
+			).data,
+			(
+				await recorder.callTool("zipfai_get_workflow", {
+					workflow_id: "wf_mock_search",
+				})
+			).data,
+		];
+		await recorder.close();
+		return outputs;
+	}
+
+	it("records requests and responses with auth redacted", async () => {
+		await record();
+		const entries = readCassette(file);
+
+		expect(
+			entries.map(
+				(e) => `${e.request.method} ${new URL(e.request.url).pathname}`,
+			),
+		).toEqual([
+			"POST /api/v1/search",
+			"GET /api/v1/search/jobs/search_mock_1",
+			"GET /api/v1/workflows/wf_mock_search/details",
+		]);
+		expect(entries[0].request.headers.authorization).toBe("[REDACTED]");
+		expect(entries[0].request.body).toMatchObject({ query: "mcp" });
+		expect(entries[0].response).toMatchObject({
+			status: 200,
+			body: { search_job_id: "search_mock_1", status: "running" },
+		});
+		expect(readFileSync(file, "utf-8")).not.toContain("test-key");
+	});
+
+	it("redacts webhook URLs and other secrets in recorded bodies", async () => {
+		const webhook = "https://hooks.slack.com/services/T000/B000/secret";
+		const recorder = await startTestClient();
+		setHttpClient(createRecordingClient(file, getHttpClient()));
+
+		const result = await recorder.callTool("zipfai_create_workflow", {
+			name: "Daily MCP news",
+			workflow_type: "search",
+			operation_config: { query: "MCP news" },
+			stop_condition_type: "always",
+			interval: "1 day",
+			slack_webhook_url: webhook,
+			confirm: true,
+		});
+		await recorder.close();
+
+		expect(result.isError, result.text).toBe(false);
+		const [entry] = readCassette(file).filter(
+			(e) => e.request.method === "POST",
+		);
+		expect(entry.request.body).toMatchObject({
+			name: "Daily MCP news",
+			slack_config: { webhook_url: "[REDACTED]" },
+		});
+		expect(readFileSync(file, "utf-8")).not.toContain(webhook);
+	});
+
+	it("replays recorded responses without calling the API", async () => {
+		const recorded = await record();
+
+		test = await startTestClient();
+		setHttpClient(createReplayClient(readCassette(file)));
+
+		const replayed = [
+			(
+				await test.callTool("zipfai_search", {
+					query: "mcp",
+					generate_summary: true,
+				})
+			).data,
+			(
+				await test.callTool("zipfai_get_workflow", {
+					workflow_id: "wf_mock_search",
+				})
+			).data,
+		];
+		expect(replayed).toEqual(recorded);
+		expect(test.requests).toEqual([]);
+	});
+
+	it("repeats the last response once a request's entries are used up", async () => {
+		await record();
+		test = await startTestClient();
+		setHttpClient(createReplayClient(readCassette(file)));
+
+		const first = await test.callTool("zipfai_get_workflow", {
+			workflow_id: "wf_mock_search",
+		});
+		const second = await test.callTool("zipfai_get_workflow", {
+			workflow_id: "wf_mock_search",
+		});
+		expect(second.data).toEqual(first.data);
+	});
+
+	it("fails requests that were never recorded", async () => {
+		const entry: CassetteEntry = {
+			recorded_at: "2025-01-15T09:00:00.000Z",
+			duration_ms: 12,
+			request: {
+				method: "GET",
+				url: "https://www.zipf.ai/api/v1/workflows/wf_recorded/details",
+				headers: {},
+			},
+			response: { status: 200, status_text: "OK", headers: {}, body: {} },
+		};
+		writeFileSync(file, `${JSON.stringify(entry)}\n`);
+
+		test = await startTestClient();
+		setHttpClient(createReplayClient(readCassette(file), file));
+
+		const result = await test.callTool("zipfai_get_workflow", {
+			workflow_id: "wf_other",
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			`No recorded response for GET /api/v1/workflows/wf_other/details in ${file}`,
+		);
+	});
+
+	it("rejects malformed cassettes", () => {
+		writeFileSync(
+			file,
+			'{"request":{"method":"GET","url":"https://x/a"}}\nnot json\n',
+		);
+		expect(() => readCassette(file)).toThrow(
+			`Invalid cassette entry at ${file}:2`,
+		);
+	});
+});
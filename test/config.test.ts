@@ -0,0 +1,238 @@
+import { rmSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getStatus } from "../src/api.js";
+import { runConfigCommand } from "../src/cli.js";
+import {
+	getConfigFile,
+	getProfileName,
+	readConfig,
+	writeConfig,
+} from "../src/config.js";
+import { type HttpClient, setHttpClient } from "../src/request.js";
+
+// Thrown by the process.exit stub, so a failing command stops where the CLI would
+class ExitError extends Error {
+	constructor(public code: number | undefined) {
+		super(`process.exit(${code})`);
+	}
+}
+
+beforeEach(() => {
+	rmSync(getConfigFile(), { force: true });
+});
+
+afterEach(() => {
+	process.env.ZIPF_API_KEY = "test-key";
+	delete process.env.ZIPF_PROFILE;
+	delete process.env.ZIPF_API_BASE_URL;
+	vi.restoreAllMocks();
+	setHttpClient(undefined);
+});
+
+describe("profile precedence", () => {
+	// The URL and key of the last API call
+	let sent: { url: string; authorization: string | null } | undefined;
+
+	beforeEach(() => {
+		sent = undefined;
+		const client: HttpClient = async (url, init) => {
+			sent = {
+				url,
+				authorization: new Headers(init.headers).get("authorization"),
+			};
+			return Response.json({});
+		};
+		setHttpClient(client);
+		writeConfig({
+			apiKey: "default-key",
+			currentProfile: "staging",
+			profiles: {
+				staging: {
+					apiKey: "staging-key",
+					baseUrl: "https://staging.example.com/api/v1/",
+				},
+				dev: { apiKey: "dev-key" },
+			},
+		});
+	});
+
+	it("uses the active profile's key and base URL", async () => {
+		delete process.env.ZIPF_API_KEY;
+
+		await getStatus();
+
+		expect(sent).toEqual({
+			url: "https://staging.example.com/api/v1",
+			authorization: "Bearer staging-key",
+		});
+	});
+
+	it("lets ZIPF_PROFILE pick another profile", async () => {
+		delete process.env.ZIPF_API_KEY;
+		process.env.ZIPF_PROFILE = "dev";
+
+		await getStatus();
+
+		expect(sent).toEqual({
+			url: "https://www.zipf.ai/api/v1",
+			authorization: "Bearer dev-key",
+		});
+	});
+
+	it("prefers ZIPF_API_KEY and ZIPF_API_BASE_URL over the profile", async () => {
+		process.env.ZIPF_API_BASE_URL = "http://127.0.0.1:4010/api/v1";
+
+		await getStatus();
+
+		expect(sent).toEqual({
+			url: "http://127.0.0.1:4010/api/v1",
+			authorization: "Bearer test-key",
+		});
+	});
+
+	it("fails on a ZIPF_PROFILE that doesn't exist", async () => {
+		delete process.env.ZIPF_API_KEY;
+		process.env.ZIPF_PROFILE = "missing";
+
+		await expect(getStatus()).rejects.toThrow('Profile "missing" not found');
+		expect(sent).toBeUndefined();
+	});
+});
+
+describe("config command", () => {
+	let output: string[];
+	let errors: string[];
+
+	beforeEach(() => {
+		output = [];
+		errors = [];
+		vi.spyOn(console, "log").mockImplementation((line) => {
+			output.push(String(line));
+		});
+		vi.spyOn(console, "error").mockImplementation((line) => {
+			errors.push(String(line));
+		});
+		vi.spyOn(process, "exit").mockImplementation((code) => {
+			throw new ExitError(code === undefined ? undefined : Number(code));
+		});
+	});
+
+	const config = (...args: string[]) => {
+		const reveal = args.includes("--reveal");
+		const rest = args.filter((arg) => arg !== "--reveal");
+		const profile = rest.indexOf("--profile");
+		if (profile === -1) return runConfigCommand(rest, undefined, reveal);
+		return runConfigCommand(
+			rest.filter((_, i) => i !== profile && i !== profile + 1),
+			rest[profile + 1],
+			reveal,
+		);
+	};
+
+	it("sets profile fields, keeping the default key at the top level", () => {
+		config("set", "apiKey", "default-key");
+		config("set", "apiKey", "staging-key", "--profile", "staging");
+		config(
+			"set",
+			"baseUrl",
+			"https://staging.example.com/api/v1",
+			"--profile",
+			"staging",
+		);
+
+		expect(readConfig()).toEqual({
+			apiKey: "default-key",
+			profiles: {
+				staging: {
+					apiKey: "staging-key",
+					baseUrl: "https://staging.example.com/api/v1",
+				},
+			},
+		});
+		expect(output.at(-1)).toBe("Set baseUrl for profile staging");
+	});
+
+	it("moves a default key saved in profiles to the top level", () => {
+		writeConfig({
+			profiles: {
+				default: { apiKey: "old-key", baseUrl: "http://127.0.0.1:4010/api/v1" },
+			},
+		});
+
+		config("set", "apiKey", "new-key", "--profile", "default");
+
+		expect(readConfig()).toEqual({
+			apiKey: "new-key",
+			profiles: { default: { baseUrl: "http://127.0.0.1:4010/api/v1" } },
+		});
+	});
+
+	it("gets profile fields and dotted settings", () => {
+		config("set", "apiKey", "staging-key", "--profile", "staging");
+		config("set", "cache.enabled", "true");
+		config("set", "budget", '{"session": 50}');
+		output = [];
+
+		config("get", "apiKey", "--profile", "staging");
+		config("get", "cache.enabled");
+		config("get", "budget.session");
+
+		expect(output).toEqual(["stag...-key", "true", "50"]);
+		expect(readConfig().cache).toEqual({ enabled: true });
+	});
+
+	it("masks API keys unless asked to reveal them", () => {
+		config("set", "apiKey", "staging-key", "--profile", "staging");
+		output = [];
+
+		config("get", "profiles");
+		config("get", "apiKey", "--profile", "staging", "--reveal");
+
+		expect(JSON.parse(output[0])).toEqual({
+			staging: { apiKey: "stag...-key" },
+		});
+		expect(output[1]).toBe("staging-key");
+	});
+
+	it("exits with an error for a setting that isn't set", () => {
+		expect(() => config("get", "cache.enabled")).toThrow(ExitError);
+		expect(errors).toEqual(["cache.enabled is not set"]);
+	});
+
+	it("refuses to edit profiles by dotted path", () => {
+		expect(() => config("set", "profiles.dev.apiKey", "key")).toThrow(
+			ExitError,
+		);
+		expect(readConfig()).toEqual({});
+	});
+
+	it("switches the active profile, only to one that exists", () => {
+		config("set", "apiKey", "dev-key", "--profile", "dev");
+
+		config("use", "dev");
+		expect(readConfig().currentProfile).toBe("dev");
+		expect(getProfileName()).toBe("dev");
+
+		expect(() => config("use", "missing")).toThrow(ExitError);
+		expect(errors[0]).toContain('Profile "missing" not found');
+		expect(readConfig().currentProfile).toBe("dev");
+	});
+
+	it("lists profiles with masked keys and the active one marked", () => {
+		config("set", "apiKey", "default-key-1234");
+		config("set", "apiKey", "dev-key-5678", "--profile", "dev");
+		config("use", "dev");
+		output = [];
+
+		config("list");
+
+		expect(output.slice(1)).toEqual([
+			"  default",
+			"    apiKey:  defa...1234",
+			"    baseUrl: https://www.zipf.ai/api/v1 (default)",
+			"* dev",
+			"    apiKey:  dev-...5678",
+			"    baseUrl: https://www.zipf.ai/api/v1 (default)",
+		]);
+	});
+});
@@ -0,0 +1,115 @@
+import type {
+	ElicitRequest,
+	ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, describe, expect, it } from "vitest";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("confirmation of destructive and expensive calls", () => {
+	let test: TestClient;
+	let prompts: ElicitRequest["params"][];
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	// A client that answers every elicitation with result
+	async function startElicitingClient(result: ElicitResult): Promise<void> {
+		prompts = [];
+		test = await startTestClient(
+			{},
+			{
+				elicit: (params) => {
+					prompts.push(params);
+					return result;
+				},
+			},
+		);
+	}
+
+	const deletes = () => test.requests.filter((r) => r.method === "DELETE");
+
+	it("requires confirm: true when the client can't elicit", async () => {
+		test = await startTestClient();
+
+		const refused = await test.callTool("zipfai_delete_workflow", {
+			workflow_id: "wf_mock_search",
+		});
+		expect(refused.isError).toBe(true);
+		expect(refused.text).toContain(
+			'Delete workflow "AI regulation news" (wf_mock_search, active, 2 executions',
+		);
+		expect(refused.text).toContain("call again with confirm: true");
+		expect(deletes()).toHaveLength(0);
+
+		const deleted = await test.callTool("zipfai_delete_workflow", {
+			workflow_id: "wf_mock_search",
+			confirm: true,
+		});
+		expect(deleted.isError).toBe(false);
+		expect(deletes()).toHaveLength(1);
+	});
+
+	it("asks the user through elicitation, whatever the agent passed", async () => {
+		await startElicitingClient({ action: "decline" });
+
+		const declined = await test.callTool("zipfai_delete_entity_schema", {
+			schema_name: "job_posting",
+			confirm: true,
+		});
+		expect(prompts).toHaveLength(1);
+		expect(prompts[0].message).toMatch(
+			/^Delete entity schema "Job posting" and all \d+ of its entities\?/,
+		);
+		expect(declined.isError).toBe(true);
+		expect(declined.text).toContain("the user declined the confirmation");
+		expect(deletes()).toHaveLength(0);
+	});
+
+	it("goes ahead once the user confirms", async () => {
+		await startElicitingClient({
+			action: "accept",
+			content: { confirm: true },
+		});
+
+		const result = await test.callTool("zipfai_apply_workflow_recovery", {
+			workflow_id: "wf_mock_crawl",
+			apply_all: true,
+		});
+		expect(prompts[0].message).toContain(
+			"https://example.com/pricing -> https://example.com/pricing/",
+		);
+		expect(result.data).toMatchObject({ applied: 1 });
+
+		// Nothing pending any more: nothing to confirm
+		await test.callTool("zipfai_apply_workflow_recovery", {
+			workflow_id: "wf_mock_crawl",
+			apply_all: true,
+		});
+		expect(prompts).toHaveLength(1);
+	});
+
+	it("shows the dry-run estimate for large crawls only", async () => {
+		await startElicitingClient({
+			action: "accept",
+			content: { confirm: false },
+		});
+
+		const small = await test.callTool("zipfai_crawl", {
+			urls: ["https://example.com"],
+		});
+		expect(small.isError).toBe(false);
+		expect(prompts).toHaveLength(0);
+
+		const large = await test.callTool("zipfai_crawl", {
+			urls: ["https://example.com"],
+			max_pages: 500,
+			expansion: "internal",
+		});
+		expect(prompts[0].message).toBe(
+			"Crawl up to 500 pages from 1 seed URL(s)? Estimated cost (dry run): ~1000 credits.",
+		);
+		expect(large.isError).toBe(true);
+		expect(large.text).toContain("the user didn't confirm");
+	});
+});
@@ -0,0 +1,176 @@
+import { existsSync, readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Dossier } from "../src/dossier.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("zipfai_export_session", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+		await test.callTool("zipfai_create_session", {
+			name: "MCP landscape",
+			intent_context: "Compare MCP server frameworks",
+		});
+		await test.callTool("zipfai_session_search", {
+			session_id: "session_mock_1",
+			query: "mcp",
+			max_results: 3,
+			generate_summary: true,
+		});
+		await test.callTool("zipfai_session_search", {
+			session_id: "session_mock_1",
+			query: "mcp servers",
+			max_results: 2,
+			filter_seen_urls: false,
+		});
+		// One page the searches already found (with tracking params), one new page
+		await test.callTool("zipfai_session_crawl", {
+			session_id: "session_mock_1",
+			urls: [
+				"http://developer.mozilla.org/en-US/docs/Mock/Getting_started/?utm_source=x",
+				"https://modelcontextprotocol.io/docs",
+			],
+		});
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	async function exportAs(
+		format: string,
+		args: Record<string, unknown> = {},
+	): Promise<string> {
+		const result = await test.callTool("zipfai_export_session", {
+			session_id: "session_mock_1",
+			format,
+			...args,
+		});
+		expect(result.isError).toBe(false);
+		return result.text;
+	}
+
+	it("collects operations and dedupes their sources", async () => {
+		const dossier = JSON.parse(await exportAs("json")) as Dossier;
+
+		expect(dossier.operations.map((op) => op.type)).toEqual([
+			"search",
+			"search",
+			"crawl",
+		]);
+		expect(dossier.operations[0]).toMatchObject({
+			query: "mcp",
+			source_ids: [1, 2, 3],
+			ai_summary: expect.stringContaining("Mock summary"),
+		});
+		expect(dossier.operations[1].source_ids).toEqual([1, 2]);
+		expect(dossier.operations[2].source_ids).toEqual([2, 4]);
+
+		expect(dossier.sources).toHaveLength(4);
+		expect(dossier.sources[1]).toMatchObject({
+			url: "https://developer.mozilla.org/en-US/docs/Mock/Getting_started",
+			title: "Getting started with mcp",
+			content: expect.stringContaining("This is mock content"),
+			found_by: dossier.operations.map((op) => op.id),
+		});
+		expect(dossier.stats).toMatchObject({
+			operations: 3,
+			unique_sources: 4,
+			duplicate_results: 3,
+			crawled_pages: 2,
+		});
+	});
+
+	it("renders a Markdown report with citations", async () => {
+		const markdown = await exportAs("markdown", { max_content_chars: 10 });
+
+		expect(markdown).toContain("# MCP landscape");
+		expect(markdown).toContain("> Compare MCP server frameworks");
+		expect(markdown).toContain('### 1. Search: "mcp"');
+		expect(markdown).toContain("- Getting started with mcp [2]");
+		expect(markdown).toContain(
+			"[4] Mock page for https://modelcontextprotocol.io/docs. modelcontextprotocol.io. <https://modelcontextprotocol.io/docs>",
+		);
+		expect(markdown).toContain("## Crawled Content");
+		expect(markdown).toContain("# Mock pag… (");
+	});
+
+	it("leaves crawled content out when asked", async () => {
+		const dossier = JSON.parse(
+			await exportAs("json", { include_content: false }),
+		) as Dossier;
+		expect(dossier.sources.every((source) => !source.content)).toBe(true);
+		expect(dossier.stats.crawled_pages).toBe(0);
+	});
+
+	it("writes BibTeX and CSL-JSON bibliographies", async () => {
+		const bibtex = await exportAs("bibtex");
+		expect(bibtex).toContain("@misc{mozilla2024,");
+		expect(bibtex).toContain("  title = {Getting started with mcp}");
+		expect(bibtex).toContain(
+			"  url = {https://developer.mozilla.org/en-US/docs/Mock/Getting_started}",
+		);
+		expect(bibtex).toContain("@misc{modelcontextprotocol,");
+
+		const csl = JSON.parse(await exportAs("csl"));
+		expect(csl).toHaveLength(4);
+		expect(csl[1]).toMatchObject({
+			id: "mozilla2024",
+			type: "webpage",
+			URL: "https://developer.mozilla.org/en-US/docs/Mock/Getting_started",
+			issued: { "date-parts": [[2024, 12, 10]] },
+		});
+	});
+
+	it("saves the export under ~/.zipfai/exports", async () => {
+		const saved = await test.callTool("zipfai_export_session", {
+			session_id: "session_mock_1",
+			format: "bibtex",
+			save: true,
+		});
+		expect(saved.text).toMatch(
+			/^Saved the bibtex export of session session_mock_1 to .+ \(\d+ sources from \d+ operations\)\.$/,
+		);
+		const result = saved.data as { file: string };
+
+		expect(result.file).toMatch(/exports[/\\]session_mock_1\.bib$/);
+		expect(existsSync(result.file)).toBe(true);
+		expect(readFileSync(result.file, "utf-8")).toContain("@misc{mozilla2024,");
+	});
+
+	it("keeps operations whose results can't be fetched", async () => {
+		await test.close();
+		test = await startTestClient({
+			"GET /sessions/session_x": {
+				status: 200,
+				body: { session: { id: "session_x", name: "Old", status: "active" } },
+			},
+			"GET /sessions/session_x/timeline": {
+				status: 200,
+				body: {
+					session_id: "session_x",
+					operations: [
+						{
+							id: "op_1",
+							type: "search",
+							status: "completed",
+							created_at: "2025-01-14T09:00:00.000Z",
+							search_job_id: "search_gone",
+						},
+					],
+				},
+			},
+		});
+
+		const result = await test.callTool("zipfai_export_session", {
+			session_id: "session_x",
+			format: "json",
+		});
+		const dossier = result.data as Dossier;
+		expect(dossier.operations[0].error).toContain(
+			"Search job not found: search_gone",
+		);
+		expect(dossier.sources).toEqual([]);
+	});
+});
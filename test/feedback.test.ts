@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { FeedbackQueueResponse } from "../src/types.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("execution feedback tools", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	async function getQueue(workflowId: string): Promise<FeedbackQueueResponse> {
+		const result = await test.callTool("zipfai_feedback_queue", {
+			workflow_id: workflowId,
+		});
+		return result.data as FeedbackQueueResponse;
+	}
+
+	it("rates a run straight from its feedback_hint.action", async () => {
+		const queue = await getQueue("wf_mock_crawl");
+		const [item] = queue.items;
+		const { tool, args } = item.feedback_hint.action;
+
+		const rated = await test.callTool(tool, { ...args, rating: "negative" });
+		expect(rated.isError).toBe(false);
+		expect(rated.data).toMatchObject({
+			execution_id: item.execution_id,
+			status: "created",
+			feedback: {
+				signal_type: "result_thumbs_down",
+				actor: { type: "mcp", model: "zipfai-test/1.0.0" },
+			},
+		});
+
+		const after = await getQueue("wf_mock_crawl");
+		expect(after.total_unrated).toBe(queue.total_unrated - 1);
+	});
+
+	it("sends an idempotency key with every rating", async () => {
+		const args = {
+			workflow_id: "wf_mock_search",
+			execution_id: "wf_mock_search_exec_2",
+			rating: "positive",
+		};
+		await test.callTool("zipfai_rate_execution", args);
+		await test.callTool("zipfai_rate_execution", args);
+		await test.callTool("zipfai_rate_execution", {
+			...args,
+			idempotency_key: "rating-1",
+		});
+		const replay = await test.callTool("zipfai_rate_execution", {
+			...args,
+			rating: "negative",
+			idempotency_key: "rating-1",
+		});
+
+		const keys = test.requests.map((r) => r.headers["idempotency-key"]);
+		expect(new Set(keys.slice(0, 2)).size).toBe(2);
+		expect(keys.slice(2)).toEqual(["rating-1", "rating-1"]);
+		expect(replay.data).toMatchObject({
+			status: "idempotent_replay",
+			feedback: { signal_type: "result_thumbs_up" },
+		});
+	});
+
+	it("batch-rates runs across workflows", async () => {
+		const result = await test.callTool("zipfai_batch_rate_executions", {
+			ratings: [
+				{
+					workflow_id: "wf_mock_search",
+					execution_id: "wf_mock_search_exec_1",
+					rating: "positive",
+				},
+				{
+					workflow_id: "wf_mock_crawl",
+					execution_id: "wf_mock_crawl_exec_1",
+					rating: "negative",
+					reason_category: "outdated_content",
+				},
+			],
+		});
+
+		expect(result.data).toMatchObject({ submitted: 2, succeeded: 2 });
+		const [request] = test.requests;
+		expect(request.path).toBe("/feedback/batch");
+		expect(request.body).toHaveProperty("feedback", [
+			expect.objectContaining({
+				execution_id: "wf_mock_search_exec_1",
+				idempotency_key: expect.any(String),
+				actor_model: "zipfai-test/1.0.0",
+			}),
+			expect.not.objectContaining({ workflow_id: expect.anything() }),
+		]);
+	});
+
+	it("rejects ratings for another workflow", async () => {
+		const result = await test.callTool("zipfai_batch_rate_executions", {
+			workflow_id: "wf_mock_search",
+			ratings: [
+				{
+					workflow_id: "wf_mock_crawl",
+					execution_id: "wf_mock_crawl_exec_1",
+					rating: "positive",
+				},
+			],
+		});
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			"Execution wf_mock_crawl_exec_1 belongs to wf_mock_crawl, not wf_mock_search",
+		);
+		expect(test.requests).toEqual([]);
+	});
+});
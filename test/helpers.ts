@@ -0,0 +1,107 @@
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+	type ElicitRequest,
+	ElicitRequestSchema,
+	type ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+	createMockApi,
+	createMockHttpClient,
+	loadMockOverrides,
+	type MockOverrides,
+} from "../src/mock-server.js";
+import { setHttpClient } from "../src/request.js";
+import { createServer } from "../src/server.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// An API call the server made during a test
+export interface RecordedRequest {
+	method: string;
+	path: string;
+	headers: Record<string, string>;
+	body: unknown;
+}
+
+export interface ToolResult {
+	text: string;
+	isError: boolean;
+	// structuredContent, else the first content block parsed as JSON (undefined for plain text)
+	data: unknown;
+}
+
+export interface TestClient {
+	client: Client;
+	requests: RecordedRequest[];
+	callTool: (
+		name: string,
+		args?: Record<string, unknown>,
+	) => Promise<ToolResult>;
+	close: () => Promise<void>;
+}
+
+// Recorded API responses from test/fixtures/<name>.json, keyed by "METHOD /path"
+export function loadFixture(name: string): MockOverrides {
+	return loadMockOverrides(resolve(__dirname, "fixtures", `${name}.json`));
+}
+
+export interface TestClientOptions {
+	// Answer elicitation requests (the client then declares elicitation support)
+	elicit?: (params: ElicitRequest["params"]) => ElicitResult;
+}
+
+// Start the MCP server in-process against a fresh mock API (fixtures replace its built-in responses)
+export async function startTestClient(
+	fixtures: MockOverrides = {},
+	options: TestClientOptions = {},
+): Promise<TestClient> {
+	const api = createMockApi(fixtures);
+	const requests: RecordedRequest[] = [];
+	setHttpClient(
+		createMockHttpClient((method, path, headers, body) => {
+			requests.push({ method, path, headers, body });
+			return api(method, path, headers, body);
+		}),
+	);
+
+	const [clientTransport, serverTransport] =
+		InMemoryTransport.createLinkedPair();
+	await createServer().connect(serverTransport);
+	const client = new Client(
+		{ name: "zipfai-test", version: "1.0.0" },
+		{ capabilities: options.elicit ? { elicitation: {} } : {} },
+	);
+	const { elicit } = options;
+	if (elicit) {
+		client.setRequestHandler(ElicitRequestSchema, (request) =>
+			elicit(request.params),
+		);
+	}
+	await client.connect(clientTransport);
+
+	return {
+		client,
+		requests,
+		callTool: async (name, args = {}) => {
+			const result = await client.callTool({ name, arguments: args });
+			const content = result.content as { type: string; text: string }[];
+			const text = content[0]?.text ?? "";
+			let data: unknown = result.structuredContent;
+			if (data === undefined) {
+				try {
+					data = JSON.parse(text);
+				} catch {
+					data = undefined;
+				}
+			}
+			return { text, isError: result.isError === true, data };
+		},
+		close: async () => {
+			await client.close();
+			setHttpClient(undefined);
+		},
+	};
+}
@@ -0,0 +1,267 @@
+import { request as httpRequest, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { afterEach, describe, expect, it } from "vitest";
+import { type HttpServerOptions, startHttpServer } from "../src/http.js";
+import { createMockApi, createMockHttpClient } from "../src/mock-server.js";
+import { setHttpClient } from "../src/request.js";
+import type { RecordedRequest } from "./helpers.js";
+
+interface RawResponse {
+	status: number;
+	body: unknown;
+}
+
+// A plain HTTP request, so tests can send malformed bodies and arbitrary Host headers
+function rawRequest(
+	port: number,
+	options: {
+		method?: string;
+		path?: string;
+		headers?: Record<string, string>;
+		body?: string;
+	} = {},
+): Promise<RawResponse> {
+	return new Promise((resolve, reject) => {
+		const req = httpRequest(
+			{
+				host: "127.0.0.1",
+				port,
+				method: options.method ?? "POST",
+				path: options.path ?? "/mcp",
+				headers: {
+					"Content-Type": "application/json",
+					Accept: "application/json, text/event-stream",
+					...options.headers,
+				},
+			},
+			(res) => {
+				const chunks: Buffer[] = [];
+				res.on("data", (chunk) => chunks.push(chunk));
+				res.on("end", () => {
+					const text = Buffer.concat(chunks).toString("utf-8");
+					let body: unknown = text;
+					try {
+						body = JSON.parse(text);
+					} catch {
+						// Left as text
+					}
+					resolve({ status: res.statusCode ?? 0, body });
+				});
+			},
+		);
+		req.on("error", reject);
+		req.end(options.body);
+	});
+}
+
+const INITIALIZE = JSON.stringify({
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: {
+		protocolVersion: "2025-03-26",
+		capabilities: {},
+		clientInfo: { name: "zipfai-test", version: "1.0.0" },
+	},
+});
+
+describe("HTTP transport", () => {
+	let server: Server | undefined;
+	let client: Client | undefined;
+	let requests: RecordedRequest[];
+
+	async function start(
+		options: Partial<HttpServerOptions> = {},
+	): Promise<number> {
+		const api = createMockApi();
+		requests = [];
+		setHttpClient(
+			createMockHttpClient((method, path, headers, body) => {
+				requests.push({ method, path, headers, body });
+				return api(method, path, headers, body);
+			}),
+		);
+		server = await startHttpServer({ host: "127.0.0.1", port: 0, ...options });
+		return (server.address() as AddressInfo).port;
+	}
+
+	async function connect(port: number, apiKey?: string): Promise<Client> {
+		client = new Client({ name: "zipfai-test", version: "1.0.0" });
+		await client.connect(
+			new StreamableHTTPClientTransport(
+				new URL(`http://127.0.0.1:${port}/mcp`),
+				apiKey
+					? { requestInit: { headers: { Authorization: `Bearer ${apiKey}` } } }
+					: undefined,
+			),
+		);
+		return client;
+	}
+
+	async function health(port: number) {
+		return (await rawRequest(port, { method: "GET", path: "/health" }))
+			.body as { sessions: { streamable_http: number } };
+	}
+
+	afterEach(async () => {
+		await client?.close();
+		client = undefined;
+		if (server) {
+			server.closeAllConnections();
+			await new Promise((resolve) => server?.close(resolve));
+			server = undefined;
+		}
+		setHttpClient(undefined);
+	});
+
+	it("calls tools with the client's bearer key", async () => {
+		const port = await start();
+		const mcp = await connect(port, "client-key");
+
+		const result = await mcp.callTool({
+			name: "zipfai_quick_search",
+			arguments: { query: "mcp" },
+		});
+
+		expect(result.isError).toBeFalsy();
+		expect(requests.length).toBeGreaterThan(0);
+		expect(
+			requests.every((r) => r.headers.authorization === "Bearer client-key"),
+		).toBe(true);
+		expect((await health(port)).sessions.streamable_http).toBe(1);
+	});
+
+	it("keeps a current session per connection", async () => {
+		const port = await start();
+		const first = await connect(port, "client-key");
+		const second = new Client({ name: "zipfai-test", version: "1.0.0" });
+		await second.connect(
+			new StreamableHTTPClientTransport(
+				new URL(`http://127.0.0.1:${port}/mcp`),
+				{ requestInit: { headers: { Authorization: "Bearer other-key" } } },
+			),
+		);
+		const sessionSearch = (mcp: Client) =>
+			mcp.callTool({
+				name: "zipfai_session_search",
+				arguments: { query: "mcp" },
+			});
+
+		try {
+			await first.callTool({
+				name: "zipfai_create_session",
+				arguments: { name: "First client" },
+			});
+
+			expect((await sessionSearch(first)).isError).toBeFalsy();
+			const other = await sessionSearch(second);
+			expect(other.isError).toBe(true);
+			expect((other.content as { text: string }[])[0].text).toContain(
+				"this project has no current session",
+			);
+			expect(
+				requests.filter((r) => r.path.endsWith("/search")).map((r) => r.path),
+			).toEqual(["/sessions/session_mock_1/search"]);
+		} finally {
+			await second.close();
+		}
+	});
+
+	it("falls back to the server's key on loopback", async () => {
+		const port = await start();
+		const mcp = await connect(port);
+
+		await mcp.callTool({
+			name: "zipfai_quick_search",
+			arguments: { query: "mcp" },
+		});
+
+		expect(requests[0].headers.authorization).toBe("Bearer test-key");
+	});
+
+	it("refuses requests without a key on other hosts unless allowed", async () => {
+		let port = await start({ host: "0.0.0.0" });
+		expect(await rawRequest(port, { body: INITIALIZE })).toMatchObject({
+			status: 401,
+			body: { error: { code: -32000 } },
+		});
+		expect(
+			(await rawRequest(port, { method: "GET", path: "/health" })).status,
+		).toBe(200);
+
+		server?.closeAllConnections();
+		await new Promise((resolve) => server?.close(resolve));
+		port = await start({ host: "0.0.0.0", allowServerKey: true });
+		expect((await rawRequest(port, { body: INITIALIZE })).status).toBe(200);
+	});
+
+	it("answers a malformed body with a JSON-RPC parse error", async () => {
+		const port = await start();
+
+		expect(await rawRequest(port, { body: "{not json" })).toMatchObject({
+			status: 400,
+			body: { jsonrpc: "2.0", error: { code: -32700 }, id: null },
+		});
+	});
+
+	it("refuses an oversized body with a 413", async () => {
+		const port = await start();
+
+		// Declared up front, and streamed without a length
+		const declared = await rawRequest(port, {
+			body: " ".repeat(5 * 1024 * 1024),
+		});
+		const streamed = await rawRequest(port, {
+			headers: { "Transfer-Encoding": "chunked" },
+			body: " ".repeat(5 * 1024 * 1024),
+		});
+		for (const response of [declared, streamed]) {
+			expect(response).toMatchObject({
+				status: 413,
+				body: { jsonrpc: "2.0", error: { code: -32000 }, id: null },
+			});
+		}
+	});
+
+	it("rejects requests without a session that don't initialize one", async () => {
+		const port = await start();
+
+		const response = await rawRequest(port, {
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+		});
+		expect(response.status).toBe(400);
+		expect((await health(port)).sessions.streamable_http).toBe(0);
+	});
+
+	it("rejects Host headers other than loopback", async () => {
+		const port = await start();
+
+		const response = await rawRequest(port, {
+			body: INITIALIZE,
+			headers: { Host: `attacker.example:${port}` },
+		});
+		expect(response.status).toBe(403);
+		expect((await health(port)).sessions.streamable_http).toBe(0);
+	});
+
+	it("closes sessions whose client went away without a DELETE", async () => {
+		const port = await start({ sessionIdleTimeout: 50 });
+		const mcp = await connect(port, "client-key");
+		await mcp.listTools();
+		expect((await health(port)).sessions.streamable_http).toBe(1);
+
+		await mcp.close();
+		client = undefined;
+
+		const deadline = Date.now() + 2000;
+		while (
+			(await health(port)).sessions.streamable_http > 0 &&
+			Date.now() < deadline
+		) {
+			await new Promise((resolve) => setTimeout(resolve, 25));
+		}
+		expect((await health(port)).sessions.streamable_http).toBe(0);
+	});
+});
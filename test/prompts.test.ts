@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("prompts", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	async function expand(
+		name: string,
+		args: Record<string, string>,
+	): Promise<string> {
+		const result = await test.client.getPrompt({ name, arguments: args });
+		expect(result.messages).toHaveLength(1);
+		const [message] = result.messages;
+		expect(message.role).toBe("user");
+		return message.content.type === "text" ? message.content.text : "";
+	}
+
+	it("lists the recipes with their arguments", async () => {
+		const { prompts } = await test.client.listPrompts();
+		expect(prompts.map((prompt) => prompt.name).sort()).toEqual([
+			"competitive_monitor_setup",
+			"daily_briefing",
+			"deep_research",
+			"triage_workflow_quality",
+		]);
+
+		const triage = prompts.find(
+			(prompt) => prompt.name === "triage_workflow_quality",
+		);
+		expect(triage?.arguments).toEqual([
+			expect.objectContaining({ name: "workflow_id", required: true }),
+			expect.objectContaining({ name: "symptom", required: false }),
+		]);
+	});
+
+	it("scales deep_research to the requested depth", async () => {
+		const text = await expand("deep_research", {
+			topic: "WebGPU adoption",
+			depth: "thorough",
+			export_format: "bibtex",
+		});
+
+		expect(text).toContain(
+			'zipfai_create_session with name "Research: WebGPU adoption"',
+		);
+		expect(text).toContain("max_sub_queries: 8");
+		expect(text).toContain('zipfai_export_session with format: "bibtex"');
+	});
+
+	it("builds a competitive monitor intent from the competitor list", async () => {
+		const text = await expand("competitive_monitor_setup", {
+			competitors: "Acme,\n Globex ",
+			frequency: "6 hours",
+			budget: "20",
+		});
+
+		expect(text).toContain(
+			'zipfai_assess_intent with intent: "Monitor Acme, Globex for pricing changes and product launches',
+		);
+		expect(text).toContain("max_credits_per_execution: 20");
+		expect(text).toContain('interval: "6 hours"');
+	});
+
+	it("defaults daily_briefing to the last 24 hours", async () => {
+		const before = Date.now();
+		const text = await expand("daily_briefing", {});
+
+		const since = text.match(/since: "([^"]+)"/)?.[1] ?? "";
+		const elapsed = before - Date.parse(since);
+		expect(elapsed).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000 - 1000);
+		expect(elapsed).toBeLessThanOrEqual(24 * 60 * 60 * 1000 + 1000);
+		expect(text).toContain('format: "briefing_llm"');
+	});
+
+	it("rejects a prompt without its required argument", async () => {
+		await expect(
+			test.client.getPrompt({ name: "triage_workflow_quality", arguments: {} }),
+		).rejects.toThrow(/workflow_id/);
+	});
+});
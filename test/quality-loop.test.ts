@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadFixture, startTestClient, type TestClient } from "./helpers.js";
+
+// Workflow payloads carrying quality_questions (see fixtures/quality-loop.json)
+const fixtures = loadFixture("quality-loop");
+
+interface QualityLoop {
+	mode: string;
+	question_count?: number;
+	suggested_assessments?: Record<string, unknown>[];
+	apply_assessments_call?: { tool: string; arguments: Record<string, unknown> };
+	next_tool_call: { tool: string; arguments: Record<string, unknown> };
+	recommended_chain: { step: number; action: string }[];
+}
+
+describe("quality loop hints", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient(fixtures);
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	async function getQualityLoop(
+		name: string,
+		args: Record<string, unknown>,
+	): Promise<QualityLoop | undefined> {
+		const result = await test.callTool(name, args);
+		expect(result.isError, result.text).toBe(false);
+		return (result.data as { quality_loop?: QualityLoop }).quality_loop;
+	}
+
+	it("suggests an answer for each question it recognizes", async () => {
+		const loop = await getQualityLoop("zipfai_get_workflow", {
+			workflow_id: "wf_mock_crawl",
+		});
+
+		expect(loop?.mode).toBe("assess_then_continue");
+		expect(loop?.question_count).toBe(4);
+		expect(loop?.suggested_assessments).toEqual([
+			{
+				question_id: "q_exec_failure",
+				answer: "needs_adjustment",
+				execution_id: "wf_mock_crawl_exec_4",
+				confidence: "high",
+				rationale: expect.stringContaining("Execution failures"),
+			},
+			{
+				question_id: "q_churn",
+				answer: "unstable_results",
+				confidence: "high",
+				rationale: expect.stringContaining("High churn"),
+			},
+			// Unknown observation type: falls back to a generic negative answer
+			{
+				question_id: "q_coverage",
+				answer: "too_selective",
+				confidence: "medium",
+				rationale: expect.stringContaining("reduced workflow quality"),
+			},
+		]);
+	});
+
+	it("routes operational issues to recovery suggestions", async () => {
+		const loop = await getQualityLoop("zipfai_get_workflow", {
+			workflow_id: "wf_mock_crawl",
+		});
+
+		expect(loop?.next_tool_call).toMatchObject({
+			tool: "zipfai_get_workflow_recovery_suggestions",
+			arguments: { workflow_id: "wf_mock_crawl" },
+		});
+		expect(loop?.apply_assessments_call).toEqual({
+			tool: "zipfai_get_workflow",
+			arguments: {
+				workflow_id: "wf_mock_crawl",
+				assessments: [
+					{
+						question_id: "q_exec_failure",
+						answer: "needs_adjustment",
+						execution_id: "wf_mock_crawl_exec_4",
+					},
+					{ question_id: "q_churn", answer: "unstable_results" },
+					{ question_id: "q_coverage", answer: "too_selective" },
+				],
+			},
+			expected_outcome: expect.any(String),
+		});
+		expect(loop?.recommended_chain).toMatchObject([
+			{ step: 1, action: "submit_assessments" },
+			{ step: 2, action: "continue_analysis" },
+		]);
+	});
+
+	it("routes other issues to the workflow diff", async () => {
+		const loop = await getQualityLoop("zipfai_workflow_timeline", {
+			workflow_id: "wf_mock_search",
+		});
+
+		expect(loop?.suggested_assessments).toMatchObject([
+			{
+				question_id: "q_filtering",
+				answer: "too_aggressive",
+				confidence: "high",
+			},
+		]);
+		expect(loop?.next_tool_call).toMatchObject({
+			tool: "zipfai_workflow_diff",
+			arguments: { workflow_id: "wf_mock_search", limit: 10 },
+		});
+		expect(loop?.apply_assessments_call?.tool).toBe("zipfai_workflow_timeline");
+	});
+
+	it("omits the hint when there are no questions", async () => {
+		const loop = await getQualityLoop("zipfai_workflow_diff", {
+			workflow_id: "wf_mock_search",
+		});
+		expect(loop).toBeUndefined();
+	});
+
+	it("submits assessments and continues the chain", async () => {
+		const assessments = [
+			{
+				question_id: "q_exec_failure",
+				answer: "needs_adjustment",
+				execution_id: "wf_mock_crawl_exec_4",
+			},
+		];
+		const result = await test.callTool("zipfai_get_workflow", {
+			workflow_id: "wf_mock_crawl",
+			assessments,
+		});
+
+		expect(test.requests).toContainEqual(
+			expect.objectContaining({
+				method: "POST",
+				path: "/workflows/wf_mock_crawl/assessments",
+				body: { assessments },
+			}),
+		);
+		expect(result.data).toMatchObject({
+			assessment_submission: { accepted: 1 },
+			quality_loop: {
+				mode: "post_assessment_continue",
+				next_tool_call: {
+					tool: "zipfai_workflow_diff",
+					arguments: { workflow_id: "wf_mock_crawl", limit: 10 },
+				},
+				recommended_chain: [{ step: 1, action: "continue_analysis" }],
+			},
+		});
+	});
+
+	it("points at recovery suggestions after assessing from the diff", async () => {
+		const loop = await getQualityLoop("zipfai_workflow_diff", {
+			workflow_id: "wf_mock_crawl",
+			assessments: [{ question_id: "q_churn", answer: "unstable_results" }],
+		});
+
+		expect(loop).toMatchObject({
+			mode: "post_assessment_continue",
+			next_tool_call: { tool: "zipfai_get_workflow_recovery_suggestions" },
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { renderCrawl, renderResult, renderSearch } from "../src/render.js";
+
+describe("text renderings", () => {
+	it("outlines any result, leaving out empty fields and truncating long text", () => {
+		const text = renderResult({
+			workflow: { id: "wf_1", name: "Pricing", steps: [] },
+			executions: [
+				{ id: "exec_2", status: "completed", error: null },
+				{ id: "exec_1", status: "failed", error: "x".repeat(400) },
+			],
+			tags: ["a", "b"],
+		});
+
+		expect(text).toBe(
+			[
+				"workflow:",
+				"  id: wf_1",
+				"  name: Pricing",
+				"executions (2):",
+				"  - id: exec_2",
+				"    status: completed",
+				"  - id: exec_1",
+				"    status: failed",
+				`    error: ${"x".repeat(300)}… (400 chars)`,
+				"tags: a, b",
+			].join("\n"),
+		);
+	});
+
+	it("renders search results as a Markdown link list", () => {
+		const text = renderSearch({
+			search_job_id: "job_1",
+			status: "completed",
+			query: "mcp",
+			summary: { status: "completed", content: "MCP connects tools." },
+			results: [
+				{ title: "MCP", url: "https://mcp.example", description: "Spec" },
+			],
+			credits: { consumed: 1 },
+		});
+
+		expect(text).toBe(
+			[
+				'Search "mcp": completed, 1 result, 1 credit',
+				"Summary:\nMCP connects tools.",
+				"- [MCP](https://mcp.example) - Spec",
+			].join("\n\n"),
+		);
+	});
+
+	it("shows crawled pages with their extracted data and content", () => {
+		const text = renderCrawl({
+			id: "crawl_1",
+			status: "completed",
+			urls: ["https://example.com"],
+			results: [
+				{
+					url: "https://example.com",
+					title: "Example",
+					content: "# Example\n\nPage text",
+					extracted_data: { price: 10 },
+				},
+			],
+			credits: { consumed: 2 },
+		});
+
+		expect(text).toBe(
+			[
+				"Crawl crawl_1: completed, 1 page, 2 credits",
+				"",
+				"- [Example](https://example.com)",
+				"  extracted_data:",
+				"    price: 10",
+				"  # Example",
+				"",
+				"  Page text",
+			].join("\n"),
+		);
+	});
+
+	it("cuts long pages short and points to zipfai_get_crawl", () => {
+		const text = renderCrawl({
+			id: "crawl_1",
+			status: "completed",
+			urls: ["https://example.com"],
+			results: [{ url: "https://example.com", markdown: "x".repeat(2500) }],
+		});
+
+		expect(text).toContain(`  ${"x".repeat(2000)}… (2500 chars)`);
+		expect(text).toContain(
+			'zipfai_get_crawl (crawl_id "crawl_1") returns them in full.',
+		);
+	});
+});
@@ -0,0 +1,377 @@
+import type { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ask, crawlWithPolling } from "../src/api.js";
+import { renderCrawl } from "../src/render.js";
+import {
+	ApiError,
+	collectRetries,
+	type HttpClient,
+	request,
+	setHttpClient,
+} from "../src/request.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+const API_URL = "https://api.example.com/api/v1/things";
+
+interface Call {
+	method: string;
+	headers: Record<string, string>;
+}
+
+// An HTTP client that answers with the given responses in turn (the last one repeats)
+function stubClient(
+	...responses: { status: number; headers?: Record<string, string> }[]
+): { client: HttpClient; calls: Call[] } {
+	const calls: Call[] = [];
+	const client: HttpClient = async (_url, init) => {
+		calls.push({
+			method: init.method ?? "GET",
+			headers: Object.fromEntries(new Headers(init.headers).entries()),
+		});
+		const { status, headers } =
+			responses[Math.min(calls.length, responses.length) - 1];
+		const body =
+			status < 400 ? { ok: true } : { error: `failed with ${status}` };
+		return new Response(JSON.stringify(body), { status, headers });
+	};
+	return { client, calls };
+}
+
+function get(headers: Record<string, string> = {}) {
+	return { method: "GET", headers };
+}
+
+function post() {
+	return { method: "POST", headers: {}, body: "{}" };
+}
+
+describe("request retries", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		// Full jitter picks a delay in [0, ceiling]; pin it to half the ceiling
+		vi.spyOn(Math, "random").mockReturnValue(0.5);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+		setHttpClient(undefined);
+	});
+
+	// Run a call to completion, firing backoff timers as they come up
+	async function settle<T>(promise: Promise<T>): Promise<T> {
+		const result = promise.then(
+			(value) => ({ value }),
+			(error: unknown) => ({ error }),
+		);
+		await vi.runAllTimersAsync();
+		const outcome = await result;
+		if ("error" in outcome) throw outcome.error;
+		return outcome.value;
+	}
+
+	it("retries a GET with exponential backoff and jitter", async () => {
+		const { client, calls } = stubClient(
+			{ status: 503 },
+			{ status: 502 },
+			{ status: 500 },
+			{ status: 200 },
+		);
+		setHttpClient(client);
+
+		const { result, retries } = await settle(
+			collectRetries(() => request(API_URL, get())),
+		);
+
+		expect(result).toEqual({ ok: true });
+		expect(calls).toHaveLength(4);
+		// Half of 500, 1000 and 2000ms
+		expect(retries.map((r) => r.delay_ms)).toEqual([250, 500, 1000]);
+		expect(retries.map((r) => r.reason)).toEqual(["503", "502", "500"]);
+	});
+
+	it("caps the backoff at maxDelay", async () => {
+		vi.spyOn(Math, "random").mockReturnValue(1);
+		setHttpClient(stubClient({ status: 503 }, { status: 200 }).client);
+
+		const { retries } = await settle(
+			collectRetries(() =>
+				request(API_URL, get(), {
+					retry: { initialDelay: 5000, maxDelay: 3000 },
+				}),
+			),
+		);
+
+		expect(retries.map((r) => r.delay_ms)).toEqual([3000]);
+	});
+
+	it("waits as long as Retry-After asks", async () => {
+		setHttpClient(
+			stubClient(
+				{ status: 429, headers: { "Retry-After": "2" } },
+				{ status: 200 },
+			).client,
+		);
+
+		const { retries } = await settle(
+			collectRetries(() => request(API_URL, get())),
+		);
+
+		expect(retries.map((r) => r.delay_ms)).toEqual([2000]);
+	});
+
+	it("gives up once the retry budget would be exceeded", async () => {
+		const { client, calls } = stubClient({
+			status: 503,
+			headers: { "Retry-After": "15" },
+		});
+		setHttpClient(client);
+
+		await expect(settle(request(API_URL, get()))).rejects.toMatchObject({
+			statusCode: 503,
+		});
+		// 15s fits the 20s budget once, not twice
+		expect(calls).toHaveLength(2);
+	});
+
+	it("never retries a POST without an idempotency key on a 5xx", async () => {
+		const { client, calls } = stubClient({ status: 503 }, { status: 200 });
+		setHttpClient(client);
+
+		const error = await settle(request(API_URL, post())).catch((e) => e);
+
+		expect(error).toBeInstanceOf(ApiError);
+		expect(error).toMatchObject({ statusCode: 503 });
+		expect(calls).toHaveLength(1);
+	});
+
+	it("retries a POST on a 429 even without an idempotency key", async () => {
+		const { client, calls } = stubClient({ status: 429 }, { status: 200 });
+		setHttpClient(client);
+
+		await expect(settle(request(API_URL, post()))).resolves.toEqual({
+			ok: true,
+		});
+		expect(calls).toHaveLength(2);
+	});
+
+	it("retries a POST with an idempotency key, sending the same key every time", async () => {
+		const { client, calls } = stubClient({ status: 502 }, { status: 200 });
+		setHttpClient(client);
+
+		await settle(request(API_URL, post(), { idempotencyKey: "key-1" }));
+
+		expect(calls.map((c) => c.headers["idempotency-key"])).toEqual([
+			"key-1",
+			"key-1",
+		]);
+	});
+
+	it("gives paid calls one idempotency key that survives retries", async () => {
+		const { client, calls } = stubClient(
+			{ status: 503 },
+			{ status: 200 },
+			{ status: 200 },
+		);
+		setHttpClient(client);
+
+		await settle(ask({ question: "first?" }));
+		await settle(ask({ question: "second?" }));
+
+		const keys = calls.map((c) => c.headers["idempotency-key"]);
+		expect(keys).toHaveLength(3);
+		expect(keys[0]).toBeTruthy();
+		expect(keys[1]).toBe(keys[0]);
+		expect(keys[2]).not.toBe(keys[0]);
+	});
+
+	it("doesn't retry when retries are disabled", async () => {
+		const { client, calls } = stubClient({ status: 429 }, { status: 200 });
+		setHttpClient(client);
+
+		await expect(
+			settle(request(API_URL, get(), { retry: false })),
+		).rejects.toMatchObject({ statusCode: 429 });
+		expect(calls).toHaveLength(1);
+	});
+});
+
+describe("request timeouts and cancellation", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		setHttpClient(undefined);
+	});
+
+	// An HTTP client that never answers, only giving up when the request aborts
+	const hangingClient: HttpClient = (_url, init) =>
+		new Promise((_resolve, reject) => {
+			init.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+		});
+
+	// Fails with a 503 the server asks to retry in 10s
+	const unavailableClient = stubClient({
+		status: 503,
+		headers: { "Retry-After": "10" },
+	}).client;
+
+	async function failure(promise: Promise<unknown>): Promise<unknown> {
+		const result = promise.catch((error: unknown) => error);
+		await vi.runAllTimersAsync();
+		return result;
+	}
+
+	it("times out a request that never answers with a 408", async () => {
+		setHttpClient(hangingClient);
+
+		const error = await failure(request(API_URL, get(), { timeoutMs: 1000 }));
+
+		expect(error).toBeInstanceOf(ApiError);
+		expect(error).toMatchObject({
+			statusCode: 408,
+			message: "Request to /api/v1/things timed out after 1000ms",
+		});
+	});
+
+	it("reports a timeout during the backoff the same way", async () => {
+		setHttpClient(unavailableClient);
+
+		const error = await failure(request(API_URL, get(), { timeoutMs: 5000 }));
+
+		expect(error).toBeInstanceOf(ApiError);
+		expect(error).toMatchObject({
+			statusCode: 408,
+			message: "Request to /api/v1/things timed out after 5000ms",
+		});
+	});
+
+	it("rejects with the caller's reason when cancelled, during a fetch or a backoff", async () => {
+		for (const client of [hangingClient, unavailableClient]) {
+			setHttpClient(client);
+			const controller = new AbortController();
+			const reason = new Error("cancelled by client");
+
+			const promise = request(API_URL, get(), { signal: controller.signal });
+			setTimeout(() => controller.abort(reason), 100);
+
+			expect(await failure(promise)).toBe(reason);
+		}
+	});
+});
+
+describe("crawl polling", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		setHttpClient(undefined);
+	});
+
+	// A crawl API whose crawls never finish
+	function runningCrawlApi(): { client: HttpClient; modes: string[] } {
+		const modes: string[] = [];
+		const client: HttpClient = async (_url, init) => {
+			if (init.method === "POST") {
+				modes.push(JSON.parse(String(init.body)).processing_mode);
+			}
+			return Response.json({
+				id: "crawl_1",
+				status: "running",
+				urls: ["https://example.com"],
+				pages_crawled: 3,
+			});
+		};
+		return { client, modes };
+	}
+
+	it("returns a crawl still running after 5 minutes, saying so", async () => {
+		const { client, modes } = runningCrawlApi();
+		setHttpClient(client);
+
+		const promise = crawlWithPolling(
+			{ urls: ["https://example.com"] },
+			{ onProgress: () => {} },
+		);
+		await vi.advanceTimersByTimeAsync(5 * 60 * 1000 + 5000);
+		const job = await promise;
+
+		expect(modes).toEqual(["async"]);
+		expect(job.status).toBe("running");
+		expect(renderCrawl(job)).toContain(
+			'The crawl is still running. Check it with zipfai_get_crawl (crawl_id "crawl_1")',
+		);
+	});
+
+	it("keeps an explicit sync crawl synchronous", async () => {
+		const { client, modes } = runningCrawlApi();
+		setHttpClient(client);
+
+		await crawlWithPolling(
+			{ urls: ["https://example.com"], processing_mode: "sync" },
+			{ onProgress: () => {} },
+		);
+
+		expect(modes).toEqual(["sync"]);
+	});
+});
+
+describe("progress and cancellation of tool calls", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	const crawlPolls = () =>
+		test.requests.filter(
+			(r) => r.method === "GET" && r.path.startsWith("/crawls/"),
+		).length;
+
+	it("sends progress notifications while a crawl runs", async () => {
+		const updates: Progress[] = [];
+
+		const result = await test.client.callTool(
+			{
+				name: "zipfai_crawl",
+				arguments: { urls: ["https://example.com/a", "https://example.com/b"] },
+			},
+			undefined,
+			{ onprogress: (progress) => updates.push(progress) },
+		);
+
+		expect(result.isError).toBeFalsy();
+		expect(updates.map((u) => u.progress)).toEqual([0, 1, 2]);
+		expect(updates.every((u) => u.total === 10)).toBe(true);
+		expect(updates[0].message).toMatch(/^Crawl crawl_mock_\d+ started/);
+	});
+
+	it("stops polling when the client cancels the call", async () => {
+		const controller = new AbortController();
+
+		const call = test.client.callTool(
+			{
+				name: "zipfai_crawl",
+				arguments: {
+					urls: Array.from({ length: 5 }, (_, i) => `https://example.com/${i}`),
+				},
+			},
+			undefined,
+			{ signal: controller.signal, onprogress: () => controller.abort() },
+		);
+
+		await expect(call).rejects.toThrow();
+		const polls = crawlPolls();
+		await new Promise((resolve) => setTimeout(resolve, 1000));
+		expect(crawlPolls()).toBe(polls);
+		expect(polls).toBeLessThan(5);
+	});
+});
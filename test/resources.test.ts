@@ -0,0 +1,125 @@
+import {
+	type ResourceUpdatedNotification,
+	ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("resources", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	async function read(uri: string): Promise<unknown> {
+		const result = await test.client.readResource({ uri });
+		const [content] = result.contents;
+		expect(content).toMatchObject({ uri, mimeType: "application/json" });
+		return JSON.parse("text" in content ? content.text : "");
+	}
+
+	it("publishes templates for workflows, diffs, session timelines and entities", async () => {
+		const { resourceTemplates } = await test.client.listResourceTemplates();
+		expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+			"zipfai://entities/{schema}/{id}",
+			"zipfai://sessions/{id}/timeline",
+			"zipfai://workflows/{id}",
+			"zipfai://workflows/{id}/diff/latest",
+		]);
+	});
+
+	it("lists workflows and sessions", async () => {
+		await test.callTool("zipfai_create_session", { name: "Research" });
+		const { resources } = await test.client.listResources();
+
+		expect(resources).toContainEqual(
+			expect.objectContaining({
+				uri: "zipfai://workflows/wf_mock_search",
+				name: "AI regulation news",
+				mimeType: "application/json",
+			}),
+		);
+		expect(resources).toContainEqual(
+			expect.objectContaining({
+				uri: "zipfai://sessions/session_mock_1/timeline",
+				name: "Research timeline",
+			}),
+		);
+	});
+
+	it("reads each resource from the API", async () => {
+		await test.callTool("zipfai_create_session", { name: "Research" });
+
+		expect(await read("zipfai://workflows/wf_mock_search")).toMatchObject({
+			workflow: { id: "wf_mock_search" },
+		});
+		expect(
+			await read("zipfai://workflows/wf_mock_search/diff/latest"),
+		).toMatchObject({
+			workflow_id: "wf_mock_search",
+			diffs: expect.any(Array),
+		});
+		expect(
+			await read("zipfai://sessions/session_mock_1/timeline"),
+		).toMatchObject({ session_id: "session_mock_1", operations: [] });
+		expect(
+			await read("zipfai://entities/job_posting/ent_mock_1"),
+		).toMatchObject({ entity: { id: "ent_mock_1" } });
+		expect(test.requests.map((r) => r.path)).toContain(
+			"/workflows/wf_mock_search/diff?limit=1",
+		);
+	});
+
+	it("reports missing resources as errors", async () => {
+		await expect(read("zipfai://workflows/wf_missing")).rejects.toThrow(
+			"Workflow not found: wf_missing",
+		);
+	});
+
+	it("notifies subscribers when a workflow executes", async () => {
+		const updates: ResourceUpdatedNotification["params"][] = [];
+		test.client.setNotificationHandler(
+			ResourceUpdatedNotificationSchema,
+			(notification) => {
+				updates.push(notification.params);
+			},
+		);
+		await test.client.subscribeResource({
+			uri: "zipfai://workflows/wf_mock_search",
+		});
+		await test.client.subscribeResource({
+			uri: "zipfai://workflows/wf_mock_search/diff/latest",
+		});
+
+		await test.callTool("zipfai_execute_workflow", {
+			workflow_id: "wf_mock_search",
+			dry_run: true,
+		});
+		await test.callTool("zipfai_execute_workflow", {
+			workflow_id: "wf_mock_crawl",
+		});
+		expect(updates).toEqual([]);
+
+		await test.callTool("zipfai_execute_workflow", {
+			workflow_id: "wf_mock_search",
+		});
+		expect(updates).toEqual([
+			{ uri: "zipfai://workflows/wf_mock_search" },
+			{ uri: "zipfai://workflows/wf_mock_search/diff/latest" },
+		]);
+
+		await test.client.unsubscribeResource({
+			uri: "zipfai://workflows/wf_mock_search",
+		});
+		await test.callTool("zipfai_update_workflow", {
+			workflow_id: "wf_mock_search",
+			name: "Renamed",
+		});
+		expect(updates).toHaveLength(2);
+	});
+});
@@ -0,0 +1,110 @@
+import { rmSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	getCurrentSessionId,
+	getSessionStoreFile,
+	readSessionStore,
+} from "../src/session-store.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("session registry", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		rmSync(getSessionStoreFile(), { force: true });
+		test = await startTestClient();
+	});
+
+	afterEach(async () => {
+		delete process.env.ZIPF_PROJECT;
+		await test.close();
+	});
+
+	const searchPaths = () =>
+		test.requests
+			.filter((r) => r.method === "POST" && r.path.endsWith("/search"))
+			.map((r) => r.path);
+
+	it("remembers created sessions and falls back to the current one", async () => {
+		await test.callTool("zipfai_create_session", { name: "Pricing research" });
+
+		expect(readSessionStore().sessions).toEqual([
+			expect.objectContaining({
+				id: "session_mock_1",
+				name: "Pricing research",
+				profile: "default",
+				project: process.cwd(),
+			}),
+		]);
+		expect(getCurrentSessionId()).toBe("session_mock_1");
+
+		const search = await test.callTool("zipfai_session_search", {
+			query: "pricing",
+		});
+		const crawl = await test.callTool("zipfai_session_crawl", {
+			urls: ["https://example.com/pricing"],
+		});
+		expect(search.isError).toBe(false);
+		expect(crawl.isError).toBe(false);
+		expect(test.requests.map((r) => `${r.method} ${r.path}`)).toContain(
+			"POST /sessions/session_mock_1/crawl",
+		);
+		expect(searchPaths()).toEqual(["/sessions/session_mock_1/search"]);
+	});
+
+	it("resolves friendly names to session ids", async () => {
+		await test.callTool("zipfai_create_session", { name: "Pricing research" });
+		await test.callTool("zipfai_create_session", { name: "Competitors" });
+
+		await test.callTool("zipfai_session_search", {
+			session_id: "Pricing research",
+			query: "pricing",
+		});
+		await test.callTool("zipfai_session_search", { query: "rivals" });
+		expect(searchPaths()).toEqual([
+			"/sessions/session_mock_1/search",
+			"/sessions/session_mock_2/search",
+		]);
+
+		await test.callTool("zipfai_use_session", {
+			session_id: "Pricing research",
+		});
+		expect(getCurrentSessionId()).toBe("session_mock_1");
+	});
+
+	it("keeps a current session per project", async () => {
+		process.env.ZIPF_PROJECT = "/work/a";
+		await test.callTool("zipfai_create_session", { name: "A" });
+		process.env.ZIPF_PROJECT = "/work/b";
+		expect(getCurrentSessionId()).toBeUndefined();
+
+		const result = await test.callTool("zipfai_session_search", {
+			query: "anything",
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			"No session_id given and this project has no current session",
+		);
+		expect(searchPaths()).toEqual([]);
+	});
+
+	it("stops falling back to completed and archived sessions", async () => {
+		await test.callTool("zipfai_create_session", { name: "Done" });
+		await test.callTool("zipfai_complete_session", {
+			session_id: "session_mock_1",
+		});
+		expect(getCurrentSessionId()).toBeUndefined();
+
+		await test.callTool("zipfai_create_session", { name: "Paused" });
+		await test.callTool("zipfai_archive_session", { session_id: "Paused" });
+		expect(getCurrentSessionId()).toBeUndefined();
+
+		const result = await test.callTool("zipfai_use_session", {
+			session_id: "Paused",
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			"Session session_mock_2 is archived. Resume it with zipfai_resume_session first.",
+		);
+	});
+});
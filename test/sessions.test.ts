@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { ListSessionsResponse } from "../src/types.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("session lifecycle", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+		await test.callTool("zipfai_create_session", { name: "Pricing research" });
+		await test.callTool("zipfai_create_session", { name: "Competitors" });
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	async function listIds(status?: string): Promise<string[]> {
+		const result = await test.callTool(
+			"zipfai_list_sessions",
+			status ? { status } : {},
+		);
+		return (result.data as ListSessionsResponse).sessions.map((s) => s.id);
+	}
+
+	it("archives a session and resumes it", async () => {
+		await test.callTool("zipfai_archive_session", {
+			session_id: "session_mock_1",
+		});
+		expect(await listIds("active")).toEqual(["session_mock_2"]);
+		expect(await listIds("archived")).toEqual(["session_mock_1"]);
+		expect(await listIds()).toEqual(["session_mock_1", "session_mock_2"]);
+
+		const search = await test.callTool("zipfai_session_search", {
+			session_id: "session_mock_1",
+			query: "pricing",
+		});
+		expect(search.isError).toBe(true);
+		expect(search.text).toContain("Session session_mock_1 is archived");
+
+		await test.callTool("zipfai_resume_session", {
+			session_id: "session_mock_1",
+		});
+		const resumed = await test.callTool("zipfai_session_search", {
+			session_id: "session_mock_1",
+			query: "pricing",
+		});
+		expect(resumed.isError).toBe(false);
+	});
+
+	it("refuses to resume a completed session", async () => {
+		await test.callTool("zipfai_complete_session", {
+			session_id: "session_mock_2",
+		});
+		const result = await test.callTool("zipfai_resume_session", {
+			session_id: "session_mock_2",
+		});
+
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain(
+			"Session session_mock_2 is completed and can't be resumed",
+		);
+	});
+});
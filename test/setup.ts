@@ -0,0 +1,20 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Keep tests away from the developer's ~/.zipfai (profiles, cache, budgets) and environment
+process.env.HOME = mkdtempSync(join(tmpdir(), "zipfai-test-"));
+for (const name of [
+	"ZIPF_PROFILE",
+	"ZIPF_API_BASE_URL",
+	"ZIPF_CACHE",
+	"ZIPF_BUDGET_SESSION",
+	"ZIPF_BUDGET_PROCESS",
+	"ZIPF_TOOLSETS",
+	"ZIPF_TOOLS_ALLOW",
+	"ZIPF_TOOLS_DENY",
+	"ZIPF_MODE",
+]) {
+	delete process.env[name];
+}
+process.env.ZIPF_API_KEY = "test-key";
@@ -0,0 +1,707 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+// One call per registered tool against the mock API, with the shape its output must keep.
+// Ids like session_mock_1 are deterministic because every test gets a fresh mock API.
+interface ToolCase {
+	args: Record<string, unknown>;
+	// Tool calls that set up state first (e.g. create the session being searched)
+	before?: [string, Record<string, unknown>][];
+	shape: Record<string, unknown>;
+}
+
+const searchJob = {
+	search_job_id: expect.any(String),
+	status: "completed",
+	query: expect.any(String),
+	results: expect.arrayContaining([
+		expect.objectContaining({
+			title: expect.any(String),
+			url: expect.any(String),
+			description: expect.any(String),
+		}),
+	]),
+	credits: expect.objectContaining({ consumed: expect.any(Number) }),
+};
+
+const crawlJob = {
+	id: expect.any(String),
+	status: expect.any(String),
+	urls: ["https://example.com"],
+	results: expect.any(Array),
+	credits: expect.objectContaining({ consumed: expect.any(Number) }),
+};
+
+const createSession: [string, Record<string, unknown>] = [
+	"zipfai_create_session",
+	{ name: "Test research" },
+];
+
+const startAsyncCrawl: [string, Record<string, unknown>] = [
+	"zipfai_crawl",
+	{ urls: ["https://example.com"], processing_mode: "async" },
+];
+
+const TOOL_CASES: Record<string, ToolCase> = {
+	zipfai_status: {
+		args: {},
+		shape: {
+			healthy: true,
+			api_version: expect.any(String),
+			credits_balance: expect.any(Number),
+			rate_limits: {
+				per_hour: expect.any(Number),
+				per_day: expect.any(Number),
+			},
+		},
+	},
+	zipfai_usage_report: {
+		before: [["zipfai_quick_search", { query: "mcp" }]],
+		args: {},
+		shape: {
+			// Earlier cases in this file share the audit log
+			total: expect.objectContaining({ calls: expect.any(Number) }),
+			by_tool: expect.objectContaining({
+				zipfai_quick_search: expect.objectContaining({
+					credits: expect.any(Number),
+				}),
+			}),
+			balance: { credits: expect.any(Number), source: "api" },
+			burn_rate: expect.objectContaining({
+				credits_per_day: expect.any(Number),
+			}),
+			projection: expect.objectContaining({
+				days_remaining: expect.any(Number),
+			}),
+		},
+	},
+	zipfai_quick_search: {
+		args: { query: "model context protocol", max_results: 3 },
+		shape: {
+			results: [
+				expect.objectContaining({
+					title: expect.any(String),
+					url: expect.any(String),
+				}),
+				expect.any(Object),
+				expect.any(Object),
+			],
+		},
+	},
+	zipfai_search: {
+		args: { query: "model context protocol", generate_summary: true },
+		shape: {
+			...searchJob,
+			summary: { status: "completed", content: expect.any(String) },
+		},
+	},
+	zipfai_ask: {
+		args: { question: "What is MCP?", depth: "quick" },
+		shape: {
+			answer: expect.any(String),
+			depth: "quick",
+			sources: expect.arrayContaining([
+				expect.objectContaining({
+					url: expect.any(String),
+					title: expect.any(String),
+				}),
+			]),
+			credits: {
+				consumed: 2,
+				balance_after: expect.any(Number),
+				pricing_tier: "advanced",
+			},
+		},
+	},
+	zipfai_crawl: {
+		args: { urls: ["https://example.com"] },
+		shape: {
+			...crawlJob,
+			status: "completed",
+			results: [expect.objectContaining({ url: "https://example.com" })],
+		},
+	},
+	zipfai_get_crawl: {
+		before: [startAsyncCrawl],
+		args: { crawl_id: "crawl_mock_1" },
+		shape: { ...crawlJob, id: "crawl_mock_1", pages_crawled: 1 },
+	},
+	zipfai_cancel_crawl: {
+		before: [startAsyncCrawl],
+		args: { crawl_id: "crawl_mock_1" },
+		shape: { ...crawlJob, id: "crawl_mock_1", status: "cancelled" },
+	},
+	zipfai_suggest_schema: {
+		args: { url: "https://example.com/article" },
+		shape: {
+			url: "https://example.com/article",
+			detected_page_type: expect.any(String),
+			suggested_schema: expect.any(Object),
+		},
+	},
+	zipfai_create_session: {
+		args: { name: "Test research" },
+		shape: {
+			session: expect.objectContaining({
+				id: "session_mock_1",
+				name: "Test research",
+				status: "active",
+			}),
+		},
+	},
+	zipfai_session_search: {
+		before: [createSession],
+		args: { session_id: "session_mock_1", query: "model context protocol" },
+		shape: searchJob,
+	},
+	zipfai_session_crawl: {
+		before: [createSession],
+		args: { session_id: "session_mock_1", urls: ["https://example.com"] },
+		shape: { ...crawlJob, status: "completed" },
+	},
+	zipfai_list_sessions: {
+		before: [createSession],
+		args: { status: "active" },
+		shape: {
+			sessions: [
+				expect.objectContaining({ id: "session_mock_1", status: "active" }),
+			],
+			pagination: expect.objectContaining({ total: 1 }),
+		},
+	},
+	zipfai_use_session: {
+		before: [[createSession[0], { ...createSession[1], make_current: false }]],
+		args: { session_id: "session_mock_1" },
+		shape: {
+			project: expect.any(String),
+			current_session_id: "session_mock_1",
+			remembered_sessions: expect.arrayContaining([
+				expect.objectContaining({ id: "session_mock_1" }),
+			]),
+		},
+	},
+	zipfai_get_session: {
+		before: [createSession],
+		args: { session_id: "session_mock_1" },
+		shape: {
+			session: expect.objectContaining({
+				id: "session_mock_1",
+				session_config: expect.objectContaining({ auto_deduplicate: true }),
+				aggregates: expect.objectContaining({ operation_count: 0 }),
+			}),
+		},
+	},
+	zipfai_session_timeline: {
+		before: [
+			createSession,
+			["zipfai_session_search", { session_id: "session_mock_1", query: "mcp" }],
+		],
+		args: { session_id: "session_mock_1" },
+		shape: {
+			session_id: "session_mock_1",
+			operations: [
+				expect.objectContaining({ type: "search", status: "completed" }),
+			],
+			aggregates: expect.objectContaining({ operation_count: 1 }),
+		},
+	},
+	zipfai_export_session: {
+		before: [
+			createSession,
+			["zipfai_session_search", { session_id: "session_mock_1", query: "mcp" }],
+		],
+		args: { session_id: "session_mock_1", format: "json" },
+		shape: {
+			session: expect.objectContaining({ id: "session_mock_1" }),
+			operations: [expect.objectContaining({ type: "search", query: "mcp" })],
+			sources: expect.arrayContaining([
+				expect.objectContaining({ id: 1, citation_key: expect.any(String) }),
+			]),
+			stats: expect.objectContaining({ operations: 1 }),
+		},
+	},
+	zipfai_complete_session: {
+		before: [createSession],
+		args: { session_id: "session_mock_1" },
+		shape: {
+			session: expect.objectContaining({
+				status: "completed",
+				completed_at: expect.any(String),
+			}),
+		},
+	},
+	zipfai_archive_session: {
+		before: [createSession],
+		args: { session_id: "session_mock_1" },
+		shape: { session: expect.objectContaining({ status: "archived" }) },
+	},
+	zipfai_resume_session: {
+		before: [
+			createSession,
+			["zipfai_archive_session", { session_id: "session_mock_1" }],
+		],
+		args: { session_id: "session_mock_1" },
+		shape: { session: expect.objectContaining({ status: "active" }) },
+	},
+	zipfai_research: {
+		args: { query: "model context protocol", auto_crawl_top_n: 2 },
+		shape: {
+			answer: expect.any(String),
+			search_job_id: expect.any(String),
+			crawl_ids: [expect.any(String), expect.any(String)],
+			sources: expect.arrayContaining([
+				expect.objectContaining({ crawled: true }),
+			]),
+		},
+	},
+	zipfai_assess_intent: {
+		args: { intent: "Tell me when the EU AI Act gets a new amendment" },
+		shape: {
+			assessment: "specific",
+			specificity_score: expect.any(Number),
+			is_actionable: true,
+			inferred: expect.objectContaining({
+				trigger_conditions: expect.any(Array),
+			}),
+		},
+	},
+	zipfai_plan_workflow: {
+		args: { intent: "Track AI regulation news" },
+		shape: {
+			name: expect.any(String),
+			steps: expect.arrayContaining([
+				expect.objectContaining({
+					step_id: expect.any(String),
+					step_type: "search",
+				}),
+			]),
+			estimated_credits_per_execution: expect.any(Number),
+		},
+	},
+	zipfai_create_workflow: {
+		args: {
+			name: "Daily MCP news",
+			workflow_type: "search",
+			operation_config: { query: "MCP news" },
+			stop_condition_type: "always",
+			interval: "1 day",
+		},
+		shape: {
+			workflow: expect.objectContaining({
+				id: "wf_mock_1",
+				name: "Daily MCP news",
+				interval_minutes: 1440,
+				status: "active",
+			}),
+		},
+	},
+	zipfai_list_workflows: {
+		args: {},
+		shape: {
+			workflows: [
+				expect.objectContaining({ id: "wf_mock_search" }),
+				expect.objectContaining({ id: "wf_mock_crawl" }),
+			],
+			pagination: expect.objectContaining({ total: 2 }),
+		},
+	},
+	zipfai_get_workflow: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			workflow: expect.objectContaining({ id: "wf_mock_search" }),
+			executions: expect.any(Array),
+			stats: expect.objectContaining({ total_executions: 2 }),
+		},
+	},
+	zipfai_update_workflow: {
+		args: { workflow_id: "wf_mock_search", name: "Renamed" },
+		shape: { workflow: expect.objectContaining({ name: "Renamed" }) },
+	},
+	zipfai_execute_workflow: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			message: expect.any(String),
+			execution_id: "wf_mock_search_exec_3",
+		},
+	},
+	zipfai_workflow_timeline: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			workflow_id: "wf_mock_search",
+			executions: [
+				expect.objectContaining({ id: "wf_mock_search_exec_2" }),
+				expect.objectContaining({ id: "wf_mock_search_exec_1" }),
+			],
+		},
+	},
+	zipfai_workflow_diff: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			workflow_id: "wf_mock_search",
+			stats: expect.objectContaining({ executions_with_changes: 1 }),
+			diffs: expect.arrayContaining([
+				expect.objectContaining({
+					has_changes: true,
+					changes: expect.any(Array),
+				}),
+			]),
+			latest: expect.objectContaining({
+				execution_id: "wf_mock_search_exec_2",
+			}),
+		},
+	},
+	zipfai_execution_ratings: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			schema_version: "execution_feedback_v1",
+			workflow_id: "wf_mock_search",
+			feedback: [],
+			pagination: { limit: expect.any(Number), next_cursor: null },
+		},
+	},
+	zipfai_rate_execution: {
+		args: {
+			workflow_id: "wf_mock_search",
+			execution_id: "wf_mock_search_exec_1",
+			rating: "positive",
+			reason_category: "relevant_results",
+		},
+		shape: {
+			schema_version: "execution_feedback_v1",
+			workflow_id: "wf_mock_search",
+			execution_id: "wf_mock_search_exec_1",
+			status: "created",
+			feedback: expect.objectContaining({
+				signal_type: "result_thumbs_up",
+				signal_source: "mcp",
+				actor: expect.objectContaining({ model: "zipfai-test/1.0.0" }),
+			}),
+		},
+	},
+	zipfai_batch_rate_executions: {
+		args: {
+			workflow_id: "wf_mock_search",
+			ratings: [
+				{ execution_id: "wf_mock_search_exec_1", rating: "positive" },
+				{ execution_id: "wf_mock_search_exec_2", rating: "negative" },
+			],
+		},
+		shape: {
+			schema_version: "execution_feedback_v1",
+			submitted: 2,
+			succeeded: 2,
+			failed: 0,
+			results: expect.any(Array),
+		},
+	},
+	zipfai_feedback_queue: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			total_unrated: 2,
+			items: expect.arrayContaining([
+				expect.objectContaining({
+					execution_id: "wf_mock_search_exec_1",
+					feedback_hint: expect.objectContaining({
+						action: {
+							tool: "zipfai_rate_execution",
+							args: {
+								workflow_id: "wf_mock_search",
+								execution_id: "wf_mock_search_exec_1",
+							},
+						},
+					}),
+				}),
+			]),
+		},
+	},
+	zipfai_execution_rating_stats: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			schema_version: "execution_feedback_v1",
+			total_feedback: 0,
+			by_actor_type: { human: 0, api: 0, mcp: 0 },
+		},
+	},
+	zipfai_feedback_impact: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			workflow_id: "wf_mock_search",
+			your_ratings: expect.objectContaining({ total: 0 }),
+			negative_patterns: expect.any(Object),
+		},
+	},
+	zipfai_workflow_updates: {
+		args: { since: "2025-01-01T00:00:00Z" },
+		shape: {
+			summary: expect.any(String),
+			total_workflows: 1,
+			workflows: [
+				expect.objectContaining({
+					workflow_id: "wf_mock_search",
+					signal_score: expect.any(Number),
+					signal_level: expect.any(String),
+				}),
+			],
+		},
+	},
+	zipfai_delete_workflow: {
+		args: { workflow_id: "wf_mock_search", confirm: true },
+		shape: { message: expect.any(String) },
+	},
+	zipfai_get_workflow_slack_status: {
+		args: { workflow_id: "wf_mock_search" },
+		shape: {
+			workflow_id: "wf_mock_search",
+			slack_status: expect.objectContaining({ configured: false }),
+			ready_to_test: false,
+		},
+	},
+	zipfai_test_workflow_slack: {
+		before: [
+			[
+				"zipfai_update_workflow",
+				{
+					workflow_id: "wf_mock_search",
+					slack_webhook_url: "https://hooks.slack.com/services/T0/B0/X",
+				},
+			],
+		],
+		args: { workflow_id: "wf_mock_search" },
+		shape: { success: true, workflow_id: "wf_mock_search" },
+	},
+	zipfai_get_workflow_validation_status: {
+		args: { workflow_id: "wf_mock_crawl" },
+		shape: {
+			workflow_id: "wf_mock_crawl",
+			validation_status: expect.objectContaining({
+				validation_available: true,
+			}),
+		},
+	},
+	zipfai_validate_workflow: {
+		args: { workflow_id: "wf_mock_crawl", url_health_check: true },
+		shape: {
+			workflow_id: "wf_mock_crawl",
+			validation_results: expect.objectContaining({
+				valid: true,
+				url_health: [expect.objectContaining({ status: "redirect" })],
+			}),
+		},
+	},
+	zipfai_get_workflow_recovery_suggestions: {
+		args: { workflow_id: "wf_mock_crawl" },
+		shape: {
+			workflow_id: "wf_mock_crawl",
+			suggestions: [
+				expect.objectContaining({ id: "rec_mock_1", status: "pending" }),
+			],
+			total_pending: 1,
+		},
+	},
+	zipfai_apply_workflow_recovery: {
+		args: { workflow_id: "wf_mock_crawl", apply_all: true, confirm: true },
+		shape: { workflow_id: "wf_mock_crawl", applied: 1, rejected: 0 },
+	},
+	zipfai_list_entity_schemas: {
+		args: {},
+		shape: {
+			schemas: [expect.objectContaining({ name: "job_posting" })],
+			total: 1,
+		},
+	},
+	zipfai_create_entity_schema: {
+		args: {
+			name: "company",
+			dedup_key: ["domain"],
+			fields: { domain: { type: "string", required: true } },
+		},
+		shape: {
+			schema: expect.objectContaining({
+				name: "company",
+				dedup_key: ["domain"],
+				fields: { domain: expect.objectContaining({ type: "string" }) },
+			}),
+		},
+	},
+	zipfai_get_entity_schema: {
+		args: { schema_name: "job_posting" },
+		shape: { schema: expect.objectContaining({ name: "job_posting" }) },
+	},
+	zipfai_delete_entity_schema: {
+		args: { schema_name: "job_posting", confirm: true },
+		shape: { message: expect.any(String) },
+	},
+	zipfai_list_entities: {
+		args: { schema_name: "job_posting", status: "active" },
+		shape: {
+			schema_name: "job_posting",
+			entities: [
+				expect.objectContaining({ id: "ent_mock_1", status: "active" }),
+			],
+			total: 1,
+			has_more: false,
+		},
+	},
+	zipfai_query_entities: {
+		args: {
+			schema_name: "job_posting",
+			aggregations: [{ type: "count_by", field: "location" }],
+		},
+		shape: {
+			total: 2,
+			aggregations: [{ type: "count_by", results: { Remote: 1, Berlin: 1 } }],
+			credits: expect.objectContaining({ consumed: 1 }),
+		},
+	},
+	zipfai_get_entity: {
+		args: { schema_name: "job_posting", entity_id: "ent_mock_1" },
+		shape: { entity: expect.objectContaining({ id: "ent_mock_1" }) },
+	},
+	zipfai_update_entity: {
+		args: {
+			schema_name: "job_posting",
+			entity_id: "ent_mock_1",
+			status: "closed",
+		},
+		shape: {
+			entity: expect.objectContaining({
+				status: "closed",
+				closed_at: expect.any(String),
+			}),
+		},
+	},
+	zipfai_export_entities: {
+		args: { schema_name: "job_posting", format: "csv" },
+		shape: {
+			format: "csv",
+			count: 2,
+			data: expect.stringMatching(/^company,title,location,url\n/),
+		},
+	},
+	zipfai_list_entity_signals: {
+		args: {},
+		shape: {
+			signals: [expect.objectContaining({ id: "sig_mock_new_remote" })],
+			total: 1,
+		},
+	},
+	zipfai_create_entity_signal: {
+		args: {
+			schema_id: "es_mock_job_posting",
+			name: "Any new posting",
+			condition_type: "new_entity",
+			actions: [{ type: "log", config: {} }],
+		},
+		shape: {
+			signal: expect.objectContaining({
+				name: "Any new posting",
+				is_active: true,
+				condition_config: expect.objectContaining({ type: "new_entity" }),
+			}),
+		},
+	},
+	zipfai_get_entity_signal: {
+		args: { signal_id: "sig_mock_new_remote" },
+		shape: { signal: expect.objectContaining({ id: "sig_mock_new_remote" }) },
+	},
+	zipfai_update_entity_signal: {
+		args: { signal_id: "sig_mock_new_remote", is_active: false },
+		shape: { signal: expect.objectContaining({ is_active: false }) },
+	},
+	zipfai_delete_entity_signal: {
+		args: { signal_id: "sig_mock_new_remote" },
+		shape: { message: expect.any(String) },
+	},
+};
+
+describe("registered tools", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		test = await startTestClient();
+		// Caches the output schemas, so the client validates structuredContent too
+		await test.client.listTools();
+	});
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	it("has a test case for every tool", async () => {
+		const { tools } = await test.client.listTools();
+		expect(tools.map((tool) => tool.name).sort()).toEqual(
+			Object.keys(TOOL_CASES).sort(),
+		);
+	});
+
+	it.each(Object.entries(TOOL_CASES))("%s", async (name, toolCase) => {
+		for (const [setupTool, setupArgs] of toolCase.before ?? []) {
+			const setup = await test.callTool(setupTool, setupArgs);
+			expect(setup.isError, setup.text).toBe(false);
+		}
+
+		const result = await test.callTool(name, toolCase.args);
+		expect(result.isError, result.text).toBe(false);
+		expect(result.data).toMatchObject(toolCase.shape);
+		expect(result.text).not.toBe("");
+	});
+
+	it("renders quick search results as a Markdown link list", async () => {
+		const result = await test.callTool("zipfai_quick_search", {
+			query: "model context protocol",
+			max_results: 2,
+		});
+
+		const lines = result.text.split("\n");
+		expect(lines).toHaveLength(2);
+		for (const line of lines) {
+			expect(line).toMatch(/^- \[.+\]\(https?:\/\/\S+\)/);
+		}
+	});
+
+	it("accepts search results without a title or description", async () => {
+		await test.close();
+		test = await startTestClient({
+			"POST /search": {
+				status: 200,
+				body: {
+					results: [
+						{
+							title: null,
+							url: "https://example.com/untitled",
+							description: null,
+							published_date: null,
+						},
+					],
+				},
+			},
+		});
+		await test.client.listTools();
+
+		const result = await test.callTool("zipfai_quick_search", {
+			query: "untitled pages",
+		});
+		expect(result.isError, result.text).toBe(false);
+		expect(result.text).toBe(
+			"- [https://example.com/untitled](https://example.com/untitled)",
+		);
+	});
+
+	it("declares an output schema for every tool", async () => {
+		const { tools } = await test.client.listTools();
+		for (const tool of tools) {
+			expect(tool.outputSchema, tool.name).toMatchObject({
+				type: "object",
+				additionalProperties: true,
+			});
+		}
+	});
+
+	it("reports API errors as tool errors", async () => {
+		const result = await test.callTool("zipfai_get_workflow", {
+			workflow_id: "wf_missing",
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain("Workflow not found: wf_missing");
+	});
+});
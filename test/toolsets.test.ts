@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { readConfig, writeConfig } from "../src/config.js";
+import { mockStatus } from "../src/mock-fixtures.js";
+import { setHttpClient } from "../src/request.js";
+import {
+	configureToolsets,
+	loadCreditCosts,
+	MUTATING_TOOLS,
+	PAID_TOOLS,
+	setCreditCosts,
+	TOOLSETS,
+} from "../src/toolsets.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+describe("toolsets", () => {
+	let test: TestClient | undefined;
+
+	afterEach(async () => {
+		delete process.env.ZIPF_TOOLSETS;
+		delete process.env.ZIPF_TOOLS_ALLOW;
+		delete process.env.ZIPF_TOOLS_DENY;
+		delete process.env.ZIPF_MODE;
+		configureToolsets({});
+		setCreditCosts(undefined);
+		setHttpClient(undefined);
+		writeConfig({ ...readConfig(), tools: undefined });
+		await test?.close();
+		test = undefined;
+	});
+
+	async function registeredTools(): Promise<string[]> {
+		test = await startTestClient();
+		const { tools } = await test.client.listTools();
+		return tools.map((tool) => tool.name).sort();
+	}
+
+	it("registers every tool by default, each in exactly one toolset", async () => {
+		const grouped = Object.values(TOOLSETS).flat();
+		expect(new Set(grouped).size).toBe(grouped.length);
+		expect(await registeredTools()).toEqual([...grouped].sort());
+	});
+
+	it("registers only the selected toolsets plus allowed tools", async () => {
+		process.env.ZIPF_TOOLSETS = "search";
+		process.env.ZIPF_TOOLS_ALLOW = "zipfai_status";
+		process.env.ZIPF_TOOLS_DENY = "zipfai_research,zipfai_suggest_schema";
+
+		expect(await registeredTools()).toEqual([
+			"zipfai_ask",
+			"zipfai_cancel_crawl",
+			"zipfai_crawl",
+			"zipfai_get_crawl",
+			"zipfai_quick_search",
+			"zipfai_search",
+			"zipfai_status",
+		]);
+	});
+
+	it("reads the config file, with env and CLI flags taking precedence", async () => {
+		writeConfig({
+			...readConfig(),
+			tools: { toolsets: ["admin"], deny: ["zipfai_usage_report"] },
+		});
+		expect(await registeredTools()).toEqual(["zipfai_status"]);
+		await test?.close();
+		test = undefined;
+
+		process.env.ZIPF_TOOLSETS = "admin,sessions";
+		expect(configureToolsets({ deny: ["zipfai_status"] })).toBe(
+			"Registering 12 of 58 tools (toolsets: admin, sessions, mode: full)",
+		);
+		const tools = await registeredTools();
+		expect(tools).toContain("zipfai_usage_report");
+		expect(tools).not.toContain("zipfai_status");
+		expect(tools).toContain("zipfai_session_search");
+	});
+
+	it("marks every tool without FREE in its description as paid", async () => {
+		test = await startTestClient();
+		const { tools } = await test.client.listTools();
+		const paid = tools
+			.filter((tool) => !tool.description?.includes("FREE"))
+			.map((tool) => tool.name);
+		expect(paid.sort()).toEqual([...PAID_TOOLS].sort());
+	});
+
+	it("hides paid tools in no_spend mode", async () => {
+		process.env.ZIPF_MODE = "no_spend";
+		const tools = await registeredTools();
+
+		expect(tools).not.toContain("zipfai_search");
+		expect(tools).not.toContain("zipfai_execute_workflow");
+		// FREE by their descriptions, but they reach the web without a published price
+		expect(tools).not.toContain("zipfai_validate_workflow");
+		expect(tools).not.toContain("zipfai_test_workflow_slack");
+		expect(tools).toContain("zipfai_update_workflow");
+		expect(tools).toContain("zipfai_get_workflow");
+	});
+
+	it("follows the account's published credit costs over the list prices", async () => {
+		process.env.ZIPF_MODE = "no_spend";
+		setHttpClient(async () =>
+			Response.json({
+				...mockStatus(100),
+				credit_costs: { search: 0, ask: "2-5" },
+			}),
+		);
+
+		expect(await loadCreditCosts()).toBe(true);
+		const tools = await registeredTools();
+		expect(tools).toContain("zipfai_search");
+		expect(tools).toContain("zipfai_quick_search");
+		expect(tools).not.toContain("zipfai_ask");
+		// Not in credit_costs, so its list price applies
+		expect(tools).not.toContain("zipfai_crawl");
+	});
+
+	it("keeps the list prices when credit costs can't be loaded", async () => {
+		setHttpClient(async () =>
+			Response.json({ error: "Invalid API key" }, { status: 401 }),
+		);
+
+		expect(await loadCreditCosts()).toBe(false);
+		process.env.ZIPF_MODE = "no_spend";
+		expect(await registeredTools()).not.toContain("zipfai_search");
+	});
+
+	it("hides changing tools and refuses assessments in read_only mode", async () => {
+		process.env.ZIPF_MODE = "read_only";
+		process.env.ZIPF_TOOLS_ALLOW = "zipfai_delete_workflow";
+		const tools = await registeredTools();
+
+		for (const name of [...PAID_TOOLS, ...MUTATING_TOOLS]) {
+			expect(tools).not.toContain(name);
+		}
+		expect(tools).toContain("zipfai_list_workflows");
+		expect(tools).toContain("zipfai_get_entity");
+
+		const status = await test?.callTool("zipfai_status");
+		expect(status?.data).toMatchObject({ mode: "read_only" });
+
+		const refused = await test?.callTool("zipfai_get_workflow", {
+			workflow_id: "wf_mock_1",
+			assessments: [{ question_id: "q1", answer: "yes" }],
+		});
+		expect(refused?.isError).toBe(true);
+		expect(refused?.text).toContain("can't take assessments in read_only mode");
+		expect(test?.requests).toHaveLength(1);
+	});
+
+	it("rejects unknown toolsets and tool names", () => {
+		expect(() => configureToolsets({ toolsets: ["serch"] })).toThrow(
+			'Unknown toolset "serch"',
+		);
+		expect(() => configureToolsets({ mode: "readonly" })).toThrow(
+			'Unknown mode "readonly"',
+		);
+		expect(() => configureToolsets({ deny: ["zipfai_nope"] })).toThrow(
+			'Unknown tool "zipfai_nope" in the deny list',
+		);
+	});
+});
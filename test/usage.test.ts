@@ -0,0 +1,182 @@
+import { rmSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { fingerprintApiKey } from "../src/api.js";
+import { getLogDir, writeAuditEntry } from "../src/audit.js";
+import { resolveUsageRange, type UsageReport } from "../src/usage.js";
+import { startTestClient, type TestClient } from "./helpers.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("zipfai_usage_report", () => {
+	let test: TestClient;
+
+	beforeEach(async () => {
+		rmSync(getLogDir(), { recursive: true, force: true });
+		test = await startTestClient();
+
+		await test.callTool("zipfai_create_session", { name: "Research" });
+		await test.callTool("zipfai_session_search", {
+			session_id: "session_mock_1",
+			query: "mcp",
+		});
+		await test.callTool("zipfai_ask", {
+			question: "What is MCP?",
+			depth: "quick",
+		});
+		await test.callTool("zipfai_execute_workflow", {
+			workflow_id: "wf_mock_search",
+		});
+	});
+
+	afterEach(async () => {
+		process.env.ZIPF_API_KEY = "test-key";
+		await test.close();
+	});
+
+	async function getReport(
+		args: Record<string, unknown>,
+	): Promise<UsageReport> {
+		const result = await test.callTool("zipfai_usage_report", args);
+		expect(result.isError, result.text).toBe(false);
+		return result.data as UsageReport;
+	}
+
+	it("breaks spend down by tool, session, workflow and day", async () => {
+		// The mock's scheduled workflow runs happened in January 2025
+		const report = await getReport({ since: "2025-01-01" });
+
+		expect(report.by_tool).toMatchObject({
+			zipfai_create_session: { calls: 1, credits: 0 },
+			zipfai_session_search: { calls: 1, credits: 1 },
+			zipfai_ask: { calls: 1, credits: 2 },
+			zipfai_execute_workflow: { calls: 1, credits: 1 },
+		});
+		expect(report.total).toEqual({ calls: 4, errors: 0, credits: 4 });
+		expect(Object.values(report.by_day)).toEqual([
+			{ calls: 4, errors: 0, credits: 4 },
+		]);
+
+		expect(report.by_session.session_mock_1).toMatchObject({
+			calls: 1,
+			credits: 1,
+			api: { credits_in_range: 1, operation_count: 1 },
+		});
+		expect(report.by_workflow.wf_mock_search).toMatchObject({
+			calls: 1,
+			credits: 1,
+			api: {
+				name: "AI regulation news",
+				// Two scheduled runs from the fixtures plus the manual one
+				executions_in_range: 3,
+				scheduled_credits_in_range: 2,
+			},
+		});
+	});
+
+	it("projects when the balance runs out", async () => {
+		const report = await getReport({ since: "2025-01-01" });
+
+		expect(report.balance).toMatchObject({ source: "api" });
+		// Tool-call spend plus the scheduled runs
+		expect(report.burn_rate.credits_in_range).toBe(6);
+		// The rate uses the exact time elapsed, not the rounded burn_rate.days
+		const days = (Date.now() - Date.parse(report.since)) / DAY_MS;
+		expect(report.burn_rate.days).toBeCloseTo(days, 1);
+		expect(report.burn_rate.credits_per_day).toBeCloseTo(6 / days, 4);
+
+		const balance = report.balance?.credits ?? 0;
+		expect(report.projection.days_remaining).toBeCloseTo(
+			balance / (6 / days),
+			1,
+		);
+		expect(Date.parse(report.projection.runs_out_at ?? "")).toBeGreaterThan(
+			Date.now(),
+		);
+	});
+
+	it("works from the audit log alone", async () => {
+		const requestsBefore = test.requests.length;
+		const report = await getReport({ include_api_stats: false });
+
+		expect(test.requests).toHaveLength(requestsBefore);
+		expect(report.by_session.session_mock_1).toEqual({
+			calls: 1,
+			errors: 0,
+			credits: 1,
+		});
+		expect(report.by_workflow.wf_mock_search).not.toHaveProperty("api");
+		// Last balance_after seen in an API response
+		expect(report.balance).toMatchObject({ source: "audit_log" });
+		expect(report.burn_rate.credits_in_range).toBe(4);
+	});
+
+	it("only counts calls made with the active key", async () => {
+		const call = {
+			timestamp: new Date().toISOString(),
+			tool: "zipfai_ask",
+			arguments: {},
+			duration_ms: 10,
+			status: "ok" as const,
+			api_calls: 1,
+			credits_consumed: 5,
+		};
+		// Another key, and an entry from another profile logged before keys were fingerprinted
+		writeAuditEntry({ ...call, account: fingerprintApiKey("other-key") });
+		writeAuditEntry({ ...call, profile: "staging" });
+
+		const own = await getReport({ include_api_stats: false });
+		expect(own.total).toEqual({ calls: 4, errors: 0, credits: 4 });
+
+		process.env.ZIPF_API_KEY = "other-key";
+		const other = await getReport({ include_api_stats: false });
+		// The usage report call made with test-key isn't counted either
+		expect(other.total).toEqual({ calls: 1, errors: 0, credits: 5 });
+	});
+
+	it("reports no runout without spend", async () => {
+		const report = await getReport({
+			since: "2024-01-01",
+			until: "2024-01-31",
+		});
+
+		expect(report.total.calls).toBe(0);
+		expect(report.projection).toEqual({
+			note: "No credits spent in this window, so the balance isn't going down.",
+		});
+	});
+
+	it("rejects invalid ranges", async () => {
+		const result = await test.callTool("zipfai_usage_report", {
+			since: "yesterday",
+		});
+		expect(result.isError).toBe(true);
+		expect(result.text).toContain("Invalid since: yesterday");
+	});
+});
+
+describe("resolveUsageRange", () => {
+	const now = Date.parse("2025-01-15T12:00:00Z");
+
+	it("defaults to the last seven days", () => {
+		expect(resolveUsageRange(undefined, undefined, now)).toEqual({
+			since: now - 7 * DAY_MS,
+			until: now,
+		});
+	});
+
+	it("includes the whole until day", () => {
+		const range = resolveUsageRange("2025-01-01", "2025-01-10", now);
+		expect(new Date(range.since).toISOString()).toBe(
+			"2025-01-01T00:00:00.000Z",
+		);
+		expect(new Date(range.until).toISOString()).toBe(
+			"2025-01-10T23:59:59.999Z",
+		);
+	});
+
+	it("rejects since after until", () => {
+		expect(() => resolveUsageRange("2025-01-10", "2025-01-01", now)).toThrow(
+			"since must be before until",
+		);
+	});
+});
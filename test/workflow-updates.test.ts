@@ -0,0 +1,217 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { loadFixture, startTestClient, type TestClient } from "./helpers.js";
+
+// Four workflows, one per signal level (see fixtures/workflow-updates.json):
+// wf_reg     high priority, stop condition triggered, regulatory URLs -> urgent
+// wf_prices  extraction changes, one new URL shared with wf_reg       -> notable
+// wf_quiet   nothing changed                                          -> routine
+// wf_churn   80% churn                                                -> noise
+const fixtures = loadFixture("workflow-updates");
+const since = "2025-01-14T00:00:00.000Z";
+
+interface Digest {
+	workflow_id: string;
+	has_changes: boolean;
+	triggered_condition: boolean;
+	executions_since: number;
+	change_summary: string;
+	signal_score: number;
+	signal_level: string;
+	signal_reasoning: string;
+	new_urls?: { url: string }[];
+}
+
+interface DigestResponse {
+	summary: string;
+	workflows_with_changes: number;
+	triggered_workflows: number;
+	total_executions_since: number;
+	workflows: Digest[];
+	correlations?: {
+		type: string;
+		value: string;
+		workflows: { workflow_id: string; context: string }[];
+		insight: string;
+	}[];
+	correlation_metadata: Record<string, number>;
+	formatted_output?: string;
+}
+
+describe("zipfai_workflow_updates", () => {
+	let test: TestClient;
+
+	afterEach(async () => {
+		await test.close();
+	});
+
+	async function getDigest(
+		args: Record<string, unknown> = {},
+	): Promise<DigestResponse> {
+		const result = await test.callTool("zipfai_workflow_updates", {
+			since,
+			...args,
+		});
+		expect(result.isError, result.text).toBe(false);
+		return result.data as DigestResponse;
+	}
+
+	it("scores each workflow and sorts by signal", async () => {
+		test = await startTestClient(fixtures);
+		const digest = await getDigest();
+
+		expect(
+			digest.workflows.map((w) => [
+				w.workflow_id,
+				w.signal_score,
+				w.signal_level,
+			]),
+		).toEqual([
+			["wf_reg", 100, "urgent"],
+			["wf_prices", 70, "notable"],
+			["wf_quiet", 50, "routine"],
+			["wf_churn", 35, "noise"],
+		]);
+
+		const [reg, prices, quiet, churn] = digest.workflows;
+		expect(reg.signal_reasoning).toBe(
+			"high-priority workflow, stop condition triggered, contains regulatory/academic/news content",
+		);
+		expect(prices.signal_reasoning).toBe("extraction data changed");
+		expect(quiet.signal_reasoning).toBe("baseline activity");
+		expect(churn.signal_reasoning).toBe("high churn rate");
+	});
+
+	it("summarizes the changes of the latest diff", async () => {
+		test = await startTestClient(fixtures);
+		const digest = await getDigest();
+		const summaries = Object.fromEntries(
+			digest.workflows.map((w) => [w.workflow_id, w.change_summary]),
+		);
+
+		expect(summaries).toEqual({
+			wf_reg: "+2 added, ↑1 increased",
+			wf_prices: "~1 modified",
+			wf_quiet: "No changes detected",
+			wf_churn: "↓1 decreased",
+		});
+		expect(digest.workflows_with_changes).toBe(3);
+		expect(digest.triggered_workflows).toBe(1);
+		expect(digest.total_executions_since).toBe(5);
+		expect(digest.summary).toContain(
+			"1 workflow(s) triggered their stop condition",
+		);
+		expect(digest.summary).toContain("3/4 workflows have new changes");
+	});
+
+	it("correlates URLs shared across workflows after normalizing them", async () => {
+		test = await startTestClient(fixtures);
+		const digest = await getDigest();
+
+		expect(digest.correlations).toEqual([
+			{
+				type: "shared_url",
+				value: "https://eur-lex.europa.eu/ai-act",
+				workflows: [
+					{
+						workflow_id: "wf_reg",
+						workflow_name: "EU AI Act",
+						context: "The Council adopted the amendment...",
+					},
+					{
+						workflow_id: "wf_prices",
+						workflow_name: "Pricing page monitor",
+						context: "",
+					},
+				],
+				insight: "Appears in 2 monitors: EU AI Act, Pricing page monitor",
+			},
+		]);
+		expect(digest.correlation_metadata).toEqual({
+			workflows_analyzed: 2,
+			workflows_skipped: 0,
+			total_urls_compared: 3,
+		});
+	});
+
+	it("renders a briefing grouped by signal level", async () => {
+		test = await startTestClient(fixtures);
+		const { formatted_output: briefing } = await getDigest({
+			format: "briefing",
+		});
+
+		expect(briefing).toMatch(/^# Workflow Updates - \d{4}-\d{2}-\d{2}\n/);
+		expect(briefing).toContain(
+			[
+				"## Urgent (1)",
+				"",
+				"### EU AI Act",
+				"**Stop condition triggered!**",
+				"+2 added, ↑1 increased",
+			].join("\n"),
+		);
+		expect(briefing).toContain(
+			"- [AI Act amendment adopted](https://eur-lex.europa.eu/ai-act)",
+		);
+		expect(briefing).toContain(
+			[
+				"## Notable (1)",
+				"",
+				"### Pricing page monitor",
+				"~1 modified",
+				"**New findings:** AI Act pricing obligations",
+				"*Signal: extraction data changed*",
+				"Churn: 30%",
+			].join("\n"),
+		);
+		expect(briefing).toContain(
+			"## Routine (1)\n\n1 workflows with routine activity:\nCompetitor blog",
+		);
+		expect(briefing).toContain("## Low Signal (1)");
+		expect(briefing).toContain("## Cross-Workflow Patterns (1)");
+		expect(briefing).toContain("- **eur-lex.europa.eu** (2 monitors)");
+	});
+
+	it("renders an all-quiet briefing when nothing changed", async () => {
+		const { workflows } = fixtures["GET /workflows"].body as {
+			workflows: { id: string }[];
+		};
+		const quietOnly = {
+			...fixtures,
+			"GET /workflows": {
+				status: 200,
+				body: {
+					workflows: workflows.filter((w) => w.id === "wf_quiet"),
+					pagination: { total: 1, hasMore: false },
+				},
+			},
+		};
+		test = await startTestClient(quietOnly);
+		const digest = await getDigest({ format: "briefing" });
+
+		expect(digest.summary).toContain("1 total executions since");
+		expect(digest.formatted_output).toContain("## All Quiet");
+		expect(digest.formatted_output).toContain(
+			"No significant changes detected across your 1 active monitors.",
+		);
+		expect(digest.formatted_output).toMatch(/- Competitor blog: \d+ days ago/);
+		expect(digest.formatted_output).not.toContain("## Urgent");
+	});
+
+	it("keeps only the essentials in compact format", async () => {
+		test = await startTestClient(fixtures);
+		const digest = await getDigest({ format: "compact" });
+
+		expect(digest.formatted_output).toBe(
+			"Compact: 3 changes across 4 workflows",
+		);
+		expect(digest.workflows[0]).toEqual({
+			workflow_id: "wf_reg",
+			workflow_name: "EU AI Act",
+			status: "completed",
+			has_changes: true,
+			triggered_condition: true,
+			change_summary: "+2 added, ↑1 increased",
+			new_urls_count: 2,
+		});
+	});
+});